@@ -0,0 +1,74 @@
+import type { BindParams, Database, default as InitSqlJs, SqlJsStatic, SqlValue } from 'sql.js';
+
+/**
+ * expo-sqlite for tests: the async database API the storage engine uses,
+ * on sql.js, an in-memory build of SQLite. Databases live until
+ * deleteDatabaseAsync, so reopening one finds the data written before.
+ */
+
+type BindValue = string | number | boolean | null | undefined;
+
+// The asm.js build: the WebAssembly one fails in the React Native test environment
+const initSqlJs: typeof InitSqlJs = require('sql.js/dist/sql-asm.js');
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+const databases = new Map<string, Database>();
+
+// expo-sqlite takes parameters either spread or as one array
+const toParams = (params: (BindValue | BindValue[])[]): BindParams => {
+  const values = params.length === 1 && Array.isArray(params[0]) ? params[0] : params as BindValue[];
+  return values.map(value => (value === undefined ? null : typeof value === 'boolean' ? Number(value) : value));
+};
+
+class MockSQLiteDatabase {
+  constructor(private db: Database) {}
+
+  public async execAsync(source: string): Promise<void> {
+    this.db.exec(source);
+  }
+
+  public async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this.db.exec('BEGIN');
+    try {
+      await task();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  public async runAsync(source: string, ...params: (BindValue | BindValue[])[]) {
+    this.db.run(source, toParams(params));
+    return { lastInsertRowId: 0, changes: this.db.getRowsModified() };
+  }
+
+  public async getFirstAsync<T>(source: string, ...params: (BindValue | BindValue[])[]): Promise<T | null> {
+    const [first] = await this.getAllAsync<T>(source, ...params);
+    return first ?? null;
+  }
+
+  public async getAllAsync<T>(source: string, ...params: (BindValue | BindValue[])[]): Promise<T[]> {
+    const statement = this.db.prepare(source, toParams(params));
+    const rows: Record<string, SqlValue>[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    statement.free();
+    return rows as T[];
+  }
+}
+
+export async function openDatabaseAsync(databaseName: string): Promise<MockSQLiteDatabase> {
+  sqlJs = sqlJs || initSqlJs();
+  const SQL = await sqlJs;
+  if (!databases.has(databaseName)) {
+    databases.set(databaseName, new SQL.Database());
+  }
+  return new MockSQLiteDatabase(databases.get(databaseName)!);
+}
+
+export async function deleteDatabaseAsync(databaseName: string): Promise<void> {
+  databases.get(databaseName)?.close();
+  databases.delete(databaseName);
+}
@@ -6,8 +6,17 @@ export default {
     slug: 'my-app',
     version: '1.0.0',
     extra: {
+        // LLM provider selection: openai | anthropic | local | fake (offline fixtures)
+        LLM_PROVIDER: process.env.LLM_PROVIDER,
+        LLM_MODEL: process.env.LLM_MODEL,
+        LLM_BASE_URL: process.env.LLM_BASE_URL,
+        // Embeddings for memory search: local (offline, default) | openai
+        LLM_EMBEDDINGS: process.env.LLM_EMBEDDINGS,
+        // Storage engine for tasks, habits, goals, journal and memories: asyncstorage (default) | sqlite
+        STORAGE_ENGINE: process.env.STORAGE_ENGINE,
 
-        OPENAI_KEY: process.env.OPENAI_API_KEY,
+        // Provider keys stay on the LLM proxy (server/); the app only knows its URL
+        LLM_PROXY_URL: process.env.LLM_PROXY_URL,
     },
   },
-};
\ No newline at end of file
+};
@@ -20,7 +20,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 // Data & hooks
 import { useJournalData } from '@/hooks/useJournalData';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { JournalEntry } from '@/services/journalService';
+import { Journal } from '@/types/app';
 
 // Константы для дизайн-системы
 const COLORS = {
@@ -76,7 +76,7 @@ const JournalEntryCard = ({
   onPress, 
   onLongPress 
 }: { 
-  entry: JournalEntry, 
+  entry: Journal, 
   onPress: () => void,
   onLongPress: () => void
 }) => {
@@ -123,7 +123,7 @@ const JournalEntryCard = ({
       
       <View style={styles.entryFooter}>
         <Text style={[styles.entryDate, { color: colors.secondaryText }]}>
-          {formatDate(entry.timestamp)}
+          {formatDate(entry.createdAt)}
         </Text>
         
         {entry.tags && entry.tags.length > 0 && (
@@ -266,8 +266,8 @@ const EntryEditorModal = ({
 }: {
   visible: boolean,
   onClose: () => void,
-  initialEntry?: Partial<JournalEntry>,
-  onSave: (entry: Partial<JournalEntry>) => void
+  initialEntry?: Partial<Journal>,
+  onSave: (entry: Partial<Journal>) => void
 }) => {
   const colorScheme = useColorScheme();
   const colors = COLORS[colorScheme || 'dark'];
@@ -459,7 +459,7 @@ const EntryViewerModal = ({
 }: {
   visible: boolean,
   onClose: () => void,
-  entry: JournalEntry | null,
+  entry: Journal | null,
   reflection: string | null,
   loadingReflection: boolean,
   onEdit: () => void,
@@ -529,7 +529,7 @@ const EntryViewerModal = ({
         <ScrollView style={styles.modalContent}>
           <View style={styles.entryMetadata}>
             <Text style={[styles.entryDateTime, { color: colors.secondaryText }]}>
-              {formatDate(entry.timestamp)}
+              {formatDate(entry.createdAt)}
             </Text>
             {entry.mood && (
               <View style={styles.entryMood}>
@@ -665,9 +665,9 @@ export default function JournalScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredEntries, setFilteredEntries] = useState<JournalEntry[]>([]);
+  const [filteredEntries, setFilteredEntries] = useState<Journal[]>([]);
   const [editorVisible, setEditorVisible] = useState(false);
-  const [currentEntry, setCurrentEntry] = useState<JournalEntry | null>(null);
+  const [currentEntry, setCurrentEntry] = useState<Journal | null>(null);
   const [viewerVisible, setViewerVisible] = useState(false);
   const [reflection, setReflection] = useState<string | null>(null);
   const [loadingReflection, setLoadingReflection] = useState(false);
@@ -726,14 +726,14 @@ export default function JournalScreen() {
   };
   
   // Open entry editor for existing entry
-  const openEditEntryEditor = (entry: JournalEntry) => {
+  const openEditEntryEditor = (entry: Journal) => {
     setCurrentEntry(entry);
     setViewerVisible(false);
     setEditorVisible(true);
   };
   
   // Save entry (create or update)
-  const saveEntry = async (entryData: Partial<JournalEntry>) => {
+  const saveEntry = async (entryData: Partial<Journal>) => {
     if (entryData.id) {
       await updateEntry(entryData.id, entryData);
     } else {
@@ -742,7 +742,7 @@ export default function JournalScreen() {
   };
   
   // Open entry viewer
-  const openEntryViewer = async (entry: JournalEntry) => {
+  const openEntryViewer = async (entry: Journal) => {
     setCurrentEntry(entry);
     setReflection(null);
     setViewerVisible(true);
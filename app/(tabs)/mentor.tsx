@@ -21,8 +21,9 @@ import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 
 // Заглушки для данных (в реальном приложении будут из Redux или Context)
-import { useMentorData, MessageType } from '@/hooks/useMentorData';
+import { useMentorData, MessageType, MentorMessage } from '@/hooks/useMentorData';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { ActionCard, describeAction } from '@/components/ActionCard';
 
 // Константы для дизайн-системы
 const COLORS = {
@@ -54,8 +55,15 @@ const COLORS = {
   },
 };
 
+// Значки состояния отправки сообщений пользователя
+const STATUS_ICONS = {
+  pending: 'time-outline',
+  sent: 'checkmark',
+  failed: 'alert-circle',
+} as const;
+
 // Компонент пузыря сообщения
-const MessageBubble = ({ message }: { message: any }) => {
+const MessageBubble = ({ message, onRetry }: { message: MentorMessage, onRetry: () => void }) => {
   const colorScheme = useColorScheme();
   const colors = COLORS[colorScheme || 'dark'];
   
@@ -86,20 +94,40 @@ const MessageBubble = ({ message }: { message: any }) => {
         { color: isUser ? colors.userText : colors.mentorText }
       ]}>
         {message.text}
+        {message.isStreaming && (
+          <Text style={{ color: colors.secondaryText }}>▍</Text>
+        )}
       </Text>
       
-      <Text style={[
-        styles.messageTime,
-        { 
-          color: isUser ? 'rgba(255, 255, 255, 0.7)' : colors.secondaryText,
-          alignSelf: isUser ? 'flex-end' : 'flex-start',
-        }
-      ]}>
-        {new Date(message.timestamp).toLocaleTimeString([], { 
-          hour: '2-digit', 
-          minute: '2-digit' 
-        })}
-      </Text>
+      <View style={[styles.messageFooter, { alignSelf: isUser ? 'flex-end' : 'flex-start' }]}>
+        <Text style={[
+          styles.messageTime,
+          { color: isUser ? 'rgba(255, 255, 255, 0.7)' : colors.secondaryText }
+        ]}>
+          {new Date(message.timestamp).toLocaleTimeString([], { 
+            hour: '2-digit', 
+            minute: '2-digit' 
+          })}
+        </Text>
+        {isUser && message.status && (
+          <Ionicons
+            name={STATUS_ICONS[message.status]}
+            size={12}
+            color="rgba(255, 255, 255, 0.7)"
+            style={styles.statusIcon}
+          />
+        )}
+      </View>
+      
+      {/* Сообщение в очереди или с ошибкой можно отправить заново */}
+      {isUser && (message.status === 'failed' || (message.status === 'pending' && message.error)) && (
+        <TouchableOpacity style={styles.retryButton} onPress={onRetry}>
+          <Text style={styles.retryText}>
+            {message.error ? `${message.error} ` : ''}Повторить
+          </Text>
+          <Ionicons name="refresh" size={12} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -266,6 +294,10 @@ const styles = StyleSheet.create({
   personaSubtitle: {
     fontSize: 12,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   headerButton: {
     padding: 8,
   },
@@ -288,9 +320,31 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 22,
   },
+  messageFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
   messageTime: {
     fontSize: 10,
-    marginTop: 4,
+  },
+  statusIcon: {
+    marginLeft: 4,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 6,
+    paddingTop: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  retryText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    marginRight: 4,
+    flexShrink: 1,
   },
   systemMessageContainer: {
     alignItems: 'center',
@@ -471,11 +525,19 @@ export default function MentorScreen() {
     personas,
     selectedPersonaId,
     loading, 
+    isStreaming,
     sendMessage,
+    retryMessage,
+    stopGenerating,
     setPersona,
     startVoiceInput,
     stopVoiceInput,
-    clearConversation
+    startNewConversation,
+    applyAction,
+    editAction,
+    dismissAction,
+    undoAction,
+    requiresConfirmation
   } = useMentorData();
   
   useEffect(() => {
@@ -514,20 +576,49 @@ export default function MentorScreen() {
     setShowPersonaSelector(false);
   };
   
-  const handleClearConversation = () => {
-    // Добавляем подтверждение
-    Alert.alert(
-      "Очистить диалог",
-      "Вы уверены, что хотите очистить весь диалог?",
-      [
-        { text: "Отмена", style: "cancel" },
-        { 
-          text: "Очистить", 
-          style: "destructive", 
-          onPress: () => clearConversation() 
-        }
-      ]
-    );
+  const handleNewConversation = () => {
+    // Прошлый диалог сохраняется и доступен в истории
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    startNewConversation();
+  };
+  
+  const handleApplyAction = (item: MentorMessage) => {
+    const { action } = item.attachedData;
+    
+    // Разрушительные действия всегда требуют явного подтверждения
+    if (requiresConfirmation(action)) {
+      Alert.alert(
+        "Подтвердите действие",
+        `${describeAction(action)}?`,
+        [
+          { text: "Отмена", style: "cancel" },
+          { 
+            text: "Выполнить", 
+            style: "destructive", 
+            onPress: () => applyAction(item.id) 
+          }
+        ]
+      );
+      return;
+    }
+    
+    applyAction(item.id);
+  };
+  
+  const renderMessage = ({ item }: { item: MentorMessage }) => {
+    if (item.type === MessageType.Action) {
+      return (
+        <ActionCard
+          card={item.attachedData}
+          onApply={() => handleApplyAction(item)}
+          onEdit={(action) => editAction(item.id, action)}
+          onDismiss={() => dismissAction(item.id)}
+          onUndo={() => undoAction(item.id)}
+        />
+      );
+    }
+    
+    return <MessageBubble message={item} onRetry={() => retryMessage(item.id)} />;
   };
   
   // Находим данные о выбранной персоне
@@ -567,19 +658,39 @@ export default function MentorScreen() {
           </View>
         </View>
         
-        <TouchableOpacity
-          style={styles.headerButton}
-          onPress={handleClearConversation}
-        >
-          <Ionicons name="trash-outline" size={24} color={colors.secondaryText} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.push('/screens/usage')}
+          >
+            <Ionicons name="stats-chart-outline" size={24} color={colors.secondaryText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.push('/screens/memory')}
+          >
+            <Ionicons name="library-outline" size={24} color={colors.secondaryText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.push('/screens/conversations')}
+          >
+            <Ionicons name="chatbubbles-outline" size={24} color={colors.secondaryText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleNewConversation}
+          >
+            <Ionicons name="create-outline" size={24} color={colors.secondaryText} />
+          </TouchableOpacity>
+        </View>
       </View>
       
       {/* Список сообщений */}
       <FlatList
         ref={messagesListRef}
         data={messages}
-        renderItem={({ item }) => <MessageBubble message={item} />}
+        renderItem={renderMessage}
         keyExtractor={(item) => item.id}
         contentContainerStyle={[
           styles.messagesList,
@@ -655,7 +766,15 @@ export default function MentorScreen() {
           maxLength={1000}
         />
         
-        {message.trim().length > 0 ? (
+        {isStreaming ? (
+          <TouchableOpacity
+            style={[styles.sendButton, { backgroundColor: colors.primary }]}
+            onPress={stopGenerating}
+            accessibilityLabel="Остановить ответ"
+          >
+            <Ionicons name="stop" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        ) : message.trim().length > 0 ? (
           <TouchableOpacity
             style={[styles.sendButton, { backgroundColor: colors.primary }]}
             onPress={handleSend}
@@ -21,6 +21,7 @@ import { HabitItem } from '@/components/HabitItem';
 // Заглушки для данных (в реальном приложении будут из Redux или Context)
 import { useOperationsData } from '@/hooks/useOperationsData';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { Task } from '@/types/app';
 
 // Константы для дизайн-системы
 const COLORS = {
@@ -50,28 +51,6 @@ const COLORS = {
   },
 };
 
-// Типы данных
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  completed: boolean;
-  priority: 'high' | 'medium' | 'low';
-  dueDate?: string;
-  category?: string;
-  tags?: string[];
-}
-
-interface Habit {
-  id: string;
-  title: string;
-  description?: string;
-  frequency: 'daily' | 'weekly' | 'custom';
-  completedDates: string[];
-  streak: number;
-  category?: string;
-}
-
 // Компонент задачи с анимацией выполнения
 const TaskItem = ({ 
   task, 
@@ -114,8 +93,10 @@ const TaskItem = ({
     }).start();
   };
   
+  const completed = task.status === 'completed';
+  
   const handleToggle = () => {
-    animateCompletion(!task.completed);
+    animateCompletion(!completed);
     onToggle(task.id);
   };
   
@@ -149,7 +130,7 @@ const TaskItem = ({
       style={[
         styles.taskItem,
         { 
-          backgroundColor: task.completed ? colors.completed : colors.cardBackground,
+          backgroundColor: completed ? colors.completed : colors.cardBackground,
           transform: [{ scale: scaleAnim }],
           opacity: opacityAnim,
         },
@@ -162,11 +143,11 @@ const TaskItem = ({
         <View style={[
           styles.checkbox,
           { 
-            borderColor: task.completed ? colors.success : getPriorityColor(),
-            backgroundColor: task.completed ? colors.success : 'transparent',
+            borderColor: completed ? colors.success : getPriorityColor(),
+            backgroundColor: completed ? colors.success : 'transparent',
           }
         ]}>
-          {task.completed && (
+          {completed && (
             <Ionicons name="checkmark" size={16} color="#FFFFFF" />
           )}
         </View>
@@ -178,7 +159,7 @@ const TaskItem = ({
             styles.taskTitle, 
             { 
               color: colors.text,
-              textDecorationLine: task.completed ? 'line-through' : 'none',
+              textDecorationLine: completed ? 'line-through' : 'none',
             }
           ]}
         >
@@ -191,7 +172,7 @@ const TaskItem = ({
               styles.taskDescription, 
               { 
                 color: colors.secondaryText,
-                textDecorationLine: task.completed ? 'line-through' : 'none',
+                textDecorationLine: completed ? 'line-through' : 'none',
               }
             ]}
             numberOfLines={2}
@@ -422,6 +403,19 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 40,
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
   inputContainer: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -614,6 +608,7 @@ export default function OperationsScreen() {
   const [activeTab, setActiveTab] = useState(0); // 0 - Tasks, 1 - Habits
   const [refreshing, setRefreshing] = useState(false);
   const [newTaskText, setNewTaskText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   
   // Получение данных через хуки (в реальном приложении из Redux)
@@ -626,6 +621,7 @@ export default function OperationsScreen() {
     deleteTask,
     editTask,
     addTask,
+    searchTasks,
     completeHabit,
     editHabit,
     refreshData,
@@ -653,10 +649,10 @@ export default function OperationsScreen() {
     await generateAITasks();
   };
   
-  // Фильтрация задач по категории
-  const filteredTasks = selectedCategory
-    ? tasks.filter(task => task.category === selectedCategory)
-    : tasks;
+  // Фильтрация задач по поисковому запросу и категории
+  const filteredTasks = searchTasks(searchQuery).filter(task =>
+    !selectedCategory || task.category === selectedCategory
+  );
   
   // Фильтрация привычек по категории
   const filteredHabits = selectedCategory
@@ -716,6 +712,23 @@ export default function OperationsScreen() {
       {activeTab === 0 ? (
         // Вкладка Задачи
         <>
+          <View style={[styles.searchContainer, { backgroundColor: colors.cardBackground }]}>
+            <Ionicons name="search" size={18} color={colors.secondaryText} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              placeholder="Поиск задач..."
+              placeholderTextColor={colors.secondaryText}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              returnKeyType="search"
+            />
+            {searchQuery.length > 0 && (
+              <TouchableOpacity onPress={() => setSearchQuery('')}>
+                <Ionicons name="close-circle" size={18} color={colors.secondaryText} />
+              </TouchableOpacity>
+            )}
+          </View>
+          
           <View style={styles.inputContainer}>
             <TextInput
               style={[styles.input, { 
@@ -764,7 +777,9 @@ export default function OperationsScreen() {
                   Нет активных задач
                 </Text>
                 <Text style={[styles.emptyText, { color: colors.secondaryText }]}>
-                  {selectedCategory 
+                  {searchQuery.trim()
+                    ? `По запросу "${searchQuery.trim()}" ничего не найдено`
+                    : selectedCategory 
                     ? `Нет задач в категории "${selectedCategory}"`
                     : 'Добавьте новую задачу или используйте AI-план для генерации задач'
                   }
@@ -15,6 +15,7 @@ import { Ionicons } from '@expo/vector-icons';
 // Заглушки для данных (в реальном приложении будут из Redux или Context)
 import { useStrategicData } from '@/hooks/useStrategicData';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { GoalNode } from '@/types/app';
 
 // Константы для дизайн-системы
 const COLORS = {
@@ -42,17 +43,6 @@ const COLORS = {
   },
 };
 
-// Типы данных для целей
-interface Goal {
-  id: string;
-  title: string;
-  description: string;
-  status: 'not_started' | 'in_progress' | 'completed' | 'at_risk';
-  progress: number;
-  dueDate?: string;
-  children?: Goal[];
-}
-
 // Базовые компоненты
 const Card = ({ children, style }: { children: React.ReactNode, style?: any }) => {
   const colorScheme = useColorScheme();
@@ -117,7 +107,7 @@ const ProgressBar = ({
 };
 
 // Компонент для отображения статуса цели
-const StatusBadge = ({ status }: { status: Goal['status'] }) => {
+const StatusBadge = ({ status }: { status: GoalNode['status'] }) => {
   const colorScheme = useColorScheme();
   const colors = COLORS[colorScheme || 'dark'];
   
@@ -141,6 +131,10 @@ const StatusBadge = ({ status }: { status: Goal['status'] }) => {
       badgeColor = colors.warning;
       statusText = 'Под угрозой';
       break;
+    case 'canceled':
+      badgeColor = colors.neutral;
+      statusText = 'Отменена';
+      break;
     default:
       badgeColor = colors.neutral;
       statusText = 'Неизвестно';
@@ -160,8 +154,8 @@ const GoalItem = ({
   isExpanded = false,
   level = 0
 }: { 
-  goal: Goal, 
-  onPress: (goal: Goal) => void,
+  goal: GoalNode, 
+  onPress: (goal: GoalNode) => void,
   isExpanded?: boolean,
   level?: number
 }) => {
@@ -239,7 +233,7 @@ const GoalItem = ({
 };
 
 // Хелпер для определения цвета статуса
-const getStatusColor = (status: Goal['status'], colorScheme: 'light' | 'dark' | null) => {
+const getStatusColor = (status: GoalNode['status'], colorScheme: 'light' | 'dark' | null) => {
   const colors = COLORS[colorScheme || 'dark'];
   
   switch (status) {
@@ -520,9 +514,9 @@ export default function StrategyScreen() {
   const colors = COLORS[colorScheme || 'dark'];
   
   const [refreshing, setRefreshing] = useState(false);
-  const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
+  const [selectedGoal, setSelectedGoal] = useState<GoalNode | null>(null);
   
-  // Получение данных (в реальном приложении из Redux)
+  // Получение данных из общего хранилища
   const { 
     goals, 
     insights, 
@@ -537,7 +531,7 @@ export default function StrategyScreen() {
     setRefreshing(false);
   };
   
-  const handleGoalPress = (goal: Goal) => {
+  const handleGoalPress = (goal: GoalNode) => {
     setSelectedGoal(goal);
   };
   
@@ -3,37 +3,84 @@ import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { Provider } from 'react-redux';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { aiCoreService } from '@/services/ai/aiCoreService';
+import { checkIntegrity, repairIntegrity } from '@/services/integrityCheck';
+import { prepareStorage } from '@/services/migrations';
+import { connectStore, store } from '@/store/store';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+// Offers to repair stored data that fails the integrity check
+async function offerIntegrityRepair(): Promise<void> {
+  const { issues } = await checkIntegrity();
+  if (issues.length === 0) return;
+
+  issues.forEach(issue => console.warn(`Integrity check: ${issue.description}`));
+  Alert.alert(
+    'Проверка данных',
+    `В сохранённых данных найдены ошибки: ${issues.length}. Исправить их автоматически?`,
+    [
+      { text: 'Позже', style: 'cancel' },
+      {
+        text: 'Исправить',
+        onPress: () => {
+          repairIntegrity().catch(error => console.error('Storage repair failed:', error));
+        }
+      }
+    ]
+  );
+}
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
+  const [migrated, setMigrated] = useState(false);
+
+  // Bring stored data to the current format and open the storage engine
+  // before any screen or service reads it, then look for records the
+  // screens cannot show correctly
+  useEffect(() => {
+    prepareStorage()
+      .catch(error => console.error('Storage migration failed:', error))
+      .finally(() => {
+        aiCoreService.start();
+        setMigrated(true);
+      })
+      .then(offerIntegrityRepair)
+      .catch(error => console.error('Storage integrity check failed:', error));
+  }, []);
+
+  // Keep the store in sync with data changed by services outside it
+  useEffect(() => connectStore(store), []);
 
   useEffect(() => {
-    if (loaded) {
+    if (loaded && migrated) {
       SplashScreen.hideAsync();
     }
-  }, [loaded]);
+  }, [loaded, migrated]);
 
-  if (!loaded) {
+  if (!loaded || !migrated) {
     return null;
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <Provider store={store}>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="+not-found" />
+        </Stack>
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </Provider>
   );
 }
@@ -6,6 +6,9 @@ export default function ScreensLayout() {
       <Stack.Screen name="create-goal" options={{ title: 'Создание цели' }} />
       <Stack.Screen name="create-task" options={{ title: 'Создание задачи' }} />
       <Stack.Screen name="create-habit" options={{ title: 'Создание привычки' }} />
+      <Stack.Screen name="conversations" options={{ title: 'Диалоги' }} />
+      <Stack.Screen name="memory" options={{ title: 'Что помнит ментор' }} />
+      <Stack.Screen name="usage" options={{ title: 'Расход AI' }} />
     </Stack>
   );
 }
\ No newline at end of file
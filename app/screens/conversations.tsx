@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useConversations } from '@/hooks/useConversations';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Conversation } from '@/types/ai';
+
+const COLORS = {
+  light: {
+    background: '#FFFFFF',
+    cardBackground: '#F5F5F5',
+    text: '#1A1A1A',
+    secondaryText: '#6E6E6E',
+    primary: '#E53935',
+    separator: '#E0E0E0',
+  },
+  dark: {
+    background: '#121212',
+    cardBackground: '#1E1E1E',
+    text: '#F5F5F5',
+    secondaryText: '#AAAAAA',
+    primary: '#FF5252',
+    separator: '#333333',
+  },
+};
+
+// Форматирование даты диалога
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleString('ru-RU', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function ConversationsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = COLORS[colorScheme || 'dark'];
+
+  const {
+    activeConversations,
+    archivedConversations,
+    personas,
+    currentId,
+    loading,
+    openConversation,
+    renameConversation,
+    setArchived,
+    deleteConversation,
+  } = useConversations();
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const handleOpen = async (conversation: Conversation) => {
+    if (conversation.id !== currentId) {
+      await openConversation(conversation.id);
+    }
+    router.back();
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  // Вызывается и по Enter, и при потере фокуса — сохраняем один раз
+  const submitRename = async () => {
+    if (!editingId) return;
+    const id = editingId;
+    setEditingId(null);
+    await renameConversation(id, editingTitle);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    Alert.alert(
+      "Удалить диалог",
+      `Диалог «${conversation.title}» и связанная с ним память будут удалены.`,
+      [
+        { text: "Отмена", style: "cancel" },
+        {
+          text: "Удалить",
+          style: "destructive",
+          onPress: () => deleteConversation(conversation.id)
+        }
+      ]
+    );
+  };
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const persona = personas.find(p => p.id === item.personaId);
+    const isCurrent = item.id === currentId;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.card,
+          { backgroundColor: colors.cardBackground },
+          isCurrent && { borderColor: colors.primary, borderWidth: 1 }
+        ]}
+        onPress={() => handleOpen(item)}
+        disabled={editingId === item.id}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={styles.personaIcon}>{persona?.icon || '👨‍💼'}</Text>
+          {editingId === item.id ? (
+            <TextInput
+              style={[styles.titleInput, { color: colors.text, borderColor: colors.separator }]}
+              value={editingTitle}
+              onChangeText={setEditingTitle}
+              onSubmitEditing={submitRename}
+              onBlur={submitRename}
+              autoFocus
+              returnKeyType="done"
+            />
+          ) : (
+            <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+              {item.title}
+            </Text>
+          )}
+          {isCurrent && (
+            <Text style={[styles.currentBadge, { color: colors.primary }]}>текущий</Text>
+          )}
+        </View>
+
+        <Text style={[styles.meta, { color: colors.secondaryText }]}>
+          {persona?.name || 'Ментор'} · {item.messageCount} сообщ.
+        </Text>
+        <Text style={[styles.meta, { color: colors.secondaryText }]}>
+          {formatDate(item.startedAt)}
+          {item.endedAt ? ` — ${formatDate(item.endedAt)}` : ''}
+        </Text>
+
+        <View style={[styles.actions, { borderTopColor: colors.separator }]}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => startRename(item)}>
+            <Ionicons name="pencil-outline" size={18} color={colors.secondaryText} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setArchived(item.id, !item.archived)}>
+            <Ionicons
+              name={item.archived ? "arrow-undo-outline" : "archive-outline"}
+              size={18}
+              color={colors.secondaryText}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item)}>
+            <Ionicons name="trash-outline" size={18} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const data = showArchived ? archivedConversations : activeConversations;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.tabs, { borderBottomColor: colors.separator }]}>
+        {[false, true].map(archived => (
+          <TouchableOpacity
+            key={String(archived)}
+            style={[styles.tab, showArchived === archived && { borderBottomColor: colors.primary }]}
+            onPress={() => setShowArchived(archived)}
+          >
+            <Text style={{ color: showArchived === archived ? colors.primary : colors.secondaryText }}>
+              {archived ? `Архив (${archivedConversations.length})` : `Активные (${activeConversations.length})`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && data.length === 0 ? (
+        <ActivityIndicator style={styles.loader} color={colors.primary} />
+      ) : (
+        <FlatList
+          data={data}
+          renderItem={renderConversation}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={() => (
+            <Text style={[styles.emptyText, { color: colors.secondaryText }]}>
+              {showArchived ? 'В архиве нет диалогов' : 'Диалогов пока нет'}
+            </Text>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  loader: {
+    marginTop: 32,
+  },
+  list: {
+    padding: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  personaIcon: {
+    fontSize: 20,
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 16,
+    borderBottomWidth: 1,
+    paddingVertical: 2,
+  },
+  currentBadge: {
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    borderTopWidth: 1,
+    marginTop: 8,
+    paddingTop: 4,
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ProfileMemoryItem, useMentorMemory } from '@/hooks/useMentorMemory';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { ProfileSource } from '@/services/ai/userProfileEngine';
+import { MemoryItem } from '@/types/ai';
+
+const COLORS = {
+  light: {
+    background: '#FFFFFF',
+    cardBackground: '#F5F5F5',
+    text: '#1A1A1A',
+    secondaryText: '#6E6E6E',
+    primary: '#E53935',
+    separator: '#E0E0E0',
+  },
+  dark: {
+    background: '#121212',
+    cardBackground: '#1E1E1E',
+    text: '#F5F5F5',
+    secondaryText: '#AAAAAA',
+    primary: '#FF5252',
+    separator: '#333333',
+  },
+};
+
+const PROFILE_LIST_LABELS: Record<ProfileMemoryItem['list'], string> = {
+  aiInsights: 'Наблюдение',
+  values: 'Ценность',
+  goals: 'Цель',
+};
+
+// Форматирование даты воспоминания
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('ru-RU', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+export default function MemoryScreen() {
+  const colorScheme = useColorScheme();
+  const colors = COLORS[colorScheme || 'dark'];
+
+  const {
+    memories,
+    profileItems,
+    conversationTitles,
+    searchQuery,
+    loading,
+    search,
+    loadMore,
+    togglePin,
+    editMemory,
+    deleteMemory,
+    editProfileItem,
+    deleteProfileItem,
+  } = useMentorMemory();
+
+  const [showProfile, setShowProfile] = useState(false);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
+
+  const profileKey = (item: ProfileMemoryItem) => `${item.list}_${item.index}`;
+
+  const startEdit = (key: string, text: string) => {
+    setEditingKey(key);
+    setEditingText(text);
+  };
+
+  // Вызывается и по кнопке, и при потере фокуса — сохраняем один раз
+  const submitEdit = async (save: (text: string) => Promise<void>) => {
+    if (!editingKey) return;
+    setEditingKey(null);
+    await save(editingText);
+  };
+
+  const confirmDelete = (text: string, onDelete: () => void) => {
+    Alert.alert(
+      "Забыть",
+      `Ментор больше не будет помнить: «${text.slice(0, 80)}${text.length > 80 ? '…' : ''}»`,
+      [
+        { text: "Отмена", style: "cancel" },
+        { text: "Забыть", style: "destructive", onPress: onDelete }
+      ]
+    );
+  };
+
+  const describeMemorySource = (memory: MemoryItem) => {
+    const title = conversationTitles[memory.conversationId];
+    const conversation = title ? `диалог «${title}»` : 'удалённый диалог';
+    const origin = memory.kind === 'summary'
+      ? `Сводка ${memory.sources?.length || 0} сообщ. · ${conversation}`
+      : `${memory.role === 'user' ? 'Ваше сообщение' : 'Ответ ментора'} · ${conversation}`;
+    return `${origin} · ${formatDate(memory.timestamp)}${memory.editedAt ? ' · исправлено' : ''}`;
+  };
+
+  const describeProfileSource = (source?: ProfileSource) => {
+    if (!source) return 'Источник неизвестен';
+    if (source.type === 'onboarding') return `Из анкеты · ${formatDate(source.date)}`;
+    if (source.type === 'user') return `Исправлено вами · ${formatDate(source.date)}`;
+
+    const title = source.conversationId && conversationTitles[source.conversationId];
+    return `${title ? `Из диалога «${title}»` : 'Из диалога'} · ${formatDate(source.date)}`;
+  };
+
+  const renderEditor = (save: (text: string) => Promise<void>) => (
+    <TextInput
+      style={[styles.editInput, { color: colors.text, borderColor: colors.separator }]}
+      value={editingText}
+      onChangeText={setEditingText}
+      onBlur={() => submitEdit(save)}
+      multiline
+      autoFocus
+    />
+  );
+
+  const renderMemory = ({ item }: { item: MemoryItem }) => {
+    const isEditing = editingKey === item.id;
+
+    return (
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: colors.cardBackground },
+          item.pinned && { borderColor: colors.primary, borderWidth: 1 }
+        ]}
+      >
+        {isEditing ? (
+          renderEditor(text => editMemory(item.id, text))
+        ) : (
+          <Text style={[styles.content, { color: colors.text }]}>{item.content}</Text>
+        )}
+        <Text style={[styles.meta, { color: colors.secondaryText }]}>{describeMemorySource(item)}</Text>
+
+        <View style={[styles.actions, { borderTopColor: colors.separator }]}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => togglePin(item)}>
+            <Ionicons
+              name={item.pinned ? "pin" : "pin-outline"}
+              size={18}
+              color={item.pinned ? colors.primary : colors.secondaryText}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => (isEditing ? submitEdit(text => editMemory(item.id, text)) : startEdit(item.id, item.content))}
+          >
+            <Ionicons name={isEditing ? "checkmark" : "pencil-outline"} size={18} color={colors.secondaryText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => confirmDelete(item.content, () => deleteMemory(item.id))}
+          >
+            <Ionicons name="trash-outline" size={18} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderProfileItem = ({ item }: { item: ProfileMemoryItem }) => {
+    const key = profileKey(item);
+    const isEditing = editingKey === key;
+
+    return (
+      <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <Text style={[styles.label, { color: colors.primary }]}>{PROFILE_LIST_LABELS[item.list]}</Text>
+        {isEditing ? (
+          renderEditor(text => editProfileItem(item, text))
+        ) : (
+          <Text style={[styles.content, { color: colors.text }]}>{item.text}</Text>
+        )}
+        <Text style={[styles.meta, { color: colors.secondaryText }]}>{describeProfileSource(item.source)}</Text>
+
+        <View style={[styles.actions, { borderTopColor: colors.separator }]}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => (isEditing ? submitEdit(text => editProfileItem(item, text)) : startEdit(key, item.text))}
+          >
+            <Ionicons name={isEditing ? "checkmark" : "pencil-outline"} size={18} color={colors.secondaryText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => confirmDelete(item.text, () => deleteProfileItem(item))}
+          >
+            <Ionicons name="trash-outline" size={18} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const emptyText = searchQuery.trim()
+    ? 'Ничего не найдено'
+    : showProfile ? 'Профиль пока пуст' : 'Ментор пока ничего не запомнил';
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.searchContainer, { backgroundColor: colors.cardBackground }]}>
+        <Ionicons name="search" size={18} color={colors.secondaryText} />
+        <TextInput
+          style={[styles.searchInput, { color: colors.text }]}
+          placeholder="Поиск по памяти..."
+          placeholderTextColor={colors.secondaryText}
+          value={searchQuery}
+          onChangeText={search}
+        />
+        {searchQuery.length > 0 && (
+          <TouchableOpacity onPress={() => search('')}>
+            <Ionicons name="close-circle" size={18} color={colors.secondaryText} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={[styles.tabs, { borderBottomColor: colors.separator }]}>
+        {[false, true].map(profile => (
+          <TouchableOpacity
+            key={String(profile)}
+            style={[styles.tab, showProfile === profile && { borderBottomColor: colors.primary }]}
+            onPress={() => setShowProfile(profile)}
+          >
+            <Text style={{ color: showProfile === profile ? colors.primary : colors.secondaryText }}>
+              {profile ? `Профиль (${profileItems.length})` : 'Воспоминания'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && memories.length === 0 && profileItems.length === 0 ? (
+        <ActivityIndicator style={styles.loader} color={colors.primary} />
+      ) : showProfile ? (
+        <FlatList
+          data={profileItems}
+          renderItem={renderProfileItem}
+          keyExtractor={profileKey}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={() => (
+            <Text style={[styles.emptyText, { color: colors.secondaryText }]}>{emptyText}</Text>
+          )}
+        />
+      ) : (
+        <FlatList
+          data={memories}
+          renderItem={renderMemory}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={() => (
+            <Text style={[styles.emptyText, { color: colors.secondaryText }]}>{emptyText}</Text>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    margin: 16,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 16,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  loader: {
+    marginTop: 32,
+  },
+  list: {
+    padding: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  content: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  editInput: {
+    fontSize: 15,
+    borderBottomWidth: 1,
+    paddingVertical: 2,
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    borderTopWidth: 1,
+    marginTop: 8,
+    paddingTop: 4,
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useLLMUsage } from '@/hooks/useLLMUsage';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { UsageTotals } from '@/services/ai/llm/usageTracker';
+import { LLMFeature } from '@/types/ai';
+
+const COLORS = {
+  light: {
+    background: '#FFFFFF',
+    cardBackground: '#F5F5F5',
+    text: '#1A1A1A',
+    secondaryText: '#6E6E6E',
+    primary: '#E53935',
+    separator: '#E0E0E0',
+  },
+  dark: {
+    background: '#121212',
+    cardBackground: '#1E1E1E',
+    text: '#F5F5F5',
+    secondaryText: '#AAAAAA',
+    primary: '#FF5252',
+    separator: '#333333',
+  },
+};
+
+const FEATURE_LABELS: Record<LLMFeature, string> = {
+  mentor_chat: 'Чат с ментором',
+  journal_analysis: 'Анализ дневника',
+  profile_update: 'Обновление профиля',
+  goal_planning: 'Планирование целей',
+  insights: 'Инсайты',
+  memory: 'Сводки памяти',
+  other: 'Прочее',
+};
+
+// Оценка по прайс-листам, поэтому показываем с точностью до цента
+const formatCost = (cost: number) => {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+};
+
+const formatTokens = (tokens: number) => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)} млн`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)} тыс.`;
+  return String(tokens);
+};
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('ru-RU', { month: 'long', year: 'numeric' });
+};
+
+const describeTotals = (totals: UsageTotals) => {
+  const details = [
+    `${totals.calls} запр.`,
+    `${formatTokens(totals.promptTokens + totals.completionTokens)} токенов`,
+  ];
+  if (totals.calls > 0) details.push(`${Math.round(totals.latencyMs / totals.calls)} мс`);
+  if (totals.failures > 0) details.push(`ошибок: ${totals.failures}`);
+  return details.join(' · ');
+};
+
+export default function UsageScreen() {
+  const colorScheme = useColorScheme();
+  const colors = COLORS[colorScheme || 'dark'];
+
+  const {
+    month,
+    summary,
+    caps,
+    loading,
+    isCurrentMonth,
+    showPreviousMonth,
+    showNextMonth,
+    setCap,
+  } = useLLMUsage();
+
+  // Черновики лимитов, пока пользователь вводит значение
+  const [drafts, setDrafts] = useState<Partial<Record<LLMFeature | 'total', string>>>({});
+
+  const capText = (target: LLMFeature | 'total') => {
+    const draft = drafts[target];
+    if (draft !== undefined) return draft;
+    const cap = target === 'total' ? caps.total : caps.features[target];
+    return cap ? String(cap) : '';
+  };
+
+  const submitCap = async (target: LLMFeature | 'total') => {
+    const draft = drafts[target];
+    if (draft === undefined) return;
+    setDrafts(current => {
+      const next = { ...current };
+      delete next[target];
+      return next;
+    });
+    await setCap(target, parseFloat(draft.replace(',', '.')) || undefined);
+  };
+
+  const renderRow = (key: string, title: string, totals: UsageTotals) => (
+    <View key={key} style={[styles.row, { borderBottomColor: colors.separator }]}>
+      <View style={styles.rowInfo}>
+        <Text style={[styles.rowTitle, { color: colors.text }]}>{title}</Text>
+        <Text style={[styles.meta, { color: colors.secondaryText }]}>{describeTotals(totals)}</Text>
+      </View>
+      <Text style={[styles.cost, { color: colors.text }]}>{formatCost(totals.cost)}</Text>
+    </View>
+  );
+
+  const renderCapInput = (target: LLMFeature | 'total', title: string) => (
+    <View key={target} style={[styles.row, { borderBottomColor: colors.separator }]}>
+      <Text style={[styles.rowTitle, styles.rowInfo, { color: colors.text }]}>{title}</Text>
+      <Text style={[styles.meta, { color: colors.secondaryText }]}>$</Text>
+      <TextInput
+        style={[styles.capInput, { color: colors.text, borderColor: colors.separator }]}
+        value={capText(target)}
+        onChangeText={text => setDrafts(current => ({ ...current, [target]: text }))}
+        onEndEditing={() => submitCap(target)}
+        placeholder="нет"
+        placeholderTextColor={colors.secondaryText}
+        keyboardType="decimal-pad"
+      />
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={styles.content}
+    >
+      <View style={styles.monthHeader}>
+        <TouchableOpacity style={styles.monthButton} onPress={showPreviousMonth}>
+          <Ionicons name="chevron-back" size={22} color={colors.secondaryText} />
+        </TouchableOpacity>
+        <Text style={[styles.monthTitle, { color: colors.text }]}>{formatMonth(month)}</Text>
+        <TouchableOpacity style={styles.monthButton} onPress={showNextMonth} disabled={isCurrentMonth}>
+          <Ionicons
+            name="chevron-forward"
+            size={22}
+            color={isCurrentMonth ? colors.separator : colors.secondaryText}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {loading && !summary ? (
+        <ActivityIndicator style={styles.loader} color={colors.primary} />
+      ) : summary && (
+        <>
+          <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            <Text style={[styles.totalCost, { color: colors.text }]}>{formatCost(summary.total.cost)}</Text>
+            <Text style={[styles.meta, { color: colors.secondaryText }]}>{describeTotals(summary.total)}</Text>
+            {isCurrentMonth && caps.total ? (
+              <Text style={[styles.meta, { color: summary.total.cost >= caps.total ? colors.primary : colors.secondaryText }]}>
+                {`Общий лимит: ${formatCost(caps.total)}`}
+              </Text>
+            ) : null}
+          </View>
+
+          <Text style={[styles.sectionTitle, { color: colors.secondaryText }]}>По функциям</Text>
+          <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            {summary.byFeature.length > 0 ? (
+              summary.byFeature.map(entry => renderRow(entry.feature, FEATURE_LABELS[entry.feature], entry))
+            ) : (
+              <Text style={[styles.meta, { color: colors.secondaryText }]}>Запросов к AI не было</Text>
+            )}
+          </View>
+
+          {summary.byModel.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, { color: colors.secondaryText }]}>По моделям</Text>
+              <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+                {summary.byModel.map(entry => renderRow(entry.model, entry.model, entry))}
+              </View>
+            </>
+          )}
+        </>
+      )}
+
+      <Text style={[styles.sectionTitle, { color: colors.secondaryText }]}>Лимиты на месяц</Text>
+      <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        {renderCapInput('total', 'Всего')}
+        {(Object.keys(FEATURE_LABELS) as LLMFeature[]).map(feature =>
+          renderCapInput(feature, FEATURE_LABELS[feature])
+        )}
+      </View>
+      <Text style={[styles.hint, { color: colors.secondaryText }]}>
+        Стоимость оценивается по ценам провайдеров. Когда лимит функции исчерпан, она приостанавливается
+        до следующего месяца. После общего лимита работает только чат с ментором — анализ дневника,
+        профиль и инсайты ждут нового месяца.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  monthButton: {
+    padding: 8,
+  },
+  monthTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginTop: 32,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  totalCost: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+  },
+  cost: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  capInput: {
+    width: 80,
+    fontSize: 15,
+    borderBottomWidth: 1,
+    paddingVertical: 2,
+    marginLeft: 4,
+    textAlign: 'right',
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 17,
+    marginBottom: 24,
+  },
+});
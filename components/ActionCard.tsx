@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { ActionCardData } from '@/hooks/useMentorData';
+import { AppAction, AppActionType } from '@/types/app';
+
+// Константы для дизайн-системы
+const COLORS = {
+  light: {
+    cardBackground: '#F5F5F5',
+    inputBackground: '#FFFFFF',
+    text: '#1A1A1A',
+    secondaryText: '#6E6E6E',
+    primary: '#E53935',
+    success: '#4CAF50',
+    warning: '#FF9800',
+    separator: '#E0E0E0',
+  },
+  dark: {
+    cardBackground: '#1E1E1E',
+    inputBackground: '#2C2C2C',
+    text: '#F5F5F5',
+    secondaryText: '#AAAAAA',
+    primary: '#FF5252',
+    success: '#66BB6A',
+    warning: '#FFA726',
+    separator: '#333333',
+  },
+};
+
+// Подписи действий для карточки
+const ACTION_LABELS: Record<AppActionType, string> = {
+  CREATE_TASK: 'Создать задачу',
+  UPDATE_TASK: 'Изменить задачу',
+  DELETE_TASK: 'Удалить задачу',
+  CREATE_GOAL: 'Создать цель',
+  UPDATE_GOAL: 'Изменить цель',
+  CREATE_HABIT: 'Создать привычку',
+  COMPLETE_HABIT: 'Отметить привычку',
+  NAVIGATE: 'Перейти',
+  CREATE_REFLECTION: 'Запись в дневник',
+  DISPLAY_MESSAGE: 'Сообщение',
+  TRACK_METRIC: 'Записать метрику',
+};
+
+// Подписи полей действия
+const FIELD_LABELS: Record<string, string> = {
+  title: 'название',
+  description: 'описание',
+  dueDate: 'срок',
+  priority: 'приоритет',
+  category: 'категория',
+  status: 'статус',
+  progress: 'прогресс',
+  frequency: 'частота',
+  timeOfDay: 'время',
+  content: 'текст',
+  mood: 'настроение',
+  name: 'метрика',
+  value: 'значение',
+  notes: 'заметки',
+  message: 'сообщение',
+  screen: 'экран',
+  date: 'дата',
+};
+
+const PRIORITY_LABELS: Record<string, string> = {
+  high: 'высокий',
+  medium: 'средний',
+  low: 'низкий',
+};
+
+// Поля, которые можно редактировать в карточке: строки и числа
+const getEditableFields = (action: AppAction): [string, string | number | null][] => {
+  const target = action.payload?.updates ?? action.payload ?? {};
+  return Object.entries(target).filter(
+    ([key, value]) =>
+      key !== 'id' && key !== 'timestamp' &&
+      (typeof value === 'string' || typeof value === 'number' || value === null)
+  ) as [string, string | number | null][];
+};
+
+/**
+ * Краткое описание действия, например «Создать задачу: Отчёт, приоритет высокий»
+ */
+export const describeAction = (action: AppAction): string => {
+  const label = ACTION_LABELS[action.type] || action.type;
+  const fields = getEditableFields(action).filter(([, value]) => value !== null && value !== '');
+
+  const [, mainValue] = fields.find(([key]) =>
+    ['title', 'name', 'content', 'message', 'screen'].includes(key)
+  ) || [];
+  const subject = mainValue ?? action.payload?.id ?? '';
+
+  const details = fields
+    .filter(([key]) => ['priority', 'dueDate', 'status', 'progress', 'value', 'frequency'].includes(key))
+    .map(([key, value]) => `${FIELD_LABELS[key]} ${key === 'priority' ? PRIORITY_LABELS[String(value)] || value : value}`);
+
+  return [subject ? `${label}: ${subject}` : label, ...details].join(', ');
+};
+
+interface ActionCardProps {
+  card: ActionCardData;
+  onApply: () => void;
+  onEdit: (action: AppAction) => void;
+  onDismiss: () => void;
+  onUndo: () => void;
+}
+
+export const ActionCard: React.FC<ActionCardProps> = ({
+  card,
+  onApply,
+  onEdit,
+  onDismiss,
+  onUndo
+}) => {
+  const colorScheme = useColorScheme();
+  const colors = COLORS[colorScheme || 'dark'];
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [canUndo, setCanUndo] = useState(false);
+
+  // Кнопка отмены доступна только до истечения окна отмены
+  useEffect(() => {
+    const expiresAt = card.result?.undoId && card.result.undoExpiresAt
+      ? new Date(card.result.undoExpiresAt).getTime()
+      : 0;
+    const remaining = expiresAt - Date.now();
+
+    setCanUndo(card.status === 'applied' && remaining > 0);
+    if (card.status !== 'applied' || remaining <= 0) return;
+
+    const timer = setTimeout(() => setCanUndo(false), remaining);
+    return () => clearTimeout(timer);
+  }, [card.status, card.result]);
+
+  const startEditing = () => {
+    setDraft(Object.fromEntries(
+      getEditableFields(card.action).map(([key, value]) => [key, value === null ? '' : String(value)])
+    ));
+    setIsEditing(true);
+  };
+
+  const saveEdits = () => {
+    const original = Object.fromEntries(getEditableFields(card.action));
+    const edited: Record<string, any> = {};
+
+    for (const [key, text] of Object.entries(draft)) {
+      const trimmed = text.trim();
+      if (typeof original[key] === 'number') {
+        const parsed = Number(trimmed);
+        edited[key] = trimmed === '' || Number.isNaN(parsed) ? original[key] : parsed;
+      } else {
+        edited[key] = trimmed === '' && original[key] === null ? null : trimmed;
+      }
+    }
+
+    const payload = card.action.payload.updates
+      ? { ...card.action.payload, updates: { ...card.action.payload.updates, ...edited } }
+      : { ...card.action.payload, ...edited };
+
+    onEdit({ ...card.action, payload });
+    setIsEditing(false);
+  };
+
+  const renderStatus = () => {
+    switch (card.status) {
+      case 'applied':
+        return (
+          <View style={styles.statusRow}>
+            <Text style={[styles.statusText, { color: colors.success }]}>
+              ✅ {card.result?.message || 'Применено'}
+            </Text>
+            {canUndo && (
+              <TouchableOpacity style={styles.linkButton} onPress={onUndo}>
+                <Text style={[styles.linkText, { color: colors.primary }]}>Отменить</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      case 'failed':
+        return (
+          <Text style={[styles.statusText, { color: colors.warning }]}>
+            ⚠️ Не удалось выполнить: {card.result?.message}
+          </Text>
+        );
+      case 'dismissed':
+        return (
+          <Text style={[styles.statusText, { color: colors.secondaryText }]}>Отклонено</Text>
+        );
+      case 'undone':
+        return (
+          <Text style={[styles.statusText, { color: colors.secondaryText }]}>Действие отменено</Text>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={[
+      styles.card,
+      { backgroundColor: colors.cardBackground, borderColor: colors.separator }
+    ]}>
+      <View style={styles.header}>
+        <Ionicons name="flash-outline" size={16} color={colors.primary} />
+        <Text style={[styles.title, { color: colors.text }]}>
+          {describeAction(card.action)}
+        </Text>
+      </View>
+
+      {isEditing ? (
+        <View>
+          {Object.entries(draft).map(([key, value]) => (
+            <View key={key} style={styles.field}>
+              <Text style={[styles.fieldLabel, { color: colors.secondaryText }]}>
+                {FIELD_LABELS[key] || key}
+              </Text>
+              <TextInput
+                style={[styles.fieldInput, { backgroundColor: colors.inputBackground, color: colors.text }]}
+                value={value}
+                onChangeText={text => setDraft(prev => ({ ...prev, [key]: text }))}
+                multiline={key === 'content' || key === 'description'}
+              />
+            </View>
+          ))}
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.primary }]}
+              onPress={saveEdits}
+            >
+              <Text style={styles.primaryButtonText}>Сохранить</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={() => setIsEditing(false)}>
+              <Text style={[styles.buttonText, { color: colors.secondaryText }]}>Отмена</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : card.status === 'pending' ? (
+        <View style={styles.buttons}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={onApply}
+          >
+            <Text style={styles.primaryButtonText}>Применить</Text>
+          </TouchableOpacity>
+          {getEditableFields(card.action).length > 0 && (
+            <TouchableOpacity style={styles.button} onPress={startEditing}>
+              <Text style={[styles.buttonText, { color: colors.text }]}>Изменить</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.button} onPress={onDismiss}>
+            <Text style={[styles.buttonText, { color: colors.secondaryText }]}>Отклонить</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        renderStatus()
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    alignSelf: 'stretch',
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginBottom: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    lineHeight: 20,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  primaryButtonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  linkButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  field: {
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  fieldInput: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+  },
+});
@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { Habit } from '@/hooks/useOperationsData';
+import { Habit } from '@/types/app';
 
 // Константы для дизайн-системы
 const COLORS = {
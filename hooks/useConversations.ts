@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { aiCoreService } from '@/services/ai/aiCoreService';
+import { conversationStore } from '@/services/ai/conversationStore';
+import { personalityEngine } from '@/services/ai/personalityEngine';
+import { appEvents } from '@/services/appEvents';
+import { Conversation, PersonaProfile } from '@/types/ai';
+
+/**
+ * Hook for browsing and managing past mentor conversations
+ */
+export function useConversations() {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [personas, setPersonas] = useState<PersonaProfile[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  // Load data on component mount
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Reload when the open conversation changes or gets a title
+  useEffect(() => {
+    return appEvents.subscribe(scopes => {
+      if (scopes.includes('conversations')) {
+        loadData();
+      }
+    });
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      setConversations(await conversationStore.getAll());
+      setPersonas(await personalityEngine.getAllPersonas());
+      setCurrentId(aiCoreService.getConversationId());
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Make a past conversation the open one in the mentor tab
+  const openConversation = async (conversationId: string): Promise<void> => {
+    await aiCoreService.openConversation(conversationId);
+    appEvents.emitDataChanged(['conversations']);
+  };
+
+  const renameConversation = async (conversationId: string, title: string): Promise<void> => {
+    if (!title.trim()) return;
+    await conversationStore.rename(conversationId, title);
+    await loadData();
+  };
+
+  const setArchived = async (conversationId: string, archived: boolean): Promise<void> => {
+    await conversationStore.setArchived(conversationId, archived);
+    await loadData();
+  };
+
+  // Delete a conversation; deleting the open one starts a new conversation
+  const deleteConversation = async (conversationId: string): Promise<void> => {
+    await conversationStore.delete(conversationId);
+
+    if (conversationId === aiCoreService.getConversationId()) {
+      await aiCoreService.startNewConversation();
+      appEvents.emitDataChanged(['conversations']);
+      return;
+    }
+
+    await loadData();
+  };
+
+  return {
+    conversations,
+    activeConversations: conversations.filter(c => !c.archived),
+    archivedConversations: conversations.filter(c => c.archived),
+    personas,
+    currentId,
+    loading,
+    openConversation,
+    renameConversation,
+    setArchived,
+    deleteConversation,
+    refresh: loadData
+  };
+}
@@ -1,7 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useOperationsData } from './useOperationsData';
-import { useStrategicData } from './useStrategicData';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { loadTasks, selectAllTasks, taskToggled } from '@/store/slices/tasksSlice';
+import { loadGoals, selectGoalInsights } from '@/store/slices/goalsSlice';
+import { Task } from '@/types/app';
 
 // Типы данных для дашборда
 interface WeeklyProgress {
@@ -32,7 +34,8 @@ const DAILY_FOCUS_KEY = 'berserk_daily_focus';
 const LAST_INSIGHT_KEY = 'berserk_last_insight';
 
 export function useDashboardData() {
-  const [dashboardData, setDashboardData] = useState<DashboardData>({
+  // Задачи берутся из общего хранилища, остальное хранит сам дашборд
+  const [storedData, setStoredData] = useState<Omit<DashboardData, 'tasks'>>({
     weeklyProgress: {
       tasks: 0,
       habits: 0,
@@ -41,26 +44,41 @@ export function useDashboardData() {
     dailyFocus: {
       title: '',
       description: ''
-    },
-    tasks: []
+    }
   });
   
   const [loading, setLoading] = useState<boolean>(true);
   
-  // Получаем данные из других хуков
-  const { tasks } = useOperationsData();
-  const { insights } = useStrategicData();
+  // Получаем данные из общего хранилища
+  const dispatch = useAppDispatch();
+  const tasks = useAppSelector(selectAllTasks);
+  const insights = useAppSelector(selectGoalInsights);
+  const tasksStatus = useAppSelector(state => state.tasks.status);
+  const goalsStatus = useAppSelector(state => state.goals.status);
+  
+  const dashboardData: DashboardData = useMemo(
+    () => ({ ...storedData, tasks: formatTasks(tasks) }),
+    [storedData, tasks]
+  );
+  
+  // Загрузка задач и целей, если их ещё не загрузил другой экран
+  useEffect(() => {
+    if (tasksStatus === 'idle') dispatch(loadTasks());
+    if (goalsStatus === 'idle') dispatch(loadGoals());
+  }, [dispatch, tasksStatus, goalsStatus]);
   
-  // Загрузка данных при первом рендере
+  // Загрузка данных при первом рендере и при новых инсайтах
   useEffect(() => {
     loadData();
     
-    // Настройка автоматического обновления еженедельного прогресса
-    updateWeeklyProgress();
-    
     // Настройка автоматического обновления ежедневного фокуса
     checkAndUpdateDailyFocus();
-  }, [tasks, insights]);
+  }, [insights]);
+  
+  // Пересчёт еженедельного прогресса при изменении задач
+  useEffect(() => {
+    updateWeeklyProgress();
+  }, [tasks]);
   
   // Загрузка всех данных
   const loadData = async () => {
@@ -82,19 +100,15 @@ export function useDashboardData() {
       const lastInsightData = await AsyncStorage.getItem(LAST_INSIGHT_KEY);
       const lastInsight = lastInsightData || '';
       
-      // Форматирование данных для дашборда
-      const todaysTasks = formatTasks(tasks);
-      
       // Формирование ежедневного фокуса
       const dailyFocus = storedDailyFocus && isToday(storedDailyFocus.date) 
         ? storedDailyFocus
         : await generateDailyFocus();
       
       // Обновление состояния
-      setDashboardData({
+      setStoredData({
         weeklyProgress,
         dailyFocus,
-        tasks: todaysTasks,
         mentorInsight: lastInsight || (insights.length > 0 ? insights[0] : undefined)
       });
     } catch (error) {
@@ -116,7 +130,7 @@ export function useDashboardData() {
         if (!isToday(storedDailyFocus.date)) {
           const newDailyFocus = await generateDailyFocus();
           
-          setDashboardData(prevData => ({
+          setStoredData(prevData => ({
             ...prevData,
             dailyFocus: newDailyFocus
           }));
@@ -125,7 +139,7 @@ export function useDashboardData() {
         // Если нет сохраненного фокуса, генерируем новый
         const newDailyFocus = await generateDailyFocus();
         
-        setDashboardData(prevData => ({
+        setStoredData(prevData => ({
           ...prevData,
           dailyFocus: newDailyFocus
         }));
@@ -181,17 +195,6 @@ export function useDashboardData() {
     return dateString === today;
   };
   
-  // Форматирование задач для дашборда
-  const formatTasks = (allTasks: any[]): { id: string; title: string; completed: boolean }[] => {
-    // Фильтрация задач на сегодня (в реальном приложении здесь была бы логика фильтрации по дате)
-    // Для прототипа просто берем первые 5 задач
-    return allTasks.slice(0, 5).map(task => ({
-      id: task.id,
-      title: task.title,
-      completed: task.completed
-    }));
-  };
-  
   // Обновление еженедельного прогресса
   const updateWeeklyProgress = async () => {
     try {
@@ -199,7 +202,7 @@ export function useDashboardData() {
       // Для прототипа используем приблизительные данные
       
       // Рассчитываем прогресс по задачам
-      const completedTasks = tasks.filter(task => task.completed).length;
+      const completedTasks = tasks.filter(task => task.status === 'completed').length;
       const totalTasks = tasks.length || 1; // Избегаем деления на ноль
       const tasksProgress = Math.round((completedTasks / totalTasks) * 100);
       
@@ -218,7 +221,7 @@ export function useDashboardData() {
       await AsyncStorage.setItem(WEEKLY_PROGRESS_KEY, JSON.stringify(newProgress));
       
       // Обновляем состояние
-      setDashboardData(prevData => ({
+      setStoredData(prevData => ({
         ...prevData,
         weeklyProgress: newProgress
       }));
@@ -227,33 +230,32 @@ export function useDashboardData() {
     }
   };
   
-  // Функция для отметки задачи как выполненной/невыполненной
+  // Функция для отметки задачи как выполненной/невыполненной; изменение видно и в операционном центре
   const toggleTask = async (taskId: string): Promise<void> => {
-    // Обновляем локальное состояние
-    setDashboardData(prevData => {
-      const updatedTasks = prevData.tasks.map(task => 
-        task.id === taskId ? { ...task, completed: !task.completed } : task
-      );
-      
-      return {
-        ...prevData,
-        tasks: updatedTasks
-      };
-    });
-    
-    // В реальном приложении здесь был бы вызов функции из useOperationsData
-    // Для прототипа эта функция обновляет только локальное состояние
+    dispatch(taskToggled(taskId));
   };
   
   // Функция обновления данных (pull-to-refresh)
   const refreshData = async (): Promise<void> => {
+    await Promise.all([dispatch(loadTasks()), dispatch(loadGoals())]);
     await loadData();
   };
   
   return {
     dashboardData,
-    loading,
+    loading: loading || tasksStatus === 'idle' || tasksStatus === 'loading',
     toggleTask,
     refreshData
   };
-}
\ No newline at end of file
+}
+
+// Форматирование задач для дашборда
+function formatTasks(allTasks: Task[]): DashboardData['tasks'] {
+  // Фильтрация задач на сегодня (в реальном приложении здесь была бы логика фильтрации по дате)
+  // Для прототипа просто берем первые 5 задач
+  return allTasks.slice(0, 5).map(task => ({
+    id: task.id,
+    title: task.title,
+    completed: task.status === 'completed'
+  }));
+}
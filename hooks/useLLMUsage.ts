@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react';
+import { llmService } from '@/services/ai/llm/llmService';
+import { UsageSummary, usageTracker } from '@/services/ai/llm/usageTracker';
+import { LLMFeature } from '@/types/ai';
+
+/**
+ * Monthly cost caps in USD; undefined means no cap
+ */
+export interface UsageCaps {
+  total?: number;
+  features: Partial<Record<LLMFeature, number>>;
+}
+
+// Months are in local time, as usage is recorded
+const toMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const shiftMonth = (month: string, delta: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toMonthKey(new Date(year, monthIndex - 1 + delta, 1));
+};
+
+const currentMonth = (): string => toMonthKey(new Date());
+
+/**
+ * Hook for the usage dashboard: model usage of a month by feature and
+ * model, and the monthly caps
+ */
+export function useLLMUsage() {
+  const [month, setMonth] = useState<string>(currentMonth());
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [caps, setCaps] = useState<UsageCaps>({ features: {} });
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSummary(await usageTracker.getSummary(month));
+
+      const settings = await llmService.getSettings();
+      setCaps({ total: settings.monthlyCostCap, features: settings.featureCostCaps || {} });
+    } catch (error) {
+      console.error('Failed to load LLM usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const showPreviousMonth = (): void => setMonth(shiftMonth(month, -1));
+
+  // Future months have no usage
+  const showNextMonth = (): void => {
+    if (month < currentMonth()) setMonth(shiftMonth(month, 1));
+  };
+
+  /**
+   * Sets or removes (with undefined or 0) the total cap or a feature's cap
+   */
+  const setCap = async (target: LLMFeature | 'total', value?: number): Promise<void> => {
+    const cap = value && value > 0 ? value : undefined;
+
+    if (target === 'total') {
+      await llmService.updateSettings({ monthlyCostCap: cap });
+    } else {
+      const features = { ...caps.features, [target]: cap };
+      if (cap === undefined) delete features[target];
+      await llmService.updateSettings({ featureCostCaps: features });
+    }
+
+    await loadData();
+  };
+
+  return {
+    month,
+    summary,
+    caps,
+    loading,
+    isCurrentMonth: month === currentMonth(),
+    showPreviousMonth,
+    showNextMonth,
+    setCap,
+    refresh: loadData
+  };
+}
@@ -1,193 +1,114 @@
-import { useState, useEffect } from 'react';
-import { aiCoreService } from '@/services/ai/aiCoreService';
-import { personalityEngine } from '@/services/ai/personalityEngine';
-import { Message, PersonaProfile } from '@/types/ai';
-
-export enum MessageType {
-  User = 'user',
-  Mentor = 'mentor',
-  System = 'system',
-}
+import { useEffect, useRef } from 'react';
+import { actionExecutor } from '@/services/ai/actionExecutor';
+import { AppAction } from '@/types/app';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  actionDismissed,
+  actionEdited,
+  applyMentorAction,
+  loadMentor,
+  retryMentorMessage,
+  selectMentorMessages,
+  sendMentorMessage,
+  setMentorPersona,
+  startNewConversation as startNewConversationThunk,
+  undoMentorAction
+} from '@/store/slices/mentorSlice';
 
-export interface MentorMessage {
-  id: string;
-  text: string;
-  type: MessageType;
-  timestamp: number;
-  attachedData?: any;
-}
+export { MessageType } from '@/store/slices/mentorSlice';
+export type { ActionCardData, ActionCardStatus, MentorMessage } from '@/store/slices/mentorSlice';
 
 /**
  * Hook for interacting with the AI mentor
  */
 export function useMentorData() {
-  const [messages, setMessages] = useState<MentorMessage[]>([]);
-  const [personas, setPersonas] = useState<PersonaProfile[]>([]);
-  const [selectedPersonaId, setSelectedPersonaId] = useState<string>('commander');
-  const [loading, setLoading] = useState<boolean>(true);
+  const dispatch = useAppDispatch();
+  const messages = useAppSelector(selectMentorMessages);
+  const { personas, selectedPersonaId, status, isStreaming } = useAppSelector(state => state.mentor);
+  const busy = useAppSelector(state => state.mentor.loading);
+  const exchangeRef = useRef<{ abort: () => void } | null>(null);
+
+  const loading = busy || status === 'idle' || status === 'loading';
 
-  // Initialize data on component mount
+  // Load personas and the open conversation unless another screen already did
   useEffect(() => {
-    const initMentor = async () => {
-      try {
-        setLoading(true);
-        
-        // Load all personas
-        const availablePersonas = await personalityEngine.getAllPersonas();
-        setPersonas(availablePersonas);
-        
-        // Load current persona
-        const currentPersona = await aiCoreService.getCurrentPersona();
-        if (currentPersona) {
-          setSelectedPersonaId(currentPersona.id);
-        }
-        
-        // Load message history
-        const history = await aiCoreService.getMessageHistory();
-        const formattedMessages = transformMessages(history);
-        setMessages(formattedMessages);
-      } catch (error) {
-        console.error('Failed to initialize mentor data:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    initMentor();
-  }, []);
+    if (status === 'idle') dispatch(loadMentor());
+  }, [dispatch, status]);
 
   /**
-   * Transform message format from AI service to UI format
+   * Send a message to the AI mentor
    */
-  const transformMessages = (messages: Message[]): MentorMessage[] => {
-    return messages.map(msg => ({
-      id: msg.id,
-      text: msg.content,
-      type: msg.role === 'user' ? MessageType.User : 
-            msg.role === 'system' ? MessageType.System : MessageType.Mentor,
-      timestamp: new Date(msg.timestamp).getTime(),
-    }));
+  const sendMessage = async (text: string): Promise<void> => {
+    const exchange = dispatch(sendMentorMessage(text));
+    exchangeRef.current = exchange;
+    await exchange;
+    exchangeRef.current = null;
   };
 
   /**
-   * Send a message to the AI mentor
+   * Send a failed or queued message again
    */
-  const sendMessage = async (text: string): Promise<void> => {
-    try {
-      setLoading(true);
-      
-      // Add user message to UI immediately
-      const userMessage: MentorMessage = {
-        id: `msg_${Date.now()}`,
-        text,
-        type: MessageType.User,
-        timestamp: Date.now()
-      };
-      
-      setMessages(prevMessages => [...prevMessages, userMessage]);
-      
-      // Send to AI service and get response
-      const response = await aiCoreService.sendMessage(text);
-      
-      // Add AI response to UI
-      const aiMessage: MentorMessage = {
-        id: `msg_${Date.now() + 1}`,
-        text: response.response,
-        type: MessageType.Mentor,
-        timestamp: Date.now() + 1
-      };
-      
-      setMessages(prevMessages => [...prevMessages, aiMessage]);
-      
-      // Process any actions returned
-      if (response.actions && response.actions.length > 0) {
-        // In a full implementation, we would dispatch these actions to Redux
-        // For now, we'll just log them
-        console.log('Actions to perform:', response.actions);
-      }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      
-      // Add error message
-      const errorMessage: MentorMessage = {
-        id: `msg_${Date.now() + 1}`,
-        text: 'Произошла ошибка при обработке сообщения. Пожалуйста, попробуйте еще раз.',
-        type: MessageType.System,
-        timestamp: Date.now() + 1
-      };
-      
-      setMessages(prevMessages => [...prevMessages, errorMessage]);
-    } finally {
-      setLoading(false);
-    }
+  const retryMessage = async (messageId: string): Promise<void> => {
+    const exchange = dispatch(retryMentorMessage(messageId));
+    exchangeRef.current = exchange;
+    await exchange;
+    exchangeRef.current = null;
+  };
+
+  /**
+   * Stop the reply that is being generated, keeping the text received so far
+   */
+  const stopGenerating = (): void => {
+    exchangeRef.current?.abort();
+  };
+
+  /**
+   * Apply a proposed action
+   */
+  const applyAction = async (messageId: string): Promise<void> => {
+    await dispatch(applyMentorAction(messageId));
+  };
+
+  /**
+   * Replace the payload of a proposed action before it is applied
+   */
+  const editAction = (messageId: string, action: AppAction): void => {
+    dispatch(actionEdited({ messageId, action }));
+  };
+
+  /**
+   * Reject a proposed action
+   */
+  const dismissAction = (messageId: string): void => {
+    dispatch(actionDismissed(messageId));
+  };
+
+  /**
+   * Revert an applied action while its undo window is open
+   */
+  const undoAction = async (messageId: string): Promise<void> => {
+    await dispatch(undoMentorAction(messageId));
+  };
+
+  /**
+   * Whether applying the action needs an explicit confirmation
+   */
+  const requiresConfirmation = (action: AppAction): boolean => {
+    return actionExecutor.isDestructive(action);
   };
 
   /**
    * Change the mentor's persona
    */
   const setPersona = async (personaId: string): Promise<void> => {
-    try {
-      setLoading(true);
-      
-      // Find the persona
-      const persona = personas.find(p => p.id === personaId);
-      if (!persona) {
-        throw new Error(`Persona ${personaId} not found`);
-      }
-      
-      // Update selected persona state
-      setSelectedPersonaId(personaId);
-      
-      // Update in AI service
-      await aiCoreService.loadPersona(personaId);
-      
-      // Add system message about persona change
-      const systemMessage: MentorMessage = {
-        id: `msg_${Date.now()}`,
-        text: `Персона ментора изменена на "${persona.name}"`,
-        type: MessageType.System,
-        timestamp: Date.now()
-      };
-      
-      setMessages(prevMessages => [...prevMessages, systemMessage]);
-      
-      // Add welcome message from new persona
-      const welcomeMessage: MentorMessage = {
-        id: `msg_${Date.now() + 1}`,
-        text: persona.welcomeMessage,
-        type: MessageType.Mentor,
-        timestamp: Date.now() + 1
-      };
-      
-      setMessages(prevMessages => [...prevMessages, welcomeMessage]);
-    } catch (error) {
-      console.error('Error changing persona:', error);
-    } finally {
-      setLoading(false);
-    }
+    await dispatch(setMentorPersona(personaId));
   };
 
   /**
-   * Clear the conversation history
+   * Start a new conversation; the current one stays in the history
    */
-  const clearConversation = async (): Promise<void> => {
-    try {
-      setLoading(true);
-      
-      // Clear conversation in AI service
-      await aiCoreService.clearConversation();
-      
-      // Get the initial welcome message
-      const history = await aiCoreService.getMessageHistory();
-      const formattedMessages = transformMessages(history);
-      
-      // Update messages state
-      setMessages(formattedMessages);
-    } catch (error) {
-      console.error('Error clearing conversation:', error);
-    } finally {
-      setLoading(false);
-    }
+  const startNewConversation = async (): Promise<void> => {
+    await dispatch(startNewConversationThunk());
   };
 
   /**
@@ -202,7 +123,7 @@ export function useMentorData() {
     // In a real implementation, this would stop recording, finalize transcription,
     // and send the transcribed message to the mentor
     console.log('Voice recording stopped');
-    
+
     // Simulate voice input by sending a placeholder message
     setTimeout(() => {
       sendMessage('Это сообщение от голосового ввода');
@@ -214,10 +135,18 @@ export function useMentorData() {
     personas,
     selectedPersonaId,
     loading,
+    isStreaming,
     sendMessage,
+    retryMessage,
+    stopGenerating,
     setPersona,
     startVoiceInput,
     stopVoiceInput,
-    clearConversation
+    startNewConversation,
+    applyAction,
+    editAction,
+    dismissAction,
+    undoAction,
+    requiresConfirmation
   };
-}
\ No newline at end of file
+}
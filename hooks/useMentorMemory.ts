@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { memoryEngine } from '@/services/ai/memoryEngine';
+import { conversationStore } from '@/services/ai/conversationStore';
+import { EditableProfileList, ProfileSource, userProfileEngine } from '@/services/ai/userProfileEngine';
+import { matchesQuery } from '@/services/textNormalization';
+import { MemoryItem } from '@/types/ai';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Profile fact shown on the memory screen
+ */
+export interface ProfileMemoryItem {
+  list: EditableProfileList;
+  index: number;
+  text: string;
+  source?: ProfileSource;
+}
+
+/**
+ * Hook for reviewing and correcting what the mentor remembers about the user:
+ * chat memories and the facts of the psychological profile
+ */
+export function useMentorMemory() {
+  const [memories, setMemories] = useState<MemoryItem[]>([]);
+  const [profileItems, setProfileItems] = useState<ProfileMemoryItem[]>([]);
+  const [conversationTitles, setConversationTitles] = useState<Record<string, string>>({});
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [limit, setLimit] = useState<number>(PAGE_SIZE);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMemories(await memoryEngine.listMemories(searchQuery, limit));
+
+      const profile = await userProfileEngine.getCurrentProfile();
+      const items: ProfileMemoryItem[] = [
+        ...profile.aiInsights.map((insight, index) => ({
+          list: 'aiInsights' as const,
+          index,
+          text: insight.text,
+          source: insight.source
+        })),
+        ...profile.values.map((value, index) => ({
+          list: 'values' as const,
+          index,
+          text: value,
+          source: profile.valueSources?.[value]
+        })),
+        ...profile.goals.map((goal, index) => ({
+          list: 'goals' as const,
+          index,
+          text: goal.text,
+          source: goal.source
+        }))
+      ];
+      setProfileItems(searchQuery.trim() ? items.filter(item => matchesQuery(item.text, searchQuery)) : items);
+
+      const conversations = await conversationStore.getAll();
+      setConversationTitles(Object.fromEntries(conversations.map(c => [c.id, c.title])));
+    } catch (error) {
+      console.error('Failed to load mentor memory:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [searchQuery, limit]);
+
+  // Reload when the search or the number of shown memories changes
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const search = (query: string): void => {
+    setSearchQuery(query);
+    setLimit(PAGE_SIZE);
+  };
+
+  // Show the next page of memories if the last one was full
+  const loadMore = (): void => {
+    if (!loading && memories.length >= limit) {
+      setLimit(limit + PAGE_SIZE);
+    }
+  };
+
+  const togglePin = async (memory: MemoryItem): Promise<void> => {
+    await memoryEngine.updateMemory(memory.id, { pinned: !memory.pinned });
+    await loadData();
+  };
+
+  const editMemory = async (memoryId: string, content: string): Promise<void> => {
+    if (!content.trim()) return;
+    await memoryEngine.updateMemory(memoryId, { content: content.trim() });
+    await loadData();
+  };
+
+  // Removes the memory from storage and from the search indexes
+  const deleteMemory = async (memoryId: string): Promise<void> => {
+    await memoryEngine.removeMemories([memoryId]);
+    await loadData();
+  };
+
+  const editProfileItem = async (item: ProfileMemoryItem, text: string): Promise<void> => {
+    if (!text.trim()) return;
+    await userProfileEngine.editProfileItem(item.list, item.index, text.trim());
+    await loadData();
+  };
+
+  const deleteProfileItem = async (item: ProfileMemoryItem): Promise<void> => {
+    await userProfileEngine.editProfileItem(item.list, item.index);
+    await loadData();
+  };
+
+  return {
+    memories,
+    profileItems,
+    conversationTitles,
+    searchQuery,
+    loading,
+    search,
+    loadMore,
+    togglePin,
+    editMemory,
+    deleteMemory,
+    editProfileItem,
+    deleteProfileItem,
+    refresh: loadData
+  };
+}
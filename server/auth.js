@@ -0,0 +1,53 @@
+/* eslint-env node */
+
+/**
+ * Per-device tokens. A token is "<deviceId>.<signature>" where the signature
+ * is an HMAC of the device id, so tokens can be verified without a database.
+ */
+
+const crypto = require("crypto");
+
+const sign = (deviceId, secret) =>
+  crypto.createHmac("sha256", secret).update(deviceId).digest("base64url");
+
+/**
+ * Issues a token for a new device
+ * @returns {{ deviceId: string, token: string }}
+ */
+function issueDeviceToken(secret) {
+  const deviceId = `dev_${crypto.randomUUID()}`;
+  return { deviceId, token: `${deviceId}.${sign(deviceId, secret)}` };
+}
+
+/**
+ * Verifies a token and returns its device id, or null if it is invalid
+ */
+function verifyDeviceToken(token, secret) {
+  if (typeof token !== "string") return null;
+
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const deviceId = token.slice(0, separator);
+  const expected = Buffer.from(sign(deviceId, secret));
+  const actual = Buffer.from(token.slice(separator + 1));
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return deviceId;
+}
+
+/**
+ * Reads the device token from the request. The app's OpenAI client sends it
+ * as a bearer token and its Anthropic client as x-api-key.
+ */
+function getRequestToken(req) {
+  const authorization = req.headers["authorization"] || "";
+  if (authorization.startsWith("Bearer ")) {
+    return authorization.slice(7).trim();
+  }
+  return req.headers["x-api-key"] || null;
+}
+
+module.exports = { issueDeviceToken, verifyDeviceToken, getRequestToken };
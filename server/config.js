@@ -0,0 +1,55 @@
+/* eslint-env node */
+
+/**
+ * Proxy configuration, read from environment variables (and .env if present).
+ * Provider keys live only here, on the server; the app never sees them.
+ */
+
+require("dotenv/config");
+
+const toNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const toList = (value) =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const config = {
+  port: toNumber(process.env.PROXY_PORT, 8787),
+
+  // Secret used to sign device tokens; rotating it revokes every token
+  tokenSecret: process.env.PROXY_TOKEN_SECRET || "",
+
+  providers: {
+    openai: {
+      baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+      apiKey: process.env.OPENAI_API_KEY || "",
+    },
+    anthropic: {
+      baseUrl: process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1",
+      apiKey: process.env.ANTHROPIC_API_KEY || "",
+    },
+  },
+
+  // Empty list allows any model
+  allowedModels: toList(process.env.PROXY_ALLOWED_MODELS),
+
+  limits: {
+    requestsPerMinute: toNumber(process.env.PROXY_REQUESTS_PER_MINUTE, 20),
+    dailyTokenQuota: toNumber(process.env.PROXY_DAILY_TOKEN_QUOTA, 200000),
+    // New devices can be registered, so these are what bound one user's spending
+    dailyIpTokenQuota: toNumber(process.env.PROXY_DAILY_IP_TOKEN_QUOTA, 1000000),
+    dailyTotalTokenQuota: toNumber(process.env.PROXY_DAILY_TOTAL_TOKEN_QUOTA, Infinity),
+    maxTokensPerRequest: toNumber(process.env.PROXY_MAX_TOKENS_PER_REQUEST, 2000),
+    registrationsPerHour: toNumber(process.env.PROXY_REGISTRATIONS_PER_HOUR, 10),
+    maxBodyBytes: toNumber(process.env.PROXY_MAX_BODY_BYTES, 512 * 1024),
+  },
+
+  usageFile: process.env.PROXY_USAGE_FILE || `${__dirname}/data/usage.json`,
+};
+
+module.exports = { config };
@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+
+/* eslint-env node */
+
+/**
+ * LLM proxy for the app. Holds the provider API keys, authenticates devices
+ * with signed tokens, applies per-device rate limits and daily token quotas
+ * per device, per IP and in total, and forwards requests to OpenAI or Anthropic.
+ *
+ * Run with `npm run proxy`. See the README for the environment variables.
+ */
+
+const http = require("http");
+const { config } = require("./config");
+const { issueDeviceToken, verifyDeviceToken, getRequestToken } = require("./auth");
+const { createLimits } = require("./limits");
+const { ROUTES, readUsage, createStreamUsageTracker } = require("./providers");
+
+// Rough size of a token, used when the provider does not report usage
+const CHARS_PER_TOKEN = 4;
+
+const limits = createLimits(config.limits, config.usageFile);
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, type, message, headers) =>
+  sendJson(res, status, { error: { type, message } }, headers);
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > config.limits.maxBodyBytes) {
+        reject(Object.assign(new Error("Request body too large"), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const getClientIp = (req) => req.socket.remoteAddress || "unknown";
+
+/**
+ * POST /v1/devices issues a token for a new app install
+ */
+function handleRegisterDevice(req, res) {
+  const limit = limits.registrations.hit(getClientIp(req));
+  if (!limit.allowed) {
+    return sendError(res, 429, "rate_limited", "Too many device registrations", {
+      "Retry-After": String(limit.retryAfterSeconds),
+    });
+  }
+
+  const { deviceId, token } = issueDeviceToken(config.tokenSecret);
+  console.log(`Registered device ${deviceId}`);
+  sendJson(res, 201, { deviceId, token });
+}
+
+/**
+ * Forwards a provider request on behalf of an authenticated device
+ */
+async function handleProxy(req, res, route) {
+  const deviceId = verifyDeviceToken(getRequestToken(req), config.tokenSecret);
+  if (!deviceId) {
+    return sendError(res, 401, "unauthorized", "Invalid or missing device token");
+  }
+
+  const limit = limits.requests.hit(deviceId);
+  if (!limit.allowed) {
+    return sendError(res, 429, "rate_limited", "Too many requests, slow down", {
+      "Retry-After": String(limit.retryAfterSeconds),
+    });
+  }
+
+  const ip = getClientIp(req);
+  if (limits.usage.getRemaining(deviceId, ip) <= 0) {
+    return sendError(res, 429, "quota_exceeded", "Daily token quota exhausted");
+  }
+
+  const provider = config.providers[route.provider];
+  if (!provider.apiKey) {
+    return sendError(res, 503, "provider_unavailable", `${route.provider} is not configured on the proxy`);
+  }
+
+  const rawBody = await readBody(req);
+  let body;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return sendError(res, 400, "invalid_request", "Body must be JSON");
+  }
+
+  if (config.allowedModels.length > 0 && !config.allowedModels.includes(body.model)) {
+    return sendError(res, 403, "model_not_allowed", `Model ${body.model} is not allowed`);
+  }
+
+  // Never let a single request spend more than the per-request cap
+  if (route.completion !== false) {
+    body.max_tokens = Math.min(body.max_tokens || config.limits.maxTokensPerRequest, config.limits.maxTokensPerRequest);
+  }
+
+  // Stop the upstream request if the app disconnects, e.g. the user pressed stop
+  const abortController = new AbortController();
+  res.on("close", () => abortController.abort());
+
+  const upstream = await fetch(`${provider.baseUrl}${route.path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...route.buildHeaders(provider.apiKey, req) },
+    body: JSON.stringify(body),
+    signal: abortController.signal,
+  });
+
+  res.writeHead(upstream.status, {
+    "Content-Type": upstream.headers.get("content-type") || "application/json",
+    "Cache-Control": "no-cache",
+  });
+
+  // Requests the provider rejected are not charged, streamed or not
+  if (!upstream.ok) {
+    res.end(await upstream.text());
+    return;
+  }
+
+  const estimatedPromptTokens = Math.ceil(rawBody.length / CHARS_PER_TOKEN);
+
+  if (body.stream) {
+    const tracker = createStreamUsageTracker(route.provider);
+    const decoder = new TextDecoder();
+    try {
+      for await (const chunk of upstream.body) {
+        res.write(chunk);
+        tracker.feed(decoder.decode(chunk, { stream: true }));
+      }
+    } finally {
+      const { promptTokens, completionTokens, streamedChars } = tracker.total();
+      const reported = promptTokens + completionTokens;
+      limits.usage.record(
+        deviceId,
+        ip,
+        reported || estimatedPromptTokens + Math.ceil(streamedChars / CHARS_PER_TOKEN)
+      );
+      res.end();
+    }
+    return;
+  }
+
+  const text = await upstream.text();
+  res.end(text);
+
+  let tokens = 0;
+  try {
+    tokens = readUsage(route.provider, JSON.parse(text));
+  } catch {
+    // Estimated below when the response has no usage
+  }
+  limits.usage.record(deviceId, ip, tokens || estimatedPromptTokens);
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url, "http://localhost");
+
+    if (req.method === "GET" && url.pathname === "/health") {
+      return sendJson(res, 200, { status: "ok" });
+    }
+
+    if (req.method === "POST" && url.pathname === "/v1/devices") {
+      return handleRegisterDevice(req, res);
+    }
+
+    const route = ROUTES[url.pathname];
+    if (req.method === "POST" && route) {
+      return await handleProxy(req, res, route);
+    }
+
+    sendError(res, 404, "not_found", "Unknown endpoint");
+  } catch (error) {
+    if (error.name === "AbortError") return;
+    console.error("Proxy request failed:", error);
+    if (!res.headersSent) {
+      sendError(res, error.status || 502, "proxy_error", error.message);
+    } else {
+      res.end();
+    }
+  }
+});
+
+if (!config.tokenSecret) {
+  console.error("PROXY_TOKEN_SECRET is required to sign device tokens");
+  process.exit(1);
+}
+
+server.listen(config.port, () => {
+  console.log(`LLM proxy listening on port ${config.port}`);
+});
+
+const shutdown = () => {
+  limits.usage.save();
+  server.close(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
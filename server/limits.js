@@ -0,0 +1,134 @@
+/* eslint-env node */
+
+/**
+ * Rate limits and daily token quotas. Devices register freely, so besides the
+ * per-device quota usage is also capped per client IP and for the whole proxy.
+ * Request counts are kept in memory; token usage is persisted so quotas
+ * survive a restart.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const SAVE_DELAY_MS = 5000;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+class SlidingWindowLimiter {
+  constructor(limit, windowMs) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+    this.hits = new Map();
+  }
+
+  /**
+   * Records a hit for the key
+   * @returns {{ allowed: boolean, retryAfterSeconds: number }}
+   */
+  hit(key) {
+    const now = Date.now();
+    const recent = (this.hits.get(key) || []).filter((time) => now - time < this.windowMs);
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + this.windowMs - now) / 1000) };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+}
+
+const emptyUsage = () => ({ date: today(), devices: {}, ips: {}, total: 0 });
+
+class UsageStore {
+  /**
+   * @param {{ device: number, ip: number, total: number }} quotas Daily token quotas
+   */
+  constructor(filePath, quotas) {
+    this.filePath = filePath;
+    this.quotas = quotas;
+    this.saveTimer = null;
+    this.usage = this.load();
+  }
+
+  load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      // Files saved before IP and total usage were tracked only have devices
+      return data.date === today() ? { ...emptyUsage(), ...data } : emptyUsage();
+    } catch {
+      return emptyUsage();
+    }
+  }
+
+  /**
+   * Resets counters when the day changes
+   */
+  current() {
+    if (this.usage.date !== today()) {
+      this.usage = emptyUsage();
+    }
+    return this.usage;
+  }
+
+  /**
+   * Tokens left today for the device, limited by what is left for its IP
+   * and for the proxy
+   */
+  getRemaining(deviceId, ip) {
+    const usage = this.current();
+    return Math.max(
+      0,
+      Math.min(
+        this.quotas.device - (usage.devices[deviceId] || 0),
+        this.quotas.ip - (usage.ips[ip] || 0),
+        this.quotas.total - usage.total
+      )
+    );
+  }
+
+  record(deviceId, ip, tokens) {
+    if (!tokens) return;
+    const usage = this.current();
+    usage.devices[deviceId] = (usage.devices[deviceId] || 0) + tokens;
+    usage.ips[ip] = (usage.ips[ip] || 0) + tokens;
+    usage.total += tokens;
+    this.scheduleSave();
+  }
+
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  save() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.usage));
+    } catch (error) {
+      console.error("Failed to save usage:", error);
+    }
+  }
+}
+
+function createLimits(limits, usageFile) {
+  return {
+    requests: new SlidingWindowLimiter(limits.requestsPerMinute, MINUTE_MS),
+    registrations: new SlidingWindowLimiter(limits.registrationsPerHour, HOUR_MS),
+    usage: new UsageStore(usageFile, {
+      device: limits.dailyTokenQuota,
+      ip: limits.dailyIpTokenQuota,
+      total: limits.dailyTotalTokenQuota,
+    }),
+  };
+}
+
+module.exports = { createLimits, SlidingWindowLimiter, UsageStore };
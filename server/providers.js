@@ -0,0 +1,85 @@
+/**
+ * Upstream provider routes. Request bodies use each provider's own API
+ * format, so the app's existing provider clients work through the proxy.
+ */
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const ROUTES = {
+  "/v1/openai/chat/completions": {
+    provider: "openai",
+    path: "/chat/completions",
+    buildHeaders: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+  },
+  "/v1/openai/embeddings": {
+    provider: "openai",
+    path: "/embeddings",
+    completion: false,
+    buildHeaders: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+  },
+  "/v1/anthropic/messages": {
+    provider: "anthropic",
+    path: "/messages",
+    buildHeaders: (apiKey, req) => ({
+      "x-api-key": apiKey,
+      "anthropic-version": req.headers["anthropic-version"] || ANTHROPIC_VERSION,
+    }),
+  },
+};
+
+/**
+ * Reads token usage from a complete JSON response
+ */
+function readUsage(provider, data) {
+  const usage = data && data.usage;
+  if (!usage) return 0;
+  return provider === "anthropic"
+    ? (usage.input_tokens || 0) + (usage.output_tokens || 0)
+    : usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0);
+}
+
+/**
+ * Collects token usage from a streamed response as it passes through
+ */
+function createStreamUsageTracker(provider) {
+  let buffer = "";
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let streamedChars = 0;
+
+  const readEvent = (data) => {
+    if (data === "[DONE]") return;
+    try {
+      const event = JSON.parse(data);
+      if (provider === "anthropic") {
+        if (event.type === "message_start") promptTokens = event.message?.usage?.input_tokens || 0;
+        if (event.type === "message_delta") completionTokens = event.usage?.output_tokens || completionTokens;
+        if (event.type === "content_block_delta") streamedChars += (event.delta?.text || "").length;
+      } else {
+        if (event.usage) {
+          promptTokens = event.usage.prompt_tokens || 0;
+          completionTokens = event.usage.completion_tokens || 0;
+        }
+        streamedChars += (event.choices?.[0]?.delta?.content || "").length;
+      }
+    } catch {
+      // Ignore partial or non-JSON events
+    }
+  };
+
+  return {
+    feed(text) {
+      buffer += text;
+      const lines = buffer.split("\n");
+      buffer = lines.pop();
+      for (const line of lines) {
+        if (line.startsWith("data:")) readEvent(line.slice(5).trim());
+      }
+    },
+    total() {
+      return { promptTokens, completionTokens, streamedChars };
+    },
+  };
+}
+
+module.exports = { ROUTES, readUsage, createStreamUsageTracker };
@@ -0,0 +1,84 @@
+import { Goal, Habit, Journal } from '@/types/app';
+import { memoryEngine } from '../ai/memoryEngine';
+import { appEvents } from '../appEvents';
+import { checkIntegrity, repairIntegrity } from '../integrityCheck';
+import { readList, writeJSON } from '../storage';
+import { STORAGE_KEYS } from '../storageKeys';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../ai/llm/llmService', () => {
+  const embedder = new (jest.requireActual('../ai/llm/localEmbedder').LocalEmbedder)();
+  return { llmService: { getEmbedder: async () => embedder } };
+});
+
+const now = '2024-04-01T00:00:00.000Z';
+
+const goal = (id: string, parentId: string | null, children: string[]): Goal => ({
+  id, title: id, status: 'not_started', progress: 0, parentId, children, createdAt: now, updatedAt: now
+});
+
+const habit = (id: string, streak: number, longestStreak: number, completedDates: string[]): Habit => ({
+  id, title: id, frequency: 'daily', completedDates, streak, longestStreak, createdAt: now, updatedAt: now
+});
+
+const entry = (id: string, content: string): Journal => ({
+  id, title: id, content, tags: [], createdAt: now, updatedAt: now
+});
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  await writeJSON(STORAGE_KEYS.goals, [
+    goal('g1', null, ['g2', 'g_deleted']), // Lists a deleted subgoal and misses g3
+    goal('g2', 'g1', []),
+    goal('g3', 'g1', []),
+    goal('g4', 'g_deleted', [])
+  ]);
+  await writeJSON(STORAGE_KEYS.habits, [
+    habit('h1', 2, 4, ['2024-03-20', '2024-03-21', '2024-04-01', '2024-04-02']),
+    habit('h2', 5, 5, ['2024-04-01', '2024-04-02']),
+    habit('h3', 3, 40, ['2024-03-31', '2024-04-01', '2024-04-02']) // Longest streak without the completions
+  ]);
+
+  // The second entry was saved after the index was built, but never indexed
+  const indexed = entry('j1', 'Пробежал 5 км');
+  await writeJSON(STORAGE_KEYS.journal, [indexed]);
+  await memoryEngine.indexJournalEntry(indexed);
+  await writeJSON(STORAGE_KEYS.journal, [indexed, entry('j2', 'Прочитал главу книги')]);
+});
+
+it('finds orphaned subgoals, impossible streaks and unindexed journal entries', async () => {
+  const { issues } = await checkIntegrity();
+
+  expect(issues.map(issue => [issue.type, issue.recordId])).toEqual([
+    ['orphaned_subgoal', 'g1'],
+    ['orphaned_subgoal', 'g1'],
+    ['orphaned_subgoal', 'g4'],
+    ['impossible_streak', 'h2'],
+    ['impossible_streak', 'h3'],
+    ['unindexed_journal_entry', 'j2']
+  ]);
+});
+
+it('repairs every issue and tells the store what it rewrote', async () => {
+  const listener = jest.fn();
+  const unsubscribe = appEvents.subscribe(listener);
+
+  expect((await repairIntegrity()).issues).toEqual([]);
+  unsubscribe();
+
+  const goals = await readList<Goal>(STORAGE_KEYS.goals);
+  expect(goals.map(({ id, parentId, children }) => ({ id, parentId, children }))).toEqual([
+    { id: 'g1', parentId: null, children: ['g2', 'g3'] },
+    { id: 'g2', parentId: 'g1', children: [] },
+    { id: 'g3', parentId: 'g1', children: [] },
+    { id: 'g4', parentId: null, children: [] }
+  ]);
+
+  const habits = await readList<Habit>(STORAGE_KEYS.habits);
+  expect(habits.map(({ streak, longestStreak }) => [streak, longestStreak])).toEqual([[2, 4], [2, 2], [3, 3]]);
+
+  expect(listener).toHaveBeenCalledWith(['goals', 'habits']);
+});
@@ -0,0 +1,142 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { checkIntegrity } from '../integrityCheck';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, MIGRATIONS, prepareStorage, runMigrations } from '../migrations';
+import { AsyncStorageEngine } from '../repositories/asyncStorageEngine';
+import { StorageEngine } from '../repositories/repository';
+import { getStorageEngine } from '../repositories/storageEngine';
+import storageV0 from './__fixtures__/storage-v0.json';
+import storageV1 from './__fixtures__/storage-v1.json';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../ai/llm/llmService', () => {
+  const embedder = new (jest.requireActual('../ai/llm/localEmbedder').LocalEmbedder)();
+  return { llmService: { getEmbedder: async () => embedder } };
+});
+
+type StorageSnapshot = Record<string, unknown>;
+
+// Storage of a device at each schema version. A new migration needs a
+// snapshot of the data it produces; the previous one is its input.
+const SNAPSHOTS: Record<number, StorageSnapshot> = {
+  0: storageV0,
+  1: storageV1
+};
+
+const loadSnapshot = async (version: number) => {
+  const snapshot = SNAPSHOTS[version];
+  if (!snapshot) throw new Error(`No storage snapshot for version ${version}`);
+
+  await AsyncStorage.clear();
+  await AsyncStorage.multiSet(Object.entries(snapshot).map(([key, value]) =>
+    [key, typeof value === 'string' ? value : JSON.stringify(value)]
+  ));
+};
+
+// Plain strings, like the mentor style, are stored without JSON encoding
+const parseStored = (raw: string | null): unknown => {
+  try {
+    return JSON.parse(raw ?? 'null');
+  } catch {
+    return raw;
+  }
+};
+
+const takeSnapshot = async (): Promise<StorageSnapshot> => {
+  const stored = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+  return Object.fromEntries(stored.map(([key, raw]) => [key, parseStored(raw)]));
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe.each(MIGRATIONS)('migration to version $version', ({ version }) => {
+  it('turns the previous snapshot into its own', async () => {
+    await loadSnapshot(version - 1);
+
+    expect(await runMigrations(version)).toBe(version);
+    expect(await takeSnapshot()).toEqual(SNAPSHOTS[version]);
+  });
+
+  it('gives the same data when run again after an interruption', async () => {
+    await loadSnapshot(version - 1);
+    await runMigrations(version);
+
+    // The app was killed before it saved the new version
+    await AsyncStorage.setItem('berserk_schema_version', String(version - 1));
+    await runMigrations(version);
+
+    expect(await takeSnapshot()).toEqual(SNAPSHOTS[version]);
+  });
+});
+
+it('brings the oldest snapshot to the current version with consistent data', async () => {
+  await loadSnapshot(0);
+
+  expect(await runMigrations()).toBe(CURRENT_SCHEMA_VERSION);
+  expect(await takeSnapshot()).toEqual(SNAPSHOTS[CURRENT_SCHEMA_VERSION]);
+  expect((await checkIntegrity()).issues).toEqual([]);
+});
+
+it('leaves data written by a newer app version alone', async () => {
+  await loadSnapshot(CURRENT_SCHEMA_VERSION);
+  await AsyncStorage.setItem('berserk_schema_version', String(CURRENT_SCHEMA_VERSION + 1));
+  const stored = await takeSnapshot();
+
+  expect(await runMigrations()).toBe(CURRENT_SCHEMA_VERSION + 1);
+  expect(await takeSnapshot()).toEqual(stored);
+});
+
+describe('data kept in SQLite', () => {
+  let engine: StorageEngine;
+
+  // Records of every collection, in a stable order
+  const readRecords = async (source: StorageEngine) => {
+    const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+    return {
+      tasks: (await source.tasks.getAll()).sort(byId),
+      habits: (await source.habits.getAll()).sort(byId),
+      goals: (await source.goals.getAll()).sort(byId),
+      journal: (await source.journal.getAll()).sort(byId),
+      memories: (await source.memories.getAll()).sort(byId)
+    };
+  };
+
+  it('is not imported while the AsyncStorage data fails to migrate', async () => {
+    await loadSnapshot(0);
+    jest.spyOn(AsyncStorage, 'multiSet').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(prepareStorage('sqlite')).rejects.toThrow('Disk full');
+    expect(getStorageEngine().id).toBe('asyncstorage');
+    expect(await getSchemaVersion()).toBe(0);
+  });
+
+  it('is imported at the version of the AsyncStorage data', async () => {
+    // The oldest device is migrated in AsyncStorage, then imported
+    engine = await prepareStorage('sqlite');
+
+    expect(engine.id).toBe('sqlite');
+    expect(await getSchemaVersion(engine)).toBe(CURRENT_SCHEMA_VERSION);
+
+    await loadSnapshot(CURRENT_SCHEMA_VERSION);
+    expect(await readRecords(engine)).toEqual(await readRecords(new AsyncStorageEngine()));
+  });
+
+  it('is never migrated with the AsyncStorage keys', async () => {
+    await engine.setSchemaVersion(0);
+    const stored = await takeSnapshot();
+
+    await expect(runMigrations(CURRENT_SCHEMA_VERSION, engine)).rejects.toThrow('cannot run on sqlite data');
+    expect(await takeSnapshot()).toEqual(stored);
+  });
+
+  it('keeps its version apart from the AsyncStorage data', async () => {
+    await engine.setSchemaVersion(CURRENT_SCHEMA_VERSION + 1);
+
+    expect(await runMigrations(CURRENT_SCHEMA_VERSION, engine)).toBe(CURRENT_SCHEMA_VERSION + 1);
+    expect(await getSchemaVersion(new AsyncStorageEngine())).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,29 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readJSON, readList } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+it('keeps a copy of an unreadable list instead of losing it on the next write', async () => {
+  await AsyncStorage.setItem('berserk_tasks', '[{"id": "t1"');
+
+  expect(await readList('berserk_tasks')).toEqual([]);
+  expect(await AsyncStorage.getItem('corrupt_berserk_tasks')).toBe('[{"id": "t1"');
+});
+
+it('treats a value of the wrong shape as unreadable', async () => {
+  await AsyncStorage.setItem('berserk_tasks', '{"id": "t1"}');
+
+  expect(await readList('berserk_tasks')).toEqual([]);
+  expect(await readJSON('missing', 'fallback')).toBe('fallback');
+  expect(await AsyncStorage.getItem('corrupt_berserk_tasks')).toBe('{"id": "t1"}');
+});
@@ -0,0 +1,46 @@
+import {
+  analyzeText,
+  countMatches,
+  extractSearchKeys,
+  matchesQuery,
+  normalizeText,
+  stemEnglish,
+  stemRussian
+} from '../textNormalization';
+
+it('stems Russian inflections to a common stem', () => {
+  const stems = ['тренировка', 'тренировки', 'тренировкой', 'тренировками'].map(stemRussian);
+  expect(new Set(stems)).toEqual(new Set(['тренировк']));
+
+  expect(stemRussian('красивейший')).toBe('красив');
+  expect(stemRussian('настроения')).toBe(stemRussian('настроение'));
+  expect(stemRussian('работаю')).toBe(stemRussian('работать'));
+});
+
+it('stems English words like the Snowball reference', () => {
+  expect(['running', 'runs'].map(stemEnglish)).toEqual(['run', 'run']);
+  expect(stemEnglish('generously')).toBe('generous');
+  expect(stemEnglish('caresses')).toBe('caress');
+  expect(stemEnglish('ponies')).toBe('poni');
+  expect(stemEnglish('relational')).toBe('relat');
+  expect(stemEnglish('dying')).toBe('die');
+});
+
+it('folds case, ё and accents but keeps й', () => {
+  expect(normalizeText('Ёлка, ЙОГА — café!')).toBe('елка йога cafe');
+});
+
+it('drops stop words and matches across scripts', () => {
+  expect(analyzeText('это была тренировка').map(term => term.stem)).toEqual(['тренировк']);
+
+  const keys = extractSearchKeys('Вечерняя тренировка в зале');
+  expect(countMatches(analyzeText('trenirovki zal'), keys)).toBe(2);
+});
+
+it('requires every query word and accepts prefixes', () => {
+  expect(matchesQuery('Вечерняя тренировка в зале', 'тренировки вечером')).toBe(true);
+  expect(matchesQuery('Вечерняя тренировка в зале', 'трен')).toBe(true);
+  expect(matchesQuery('Вечерняя тренировка в зале', 'тренировка утром')).toBe(false);
+  expect(matchesQuery('Morning workouts', 'workout')).toBe(true);
+  expect(matchesQuery('Что угодно', 'и')).toBe(false);
+});
@@ -0,0 +1,123 @@
+/**
+ * Seeds 20k messages in the pre-segment storage format and reports the
+ * latency and number of storage calls of memory retrieval.
+ *
+ * Run with `npm run bench:memory`. Storage is the in-memory AsyncStorage
+ * mock, so timings show the CPU cost of the memory engine; the call counts
+ * show what a device pays on top of that for each storage round trip.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { memoryEngine } from '../memoryEngine';
+import { vectorIndex } from '../vectorIndex';
+import { Message } from '@/types/ai';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../llm/llmService', () => {
+  const embedder = new (jest.requireActual('../llm/localEmbedder').LocalEmbedder)();
+  return { llmService: { getEmbedder: async () => embedder } };
+});
+
+const CONVERSATIONS = 100;
+const MESSAGES_PER_CONVERSATION = 200;
+const QUERIES = ['тренировка по утрам', 'как справиться с ленью', 'planirovanie nedeli', 'sleep schedule'];
+
+const TOPICS = [
+  'Сегодня была тяжёлая тренировка, болят ноги после приседаний',
+  'Не могу заставить себя работать, опять прокрастинирую весь день',
+  'Планирую неделю: три тренировки, два дня на проект и отдых',
+  'Плохо сплю последние дни, ложусь после двух ночи',
+  'I finally finished the report and feel great about it',
+  'Читаю книгу о дисциплине, много полезных мыслей',
+  'Хочу выстроить привычку медитировать каждое утро',
+  'Поругался с коллегой, до сих пор злюсь'
+];
+
+// The mock's single-key methods call its multi-key ones, so only those are counted
+const storageCalls = (): number =>
+  (['multiGet', 'multiSet', 'multiRemove', 'getAllKeys'] as const)
+    .reduce((sum, method) => sum + (AsyncStorage[method] as jest.Mock).mock.calls.length, 0);
+
+const measure = async (label: string, run: () => Promise<unknown>): Promise<void> => {
+  const callsBefore = storageCalls();
+  const start = performance.now();
+  await run();
+  const elapsed = performance.now() - start;
+  console.log(`${label}: ${elapsed.toFixed(1)} ms, ${storageCalls() - callsBefore} storage calls`);
+};
+
+/**
+ * Writes conversations the way the app stored them before segments: one
+ * message array per conversation and a memory item per message
+ */
+const seed = async (): Promise<string[]> => {
+  const start = Date.now() - CONVERSATIONS * MESSAGES_PER_CONVERSATION * 60 * 1000;
+  const conversationIds: string[] = [];
+
+  for (let c = 0; c < CONVERSATIONS; c++) {
+    const conversationId = `conv_${start + c}`;
+    const messages: Message[] = [];
+
+    for (let m = 0; m < MESSAGES_PER_CONVERSATION; m++) {
+      const index = c * MESSAGES_PER_CONVERSATION + m;
+      messages.push({
+        id: `msg_${index}`,
+        role: m % 2 === 0 ? 'user' : 'assistant',
+        content: `${TOPICS[index % TOPICS.length]} (${index})`,
+        timestamp: new Date(start + index * 60 * 1000).toISOString()
+      });
+    }
+
+    await AsyncStorage.multiSet([
+      [`conv_${conversationId}`, JSON.stringify(messages)],
+      [`memory_index_${conversationId}`, JSON.stringify(messages.map(message => message.id))],
+      ...messages.map((message): [string, string] => [
+        `memory_${message.id}`,
+        JSON.stringify({ ...message, conversationId, keywords: [] })
+      ])
+    ]);
+    conversationIds.push(conversationId);
+  }
+
+  return conversationIds;
+};
+
+it('reports memory retrieval latency for 20k messages', async () => {
+  const conversationIds = await seed();
+  const latest = conversationIds[conversationIds.length - 1];
+  console.log(`Seeded ${CONVERSATIONS * MESSAGES_PER_CONVERSATION} messages in ${CONVERSATIONS} conversations`);
+
+  await measure('Recent messages, first read (migrates to segments)', () =>
+    memoryEngine.getRecentMessages(latest, 10)
+  );
+  await measure('Recent messages, warm', () => memoryEngine.getRecentMessages(latest, 10));
+  await measure('All messages of a conversation', () => memoryEngine.getAllMessages(conversationIds[0]));
+
+  await measure('Vector index build', () => memoryEngine.retrieveRelevantContext(QUERIES[0]));
+  for (const query of QUERIES) {
+    await measure(`Vector retrieval "${query}"`, () => memoryEngine.retrieveRelevantContext(query));
+  }
+
+  // Keyword retrieval is the fallback when vector search fails
+  const search = jest.spyOn(vectorIndex, 'search').mockRejectedValue(new Error('benchmark'));
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  await measure('Keyword index load', () => memoryEngine.retrieveRelevantContext(QUERIES[0]));
+  for (const query of QUERIES) {
+    await measure(`Keyword retrieval "${query}"`, () => memoryEngine.retrieveRelevantContext(query));
+  }
+  search.mockRestore();
+  warn.mockRestore();
+
+  await measure('Save message', () =>
+    memoryEngine.saveMessage(latest, {
+      id: 'msg_new',
+      role: 'user',
+      content: 'Завтра снова тренировка, хочу встать пораньше',
+      timestamp: new Date().toISOString()
+    })
+  );
+
+  const recent = await memoryEngine.getRecentMessages(latest, 2);
+  expect(recent.map(message => message.id)).toEqual([`msg_${CONVERSATIONS * MESSAGES_PER_CONVERSATION - 1}`, 'msg_new']);
+}, 600000);
@@ -0,0 +1,166 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { router } from 'expo-router';
+import { AppAction, AppActionPayloads, AppActionType, Habit, Task } from '@/types/app';
+import { journalService } from '@/services/journalService';
+import { goalPlanningService } from '@/services/planning/goalPlanningService';
+import { getStorageEngine } from '@/services/repositories/storageEngine';
+import { readList } from '@/services/storage';
+import { STORAGE_KEYS } from '@/services/storageKeys';
+import { actionExecutor, UNDO_WINDOW_MS } from '../actionExecutor';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-router', () => ({ router: { push: jest.fn() } }));
+jest.mock('../llm/llmService', () => {
+  const embedder = new (jest.requireActual('../llm/localEmbedder').LocalEmbedder)();
+  return { llmService: { complete: jest.fn(), getEmbedder: async () => embedder } };
+});
+
+const action = <T extends AppActionType>(type: T, payload: AppActionPayloads[T]): AppAction => ({ type, payload });
+
+const task = (id: string, title: string): Task => ({
+  id, title, status: 'pending', priority: 'medium', tags: [],
+  createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const habit = (id: string, title: string): Habit => ({
+  id, title, frequency: 'daily', completedDates: [], streak: 0, longestStreak: 0,
+  createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+// Applies an action that must succeed and returns how to undo it
+const apply = async (appAction: AppAction) => {
+  const result = await actionExecutor.execute(appAction);
+  expect(result).toMatchObject({ success: true });
+  return () => actionExecutor.undo(result.undoId!);
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+it('creates, updates and deletes tasks, and undoes each change', async () => {
+  const { tasks } = getStorageEngine();
+
+  const undoCreate = await apply(action('CREATE_TASK', {
+    title: 'Отчёт', description: '', dueDate: null, priority: 'high', category: null, tags: [], status: 'pending'
+  }));
+  const [created] = await tasks.getAll();
+  expect(created).toMatchObject({ title: 'Отчёт', priority: 'high' });
+
+  // The model may refer to a task by its title
+  const undoUpdate = await apply(action('UPDATE_TASK', { id: 'отчёт', updates: { status: 'completed' } }));
+  expect((await tasks.getAll())[0]).toMatchObject({ status: 'completed', completedAt: expect.any(String) });
+  expect(await undoUpdate()).toEqual({ success: true, message: 'Действие отменено' });
+  expect(await tasks.getAll()).toEqual([created]);
+
+  const deletion = action('DELETE_TASK', { id: created.id });
+  expect(actionExecutor.isDestructive(deletion)).toBe(true);
+  const undoDelete = await apply(deletion);
+  expect(await tasks.getAll()).toEqual([]);
+  await undoDelete();
+  expect(await tasks.getAll()).toEqual([created]);
+
+  await undoCreate();
+  expect(await tasks.getAll()).toEqual([]);
+});
+
+it('fails actions on items that do not exist', async () => {
+  const result = await actionExecutor.execute(action('DELETE_TASK', { id: 'missing' }));
+
+  expect(result).toEqual(expect.objectContaining({ success: false, message: 'Задача не найдена: missing' }));
+  expect(result.undoId).toBeUndefined();
+});
+
+it('keeps a completion saved while the mentor completes the habit, and undoes only its own', async () => {
+  const { habits } = getStorageEngine();
+  await habits.save([habit('h1', 'Зарядка')]);
+
+  const [undoMentor] = await Promise.all([
+    apply(action('COMPLETE_HABIT', { id: 'h1', date: '2026-01-02' })),
+    habits.update('h1', current => ({
+      ...current,
+      completedDates: [...current.completedDates, '2026-01-01'],
+      streak: current.streak + 1,
+      longestStreak: Math.max(current.longestStreak, current.streak + 1)
+    }))
+  ]);
+  expect((await habits.getAll())[0]).toMatchObject({ completedDates: ['2026-01-01', '2026-01-02'], streak: 2 });
+
+  const repeated = await actionExecutor.execute(action('COMPLETE_HABIT', { id: 'h1', date: '2026-01-02' }));
+  expect(repeated).toMatchObject({ success: true, message: 'Привычка уже отмечена: Зарядка' });
+  expect(repeated.undoId).toBeUndefined();
+
+  await undoMentor();
+  expect((await habits.getAll())[0]).toMatchObject({ completedDates: ['2026-01-01'], streak: 1, longestStreak: 1 });
+});
+
+it('creates habits, goals, reflections and metrics, and undoes them', async () => {
+  const undoHabit = await apply(action('CREATE_HABIT', {
+    title: 'Чтение', description: '', frequency: 'daily', timeOfDay: null, category: null,
+    triggers: [], obstacles: [], strategies: []
+  }));
+  const undoGoal = await apply(action('CREATE_GOAL', {
+    title: 'Марафон', description: '', dueDate: null, parentId: null, status: 'not_started',
+    tags: [], category: null, metrics: []
+  }));
+  const [goal] = await goalPlanningService.getAllGoals();
+  const undoGoalUpdate = await apply(action('UPDATE_GOAL', { id: goal.id, updates: { progress: 140 } }));
+  expect((await goalPlanningService.getGoalById(goal.id))?.progress).toBe(100);
+
+  const undoReflection = await apply(action('CREATE_REFLECTION', {
+    content: 'Пробежал 10 км', title: 'Пробежка', tags: [], mood: null, relatedGoals: []
+  }));
+  const undoMetric = await apply(action('TRACK_METRIC', {
+    name: 'Вес', value: '72.5', timestamp: '2026-01-01T00:00:00.000Z', category: null, notes: null
+  }));
+  expect(await readList(STORAGE_KEYS.metrics)).toEqual([expect.objectContaining({ name: 'Вес', value: 72.5 })]);
+
+  await undoGoalUpdate();
+  expect((await goalPlanningService.getGoalById(goal.id))?.progress).toBe(0);
+  for (const undo of [undoHabit, undoGoal, undoReflection, undoMetric]) {
+    expect((await undo()).success).toBe(true);
+  }
+
+  expect(await getStorageEngine().habits.getAll()).toEqual([]);
+  expect(await goalPlanningService.getAllGoals()).toEqual([]);
+  expect(await journalService.getAllEntries()).toEqual([]);
+  expect(await readList(STORAGE_KEYS.metrics)).toEqual([]);
+});
+
+it('rejects metrics without a numeric value', async () => {
+  const result = await actionExecutor.execute(action('TRACK_METRIC', {
+    name: 'Вес', value: 'много', timestamp: '2026-01-01T00:00:00.000Z', category: null, notes: null
+  }));
+
+  expect(result.success).toBe(false);
+  expect(await readList(STORAGE_KEYS.metrics)).toEqual([]);
+});
+
+it('opens known screens only', async () => {
+  await apply(action('NAVIGATE', { screen: 'Journal', params: {} }));
+  expect(router.push).toHaveBeenCalledWith({ pathname: '/(tabs)/journal', params: {} });
+
+  for (const screen of ['settings', 'constructor']) {
+    expect((await actionExecutor.execute(action('NAVIGATE', { screen, params: {} }))).success).toBe(false);
+  }
+  expect(router.push).toHaveBeenCalledTimes(1);
+});
+
+it('cannot undo an action after the undo window', async () => {
+  await getStorageEngine().tasks.save([task('t1', 'Отчёт')]);
+  const result = await actionExecutor.execute(action('DELETE_TASK', { id: 't1' }));
+
+  const now = Date.now();
+  const clock = jest.spyOn(Date, 'now').mockReturnValue(now + UNDO_WINDOW_MS + 1000);
+  expect(await actionExecutor.undo(result.undoId!)).toEqual({ success: false, message: 'Время для отмены истекло' });
+  clock.mockRestore();
+
+  expect(await getStorageEngine().tasks.getAll()).toEqual([]);
+});
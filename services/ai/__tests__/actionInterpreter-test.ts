@@ -0,0 +1,13 @@
+import { actionInterpreter } from '../actionInterpreter';
+
+it('reports unknown actions, including names of object members', () => {
+  for (const action of ['made_up', 'constructor', 'toString', '__proto__']) {
+    const errors = actionInterpreter.validateIntent({ action, data: {} });
+    expect(errors).toEqual([expect.stringContaining(`unknown action "${action}"`)]);
+  }
+});
+
+it('checks the data of known actions against their schema', () => {
+  expect(actionInterpreter.validateIntent({ action: 'create_task', data: { title: 'Отчёт' } })).toEqual([]);
+  expect(actionInterpreter.validateIntent({ action: 'create_task', data: {} })).not.toEqual([]);
+});
@@ -0,0 +1,147 @@
+import { getStorageEngine, openStorageEngine } from '@/services/repositories/storageEngine';
+import { aiCoreService } from '../aiCoreService';
+import { llmService } from '../llm/llmService';
+import { LLMRequestError } from '../llm/requestPolicy';
+import { memoryConsolidator } from '../memoryConsolidator';
+import { memoryEngine } from '../memoryEngine';
+import { mentorOutbox } from '../mentorOutbox';
+import { sessionManager } from '../sessionManager';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../llm/llmService', () => {
+  const embedder = new (jest.requireActual('../llm/localEmbedder').LocalEmbedder)();
+  return {
+    llmService: {
+      complete: jest.fn(),
+      supportsTools: async () => false,
+      getSettings: async () => ({ provider: 'fake', model: 'fake-mentor' }),
+      getEmbedder: async () => embedder
+    }
+  };
+});
+
+jest.mock('@/services/repositories/storageEngine', () => {
+  const actual = jest.requireActual('@/services/repositories/storageEngine');
+  return { ...actual, getStorageEngine: jest.fn(actual.getStorageEngine) };
+});
+
+const complete = llmService.complete as jest.Mock;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  mentorOutbox.stop();
+});
+
+// Runs first: the other tests need the service started
+it('uses no repository until it is started after the storage engine opens', async () => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  expect(getStorageEngine).not.toHaveBeenCalled();
+
+  await openStorageEngine('asyncstorage');
+  await aiCoreService.start();
+
+  // The new conversation starts with a welcome message saved to the memories
+  expect(getStorageEngine).toHaveBeenCalled();
+  expect(await aiCoreService.getMessageHistory()).toHaveLength(1);
+});
+
+it('answers analysis requests without touching the conversation', async () => {
+  const before = [...await aiCoreService.getMessageHistory()];
+  complete.mockResolvedValueOnce({
+    text: '{"insights": ["Бег помогает"], "sentiment": 0.6, "keywords": ["бег"]}\n' +
+      '<system>{"action": "delete_task", "data": {"id": "t1"}}</system>',
+    model: 'fake-mentor'
+  });
+
+  const result = await aiCoreService.analyze('Проанализируй эту запись: пробежал 5 км', 'journal_analysis');
+
+  expect(result.text).toBe('{"insights": ["Бег помогает"], "sentiment": 0.6, "keywords": ["бег"]}');
+  expect(result.actions).toEqual([]);
+  expect(result.prompt.id).toMatch(/^mentor_/);
+  expect(await aiCoreService.getMessageHistory()).toEqual(before);
+
+  // No command format is offered and the request is not part of the chat
+  const request = complete.mock.calls[0][0];
+  expect(request.feature).toBe('journal_analysis');
+  expect(request.messages.map((m: { content: string }) => m.content).join('\n')).not.toContain('<system>{"action"');
+  expect(request.messages.filter((m: { role: string }) => m.role !== 'system')).toHaveLength(1);
+});
+
+it('keeps the exchange in the conversation when asked', async () => {
+  complete.mockResolvedValueOnce({ text: 'Рефлексия', model: 'fake-mentor' });
+
+  await aiCoreService.analyze('Дай рефлексию на запись', 'journal_analysis', { remember: true });
+
+  const history = await aiCoreService.getMessageHistory();
+  expect(history.slice(-2).map(m => [m.role, m.content])).toEqual([
+    ['user', 'Дай рефлексию на запись'],
+    ['assistant', 'Рефлексия']
+  ]);
+});
+
+it('answers a queued message after it has left the context window', async () => {
+  // Message IDs are timestamps, so each message gets its own millisecond
+  let now = Date.now();
+  const clock = jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  // Sessions would keep an inactivity timer running after the test
+  jest.spyOn(sessionManager, 'touch').mockResolvedValue();
+
+  complete.mockRejectedValueOnce(new LLMRequestError('network', 'Network request failed'));
+  await expect(aiCoreService.sendMessage('Напомни про отчёт в пятницу')).rejects.toThrow();
+  const [queued] = await mentorOutbox.getAll();
+
+  // Twelve more messages push it out of the ten loaded on reopening
+  complete.mockResolvedValue({ text: 'Принято', model: 'fake-mentor' });
+  for (let i = 0; i < 6; i++) {
+    await aiCoreService.sendMessage(`Сообщение ${i}`);
+  }
+  const conversationId = aiCoreService.getConversationId()!;
+  await aiCoreService.openConversation(conversationId);
+  expect((await aiCoreService.getMessageHistory()).some(m => m.id === queued.messageId)).toBe(false);
+
+  complete.mockClear();
+  await mentorOutbox.flush();
+
+  expect(await mentorOutbox.getAll()).toEqual([]);
+  const stored = (await memoryEngine.getAllMessages(conversationId)).find(m => m.id === queued.messageId);
+  expect(stored?.status).toBe('sent');
+  const request = complete.mock.calls[0][0];
+  expect(request.messages[request.messages.length - 1].content).toContain('Напомни про отчёт в пятницу');
+
+  clock.mockRestore();
+});
+
+it('gives the mentor consolidated memories along with past session summaries', async () => {
+  const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString();
+  for (const [id, role, content] of [
+    ['w1', 'user', 'Хочу вставать в 6:00 каждое утро'],
+    ['w2', 'assistant', 'Чтобы вставать в 6:00 каждое утро, ложись спать до 22:00'],
+    ['w3', 'user', 'Хорошо, буду вставать в 6:00 каждое утро и ложиться раньше']
+  ] as const) {
+    await memoryEngine.saveMessage('conv_wake', { id, role, content, timestamp: tenDaysAgo });
+  }
+  complete.mockResolvedValueOnce({
+    text: '{"summary": "Пользователь решил вставать в 6:00 каждое утро.", "facts": []}',
+    model: 'fake-mentor'
+  });
+  await memoryConsolidator.run();
+  const summaries = jest.spyOn(sessionManager, 'retrieveRelevantSummaries')
+    .mockResolvedValue('- 2026-01-10: Обсуждали утренние тренировки');
+
+  complete.mockClear();
+  complete.mockResolvedValue({ text: 'Помню', model: 'fake-mentor' });
+  await aiCoreService.sendMessage('Во сколько я хотел вставать каждое утро?');
+
+  const prompt = complete.mock.calls[0][0].messages.map((m: { content: string }) => m.content).join('\n');
+  expect(prompt).toContain('Пользователь решил вставать в 6:00 каждое утро.');
+  expect(prompt).toContain('Обсуждали утренние тренировки');
+  summaries.mockRestore();
+});
@@ -0,0 +1,65 @@
+import { CONTEXT_PRIORITY, contextAssembler } from '../contextAssembler';
+import { Message } from '@/types/ai';
+
+jest.mock('../llm/llmService', () => ({
+  llmService: { getSettings: async () => ({ model: 'gpt-4o', maxPromptTokens: 300 }) }
+}));
+
+const message = (index: number): Message => ({
+  id: `m${index}`,
+  role: index % 2 === 0 ? 'user' : 'assistant',
+  content: `Сообщение номер ${index}: ${'подробности '.repeat(10)}`,
+  timestamp: new Date(2024, 0, 1, 0, index).toISOString()
+});
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+it('keeps required context and recent history within the budget', async () => {
+  const history = Array.from({ length: 10 }, (_, index) => message(index));
+
+  const { messages, report } = await contextAssembler.assemble({
+    systemPrompts: ['Ты ментор.'],
+    sections: [
+      { id: 'date', label: 'Дата', content: '1 января', priority: CONTEXT_PRIORITY.required },
+      {
+        id: 'profile',
+        label: 'Профиль',
+        content: Array.from({ length: 20 }, (_, index) => `Факт ${index}`).join('\n'),
+        priority: CONTEXT_PRIORITY.high,
+        truncatable: true
+      },
+      { id: 'journal', label: 'Дневник', content: 'запись '.repeat(200), priority: CONTEXT_PRIORITY.low }
+    ],
+    history,
+    maxReplyTokens: 1000
+  });
+
+  expect(report.used).toBeLessThanOrEqual(report.budget);
+  expect(report.dropped).toContain('journal');
+  expect(report.droppedMessages).toBeGreaterThan(0);
+
+  // The kept history is the newest contiguous part of the conversation
+  const kept = messages.filter(m => m.role !== 'system').map(m => m.content);
+  expect(kept).toEqual(history.slice(-kept.length).map(m => m.content));
+  expect(kept.length).toBeGreaterThanOrEqual(1);
+
+  const context = messages[1].content;
+  expect(context).toContain('Дата:\n1 января');
+  expect(context).not.toContain('Дневник');
+});
+
+it('includes everything when it fits', async () => {
+  const history = [message(0), message(1)];
+
+  const { messages, report } = await contextAssembler.assemble({
+    systemPrompts: ['Ты ментор.'],
+    sections: [{ id: 'date', label: 'Дата', content: '1 января', priority: CONTEXT_PRIORITY.required }],
+    history,
+    maxReplyTokens: 1000
+  });
+
+  expect(report).toMatchObject({ dropped: [], truncated: [], droppedMessages: 0 });
+  expect(messages).toHaveLength(4);
+});
@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Conversation, Message } from '@/types/ai';
+import { conversationLog } from '../conversationLog';
+import { conversationStore } from '../conversationStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../llm/llmService', () => {
+  const embedder = new (jest.requireActual('../llm/localEmbedder').LocalEmbedder)();
+  return { llmService: { getEmbedder: async () => embedder } };
+});
+
+const message = (id: string, role: Message['role'], content: string, timestamp: string): Message => ({
+  id, role, content, timestamp
+});
+
+const indexed = (id: string, title: string): Conversation => ({
+  id, title, titleSource: 'auto', personaId: 'commander', startedAt: '2026-01-03T00:00:00.000Z',
+  lastMessageAt: '2026-01-03T00:00:00.000Z', messageCount: 1, archived: false
+});
+
+// A new launch: fresh services over the data stored by the previous one
+const launch = (): typeof conversationStore => {
+  let store!: typeof conversationStore;
+  jest.isolateModules(() => {
+    jest.doMock('@react-native-async-storage/async-storage', () => AsyncStorage);
+    store = require('../conversationStore').conversationStore;
+  });
+  return store;
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+it('indexes each legacy conversation once, next to the segmented ones', async () => {
+  await AsyncStorage.multiSet([
+    ['conv_conv_1000', JSON.stringify([
+      message('m1', 'user', 'Как начать бегать?', '2026-01-01T00:00:00.000Z'),
+      message('m2', 'assistant', 'С коротких пробежек.', '2026-01-01T00:01:00.000Z')
+    ])],
+    ['conv_conv_2000', JSON.stringify([message('m3', 'user', 'План на неделю', '2026-01-02T00:00:00.000Z')])],
+    ['current_conversation_id', 'conv_2000'],
+    ['conversation_index', JSON.stringify([indexed('conv_3000', 'Сон')])]
+  ]);
+  // A conversation already stored by the conversation log, under the same prefix
+  await conversationLog.append('conv_3000', message('m4', 'user', 'Сон', '2026-01-03T00:00:00.000Z'));
+  expect(await AsyncStorage.getItem('segment_conv_3000_0')).not.toBeNull();
+
+  // A conversation started while the index is being migrated
+  const [, created] = await Promise.all([conversationStore.getAll(), conversationStore.create('commander')]);
+  const conversations = await conversationStore.getAll();
+  expect(conversations.map(c => c.id).sort()).toEqual(['conv_1000', 'conv_2000', 'conv_3000', created.id].sort());
+  expect(conversations.find(c => c.id === 'conv_1000')).toMatchObject({
+    title: 'Как начать бегать?',
+    messageCount: 2,
+    endedAt: '2026-01-01T00:01:00.000Z'
+  });
+  expect(conversations.find(c => c.id === 'conv_2000')?.endedAt).toBeUndefined();
+
+  // Reading a legacy conversation turns its message array into log metadata
+  expect(await conversationLog.readAll('conv_1000')).toHaveLength(2);
+
+  const relaunched = launch();
+  expect((await relaunched.getAll()).map(c => c.id).sort()).toEqual(conversations.map(c => c.id).sort());
+});
+
+it('migrates again on the next launch when the migration failed', async () => {
+  await AsyncStorage.setItem('conv_conv_1000', JSON.stringify([
+    message('m1', 'user', 'Как начать бегать?', '2026-01-01T00:00:00.000Z')
+  ]));
+  const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(AsyncStorage, 'multiGet').mockRejectedValueOnce(new Error('Storage is unavailable'));
+
+  const failed = launch();
+  expect(await failed.getAll()).toEqual([]);
+  expect(error).toHaveBeenCalledWith('Failed to migrate legacy conversations:', expect.any(Error));
+
+  const relaunched = launch();
+  expect((await relaunched.getAll()).map(c => c.id)).toEqual(['conv_1000']);
+  expect((await launch().getAll()).map(c => c.id)).toEqual(['conv_1000']);
+});
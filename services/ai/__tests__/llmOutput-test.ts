@@ -0,0 +1,29 @@
+import { LLMOutputError, parseLLMOutput } from '../llmOutput';
+import { JOURNAL_ANALYSIS_SCHEMA, NEXT_STEPS_SCHEMA, PROFILE_SCHEMA } from '../outputSchemas';
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+it('coerces and clamps profile traits, dropping values it cannot read', () => {
+  const text = '```json\n{"traits": {"neuroticism": "high", "openness": "7", "resilience": 14}, "values": "honesty"}\n```';
+  const { data, issues } = parseLLMOutput<any>('test', text, PROFILE_SCHEMA);
+
+  expect(data.traits).toEqual({ openness: 7, resilience: 10 });
+  expect(data.values).toEqual(['honesty']);
+  expect(issues).toEqual([expect.stringContaining('traits.neuroticism')]);
+});
+
+it('keeps valid array items and clamps sentiment', () => {
+  const steps = parseLLMOutput<any[]>('test', '[{"title": "Call"}, {"description": "no title"}]', NEXT_STEPS_SCHEMA);
+  expect(steps.data).toEqual([{ title: 'Call' }]);
+
+  const analysis = parseLLMOutput<any>('test', 'Result: {"sentiment": -3, "keywords": ["a"]}', JOURNAL_ANALYSIS_SCHEMA);
+  expect(analysis.data).toEqual({ sentiment: -1, keywords: ['a'] });
+});
+
+it('raises a structured error for output without JSON', () => {
+  expect(() => parseLLMOutput('analyzeEntry', 'not json at all', JOURNAL_ANALYSIS_SCHEMA))
+    .toThrow(expect.objectContaining({ reason: 'invalid_json', operation: 'analyzeEntry' }));
+  expect(() => parseLLMOutput('test', '{}', NEXT_STEPS_SCHEMA)).toThrow(LLMOutputError);
+});
@@ -0,0 +1,83 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Message } from '@/types/ai';
+import { setUserSettings } from '@/services/userSettings';
+import { conversationStore } from '../conversationStore';
+import { memoryConsolidator } from '../memoryConsolidator';
+import { memoryEngine } from '../memoryEngine';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../llm/llmService', () => {
+  const embedder = new (jest.requireActual('../llm/localEmbedder').LocalEmbedder)();
+  return {
+    llmService: {
+      getEmbedder: async () => embedder,
+      complete: async () => ({
+        text: '{"summary": "Пользователь выстраивает утренний режим.", "facts": ["Хочет вставать в 6:00"]}'
+      })
+    }
+  };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const message = (id: string, role: Message['role'], content: string, daysAgo: number): Message => ({
+  id,
+  role,
+  content,
+  timestamp: new Date(Date.now() - daysAgo * DAY_MS).toISOString()
+});
+
+beforeEach(async () => {
+  await AsyncStorage.removeItem('consolidation_last_run');
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+it('replaces old messages on one topic with a summary linking to them', async () => {
+  const messages = [
+    message('m1', 'user', 'Хочу вставать в 6:00 каждое утро', 10),
+    message('m2', 'assistant', 'Чтобы вставать в 6:00 каждое утро, ложись спать до 22:00', 10),
+    message('m3', 'user', 'Хорошо, буду вставать в 6:00 каждое утро и ложиться раньше', 10),
+    message('m4', 'user', 'Спасибо большое!', 10)
+  ];
+  for (const m of messages) await memoryEngine.saveMessage('conv_wake', m);
+
+  await memoryConsolidator.run();
+
+  const memories = (await memoryEngine.getAllMemories()).filter(m => m.conversationId === 'conv_wake');
+  expect(memories).toHaveLength(1);
+  expect(memories[0].kind).toBe('summary');
+  expect(memories[0].content).toContain('6:00');
+  expect(memories[0].sources?.map(source => source.id)).toEqual(['m1', 'm2', 'm3']);
+  expect(memories[0].prompt).toEqual({ id: 'memory_consolidation', version: 1, locale: 'ru' });
+  // The conversation history itself is kept
+  expect(await memoryEngine.getAllMessages('conv_wake')).toHaveLength(4);
+});
+
+it('keeps old conversations when the user has not set a retention period', async () => {
+  await AsyncStorage.removeItem('berserk-user-settings');
+  const conversation = await conversationStore.create('commander');
+  const old = message('kept1', 'user', 'Разговор двухлетней давности о переезде', 800);
+  await memoryEngine.saveMessage(conversation.id, old);
+  await conversationStore.recordMessage(conversation.id, old);
+
+  await memoryConsolidator.run();
+
+  expect(await conversationStore.get(conversation.id)).not.toBeNull();
+  expect(await memoryEngine.getAllMessages(conversation.id)).toHaveLength(1);
+});
+
+it('deletes conversations older than the retention period', async () => {
+  await setUserSettings({ privacy: { dataRetention: 30, dataUsageConsent: true, anonymizePersonalInfo: false } });
+  const conversation = await conversationStore.create('commander');
+  const old = message('old1', 'user', 'Старый разговор о планах на отпуск летом', 60);
+  await memoryEngine.saveMessage(conversation.id, old);
+  await conversationStore.recordMessage(conversation.id, old);
+
+  await memoryConsolidator.run();
+
+  expect(await conversationStore.get(conversation.id)).toBeNull();
+  expect(await memoryEngine.getAllMessages(conversation.id)).toEqual([]);
+  expect((await memoryEngine.getAllMemories()).some(m => m.id === 'old1')).toBe(false);
+});
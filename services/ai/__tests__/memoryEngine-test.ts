@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { memoryEngine } from '../memoryEngine';
+import { vectorIndex } from '../vectorIndex';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../llm/llmService', () => {
+  const embedder = new (jest.requireActual('../llm/localEmbedder').LocalEmbedder)();
+  return { llmService: { getEmbedder: async () => embedder } };
+});
+
+const save = (id: string, content: string) =>
+  memoryEngine.saveMessage('conv_test', { id, role: 'user', content, timestamp: new Date().toISOString() });
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await save('m1', 'Хочу вставать в 6:00 каждое утро');
+  await save('m2', 'Тренировка по вторникам и четвергам вечером');
+});
+
+it('lists pinned memories first and keeps edits searchable', async () => {
+  await memoryEngine.updateMemory('m1', { pinned: true });
+  await memoryEngine.updateMemory('m2', { content: 'Тренировка по средам вечером' });
+
+  const memories = await memoryEngine.listMemories('', 10);
+  expect(memories.map(memory => memory.id)).toEqual(['m1', 'm2']);
+  expect(memories[1].editedAt).toBeDefined();
+
+  expect((await memoryEngine.listMemories('среда', 10)).map(memory => memory.id)).toEqual(['m2']);
+  expect(await memoryEngine.listMemories('четверг', 10)).toEqual([]);
+  expect(await memoryEngine.getPinnedContext()).toBe('- Хочу вставать в 6:00 каждое утро');
+});
+
+it('removes deleted memories from storage and both indexes', async () => {
+  await memoryEngine.removeMemories(['m1']);
+
+  expect(await AsyncStorage.getItem('memory_m1')).toBeNull();
+  expect(await memoryEngine.listMemories('вставать', 10)).toEqual([]);
+  expect(await memoryEngine.getPinnedContext()).toBe('');
+  expect((await vectorIndex.getVectors(['m1', 'm2'])).has('m1')).toBe(false);
+});
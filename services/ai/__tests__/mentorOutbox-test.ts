@@ -0,0 +1,39 @@
+import { mentorOutbox, OutboxDelivery } from '../mentorOutbox';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+afterEach(() => {
+  mentorOutbox.stop();
+});
+
+it('sends queued messages in order and keeps them while offline', async () => {
+  await mentorOutbox.enqueue({ conversationId: 'conv_1', messageId: 'm1' });
+  await mentorOutbox.enqueue({ conversationId: 'conv_1', messageId: 'm2' });
+  await mentorOutbox.enqueue({ conversationId: 'conv_1', messageId: 'm1' });
+
+  const offline = jest.fn(async (): Promise<OutboxDelivery> => 'offline');
+  mentorOutbox.start(offline);
+  await mentorOutbox.flush();
+  expect(offline).toHaveBeenCalledTimes(1);
+  expect((await mentorOutbox.getAll()).map(item => item.messageId)).toEqual(['m1', 'm2']);
+
+  const sent: string[] = [];
+  mentorOutbox.start(async item => {
+    sent.push(item.messageId);
+    return 'sent';
+  });
+  await mentorOutbox.flush();
+  expect(sent).toEqual(['m1', 'm2']);
+  expect(await mentorOutbox.getAll()).toEqual([]);
+});
+
+it('keeps deferred messages queued', async () => {
+  await mentorOutbox.enqueue({ conversationId: 'conv_2', messageId: 'm3' });
+
+  mentorOutbox.start(async () => 'deferred');
+  await mentorOutbox.flush();
+
+  expect((await mentorOutbox.getAll()).map(item => item.messageId)).toEqual(['m3']);
+});
@@ -0,0 +1,42 @@
+import { findPlaceholders, PromptTemplateError, renderPrompt } from '../promptRegistry';
+import { JOURNAL_ANALYSIS_PROMPT, NEXT_STEPS_PROMPT, PROMPT_TEMPLATES } from '../promptTemplates';
+import { UNTRUSTED_CONTENT_NOTICE } from '../promptGuard';
+import { setUserSettings } from '@/services/userSettings';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+it('declares exactly the variables every locale refers to', () => {
+  for (const template of Object.values(PROMPT_TEMPLATES)) {
+    for (const text of Object.values(template.text)) {
+      expect({ id: template.id, variables: findPlaceholders(text).sort() })
+        .toEqual({ id: template.id, variables: [...template.variables].sort() });
+    }
+    expect(template.variables).toEqual(expect.arrayContaining(template.untrusted || []));
+  }
+});
+
+it('renders in the app language and stamps the template version', async () => {
+  const ru = await renderPrompt(JOURNAL_ANALYSIS_PROMPT, { entry: 'Сегодня пробежал {{5}} км' });
+  expect(ru.text.startsWith('Проанализируй')).toBe(true);
+  expect(ru.stamp).toEqual({ id: 'journal_analysis', version: 2, locale: 'ru' });
+
+  await setUserSettings({ language: 'en' });
+  const en = await renderPrompt(JOURNAL_ANALYSIS_PROMPT, { entry: 'Ran 5 km today' });
+  expect(en.text).toContain('Analyze this entry');
+  expect(en.stamp.locale).toBe('en');
+});
+
+it('fences untrusted variables and explains the fence', async () => {
+  const { text } = await renderPrompt(JOURNAL_ANALYSIS_PROMPT, { entry: 'Сегодня пробежал {{5}} км' }, 'ru');
+
+  expect(text).toContain('Запись: <untrusted source="entry">\nСегодня пробежал {{5}} км\n</untrusted>');
+  expect(text.endsWith(UNTRUSTED_CONTENT_NOTICE.ru)).toBe(true);
+});
+
+it('fails when a variable is missing', async () => {
+  const variables = { profile: '', goal: '', subGoals: '[]' };
+  await expect(renderPrompt(NEXT_STEPS_PROMPT, variables as typeof variables & { count: number }, 'en'))
+    .rejects.toThrow(PromptTemplateError);
+});
@@ -0,0 +1,135 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MentorSession, Message } from '@/types/ai';
+import { llmService } from '../llm/llmService';
+import { memoryEngine } from '../memoryEngine';
+import { sessionManager } from '../sessionManager';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../llm/llmService', () => {
+  const embedder = new (jest.requireActual('../llm/localEmbedder').LocalEmbedder)();
+  return {
+    llmService: {
+      getEmbedder: async () => embedder,
+      complete: jest.fn(async () => ({
+        text: '{"summary": "Обсудили утренние пробежки.", "keyInsights": ["Бегать легче до работы"]}'
+      }))
+    }
+  };
+});
+
+const MINUTE_MS = 60 * 1000;
+const SUMMARY_PROMPT = { id: 'session_summary', version: 1, locale: 'ru' };
+
+const say = (conversationId: string, id: string, role: Message['role'], content: string) =>
+  memoryEngine.saveMessage(conversationId, { id, role, content, timestamp: new Date().toISOString() });
+
+// Summaries are written in the background; the storage mock settles within one turn of the event loop
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+const sessionsOf = async (conversationId: string) =>
+  (await sessionManager.getAll()).filter(session => session.conversationId === conversationId);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: new Date('2026-01-01T09:00:00.000Z'), doNotFake: ['setImmediate'] });
+  jest.mocked(llmService.complete).mockClear();
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+it('keeps a session open while the user is active and summarizes it after the inactivity timeout', async () => {
+  await sessionManager.touch('conv_run', 'commander');
+  await say('conv_run', 'm1', 'user', 'Хочу бегать по утрам');
+  jest.setSystemTime(Date.now() + 10 * MINUTE_MS);
+  await say('conv_run', 'm2', 'assistant', 'Начни с двадцати минут');
+  await sessionManager.touch('conv_run', 'commander');
+
+  const [open] = await sessionsOf('conv_run');
+  expect(open).toMatchObject({ startTime: '2026-01-01T09:00:00.000Z', lastActivityAt: '2026-01-01T09:10:00.000Z' });
+  expect(open.endTime).toBeUndefined();
+
+  await jest.advanceTimersByTimeAsync(31 * MINUTE_MS);
+  await settle();
+
+  expect(await sessionsOf('conv_run')).toEqual([{
+    ...open,
+    endTime: '2026-01-01T09:10:00.000Z',
+    summary: 'Обсудили утренние пробежки.',
+    keyInsights: ['Бегать легче до работы'],
+    prompt: SUMMARY_PROMPT
+  }]);
+});
+
+it('closes the open session when the user switches conversations', async () => {
+  await sessionManager.touch('conv_sleep', 'commander');
+  await say('conv_sleep', 'm1', 'user', 'Как раньше ложиться спать?');
+  jest.setSystemTime(Date.now() + MINUTE_MS);
+  await sessionManager.touch('conv_work', 'sage');
+  await settle();
+
+  const [sleep] = await sessionsOf('conv_sleep');
+  expect(sleep).toMatchObject({ endTime: '2026-01-01T09:00:00.000Z', summary: 'Обсудили утренние пробежки.' });
+  const [work] = await sessionsOf('conv_work');
+  expect(work).toMatchObject({ personaId: 'sage', startTime: '2026-01-01T09:01:00.000Z' });
+  expect(work.endTime).toBeUndefined();
+});
+
+it('drops sessions in which the user wrote nothing', async () => {
+  await sessionManager.touch('conv_welcome', 'commander');
+  await say('conv_welcome', 'm1', 'assistant', 'Добро пожаловать! С чего начнём?');
+
+  await sessionManager.endCurrent();
+  await settle();
+
+  expect(await sessionsOf('conv_welcome')).toEqual([]);
+  expect(llmService.complete).not.toHaveBeenCalled();
+});
+
+it('summarizes sessions left open or unsummarized when the app was closed', async () => {
+  await say('conv_read', 'm1', 'user', 'Хочу читать по книге в месяц');
+  const startTime = new Date().toISOString();
+  const restored: MentorSession[] = [
+    // Left open by the previous launch, long past the inactivity timeout
+    { id: 'session_1', conversationId: 'conv_read', startTime, lastActivityAt: startTime, personaId: 'commander' },
+    // Closed, but the app was closed before its summary was written
+    { id: 'session_2', conversationId: 'conv_read', startTime, lastActivityAt: startTime, endTime: startTime, personaId: 'commander' }
+  ];
+  await AsyncStorage.setItem('mentor_sessions', JSON.stringify(restored));
+  jest.setSystemTime(Date.now() + 2 * 60 * MINUTE_MS);
+
+  await sessionManager.closeStale();
+
+  const sessions = await sessionsOf('conv_read');
+  expect(sessions).toHaveLength(2);
+  for (const session of sessions) {
+    expect(session).toMatchObject({ endTime: startTime, summary: 'Обсудили утренние пробежки.', prompt: SUMMARY_PROMPT });
+  }
+});
+
+it('summarizes the user messages itself when the model fails', async () => {
+  jest.mocked(llmService.complete).mockRejectedValueOnce(new Error('Network request failed'));
+
+  await sessionManager.touch('conv_diet', 'commander');
+  await say('conv_diet', 'm1', 'user', 'Сколько белка нужно в день?\nЯ вешу 70 кг');
+  await say('conv_diet', 'm2', 'assistant', 'Около 1,6 г на килограмм');
+  await say('conv_diet', 'm3', 'user', 'А если тренируюсь каждый день?');
+  await sessionManager.endCurrent();
+  await settle();
+
+  const [session] = await sessionsOf('conv_diet');
+  expect(session).toMatchObject({
+    summary: 'Темы: Сколько белка нужно в день?; А если тренируюсь каждый день?',
+    keyInsights: []
+  });
+  expect(session.prompt).toBeUndefined();
+});
@@ -0,0 +1,469 @@
+import { router } from 'expo-router';
+import {
+  ActionResult,
+  AppAction,
+  AppActionPayloads,
+  AppActionType,
+  Goal,
+  Habit,
+  MetricDataPoint,
+  Task
+} from '@/types/app';
+import { appEvents, DataScope } from '../appEvents';
+import { journalService } from '../journalService';
+import { goalPlanningService } from '../planning/goalPlanningService';
+import { getStorageEngine } from '../repositories/storageEngine';
+import { readList, writeJSON } from '../storage';
+import { STORAGE_KEYS } from '../storageKeys';
+
+// How long an applied action can be undone
+export const UNDO_WINDOW_MS = 60 * 1000;
+
+// Actions that destroy data and must never be applied without confirmation
+const DESTRUCTIVE_ACTION_TYPES: AppActionType[] = ['DELETE_TASK'];
+
+type TabRoute = '/(tabs)' | '/(tabs)/operations' | '/(tabs)/strategy' | '/(tabs)/journal' | '/(tabs)/mentor';
+
+// Screen names the mentor may use in navigate intents
+const SCREEN_ROUTES: Record<string, TabRoute> = {
+  dashboard: '/(tabs)',
+  home: '/(tabs)',
+  operations: '/(tabs)/operations',
+  tasks: '/(tabs)/operations',
+  strategy: '/(tabs)/strategy',
+  goals: '/(tabs)/strategy',
+  journal: '/(tabs)/journal',
+  mentor: '/(tabs)/mentor'
+};
+
+interface ApplyOutcome {
+  message: string;
+  scopes: DataScope[];
+  revert?: () => Promise<void>;
+}
+
+interface UndoEntry {
+  expiresAt: number;
+  scopes: DataScope[];
+  revert: () => Promise<void>;
+}
+
+/**
+ * Action Executor applies app actions produced by the action interpreter to
+ * the stored tasks, habits, goals, journal and metrics, then notifies the
+ * tabs so they reload. Goals go through the goal planning service, which
+ * announces its own changes. Applied actions can be reverted for UNDO_WINDOW_MS.
+ */
+class ActionExecutor {
+  private static instance: ActionExecutor;
+  private undoEntries: Map<string, UndoEntry> = new Map();
+
+  private constructor() {
+    // Initialize the executor
+  }
+
+  public static getInstance(): ActionExecutor {
+    if (!ActionExecutor.instance) {
+      ActionExecutor.instance = new ActionExecutor();
+    }
+    return ActionExecutor.instance;
+  }
+
+  /**
+   * Executes a list of actions in order, continuing past failures
+   * @param actions Actions to apply
+   * @returns One result per action
+   */
+  public async executeAll(actions: AppAction[]): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+    for (const action of actions) {
+      results.push(await this.execute(action));
+    }
+    return results;
+  }
+
+  /**
+   * Executes a single action
+   * @param action Action to apply
+   * @returns Whether it succeeded and a message for the user
+   */
+  public async execute(action: AppAction): Promise<ActionResult> {
+    try {
+      const { message, scopes, revert } = await this.apply(action);
+      appEvents.emitDataChanged(scopes);
+
+      const result: ActionResult = { action, success: true, message };
+      if (revert) {
+        const expiresAt = Date.now() + UNDO_WINDOW_MS;
+        result.undoId = this.generateId();
+        result.undoExpiresAt = new Date(expiresAt).toISOString();
+        this.undoEntries.set(result.undoId, { expiresAt, scopes, revert });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Failed to execute action:', action, error);
+      return {
+        action,
+        success: false,
+        message: error instanceof Error ? error.message : 'Не удалось выполнить действие'
+      };
+    }
+  }
+
+  /**
+   * Reverts a previously applied action while its undo window is open
+   * @param undoId Undo identifier from the action result
+   */
+  public async undo(undoId: string): Promise<{ success: boolean; message: string }> {
+    this.pruneExpiredUndo();
+    const entry = this.undoEntries.get(undoId);
+
+    if (!entry) {
+      return { success: false, message: 'Время для отмены истекло' };
+    }
+
+    try {
+      await entry.revert();
+      this.undoEntries.delete(undoId);
+      appEvents.emitDataChanged(entry.scopes);
+      return { success: true, message: 'Действие отменено' };
+    } catch (error) {
+      console.error('Failed to undo action:', error);
+      return { success: false, message: 'Не удалось отменить действие' };
+    }
+  }
+
+  /**
+   * Whether the action destroys data and needs explicit confirmation
+   * @param action Action to check
+   */
+  public isDestructive(action: AppAction): boolean {
+    return DESTRUCTIVE_ACTION_TYPES.includes(action.type);
+  }
+
+  /**
+   * Builds a short list of existing items with their IDs, so the mentor can
+   * reference them in update and complete intents
+   */
+  public async getActionContext(): Promise<string> {
+    try {
+      const { tasks: taskRepository, habits: habitRepository } = getStorageEngine();
+      const tasks = await taskRepository.getAll();
+      const habits = await habitRepository.getAll();
+      const goals = await goalPlanningService.getAllGoals();
+      const isOpen = (item: Task | Goal) => item.status !== 'completed' && item.status !== 'canceled';
+
+      const lines = [
+        ...tasks.filter(isOpen).slice(0, 15)
+          .map(task => `task ${task.id}: ${task.title}`),
+        ...habits.slice(0, 10).map(habit => `habit ${habit.id}: ${habit.title}`),
+        ...goals.filter(isOpen).slice(0, 10)
+          .map(goal => `goal ${goal.id}: ${goal.title}`)
+      ];
+
+      return lines.join('\n');
+    } catch (error) {
+      console.error('Failed to build action context:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Dispatches an action to its handler
+   */
+  private async apply(action: AppAction): Promise<ApplyOutcome> {
+    switch (action.type) {
+      case 'CREATE_TASK':
+        return this.createTask(action.payload);
+      case 'UPDATE_TASK':
+        return this.updateTask(action.payload);
+      case 'DELETE_TASK':
+        return this.deleteTask(action.payload);
+      case 'CREATE_GOAL':
+        return this.createGoal(action.payload);
+      case 'UPDATE_GOAL':
+        return this.updateGoal(action.payload);
+      case 'CREATE_HABIT':
+        return this.createHabit(action.payload);
+      case 'COMPLETE_HABIT':
+        return this.completeHabit(action.payload);
+      case 'CREATE_REFLECTION':
+        return this.createReflection(action.payload);
+      case 'TRACK_METRIC':
+        return this.trackMetric(action.payload);
+      case 'NAVIGATE':
+        return this.navigate(action.payload);
+      case 'DISPLAY_MESSAGE':
+        return { message: action.payload.message, scopes: [] };
+      default:
+        throw new Error(`Неизвестное действие: ${action.type}`);
+    }
+  }
+
+  private async createTask(payload: AppActionPayloads['CREATE_TASK']): Promise<ApplyOutcome> {
+    const now = new Date().toISOString();
+    const newTask: Task = {
+      id: this.generateId(),
+      title: payload.title,
+      description: payload.description || undefined,
+      status: payload.status || 'pending',
+      priority: payload.priority || 'medium',
+      dueDate: payload.dueDate || undefined,
+      category: payload.category || undefined,
+      tags: payload.tags || [],
+      createdAt: now,
+      updatedAt: now,
+      completedAt: payload.status === 'completed' ? now : undefined
+    };
+
+    await getStorageEngine().tasks.save([newTask]);
+    return {
+      message: `Задача создана: ${newTask.title}`,
+      scopes: ['tasks'],
+      revert: () => getStorageEngine().tasks.remove([newTask.id])
+    };
+  }
+
+  private async updateTask(payload: AppActionPayloads['UPDATE_TASK']): Promise<ApplyOutcome> {
+    const task = this.findByRef(await getStorageEngine().tasks.getAll(), payload.id);
+
+    if (!task) {
+      throw new Error(`Задача не найдена: ${payload.id}`);
+    }
+
+    const now = new Date().toISOString();
+    const updates = this.definedFields(payload.updates || {});
+    const updatedTask = await getStorageEngine().tasks.update(task.id, current => {
+      const updated: Task = { ...current, ...updates, updatedAt: now };
+      if (updated.status !== current.status) {
+        updated.completedAt = updated.status === 'completed' ? now : undefined;
+      }
+      return updated;
+    });
+
+    return {
+      message: `Задача обновлена: ${updatedTask?.title || task.title}`,
+      scopes: ['tasks'],
+      revert: async () => {
+        await getStorageEngine().tasks.update(task.id, () => task);
+      }
+    };
+  }
+
+  private async deleteTask(payload: AppActionPayloads['DELETE_TASK']): Promise<ApplyOutcome> {
+    const task = this.findByRef(await getStorageEngine().tasks.getAll(), payload.id);
+
+    if (!task) {
+      throw new Error(`Задача не найдена: ${payload.id}`);
+    }
+
+    await getStorageEngine().tasks.remove([task.id]);
+    return {
+      message: `Задача удалена: ${task.title}`,
+      scopes: ['tasks'],
+      revert: async () => {
+        const tasks = getStorageEngine().tasks;
+        if ((await tasks.getByIds([task.id])).length > 0) return;
+        await tasks.save([task]);
+      }
+    };
+  }
+
+  private async createGoal(payload: AppActionPayloads['CREATE_GOAL']): Promise<ApplyOutcome> {
+    const parentId = payload.parentId || null;
+    if (parentId && !(await goalPlanningService.getGoalById(parentId))) {
+      throw new Error(`Родительская цель не найдена: ${parentId}`);
+    }
+
+    const newGoal = await goalPlanningService.createGoal({
+      title: payload.title,
+      description: payload.description || '',
+      status: payload.status === 'canceled' ? 'not_started' : payload.status || 'not_started',
+      progress: 0,
+      dueDate: payload.dueDate || undefined,
+      parentId
+    });
+
+    return {
+      message: `Цель создана: ${newGoal.title}`,
+      scopes: [],
+      revert: () => goalPlanningService.deleteGoal(newGoal.id)
+    };
+  }
+
+  private async updateGoal(payload: AppActionPayloads['UPDATE_GOAL']): Promise<ApplyOutcome> {
+    const goal = this.findByRef(await goalPlanningService.getAllGoals(), payload.id);
+
+    if (!goal) {
+      throw new Error(`Цель не найдена: ${payload.id}`);
+    }
+
+    // The mentor edits only these fields; links to subgoals stay as they are
+    const { title, description, dueDate, status, progress } = payload.updates || {};
+    const updates = this.definedFields({ title, description, dueDate, status, progress });
+    if (typeof updates.progress === 'number') {
+      updates.progress = Math.max(0, Math.min(100, updates.progress));
+    }
+
+    await goalPlanningService.updateGoal(goal.id, updates);
+    return {
+      message: `Цель обновлена: ${updates.title || goal.title}`,
+      scopes: [],
+      revert: async () => {
+        // Restore the previous fields but keep subgoals added since
+        const { children, parentId, ...previous } = goal;
+        await goalPlanningService.updateGoal(goal.id, previous);
+      }
+    };
+  }
+
+  private async createHabit(payload: AppActionPayloads['CREATE_HABIT']): Promise<ApplyOutcome> {
+    const now = new Date().toISOString();
+    const newHabit: Habit = {
+      id: this.generateId(),
+      title: payload.title,
+      description: payload.description || undefined,
+      frequency: payload.frequency || 'daily',
+      completedDates: [],
+      streak: 0,
+      longestStreak: 0,
+      category: payload.category || undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await getStorageEngine().habits.save([newHabit]);
+    return {
+      message: `Привычка создана: ${newHabit.title}`,
+      scopes: ['habits'],
+      revert: () => getStorageEngine().habits.remove([newHabit.id])
+    };
+  }
+
+  private async completeHabit(payload: AppActionPayloads['COMPLETE_HABIT']): Promise<ApplyOutcome> {
+    const habits = getStorageEngine().habits;
+    const habit = this.findByRef(await habits.getAll(), payload.id);
+
+    if (!habit) {
+      throw new Error(`Привычка не найдена: ${payload.id}`);
+    }
+
+    // The habit is changed as stored at the time of writing, so a completion
+    // saved in the meantime is kept
+    let previous: Habit = habit;
+    const updatedHabit = await habits.update(habit.id, current => {
+      previous = current;
+      if (current.completedDates.includes(payload.date)) return current;
+
+      return {
+        ...current,
+        completedDates: [...current.completedDates, payload.date],
+        streak: current.streak + 1,
+        longestStreak: Math.max(current.longestStreak, current.streak + 1),
+        updatedAt: new Date().toISOString()
+      };
+    });
+
+    if (!updatedHabit || updatedHabit === previous) {
+      return { message: `Привычка уже отмечена: ${habit.title}`, scopes: [] };
+    }
+
+    return {
+      message: `Привычка выполнена: ${habit.title}`,
+      scopes: ['habits'],
+      revert: async () => {
+        await habits.update(habit.id, () => previous);
+      }
+    };
+  }
+
+  private async createReflection(payload: AppActionPayloads['CREATE_REFLECTION']): Promise<ApplyOutcome> {
+    const entry = await journalService.createEntry({
+      title: payload.title,
+      content: payload.content,
+      tags: payload.tags,
+      mood: payload.mood || undefined,
+      relatedGoals: payload.relatedGoals
+    });
+
+    return {
+      message: `Запись в дневнике создана: ${entry.title}`,
+      scopes: ['journal'],
+      revert: () => journalService.deleteEntry(entry.id)
+    };
+  }
+
+  private async trackMetric(payload: AppActionPayloads['TRACK_METRIC']): Promise<ApplyOutcome> {
+    const value = Number(payload.value);
+    if (Number.isNaN(value)) {
+      throw new Error(`Некорректное значение метрики ${payload.name}: ${payload.value}`);
+    }
+
+    const metrics = await readList<MetricDataPoint>(STORAGE_KEYS.metrics);
+    const dataPoint: MetricDataPoint = {
+      id: this.generateId(),
+      name: payload.name,
+      value,
+      timestamp: payload.timestamp,
+      category: payload.category,
+      notes: payload.notes
+    };
+
+    await writeJSON(STORAGE_KEYS.metrics, [...metrics, dataPoint]);
+    return {
+      message: `Метрика записана: ${dataPoint.name} = ${value}`,
+      scopes: ['metrics'],
+      revert: () => this.removeFromList<MetricDataPoint>(STORAGE_KEYS.metrics, dataPoint.id)
+    };
+  }
+
+  private async navigate(payload: AppActionPayloads['NAVIGATE']): Promise<ApplyOutcome> {
+    const screen = String(payload.screen).toLowerCase();
+    const route = Object.prototype.hasOwnProperty.call(SCREEN_ROUTES, screen) ? SCREEN_ROUTES[screen] : undefined;
+    if (!route) {
+      throw new Error(`Неизвестный экран: ${payload.screen}`);
+    }
+
+    router.push({ pathname: route, params: payload.params });
+    return { message: `Переход: ${payload.screen}`, scopes: [] };
+  }
+
+  /**
+   * Finds an item by ID, falling back to a case-insensitive title match
+   * because the model sometimes refers to items by name
+   */
+  private findByRef<T extends { id: string; title: string }>(items: T[], ref: string): T | undefined {
+    if (!ref) return undefined;
+    const normalizedRef = String(ref).trim().toLowerCase();
+    return items.find(item => item.id === ref) ||
+      items.find(item => item.title.trim().toLowerCase() === normalizedRef);
+  }
+
+  /**
+   * Drops undefined fields so partial updates do not erase existing values
+   */
+  private definedFields<T extends object>(updates: T): Partial<T> {
+    return Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) as Partial<T>;
+  }
+
+  private pruneExpiredUndo(): void {
+    const now = Date.now();
+    this.undoEntries.forEach((entry, undoId) => {
+      if (entry.expiresAt < now) {
+        this.undoEntries.delete(undoId);
+      }
+    });
+  }
+
+  private generateId(): string {
+    return Date.now().toString() + Math.random().toString().substring(2, 6);
+  }
+
+  private async removeFromList<T extends { id: string }>(key: string, id: string): Promise<void> {
+    const items = await readList<T>(key);
+    await writeJSON(key, items.filter(item => item.id !== id));
+  }
+}
+
+export const actionExecutor = ActionExecutor.getInstance();
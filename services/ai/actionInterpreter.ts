@@ -1,5 +1,7 @@
-import { SystemIntent } from '@/types/ai';
+import { LLMToolDefinition, SystemIntent } from '@/types/ai';
 import { AppAction, TaskPriority, TaskStatus, GoalStatus } from '@/types/app';
+import { INTENT_TOOLS, IntentName } from './intentTools';
+import { validateSchema } from './jsonSchema';
 
 /**
  * Action Interpreter converts system intents from AI into executable app actions
@@ -18,6 +20,46 @@ class ActionInterpreter {
     return ActionInterpreter.instance;
   }
   
+  /**
+   * Gets the intents as tool definitions for native tool calling
+   * @param allowed Intents to include, all by default
+   * @returns Tool definitions with JSON schemas
+   */
+  public getToolDefinitions(allowed?: IntentName[]): LLMToolDefinition[] {
+    const tools = Object.values(INTENT_TOOLS);
+    return allowed ? tools.filter(tool => allowed.includes(tool.name as IntentName)) : tools;
+  }
+
+  /**
+   * Checks an intent against the schema of its tool
+   * @param intent System intent from AI
+   * @returns Validation errors, empty when the intent is valid
+   */
+  public validateIntent(intent: SystemIntent): string[] {
+    // Names like "constructor" must not reach the object's prototype
+    if (!Object.prototype.hasOwnProperty.call(INTENT_TOOLS, intent.action)) {
+      return [`unknown action "${intent.action}", expected one of: ${Object.keys(INTENT_TOOLS).join(', ')}`];
+    }
+
+    return validateSchema(INTENT_TOOLS[intent.action as IntentName].parameters, intent.data ?? {});
+  }
+
+  /**
+   * Describes the text command format for models without native tool calling
+   * @param allowed Commands to list, all by default
+   * @returns Instructions listing every command and its parameters schema
+   */
+  public describeTextProtocol(allowed?: IntentName[]): string {
+    const commands = this.getToolDefinitions(allowed)
+      .map(tool => `- ${tool.name}: ${tool.description}\n  data schema: ${JSON.stringify(tool.parameters)}`)
+      .join('\n');
+
+    return `To perform an action in the app, add a command to your reply on its own line in exactly this format:
+<system>{"action": "<command name>", "data": {<parameters>}}</system>
+The content of the tag must be valid JSON. Use one tag per command. Available commands:
+${commands}`;
+  }
+
   /**
    * Interprets a system intent and converts it to an app action
    * @param intent System intent from AI
@@ -1,29 +1,143 @@
-import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Message, PersonaProfile, SystemIntent } from '@/types/ai';
+import {
+  LLMFeature,
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  Message,
+  MessageDeliveryStatus,
+  PersonaProfile,
+  PromptStamp,
+  SystemIntent
+} from '@/types/ai';
 import { AppAction } from '@/types/app';
 import { memoryEngine } from './memoryEngine';
 import { actionInterpreter } from './actionInterpreter';
+import { actionExecutor } from './actionExecutor';
 import { personalityEngine } from './personalityEngine';
 import { userProfileEngine } from './userProfileEngine';
-import Constants from 'expo-constants';
+import { llmService } from './llm/llmService';
+import { LLMBudgetError } from './llm/usageTracker';
+import { isOfflineError, LLMRequestError } from './llm/requestPolicy';
+import { conversationStore, titleFromText } from './conversationStore';
+import { sessionManager } from './sessionManager';
+import { memoryConsolidator } from './memoryConsolidator';
+import { CONTEXT_PRIORITY, contextAssembler } from './contextAssembler';
+import { mentorOutbox, OutboxDelivery, OutboxItem } from './mentorOutbox';
+import { renderPrompt, RenderedPrompt } from './promptRegistry';
+import { getAllowedIntents, isIntentBlocked, UNTRUSTED_CONTENT_NOTICE } from './promptGuard';
+import { IntentName } from './intentTools';
+import { CONVERSATION_TITLE_PROMPT, MENTOR_DEFAULT_PROMPT, MENTOR_PERSONA_PROMPT } from './promptTemplates';
 
-// API Keys would be stored securely in environment variables in production
-// For development, we'll use a placeholder
-const API_KEY = Constants.expoConfig?.extra?.OPENAI_KEY;
-// Replace with actual key or env variable
+/**
+ * Intent found in a model response, with validation errors if it is malformed
+ */
+interface IntentCandidate {
+  intent: SystemIntent;
+  errors: string[];
+  toolCallId?: string;
+}
+
+/**
+ * Callbacks for a streamed reply
+ */
+interface StreamOptions {
+  onText: (text: string) => void; // Receives the visible reply so far, without intent markup
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a mentor exchange
+ */
+export interface MentorReply {
+  response: string;
+  actions?: AppAction[];
+  stopped?: boolean; // The user stopped the reply before it finished
+  messageId?: string; // The user message that was answered
+  status?: MessageDeliveryStatus; // 'pending' while queued in the offline outbox
+  error?: string; // Why the message was not answered, for the user
+}
+
+/**
+ * Options of a one-off analysis request
+ */
+export interface AnalysisOptions {
+  remember?: boolean; // Keep the request and the answer in the open conversation and its memory
+}
+
+/**
+ * Result of a one-off analysis request
+ */
+export interface AnalysisResult {
+  text: string;
+  actions: AppAction[]; // Proposed only by features whose intent policy allows it
+  prompt: PromptStamp; // System prompt the answer was generated with
+}
+
+const SYSTEM_TAG_OPEN = '<system>';
+// Latest messages considered for the prompt; the context assembler may keep fewer
+const HISTORY_LIMIT = 10;
+const MAX_REPLY_TOKENS = 1000;
+
+/**
+ * Hides <system> command markup from partially received text, including
+ * an unfinished tag at the end
+ */
+export const stripIntentMarkup = (text: string): string => {
+  let visible = text.replace(/<system>[\s\S]*?<\/system>/g, '');
+
+  const openIndex = visible.indexOf(SYSTEM_TAG_OPEN);
+  if (openIndex !== -1) {
+    visible = visible.slice(0, openIndex);
+  }
+
+  for (let length = SYSTEM_TAG_OPEN.length - 1; length > 0; length--) {
+    if (visible.endsWith(SYSTEM_TAG_OPEN.slice(0, length))) {
+      visible = visible.slice(0, -length);
+      break;
+    }
+  }
+
+  return visible;
+};
 
 class AICoreService {
   private static instance: AICoreService;
   private currentPersona: PersonaProfile | null = null;
   private conversationId: string | null = null;
   private contextWindow: Message[] = [];
-  private systemInstructions: string = '';
+  private initialization: Promise<void>;
+  private finishInitialization!: () => void;
+  private isStarted = false;
+  private outboxListeners: Set<(reply: MentorReply) => void> = new Set();
 
   private constructor() {
-    // Initialize with default persona
-    this.loadPersona('commander');
-    this.initConversation();
+    // Nothing is read until start(): the storage engine is not open yet
+    this.initialization = new Promise(resolve => {
+      this.finishInitialization = resolve;
+    });
+  }
+
+  /**
+   * Starts the service once the storage engine is open: loads the default
+   * persona and the open conversation, closes a session left open when the
+   * app was last used, starts sending queued messages and runs the daily
+   * memory consolidation in the background. Requests made before it wait.
+   */
+  public start(): Promise<void> {
+    if (this.isStarted) return this.initialization;
+    this.isStarted = true;
+
+    this.loadPersona('commander')
+      .then(() => this.initConversation())
+      .then(() => {
+        sessionManager.closeStale();
+        mentorOutbox.start(item => this.deliverQueued(item));
+        memoryConsolidator.runIfDue().catch(error => console.error('Memory consolidation failed:', error));
+      })
+      .catch(error => console.error('Failed to initialize AI core:', error))
+      .then(() => this.finishInitialization());
+    return this.initialization;
   }
 
   public static getInstance(): AICoreService {
@@ -41,29 +155,24 @@ class AICoreService {
       // Generate or retrieve conversation ID
       const storedId = await AsyncStorage.getItem('current_conversation_id');
       
-      if (storedId) {
-        this.conversationId = storedId;
+      const conversation = storedId ? await conversationStore.get(storedId) : null;
+      
+      if (conversation) {
+        this.conversationId = conversation.id;
         // Load context window from memory engine
-        this.contextWindow = await memoryEngine.getRecentMessages(storedId, 10);
+        this.contextWindow = await memoryEngine.getRecentMessages(conversation.id, 10);
+        
+        // Continue with the persona the conversation was held with
+        if (this.currentPersona?.id !== conversation.personaId) {
+          this.currentPersona = await personalityEngine.getPersona(conversation.personaId);
+        }
       } else {
-        this.conversationId = `conv_${Date.now()}`;
-        await AsyncStorage.setItem('current_conversation_id', this.conversationId);
+        await this.createConversation();
       }
       
-      // Build system instructions based on current persona
-      this.buildSystemInstructions();
-      
       // If no messages exist yet, add a welcome message
       if (this.contextWindow.length === 0 && this.currentPersona) {
-        const welcomeMessage: Message = {
-          id: `msg_${Date.now()}`,
-          role: 'assistant',
-          content: this.currentPersona.welcomeMessage,
-          timestamp: new Date().toISOString()
-        };
-        
-        this.contextWindow.push(welcomeMessage);
-        await memoryEngine.saveMessage(this.conversationId, welcomeMessage);
+        await this.addWelcomeMessage(this.currentPersona.welcomeMessage);
       }
     } catch (error) {
       console.error('Failed to initialize conversation:', error);
@@ -71,81 +180,348 @@ class AICoreService {
     }
   }
 
+  /**
+   * Gets the ID of the open conversation
+   */
+  public getConversationId(): string | null {
+    return this.conversationId;
+  }
+
+  /**
+   * Reopens a past conversation with the persona it was held with
+   * @param conversationId Conversation to open
+   */
+  public async openConversation(conversationId: string): Promise<void> {
+    try {
+      const conversation = await conversationStore.get(conversationId);
+      if (!conversation) {
+        throw new Error(`Conversation ${conversationId} not found`);
+      }
+      
+      if (this.conversationId && this.conversationId !== conversationId) {
+        await conversationStore.end(this.conversationId);
+        await sessionManager.endCurrent();
+      }
+      
+      this.conversationId = conversationId;
+      await AsyncStorage.setItem('current_conversation_id', conversationId);
+      this.contextWindow = await memoryEngine.getRecentMessages(conversationId, 10);
+      
+      if (this.currentPersona?.id !== conversation.personaId) {
+        this.currentPersona = await personalityEngine.getPersona(conversation.personaId);
+      }
+      
+      // Messages queued in this conversation can be sent now
+      mentorOutbox.flush();
+    } catch (error) {
+      console.error(`Failed to open conversation ${conversationId}:`, error);
+      throw new Error('Failed to open conversation');
+    }
+  }
+
   /**
    * Sends a message to the AI and gets a response
    * @param userMessage User's message text
+   * @param feature Feature the request is made for, used in usage accounting
    * @returns AI response and any system actions
+   * @throws Error when the message could not be answered; it stays in the
+   *   conversation marked as failed, or as pending in the offline outbox
    */
-  public async sendMessage(userMessage: string): Promise<{
-    response: string;
-    actions?: AppAction[];
-  }> {
-    try {
-      if (!this.conversationId) {
-        await this.initConversation();
-      }
+  public async sendMessage(userMessage: string, feature: LLMFeature = 'mentor_chat'): Promise<MentorReply> {
+    const reply = await this.processMessage(userMessage, feature);
+    if (reply.status !== 'sent') {
+      throw new Error(reply.error);
+    }
+    return reply;
+  }
+
+  /**
+   * Asks the model for a one-off analysis with the mentor's persona and the
+   * user's context, without the conversation history. Nothing is saved
+   * unless asked, and the user profile is not updated, so analyses of
+   * journal entries, goals and tasks stay out of the mentor chat.
+   * @param request The analysis request
+   * @param feature Feature the request is made for; it decides which
+   *   actions the model may propose
+   * @param options Whether to keep the exchange in the open conversation
+   * @throws Error when the model could not be reached or the budget is used up
+   */
+  public async analyze(
+    request: string,
+    feature: LLMFeature,
+    options: AnalysisOptions = {}
+  ): Promise<AnalysisResult> {
+    await this.initialization;
+
+    const allowedIntents = getAllowedIntents(feature);
+    const useTools = allowedIntents.length > 0 && await llmService.supportsTools();
+
+    const message: Message = {
+      id: `msg_${Date.now()}`,
+      role: 'user',
+      content: request,
+      timestamp: new Date().toISOString()
+    };
+    const { messages, prompt } = await this.buildMessagePayload(request, [message], allowedIntents, useTools);
 
-      // Create user message object
-      const message: Message = {
+    const response = await this.callLLM(messages, useTools, feature);
+    const { text, intents } = await this.extractIntents(messages, response, useTools, feature);
+    const actions = await this.processSystemIntents(intents);
+
+    if (options.remember && this.conversationId) {
+      const reply: Message = {
         id: `msg_${Date.now()}`,
-        role: 'user',
-        content: userMessage,
-        timestamp: new Date().toISOString()
+        role: 'assistant',
+        content: text,
+        timestamp: new Date().toISOString(),
+        prompt
       };
+      this.contextWindow.push(message, reply);
+      await this.saveMessage(message);
+      await this.saveMessage(reply);
+    }
 
-      // Add to context window
-      this.contextWindow.push(message);
-      
-      // Save to memory
-      await memoryEngine.saveMessage(this.conversationId!, message);
+    return { text, actions, prompt };
+  }
 
-      // Get relevant memories
-      const relevantMemories = await memoryEngine.retrieveRelevantContext(userMessage, 3);
-      
-      // Get user profile insights
-      const userProfile = await userProfileEngine.getCurrentProfile();
+  /**
+   * Sends a message and streams the reply as it is generated. System
+   * intents are extracted from the finished text; a stopped reply keeps
+   * the text received so far and proposes no actions. A message that
+   * cannot be answered is reported in the reply's status instead of
+   * throwing.
+   * @param userMessage User's message text
+   * @param onText Receives the visible reply so far
+   * @param signal Stops generation when aborted
+   */
+  public async streamMessage(
+    userMessage: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<MentorReply> {
+    return this.processMessage(userMessage, 'mentor_chat', { onText, signal });
+  }
+
+  /**
+   * Asks the mentor again to answer a message of the open conversation
+   * that failed or is waiting in the outbox
+   * @param messageId The user message to answer
+   * @param onText Receives the visible reply so far
+   * @param signal Stops generation when aborted
+   */
+  public async retryMessage(
+    messageId: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<MentorReply> {
+    await this.initialization;
+    const message = this.contextWindow.find(msg => msg.id === messageId && msg.role === 'user');
+    if (!message) {
+      throw new Error(`Message ${messageId} is not in the open conversation`);
+    }
+
+    await mentorOutbox.remove(messageId);
+    return this.respond(message, 'mentor_chat', { onText, signal });
+  }
+
+  /**
+   * Subscribes to replies to messages sent from the offline outbox
+   * @returns Function that removes the subscription
+   */
+  public subscribeToOutbox(listener: (reply: MentorReply) => void): () => void {
+    this.outboxListeners.add(listener);
+    return () => {
+      this.outboxListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Saves the user's message and runs one exchange with the model,
+   * streaming the reply if requested
+   */
+  private async processMessage(
+    userMessage: string,
+    feature: LLMFeature,
+    stream?: StreamOptions
+  ): Promise<MentorReply> {
+    await this.initialization;
+    if (!this.conversationId) {
+      await this.initConversation();
+    }
+    
+    // Open a mentor session or continue the current one
+    await sessionManager.touch(this.conversationId!, this.currentPersona?.id || 'commander');
+
+    // Create user message object
+    const message: Message = {
+      id: `msg_${Date.now()}`,
+      role: 'user',
+      content: userMessage,
+      timestamp: new Date().toISOString()
+    };
+
+    // Add to context window
+    this.contextWindow.push(message);
+    
+    // Save to memory
+    await this.saveMessage(message);
+
+    return this.respond(message, feature, stream);
+  }
+
+  /**
+   * Gets the model's reply to a saved user message. When the device is
+   * offline, mentor chat messages go to the outbox; other failures mark
+   * the message as failed so the user can retry it.
+   */
+  private async respond(
+    message: Message,
+    feature: LLMFeature,
+    stream?: StreamOptions,
+    history: Message[] = this.contextWindow.slice(0, this.contextWindow.indexOf(message) + 1)
+  ): Promise<MentorReply> {
+    const conversationId = this.conversationId!;
+
+    try {
+      // Offer the model only the intents the feature may issue, with native
+      // tool calling when the provider supports it
+      const allowedIntents = getAllowedIntents(feature);
+      const useTools = allowedIntents.length > 0 && await llmService.supportsTools();
       
-      // Build messages array for API request
-      const messages = this.buildMessagePayload(relevantMemories, userProfile);
+      // Build messages array for API request from the history up to the message
+      const { messages, prompt } = await this.buildMessagePayload(message.content, history, allowedIntents, useTools);
       
-      // Call OpenAI API
-      const response = await this.callOpenAI(messages);
+      // Call the configured LLM provider
+      const { response, stopped } = stream
+        ? await this.streamLLM(messages, useTools, feature, stream)
+        : { response: await this.callLLM(messages, useTools, feature), stopped: false };
       
-      // Parse system intents if any
-      const { text, intents } = this.parseResponse(response);
+      // Extract and validate system intents, asking the model to repair invalid ones
+      const { text, intents } = stopped
+        ? { text: stripIntentMarkup(response.text).trim(), intents: [] }
+        : await this.extractIntents(messages, response, useTools, feature);
       
       // Process any system intents
       const actions = await this.processSystemIntents(intents);
+      await sessionManager.recordActions(actions);
+      
+      if (message.status) {
+        await this.setMessageStatus(conversationId, message, 'sent');
+      }
       
       // Create AI message
       const aiMessage: Message = {
         id: `msg_${Date.now()}`,
         role: 'assistant',
         content: text,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        prompt
       };
       
       // Add to context window
       this.contextWindow.push(aiMessage);
       
       // Save to memory
-      await memoryEngine.saveMessage(this.conversationId!, aiMessage);
+      await this.saveMessage(aiMessage);
+      await sessionManager.touch(conversationId, this.currentPersona?.id || 'commander');
+      
+      // Name the conversation after its first exchange
+      if (this.contextWindow.filter(msg => msg.role === 'user').length === 1) {
+        this.generateTitle(conversationId, message.content, text);
+      }
       
       // Update user profile with new insights
-      await userProfileEngine.updateFromInteraction(userMessage, text);
+      await userProfileEngine.updateFromInteraction(message.content, text, conversationId);
       
       return {
         response: text,
-        actions: actions
+        actions: actions,
+        stopped,
+        messageId: message.id,
+        status: 'sent'
       };
     } catch (error) {
       console.error('Error sending message to AI:', error);
+      const queued = feature === 'mentor_chat' && isOfflineError(error);
+
+      await this.setMessageStatus(conversationId, message, queued ? 'pending' : 'failed');
+      if (queued) {
+        await mentorOutbox.enqueue({ conversationId, messageId: message.id });
+      }
+
       return {
-        response: 'Извините, произошла ошибка при обработке вашего сообщения. Пожалуйста, попробуйте еще раз.'
+        response: '',
+        messageId: message.id,
+        status: queued ? 'pending' : 'failed',
+        error: this.describeError(error)
       };
     }
   }
 
+  /**
+   * Answers a message from the outbox. Messages of other conversations
+   * wait until their conversation is opened.
+   */
+  private async deliverQueued(item: OutboxItem): Promise<OutboxDelivery> {
+    await this.initialization;
+    if (item.conversationId !== this.conversationId) return 'deferred';
+
+    // The message may have left the context window since it was queued,
+    // so it is read from the conversation history with the messages before it
+    const messages = await memoryEngine.getAllMessages(item.conversationId);
+    const index = messages.findIndex(msg => msg.id === item.messageId && msg.role === 'user');
+    if (index === -1) {
+      return 'failed';
+    }
+
+    const message = this.contextWindow.find(msg => msg.id === item.messageId) || messages[index];
+    const reply = await this.respond(message, 'mentor_chat', undefined, messages.slice(0, index + 1));
+    if (reply.status === 'pending') return 'offline';
+
+    this.outboxListeners.forEach(listener => listener(reply));
+    return reply.status === 'sent' ? 'sent' : 'failed';
+  }
+
+  /**
+   * Stores the delivery status of a user message
+   */
+  private async setMessageStatus(
+    conversationId: string,
+    message: Message,
+    status: MessageDeliveryStatus
+  ): Promise<void> {
+    message.status = status;
+    try {
+      await memoryEngine.updateMessage(conversationId, message.id, { status });
+    } catch (error) {
+      console.error(`Failed to save status of message ${message.id}:`, error);
+    }
+  }
+
+  /**
+   * Explains to the user why a message was not answered
+   */
+  private describeError(error: unknown): string {
+    if (error instanceof LLMBudgetError) {
+      return 'Месячный лимит расходов на AI исчерпан. Изменить его можно в разделе «Расход AI».';
+    }
+    if (!(error instanceof LLMRequestError)) {
+      return 'Не удалось получить ответ ментора.';
+    }
+
+    switch (error.kind) {
+      case 'network':
+        return 'Нет связи. Сообщение отправится, когда сеть появится.';
+      case 'timeout':
+        return 'Ментор не ответил вовремя.';
+      case 'rate_limit':
+      case 'server':
+        return 'Сервис AI перегружен, попробуйте позже.';
+      default:
+        return 'Не удалось получить ответ ментора.';
+    }
+  }
+
   /**
    * Loads a persona profile by ID
    * @param personaId Persona identifier
@@ -153,7 +529,10 @@ class AICoreService {
   public async loadPersona(personaId: string): Promise<void> {
     try {
       this.currentPersona = await personalityEngine.getPersona(personaId);
-      this.buildSystemInstructions();
+      
+      if (this.conversationId) {
+        await conversationStore.setPersona(this.conversationId, personaId);
+      }
     } catch (error) {
       console.error(`Failed to load persona ${personaId}:`, error);
       throw new Error('Failed to load persona');
@@ -178,7 +557,6 @@ class AICoreService {
       // If this is the current persona, refresh it
       if (this.currentPersona && this.currentPersona.id === persona.id) {
         this.currentPersona = persona;
-        this.buildSystemInstructions();
       }
     } catch (error) {
       console.error('Failed to save persona:', error);
@@ -190,6 +568,7 @@ class AICoreService {
    * Gets message history for the current conversation
    */
   public async getMessageHistory(): Promise<Message[]> {
+    await this.initialization;
     if (!this.conversationId) {
       await this.initConversation();
     }
@@ -198,160 +577,384 @@ class AICoreService {
   }
 
   /**
-   * Clears the current conversation and starts a new one
+   * Ends the current conversation and starts a new one; the old one stays
+   * in the conversation history
    */
-  public async clearConversation(): Promise<void> {
+  public async startNewConversation(): Promise<void> {
     try {
-      this.contextWindow = [];
-      this.conversationId = `conv_${Date.now()}`;
-      await AsyncStorage.setItem('current_conversation_id', this.conversationId);
-      
-      // Add system message to start conversation
-      const welcomeMessage: Message = {
-        id: `msg_${Date.now()}`,
-        role: 'assistant',
-        content: this.currentPersona?.welcomeMessage || 'Как я могу помочь вам сегодня?',
-        timestamp: new Date().toISOString()
-      };
-      
-      this.contextWindow.push(welcomeMessage);
-      await memoryEngine.saveMessage(this.conversationId, welcomeMessage);
+      if (this.conversationId) {
+        await conversationStore.end(this.conversationId);
+      }
+      await sessionManager.endCurrent();
       
+      this.contextWindow = [];
+      await this.createConversation();
+      await this.addWelcomeMessage(this.currentPersona?.welcomeMessage || 'Как я могу помочь вам сегодня?');
     } catch (error) {
-      console.error('Failed to clear conversation:', error);
-      throw new Error('Failed to clear conversation');
+      console.error('Failed to start new conversation:', error);
+      throw new Error('Failed to start new conversation');
     }
   }
 
   /**
-   * Builds the system instructions based on the current persona
+   * Creates a conversation with the current persona and makes it current
    */
-  private buildSystemInstructions(): void {
-    if (!this.currentPersona) {
-      this.systemInstructions = `
-        Ты - AI-ментор, который помогает пользователю достигать его целей и развиваться.
-        Твой стиль общения прагматичный, конкретный и направленный на результат.
-        Не предлагай медитации, релаксации, не касайся политических и общественных предрассудков.
-        Фокусируйся на конкретных действиях и измеримых результатах.
-        Разбивай сложные задачи на конкретные шаги.
-        Давай аргументированные рекомендации.
-      `;
-      return;
-    }
+  private async createConversation(): Promise<void> {
+    const conversation = await conversationStore.create(this.currentPersona?.id || 'commander');
+    this.conversationId = conversation.id;
+    await AsyncStorage.setItem('current_conversation_id', conversation.id);
+  }
 
-    // Build custom instructions based on persona
-    this.systemInstructions = `
-      Ты - AI-ментор по имени ${this.currentPersona.name}.
-      ${this.currentPersona.description}
-      
-      Твой тон общения: ${this.currentPersona.communicationStyle.join(', ')}.
-      Твои ключевые ценности: ${this.currentPersona.values.join(', ')}.
-      Твой подход: ${this.currentPersona.approach}
-      
-      Категорически избегай: ${this.currentPersona.avoidTopics.join(', ')}.
-      
-      Ты должен помогать пользователю достигать конкретных целей с помощью практических советов и шагов.
-      Всегда предлагай конкретные, измеримые действия с четкими критериями успеха.
-      
-      Ты можешь управлять приложением, используя системные команды внутри тегов <system></system>.
-      Например, чтобы создать задачу: <system>create_task: {"title": "Название задачи", "priority": "high"}</system>
-      
-      ${this.currentPersona.customInstructions || ''}
-    `;
-  }
-
-  /**
-   * Builds the message payload for the API request
-   */
-  private buildMessagePayload(relevantMemories: string, userProfile: any): any[] {
-    const messages = [
-      { role: 'system', content: this.systemInstructions },
-      { 
-        role: 'system', 
-        content: `
-          Информация о пользователе:
-          ${JSON.stringify(userProfile, null, 2)}
-          
-          Релевантный контекст из предыдущих разговоров:
-          ${relevantMemories}
-          
-          Текущая дата и время: ${new Date().toLocaleString('ru-RU')}
-        `
-      }
-    ];
+  /**
+   * Adds the persona's greeting to the current conversation
+   */
+  private async addWelcomeMessage(content: string): Promise<void> {
+    const welcomeMessage: Message = {
+      id: `msg_${Date.now()}`,
+      role: 'assistant',
+      content,
+      timestamp: new Date().toISOString()
+    };
     
-    // Add conversation context (limited to last N messages)
-    this.contextWindow.slice(-10).forEach(msg => {
-      messages.push({
-        role: msg.role,
-        content: msg.content
-      });
+    this.contextWindow.push(welcomeMessage);
+    await this.saveMessage(welcomeMessage);
+  }
+
+  /**
+   * Saves a message to memory and updates the conversation index
+   */
+  private async saveMessage(message: Message): Promise<void> {
+    await memoryEngine.saveMessage(this.conversationId!, message);
+    await conversationStore.recordMessage(this.conversationId!, message);
+  }
+
+  /**
+   * Asks the model for a short title of the conversation. Runs in the
+   * background; the first user message is used if the call fails.
+   */
+  private generateTitle(conversationId: string, userMessage: string, reply: string): void {
+    this.requestTitle(userMessage, reply)
+      .catch(error => {
+        console.error('Failed to generate conversation title:', error);
+        return null;
+      })
+      .then(generated => generated
+        ? conversationStore.setAutoTitle(conversationId, titleFromText(generated.title), generated.prompt)
+        : conversationStore.setAutoTitle(conversationId, titleFromText(userMessage)))
+      .catch(error => console.error('Failed to save conversation title:', error));
+  }
+
+  private async requestTitle(userMessage: string, reply: string): Promise<{ title: string; prompt: PromptStamp } | null> {
+    const prompt = await renderPrompt(CONVERSATION_TITLE_PROMPT, { userMessage, reply: reply.slice(0, 500) });
+    const response = await llmService.complete({
+      messages: [{ role: 'user', content: prompt.text }],
+      temperature: 0.3,
+      maxTokens: 20,
+      feature: 'mentor_chat'
     });
-    
-    return messages;
+
+    const title = response.text.replace(/^["«]|["»]$/g, '').trim();
+    return title ? { title, prompt: prompt.stamp } : null;
   }
 
   /**
-   * Makes the API call to OpenAI
+   * Renders the system instructions for the current persona
    */
-  private async callOpenAI(messages: any[]): Promise<string> {
-    try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
+  private renderSystemInstructions(): Promise<RenderedPrompt> {
+    const persona = this.currentPersona;
+    if (!persona) {
+      return renderPrompt(MENTOR_DEFAULT_PROMPT, {});
+    }
+
+    return renderPrompt(MENTOR_PERSONA_PROMPT, {
+      name: persona.name,
+      description: persona.description,
+      communicationStyle: persona.communicationStyle.join(', '),
+      values: persona.values.join(', '),
+      approach: persona.approach,
+      avoidTopics: persona.avoidTopics.join(', '),
+      customInstructions: persona.customInstructions || ''
+    });
+  }
+
+  /**
+   * Builds the message payload for the API request, fitting the context
+   * and the conversation into the model's token budget. User-sourced
+   * context is fenced, and commands are described only when some are allowed.
+   * @returns The messages and the stamp of the system prompt they start with
+   */
+  private async buildMessagePayload(
+    userMessage: string,
+    history: Message[],
+    allowedIntents: IntentName[],
+    useTools: boolean
+  ): Promise<{ messages: LLMMessage[]; prompt: PromptStamp }> {
+    // Summaries of relevant past sessions, and the memories closest to the
+    // message, consolidated summaries included
+    const sessionSummaries = await sessionManager.retrieveRelevantSummaries(userMessage, 3);
+    const relevantMemories = await memoryEngine.retrieveRelevantContext(userMessage, 3);
+    const journalEntries = await memoryEngine.retrieveRelevantJournalEntries(userMessage, 2);
+    const systemInstructions = await this.renderSystemInstructions();
+    
+    const { messages } = await contextAssembler.assemble({
+      systemPrompts: [
+        systemInstructions.text,
+        UNTRUSTED_CONTENT_NOTICE[systemInstructions.stamp.locale],
+        ...(allowedIntents.length > 0 && !useTools ? [actionInterpreter.describeTextProtocol(allowedIntents)] : [])
+      ],
+      sections: [
+        {
+          id: 'date',
+          label: 'Текущая дата и время',
+          content: new Date().toLocaleString('ru-RU'),
+          priority: CONTEXT_PRIORITY.required
+        },
         {
-          model: 'gpt-4o',
-          messages: messages,
-          temperature: this.currentPersona?.temperature || 0.7,
-          max_tokens: 1000
+          id: 'pinned',
+          label: 'Факты, которые пользователь просил всегда помнить',
+          content: await memoryEngine.getPinnedContext() || 'нет',
+          priority: CONTEXT_PRIORITY.high,
+          truncatable: true,
+          untrusted: true
         },
         {
-          headers: {
-            'Authorization': `Bearer ${API_KEY}`,
-            'Content-Type': 'application/json'
-          }
+          id: 'profile',
+          label: 'Информация о пользователе',
+          content: await userProfileEngine.describeForPrompt(userMessage),
+          priority: CONTEXT_PRIORITY.high,
+          truncatable: true,
+          untrusted: true
+        },
+        {
+          id: 'actions',
+          label: 'Существующие задачи, привычки и цели (используй их ID в системных командах)',
+          content: await actionExecutor.getActionContext() || 'нет',
+          priority: CONTEXT_PRIORITY.medium,
+          truncatable: true,
+          untrusted: true
+        },
+        {
+          id: 'memories',
+          label: 'Что пользователь рассказывал раньше',
+          content: relevantMemories || 'нет',
+          priority: CONTEXT_PRIORITY.medium,
+          truncatable: true,
+          untrusted: true
+        },
+        {
+          id: 'sessions',
+          label: 'Итоги прошлых сессий с пользователем',
+          content: sessionSummaries || 'нет',
+          priority: CONTEXT_PRIORITY.low,
+          truncatable: true,
+          untrusted: true
+        },
+        {
+          id: 'journal',
+          label: 'Записи из дневника пользователя',
+          content: journalEntries
+            .map(entry => `- ${entry.createdAt.split('T')[0]}: ${entry.content.replace(/\s+/g, ' ').slice(0, 300)}`)
+            .join('\n') || 'нет',
+          priority: CONTEXT_PRIORITY.low,
+          truncatable: true,
+          untrusted: true
+        }
+      ],
+      history: history.slice(-HISTORY_LIMIT),
+      tools: useTools ? actionInterpreter.getToolDefinitions(allowedIntents) : undefined,
+      maxReplyTokens: MAX_REPLY_TOKENS
+    });
+    
+    return { messages, prompt: systemInstructions.stamp };
+  }
+
+  /**
+   * Builds the completion request for the conversation
+   */
+  private buildRequest(messages: LLMMessage[], useTools: boolean, feature: LLMFeature): LLMRequest {
+    return {
+      messages,
+      feature,
+      temperature: this.currentPersona?.temperature || 0.7,
+      maxTokens: MAX_REPLY_TOKENS,
+      tools: useTools ? actionInterpreter.getToolDefinitions(getAllowedIntents(feature)) : undefined
+    };
+  }
+
+  /**
+   * Sends the conversation to the configured LLM provider
+   */
+  private async callLLM(messages: LLMMessage[], useTools: boolean, feature: LLMFeature): Promise<LLMResponse> {
+    return llmService.complete(this.buildRequest(messages, useTools, feature));
+  }
+
+  /**
+   * Streams the reply from the configured LLM provider. When the user
+   * stops it, the text received so far is returned as the response.
+   */
+  private async streamLLM(
+    messages: LLMMessage[],
+    useTools: boolean,
+    feature: LLMFeature,
+    { onText, signal }: StreamOptions
+  ): Promise<{ response: LLMResponse; stopped: boolean }> {
+    let received = '';
+
+    try {
+      const response = await llmService.stream(
+        { ...this.buildRequest(messages, useTools, feature), signal },
+        delta => {
+          received += delta;
+          onText(stripIntentMarkup(received));
         }
       );
-      
-      return response.data.choices[0].message.content;
+      return { response, stopped: false };
     } catch (error) {
-      console.error('OpenAI API call failed:', error);
-      throw new Error('Failed to get response from AI');
+      if (!signal?.aborted) throw error;
+      return { response: { text: received, model: '' }, stopped: true };
     }
   }
 
   /**
-   * Parses the AI response for system intents
+   * Extracts valid intents from the response. Intents the feature may not
+   * issue are dropped without asking the model again. If some are invalid,
+   * the validation errors are sent back once so the model can correct them;
+   * intents that are still invalid after that are dropped.
    */
-  private parseResponse(response: string): { text: string; intents: SystemIntent[] } {
-    const systemIntentRegex = /<system>(.*?)<\/system>/gs;
-    const intents: SystemIntent[] = [];
-    let cleanText = response;
-    
-    let match;
-    while ((match = systemIntentRegex.exec(response)) !== null) {
-      try {
-        const intentText = match[1].trim();
-        const [action, dataStr] = intentText.split(':', 2);
-        const data = dataStr ? JSON.parse(dataStr.trim()) : {};
-        
-        intents.push({
-          action: action.trim(),
-          data
-        });
-        
-        // Remove the system intent from the clean text
-        cleanText = cleanText.replace(match[0], '');
-      } catch (e) {
-        console.error('Failed to parse system intent:', match[1], e);
+  private async extractIntents(
+    messages: LLMMessage[],
+    response: LLMResponse,
+    useTools: boolean,
+    feature: LLMFeature
+  ): Promise<{ text: string; intents: SystemIntent[] }> {
+    const { text, candidates } = this.parseResponse(response, feature);
+    const intents = candidates.filter(c => c.errors.length === 0).map(c => c.intent);
+    const invalid = candidates.filter(c => c.errors.length > 0);
+
+    if (invalid.length === 0) {
+      return { text, intents };
+    }
+
+    try {
+      const repairMessages: LLMMessage[] = [
+        ...messages,
+        { role: 'assistant', content: response.text, toolCalls: response.toolCalls },
+        ...this.buildRepairRequest(candidates)
+      ];
+      const repaired = this.parseResponse(await this.callLLM(repairMessages, useTools, feature), feature);
+
+      for (const candidate of repaired.candidates) {
+        if (candidate.errors.length === 0) {
+          intents.push(candidate.intent);
+        } else {
+          console.warn('Dropping invalid system intent after repair:', candidate.intent, candidate.errors);
+        }
       }
+    } catch (error) {
+      console.error('Failed to repair system intents:', invalid, error);
     }
-    
+
+    return { text, intents };
+  }
+
+  /**
+   * Builds the follow-up messages reporting validation errors to the model:
+   * tool results for native tool calls and a user message for <system> tags
+   */
+  private buildRepairRequest(candidates: IntentCandidate[]): LLMMessage[] {
+    // Every tool call needs a result, including the ones that were valid
+    const toolResults: LLMMessage[] = candidates
+      .filter(c => c.toolCallId)
+      .map(c => ({
+        role: 'tool',
+        toolCallId: c.toolCallId,
+        content: c.errors.length
+          ? `Error: ${c.errors.join('; ')}. Call the tool again with corrected arguments.`
+          : 'OK'
+      }));
+
+    const problems = candidates
+      .filter(c => !c.toolCallId && c.errors.length > 0)
+      .map(c => `- ${c.intent.action || 'command'}: ${c.errors.join('; ')}`);
+
+    if (problems.length === 0) {
+      return toolResults;
+    }
+
+    return [
+      ...toolResults,
+      {
+        role: 'user',
+        content: `Some of your <system> commands are invalid:\n${problems.join('\n')}\n` +
+          'Reply only with the corrected <system> commands, without any other text.'
+      }
+    ];
+  }
+
+  /**
+   * Parses the AI response for system intents from native tool calls and
+   * from <system> tags of the text command format. Intents the feature may
+   * not issue are left out, and their tags are removed from the text.
+   */
+  private parseResponse(response: LLMResponse, feature: LLMFeature): { text: string; candidates: IntentCandidate[] } {
+    const candidates: IntentCandidate[] = (response.toolCalls || []).map(call => {
+      const intent = { action: call.name, data: call.arguments };
+      return {
+        intent,
+        errors: call.parseError ? [call.parseError] : actionInterpreter.validateIntent(intent),
+        toolCallId: call.id
+      };
+    });
+
+    const systemIntentRegex = /<system>(.*?)<\/system>/gs;
+    const cleanText = response.text.replace(systemIntentRegex, (_, content: string) => {
+      const intent = this.parseSystemTag(content.trim());
+      candidates.push(intent
+        ? { intent, errors: actionInterpreter.validateIntent(intent) }
+        : { intent: { action: '', data: {} }, errors: [`content is not valid JSON: ${content.trim()}`] });
+      return '';
+    });
+
+    const permitted = candidates.filter(candidate => {
+      const blocked = isIntentBlocked(feature, candidate.intent.action);
+      if (blocked) {
+        console.warn(`Dropping system intent not allowed for ${feature}:`, candidate.intent);
+      }
+      return !blocked;
+    });
+
     return {
       text: cleanText.trim(),
-      intents
+      candidates: permitted
     };
   }
 
+  /**
+   * Parses the content of a <system> tag. Accepts the current
+   * {"action": ..., "data": ...} format and the legacy `action: {json}` one.
+   */
+  private parseSystemTag(content: string): SystemIntent | null {
+    try {
+      if (content.startsWith('{')) {
+        const parsed = JSON.parse(content);
+        return { action: String(parsed.action ?? ''), data: parsed.data ?? {} };
+      }
+
+      // Split on the first colon only: the JSON payload contains colons too
+      const separatorIndex = content.indexOf(':');
+      const action = separatorIndex === -1 ? content : content.slice(0, separatorIndex);
+      const dataStr = separatorIndex === -1 ? '' : content.slice(separatorIndex + 1).trim();
+
+      return {
+        action: action.trim(),
+        data: dataStr ? JSON.parse(dataStr) : {}
+      };
+    } catch (e) {
+      console.error('Failed to parse system intent:', content, e);
+      return null;
+    }
+  }
+
   /**
    * Processes system intents and converts them to app actions
    */
@@ -0,0 +1,258 @@
+import { LLMMessage, LLMToolDefinition, Message } from '@/types/ai';
+import { llmService } from './llm/llmService';
+import { countMessageTokens, countTokens, getContextWindow } from './llm/tokenCounter';
+import { escapeIntentMarkup, fenceUntrusted } from './promptGuard';
+
+// Prompt size used unless settings set another; keeps long conversations affordable
+const DEFAULT_PROMPT_BUDGET = 6000;
+// Latest messages that are kept before most other context
+const RECENT_MESSAGES = 4;
+const SUMMARY_LINE_LENGTH = 80;
+
+/**
+ * Priorities of context blocks; when the budget is short, blocks with
+ * lower values are kept first
+ */
+export const CONTEXT_PRIORITY = {
+  required: 0,
+  recentHistory: 1,
+  high: 2,
+  medium: 3,
+  olderHistory: 4,
+  low: 5
+} as const;
+
+/**
+ * Block of context for the model, rendered under its label in one system
+ * message. A block that does not fit is cut to its first lines when it is
+ * truncatable and dropped otherwise, so the most important lines go first.
+ * Untrusted blocks hold user-sourced text and are fenced as data.
+ */
+export interface ContextSection {
+  id: string; // Name used in the log and as the fence source
+  label: string; // Heading shown to the model
+  content: string;
+  priority: number;
+  truncatable?: boolean;
+  untrusted?: boolean;
+}
+
+export interface ContextRequest {
+  systemPrompts: string[]; // Always included in full
+  sections: ContextSection[]; // Rendered in the given order
+  history: Message[]; // Oldest first; the latest message is always kept
+  tools?: LLMToolDefinition[]; // Sent with the request, so they count against the budget
+  maxReplyTokens: number; // Reserved for the reply
+}
+
+/**
+ * What went into the prompt and what was left out
+ */
+export interface ContextReport {
+  model: string;
+  budget: number;
+  used: number;
+  truncated: string[];
+  dropped: string[];
+  droppedMessages: number;
+}
+
+interface Candidate {
+  priority: number;
+  tokens: number;
+  section?: ContextSection;
+  message?: Message;
+}
+
+/**
+ * Context Assembler builds the prompt within a token budget for the active
+ * model. Context blocks and conversation history are added in priority
+ * order; history that does not fit is replaced by a short digest of what
+ * the user wrote, and everything left out is logged. Intent markup in user
+ * messages is escaped, so only the model can propose actions.
+ */
+class ContextAssembler {
+  private static instance: ContextAssembler;
+
+  private constructor() {
+    // No state; the budget is read from settings on each call
+  }
+
+  public static getInstance(): ContextAssembler {
+    if (!ContextAssembler.instance) {
+      ContextAssembler.instance = new ContextAssembler();
+    }
+    return ContextAssembler.instance;
+  }
+
+  /**
+   * Gets the prompt budget in tokens for the active model
+   * @param maxReplyTokens Tokens reserved for the reply
+   */
+  public async getBudget(maxReplyTokens: number): Promise<{ model: string; budget: number }> {
+    const settings = await llmService.getSettings();
+    const budget = Math.min(
+      settings.maxPromptTokens || DEFAULT_PROMPT_BUDGET,
+      getContextWindow(settings.model) - maxReplyTokens
+    );
+    return { model: settings.model, budget };
+  }
+
+  /**
+   * Builds the messages of a request, fitting context and history into the budget
+   */
+  public async assemble(request: ContextRequest): Promise<{ messages: LLMMessage[]; report: ContextReport }> {
+    const { model, budget } = await this.getBudget(request.maxReplyTokens);
+    const report: ContextReport = { model, budget, used: 0, truncated: [], dropped: [], droppedMessages: 0 };
+
+    const systemMessages: LLMMessage[] = request.systemPrompts.map(content => ({ role: 'system', content }));
+    // The context blocks share one message
+    report.used = systemMessages.reduce((sum, message) => sum + countMessageTokens(message, model), 0) +
+      countMessageTokens({ role: 'system', content: '' }, model) +
+      (request.tools ? countTokens(JSON.stringify(request.tools), model) : 0);
+
+    const included = new Map<ContextSection, string>();
+    const keptMessages = new Set<Message>();
+    const droppedMessages: Message[] = [];
+
+    for (const candidate of this.getCandidates(request, model)) {
+      const { section, message } = candidate;
+      const required = candidate.priority === CONTEXT_PRIORITY.required;
+
+      if (message) {
+        // History stays contiguous: once a message is left out, so are older ones
+        if (required || (droppedMessages.length === 0 && report.used + candidate.tokens <= budget)) {
+          keptMessages.add(message);
+          report.used += candidate.tokens;
+        } else {
+          droppedMessages.push(message);
+        }
+        continue;
+      }
+
+      if (required || report.used + candidate.tokens <= budget) {
+        included.set(section!, section!.content);
+        report.used += candidate.tokens;
+      } else if (section!.truncatable) {
+        const content = this.truncateLines(section!, budget - report.used, model);
+        if (content) {
+          included.set(section!, content);
+          report.used += this.countSectionTokens(section!, content, model);
+          report.truncated.push(section!.id);
+        } else {
+          report.dropped.push(section!.id);
+        }
+      } else {
+        report.dropped.push(section!.id);
+      }
+    }
+
+    const sections = request.sections.filter(section => included.has(section));
+    const digest = this.digestHistory(droppedMessages);
+    if (digest) {
+      const content = this.truncateLines(digest, budget - report.used, model);
+      if (content) {
+        sections.push(digest);
+        included.set(digest, content);
+        report.used += this.countSectionTokens(digest, content, model);
+      }
+    }
+
+    report.droppedMessages = droppedMessages.length;
+    this.logReport(report);
+
+    const context = sections.map(section => this.renderSection(section, included.get(section)!)).join('\n\n');
+    return {
+      messages: [
+        ...systemMessages,
+        ...(context ? [{ role: 'system' as const, content: context }] : []),
+        ...request.history
+          .filter(message => keptMessages.has(message))
+          .map(message => ({
+            role: message.role,
+            content: message.role === 'user' ? escapeIntentMarkup(message.content) : message.content
+          }))
+      ],
+      report
+    };
+  }
+
+  /**
+   * Lists sections and messages in the order they claim the budget. Within
+   * a priority, newer messages come first.
+   */
+  private getCandidates(request: ContextRequest, model: string): Candidate[] {
+    const sections: Candidate[] = request.sections.map(section => ({
+      priority: section.priority,
+      tokens: this.countSectionTokens(section, section.content, model),
+      section
+    }));
+
+    const messages: Candidate[] = [...request.history].reverse().map((message, age) => ({
+      priority: age === 0
+        ? CONTEXT_PRIORITY.required
+        : age < RECENT_MESSAGES ? CONTEXT_PRIORITY.recentHistory : CONTEXT_PRIORITY.olderHistory,
+      tokens: countMessageTokens({ role: message.role, content: message.content }, model),
+      message
+    }));
+
+    // Array sort is stable, so equal priorities keep the order above
+    return [...messages, ...sections].sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Keeps the first lines of a section that fit into the given tokens
+   */
+  private truncateLines(section: ContextSection, maxTokens: number, model: string): string {
+    const lines: string[] = [];
+
+    for (const line of section.content.split('\n')) {
+      const content = [...lines, line, '…'].join('\n');
+      if (this.countSectionTokens(section, content, model) > maxTokens) break;
+      lines.push(line);
+    }
+
+    return lines.length > 0 ? [...lines, '…'].join('\n') : '';
+  }
+
+  /**
+   * Summarizes left out messages by the first line of each user message,
+   * newest first
+   */
+  private digestHistory(messages: Message[]): ContextSection | null {
+    const lines = messages
+      .filter(message => message.role === 'user')
+      .map(message => `- ${message.content.split('\n')[0].slice(0, SUMMARY_LINE_LENGTH)}`);
+    if (lines.length === 0) return null;
+
+    return {
+      id: 'history-digest',
+      label: 'Ранее в этом диалоге пользователь писал',
+      content: lines.join('\n'),
+      priority: CONTEXT_PRIORITY.low,
+      truncatable: true,
+      untrusted: true
+    };
+  }
+
+  private renderSection(section: ContextSection, content: string): string {
+    return `${section.label}:\n${section.untrusted ? fenceUntrusted(section.id, content) : content}`;
+  }
+
+  private countSectionTokens(section: ContextSection, content: string, model: string): number {
+    return countTokens(`${this.renderSection(section, content)}\n\n`, model);
+  }
+
+  private logReport(report: ContextReport): void {
+    if (report.dropped.length === 0 && report.truncated.length === 0 && report.droppedMessages === 0) return;
+
+    const details = [
+      report.droppedMessages > 0 ? `dropped ${report.droppedMessages} older messages` : '',
+      report.dropped.length > 0 ? `dropped ${report.dropped.join(', ')}` : '',
+      report.truncated.length > 0 ? `truncated ${report.truncated.join(', ')}` : ''
+    ].filter(Boolean);
+    console.log(`Prompt for ${report.model}: ${report.used}/${report.budget} tokens; ${details.join('; ')}`);
+  }
+}
+
+export const contextAssembler = ContextAssembler.getInstance();
@@ -0,0 +1,231 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Message } from '@/types/ai';
+import { readMany } from '@/services/storage';
+
+const META_KEY_PREFIX = 'conv_';
+const SEGMENT_KEY_PREFIX = 'segment_';
+const SEGMENT_SIZE = 200;
+
+/**
+ * Stored under conv_<id>; before segments existed this key held the whole
+ * message array
+ */
+interface LogMeta {
+  version: 2;
+  segmentCount: number;
+  messageCount: number;
+}
+
+/**
+ * Conversation Log stores messages in append-only segments of fixed size,
+ * so saving a message rewrites only the last segment instead of the whole
+ * conversation, and recent messages are read without loading old ones.
+ */
+class ConversationLog {
+  private static instance: ConversationLog;
+  private metas: Map<string, LogMeta> = new Map();
+  private lastSegments: Map<string, Message[]> = new Map();
+  // Writes run one after another so concurrent appends are not lost
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    // Segments are loaded on demand
+  }
+
+  public static getInstance(): ConversationLog {
+    if (!ConversationLog.instance) {
+      ConversationLog.instance = new ConversationLog();
+    }
+    return ConversationLog.instance;
+  }
+
+  /**
+   * Appends a message to the conversation
+   */
+  public append(conversationId: string, message: Message): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const meta = { ...(await this.getMeta(conversationId)) };
+      let segment = meta.segmentCount > 0 ? await this.getLastSegment(conversationId, meta) : [];
+
+      if (meta.segmentCount === 0 || segment.length >= SEGMENT_SIZE) {
+        meta.segmentCount += 1;
+        segment = [];
+      }
+      segment = [...segment, message];
+      meta.messageCount += 1;
+
+      await AsyncStorage.multiSet([
+        [this.segmentKey(conversationId, meta.segmentCount - 1), JSON.stringify(segment)],
+        [this.metaKey(conversationId), JSON.stringify(meta)]
+      ]);
+      this.metas.set(conversationId, meta);
+      this.lastSegments.set(conversationId, segment);
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * Replaces fields of a stored message. Segments are searched from the
+   * newest, as recent messages are the ones that change.
+   */
+  public update(conversationId: string, messageId: string, changes: Partial<Message>): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const meta = await this.getMeta(conversationId);
+
+      for (let index = meta.segmentCount - 1; index >= 0; index--) {
+        const isLast = index === meta.segmentCount - 1;
+        const segment = isLast
+          ? await this.getLastSegment(conversationId, meta)
+          : await this.readSegments(conversationId, index, index + 1);
+        if (!segment.some(message => message.id === messageId)) continue;
+
+        const updated = segment.map(message => (message.id === messageId ? { ...message, ...changes } : message));
+        await AsyncStorage.setItem(this.segmentKey(conversationId, index), JSON.stringify(updated));
+        if (isLast) this.lastSegments.set(conversationId, updated);
+        return;
+      }
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * Reads all messages of the conversation
+   */
+  public async readAll(conversationId: string): Promise<Message[]> {
+    const meta = await this.getMeta(conversationId);
+    return this.readSegments(conversationId, 0, meta.segmentCount);
+  }
+
+  /**
+   * Reads the last messages of the conversation, loading only the segments
+   * that contain them
+   */
+  public async readRecent(conversationId: string, limit: number): Promise<Message[]> {
+    const meta = await this.getMeta(conversationId);
+    const lastSegment = meta.segmentCount > 0 ? await this.getLastSegment(conversationId, meta) : [];
+
+    if (lastSegment.length >= limit || meta.segmentCount <= 1) {
+      return lastSegment.slice(-limit);
+    }
+
+    const earlierSegments = Math.ceil((limit - lastSegment.length) / SEGMENT_SIZE);
+    const from = Math.max(0, meta.segmentCount - 1 - earlierSegments);
+    const earlier = await this.readSegments(conversationId, from, meta.segmentCount - 1);
+    return [...earlier, ...lastSegment].slice(-limit);
+  }
+
+  /**
+   * Deletes the conversation's messages
+   */
+  public async remove(conversationId: string): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const meta = await this.getMeta(conversationId);
+      const keys = Array.from({ length: meta.segmentCount }, (_, i) => this.segmentKey(conversationId, i));
+
+      await AsyncStorage.multiRemove([...keys, this.metaKey(conversationId)]);
+      this.metas.delete(conversationId);
+      this.lastSegments.delete(conversationId);
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * Removes messages sent before the cutoff, e.g. when they exceed the
+   * retention period
+   * @returns The remaining messages
+   */
+  public async removeBefore(conversationId: string, cutoff: string): Promise<Message[]> {
+    let remaining: Message[] = [];
+    const task = this.writeQueue.then(async () => {
+      const meta = await this.getMeta(conversationId);
+      const messages = await this.readSegments(conversationId, 0, meta.segmentCount);
+      remaining = messages.filter(message => message.timestamp >= cutoff);
+      if (remaining.length === messages.length) return;
+
+      const updated = await this.writeSegments(conversationId, remaining);
+      const staleKeys = [];
+      for (let i = updated.segmentCount; i < meta.segmentCount; i++) {
+        staleKeys.push(this.segmentKey(conversationId, i));
+      }
+      await AsyncStorage.multiRemove(staleKeys);
+
+      this.metas.set(conversationId, updated);
+      this.lastSegments.delete(conversationId);
+    });
+    this.writeQueue = task.catch(() => undefined);
+    await task;
+    return remaining;
+  }
+
+  private async readSegments(conversationId: string, from: number, to: number): Promise<Message[]> {
+    const keys = [];
+    for (let i = from; i < to; i++) keys.push(this.segmentKey(conversationId, i));
+
+    const segments = await readMany(keys);
+    return segments.flatMap(([, data]) => (data ? (JSON.parse(data) as Message[]) : []));
+  }
+
+  private async getLastSegment(conversationId: string, meta: LogMeta): Promise<Message[]> {
+    const cached = this.lastSegments.get(conversationId);
+    if (cached) return cached;
+
+    const data = await AsyncStorage.getItem(this.segmentKey(conversationId, meta.segmentCount - 1));
+    const segment: Message[] = data ? JSON.parse(data) : [];
+    this.lastSegments.set(conversationId, segment);
+    return segment;
+  }
+
+  /**
+   * Reads the log metadata, converting a conversation stored as a single
+   * message array into segments
+   */
+  private async getMeta(conversationId: string): Promise<LogMeta> {
+    const cached = this.metas.get(conversationId);
+    if (cached) return cached;
+
+    const data = await AsyncStorage.getItem(this.metaKey(conversationId));
+    const stored = data ? JSON.parse(data) : null;
+
+    let meta: LogMeta;
+    if (Array.isArray(stored)) {
+      meta = await this.writeSegments(conversationId, stored);
+    } else {
+      meta = stored || { version: 2, segmentCount: 0, messageCount: 0 };
+    }
+
+    this.metas.set(conversationId, meta);
+    return meta;
+  }
+
+  /**
+   * Writes messages as a new sequence of segments, replacing the metadata
+   * once the segments are stored
+   */
+  private async writeSegments(conversationId: string, messages: Message[]): Promise<LogMeta> {
+    const pairs: [string, string][] = [];
+    for (let start = 0; start < messages.length; start += SEGMENT_SIZE) {
+      pairs.push([
+        this.segmentKey(conversationId, pairs.length),
+        JSON.stringify(messages.slice(start, start + SEGMENT_SIZE))
+      ]);
+    }
+
+    const meta: LogMeta = { version: 2, segmentCount: pairs.length, messageCount: messages.length };
+    await AsyncStorage.multiSet(pairs);
+    await AsyncStorage.setItem(this.metaKey(conversationId), JSON.stringify(meta));
+    return meta;
+  }
+
+  private metaKey(conversationId: string): string {
+    return `${META_KEY_PREFIX}${conversationId}`;
+  }
+
+  private segmentKey(conversationId: string, index: number): string {
+    return `${SEGMENT_KEY_PREFIX}${conversationId}_${index}`;
+  }
+}
+
+export const conversationLog = ConversationLog.getInstance();
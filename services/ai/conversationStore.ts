@@ -0,0 +1,258 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Conversation, Message, PromptStamp } from '@/types/ai';
+import { memoryEngine } from './memoryEngine';
+import { sessionManager } from './sessionManager';
+
+const INDEX_KEY = 'conversation_index';
+const LEGACY_MIGRATED_KEY = 'conversation_index_migrated';
+const LEGACY_CONVERSATION_PREFIX = 'conv_';
+const DEFAULT_PERSONA_ID = 'commander';
+const TITLE_MAX_LENGTH = 40;
+
+/**
+ * Builds a fallback title from the first user message
+ */
+export const titleFromText = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > TITLE_MAX_LENGTH
+    ? `${firstLine.slice(0, TITLE_MAX_LENGTH - 1).trim()}…`
+    : firstLine || 'Новый диалог';
+};
+
+const isMessageList = (value: unknown): value is Message[] =>
+  Array.isArray(value) && value.length > 0;
+
+/**
+ * Conversation Store keeps the index of mentor conversations: titles,
+ * persona, start and end time and message counts. Messages themselves
+ * stay in the memory engine.
+ */
+class ConversationStore {
+  private static instance: ConversationStore;
+  private migration: Promise<void> | null = null;
+  // Index writes run one after another so concurrent updates are not lost
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    // Index is loaded on demand
+  }
+
+  public static getInstance(): ConversationStore {
+    if (!ConversationStore.instance) {
+      ConversationStore.instance = new ConversationStore();
+    }
+    return ConversationStore.instance;
+  }
+
+  /**
+   * Gets all conversations, most recent first
+   */
+  public async getAll(): Promise<Conversation[]> {
+    const conversations = await this.readIndex();
+    return conversations.sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt));
+  }
+
+  /**
+   * Gets a conversation by ID
+   */
+  public async get(conversationId: string): Promise<Conversation | null> {
+    const conversations = await this.readIndex();
+    return conversations.find(c => c.id === conversationId) || null;
+  }
+
+  /**
+   * Starts a new conversation
+   * @param personaId Persona the conversation is held with
+   */
+  public async create(personaId: string): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: `conv_${Date.now()}`,
+      title: 'Новый диалог',
+      titleSource: 'auto',
+      personaId,
+      startedAt: now,
+      lastMessageAt: now,
+      messageCount: 0,
+      archived: false
+    };
+
+    await this.modifyIndex(conversations => [...conversations, conversation]);
+    return conversation;
+  }
+
+  /**
+   * Updates counters after a message was saved to the conversation
+   */
+  public async recordMessage(conversationId: string, message: Message): Promise<void> {
+    await this.update(conversationId, conversation => ({
+      messageCount: conversation.messageCount + 1,
+      lastMessageAt: message.timestamp,
+      endedAt: undefined
+    }));
+  }
+
+  /**
+   * Updates counters after messages older than the retention period were removed
+   * @param remaining Messages left in the conversation
+   */
+  public async recordPruned(conversationId: string, remaining: Message[]): Promise<void> {
+    await this.update(conversationId, () => ({
+      messageCount: remaining.length,
+      ...(remaining.length > 0 ? { startedAt: remaining[0].timestamp } : {})
+    }));
+  }
+
+  /**
+   * Marks the conversation as ended, e.g. when the user switches to another one
+   */
+  public async end(conversationId: string): Promise<void> {
+    await this.update(conversationId, () => ({ endedAt: new Date().toISOString() }));
+  }
+
+  /**
+   * Sets the title generated from the first exchange, unless the user renamed it
+   * @param prompt Stamp of the prompt, when the model wrote the title
+   */
+  public async setAutoTitle(conversationId: string, title: string, prompt?: PromptStamp): Promise<void> {
+    await this.update(conversationId, conversation =>
+      conversation.titleSource === 'user' ? {} : { title, prompt }
+    );
+  }
+
+  /**
+   * Renames a conversation
+   */
+  public async rename(conversationId: string, title: string): Promise<void> {
+    await this.update(conversationId, () => ({ title: title.trim(), titleSource: 'user', prompt: undefined }));
+  }
+
+  /**
+   * Moves a conversation to or out of the archive
+   */
+  public async setArchived(conversationId: string, archived: boolean): Promise<void> {
+    await this.update(conversationId, () => ({ archived }));
+  }
+
+  /**
+   * Changes the persona recorded for a conversation
+   */
+  public async setPersona(conversationId: string, personaId: string): Promise<void> {
+    await this.update(conversationId, () => ({ personaId }));
+  }
+
+  /**
+   * Deletes a conversation with its messages, memories and session summaries
+   */
+  public async delete(conversationId: string): Promise<void> {
+    await memoryEngine.clearConversation(conversationId);
+    await sessionManager.deleteForConversation(conversationId);
+    await this.modifyIndex(conversations => conversations.filter(c => c.id !== conversationId));
+  }
+
+  /**
+   * Applies a change to one index entry
+   */
+  private async update(
+    conversationId: string,
+    change: (conversation: Conversation) => Partial<Conversation>
+  ): Promise<void> {
+    await this.modifyIndex(conversations =>
+      conversations.map(c => (c.id === conversationId ? { ...c, ...change(c) } : c))
+    );
+  }
+
+  /**
+   * Reads, changes and writes the index as one queued step
+   */
+  private modifyIndex(change: (conversations: Conversation[]) => Conversation[]): Promise<void> {
+    // The migration is queued before the first change
+    this.migrateLegacy();
+    const task = this.writeQueue.then(async () => {
+      const conversations = await this.loadIndex();
+      await this.writeIndex(change(conversations));
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * Reads the index once conversations stored before it existed are added
+   */
+  private async readIndex(): Promise<Conversation[]> {
+    await this.migrateLegacy();
+    return this.loadIndex();
+  }
+
+  private async loadIndex(): Promise<Conversation[]> {
+    const data = await AsyncStorage.getItem(INDEX_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Adds conversations stored before the index existed. Runs once per
+   * launch in the write queue, and is skipped on later launches once it
+   * has succeeded.
+   */
+  private migrateLegacy(): Promise<void> {
+    if (!this.migration) {
+      const task = this.writeQueue.then(async () => {
+        if (await AsyncStorage.getItem(LEGACY_MIGRATED_KEY)) return;
+
+        const conversations = await this.loadIndex();
+        const legacy = await this.findLegacyConversations(conversations);
+        await AsyncStorage.multiSet([
+          [INDEX_KEY, JSON.stringify([...conversations, ...legacy])],
+          [LEGACY_MIGRATED_KEY, 'true']
+        ]);
+      });
+      this.migration = task.catch(error => {
+        // Tried again on the next launch
+        console.error('Failed to migrate legacy conversations:', error);
+      });
+      this.writeQueue = this.migration;
+    }
+    return this.migration;
+  }
+
+  /**
+   * Builds index entries for message lists under conv_* keys that are not
+   * indexed yet. The conversation log keeps its metadata under the same
+   * prefix, so only records that are still message arrays are legacy ones.
+   */
+  private async findLegacyConversations(indexed: Conversation[]): Promise<Conversation[]> {
+    const knownIds = new Set(indexed.map(c => c.id));
+    const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+      key.startsWith(LEGACY_CONVERSATION_PREFIX) && !knownIds.has(key.slice(LEGACY_CONVERSATION_PREFIX.length))
+    );
+    const currentId = await AsyncStorage.getItem('current_conversation_id');
+    const entries = await AsyncStorage.multiGet(keys);
+
+    return entries.flatMap(([key, value]) => {
+      const messages: unknown = value ? JSON.parse(value) : null;
+      if (!isMessageList(messages)) return [];
+
+      const id = key.slice(LEGACY_CONVERSATION_PREFIX.length);
+      const firstUserMessage = messages.find(m => m.role === 'user');
+      const lastMessageAt = messages[messages.length - 1].timestamp;
+
+      return [{
+        id,
+        title: firstUserMessage ? titleFromText(firstUserMessage.content) : 'Диалог без сообщений',
+        titleSource: 'auto' as const,
+        personaId: DEFAULT_PERSONA_ID,
+        startedAt: messages[0].timestamp,
+        endedAt: id === currentId ? undefined : lastMessageAt,
+        lastMessageAt,
+        messageCount: messages.length,
+        archived: false
+      }];
+    });
+  }
+
+  private async writeIndex(conversations: Conversation[]): Promise<void> {
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(conversations));
+  }
+}
+
+export const conversationStore = ConversationStore.getInstance();
@@ -0,0 +1,212 @@
+import { JSONSchema, LLMToolDefinition } from '@/types/ai';
+
+/**
+ * Names of the intents the action interpreter understands
+ */
+export type IntentName =
+  | 'create_task'
+  | 'update_task'
+  | 'delete_task'
+  | 'create_goal'
+  | 'update_goal'
+  | 'create_habit'
+  | 'complete_habit'
+  | 'navigate'
+  | 'create_reflection'
+  | 'display_message'
+  | 'track_metric';
+
+const id: JSONSchema = { type: 'string', description: 'ID of an existing item from the context list' };
+const date: JSONSchema = { type: ['string', 'null'], description: 'Date in YYYY-MM-DD format' };
+const optionalText: JSONSchema = { type: ['string', 'null'] };
+const stringList: JSONSchema = { type: 'array', items: { type: 'string' } };
+const priority: JSONSchema = { type: 'string', enum: ['high', 'medium', 'low'] };
+const taskStatus: JSONSchema = { type: 'string', enum: ['pending', 'in_progress', 'completed', 'canceled'] };
+const goalStatus: JSONSchema = {
+  type: 'string',
+  enum: ['not_started', 'in_progress', 'completed', 'at_risk', 'canceled']
+};
+const metrics: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      target: { type: 'number' },
+      current: { type: 'number' },
+      unit: { type: 'string' },
+      isPositive: { type: 'boolean' }
+    },
+    required: ['name', 'target']
+  }
+};
+
+/**
+ * Tool declarations for every intent, sent to providers with native tool
+ * calling and used to validate intents from the text fallback format
+ */
+export const INTENT_TOOLS: Record<IntentName, LLMToolDefinition> = {
+  create_task: {
+    name: 'create_task',
+    description: 'Create a new task in the Operations tab',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: optionalText,
+        dueDate: date,
+        priority,
+        category: optionalText,
+        tags: stringList,
+        status: taskStatus
+      },
+      required: ['title']
+    }
+  },
+  update_task: {
+    name: 'update_task',
+    description: 'Change fields of an existing task',
+    parameters: {
+      type: 'object',
+      properties: {
+        id,
+        title: { type: 'string' },
+        description: optionalText,
+        dueDate: date,
+        priority,
+        category: optionalText,
+        tags: stringList,
+        status: taskStatus
+      },
+      required: ['id']
+    }
+  },
+  delete_task: {
+    name: 'delete_task',
+    description: 'Delete an existing task. The user must confirm this.',
+    parameters: {
+      type: 'object',
+      properties: { id },
+      required: ['id']
+    }
+  },
+  create_goal: {
+    name: 'create_goal',
+    description: 'Create a strategic goal, optionally as a subgoal of another goal',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: optionalText,
+        dueDate: date,
+        parentId: { type: ['string', 'null'], description: 'ID of the parent goal' },
+        status: goalStatus,
+        tags: stringList,
+        category: optionalText,
+        metrics
+      },
+      required: ['title']
+    }
+  },
+  update_goal: {
+    name: 'update_goal',
+    description: 'Change fields or progress of an existing goal',
+    parameters: {
+      type: 'object',
+      properties: {
+        id,
+        title: { type: 'string' },
+        description: optionalText,
+        dueDate: date,
+        status: goalStatus,
+        progress: { type: 'number', minimum: 0, maximum: 100 },
+        tags: stringList,
+        category: optionalText,
+        metrics
+      },
+      required: ['id']
+    }
+  },
+  create_habit: {
+    name: 'create_habit',
+    description: 'Create a habit to track',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: optionalText,
+        frequency: { type: 'string', enum: ['daily', 'weekly', 'custom'] },
+        timeOfDay: optionalText,
+        category: optionalText,
+        triggers: stringList,
+        obstacles: stringList,
+        strategies: stringList
+      },
+      required: ['title']
+    }
+  },
+  complete_habit: {
+    name: 'complete_habit',
+    description: 'Mark a habit as done for a day (today by default)',
+    parameters: {
+      type: 'object',
+      properties: { id, date },
+      required: ['id']
+    }
+  },
+  navigate: {
+    name: 'navigate',
+    description: 'Open a screen of the app',
+    parameters: {
+      type: 'object',
+      properties: {
+        screen: { type: 'string', enum: ['dashboard', 'operations', 'strategy', 'journal', 'mentor'] },
+        params: { type: 'object' }
+      },
+      required: ['screen']
+    }
+  },
+  create_reflection: {
+    name: 'create_reflection',
+    description: 'Write an entry to the user journal',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string' },
+        title: { type: 'string' },
+        tags: stringList,
+        mood: { type: ['number', 'null'], minimum: 1, maximum: 10 },
+        relatedGoals: stringList
+      },
+      required: ['content']
+    }
+  },
+  display_message: {
+    name: 'display_message',
+    description: 'Show a short notification to the user',
+    parameters: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        type: { type: 'string', enum: ['info', 'success', 'warning', 'error'] },
+        duration: { type: 'number', minimum: 0 }
+      },
+      required: ['message']
+    }
+  },
+  track_metric: {
+    name: 'track_metric',
+    description: 'Record a value of a personal metric, e.g. weight or hours slept',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        value: { type: 'number' },
+        timestamp: { type: 'string', description: 'ISO 8601 date-time' },
+        category: optionalText,
+        notes: optionalText
+      },
+      required: ['name', 'value']
+    }
+  }
+};
@@ -0,0 +1,217 @@
+import { JSONSchema, JSONSchemaType } from '@/types/ai';
+
+/**
+ * Gets the JSON Schema type name of a runtime value
+ */
+const typeOf = (value: unknown): JSONSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JSONSchemaType;
+};
+
+/**
+ * Checks a value against a type, treating integers as numbers
+ */
+const matchesType = (value: unknown, type: JSONSchemaType): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+/**
+ * Validates a value against the supported JSON Schema subset
+ * @param schema Schema to validate against
+ * @param value Value to check
+ * @param path Location of the value, used in error messages
+ * @returns Human-readable errors, empty when the value is valid
+ */
+export function validateSchema(schema: JSONSchema, value: unknown, path: string = ''): string[] {
+  const label = path || 'value';
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${label}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${label}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(schema.items!, item, `${label}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined || record[key] === null || record[key] === '') {
+        errors.push(`${path ? `${path}.` : ''}${key}: is required`);
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        errors.push(...validateSchema(propertySchema, record[key], path ? `${path}.${key}` : key));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Result of coercing a value to a schema
+ */
+export interface CoercionResult<T = unknown> {
+  /** Coerced value, undefined when nothing usable was left */
+  value: T | undefined;
+  /** Parts of the value that were dropped and why */
+  issues: string[];
+}
+
+/**
+ * Converts a value to a single schema type if it can be read as one
+ */
+const coerceType = (value: unknown, type: JSONSchemaType): { ok: boolean; value?: unknown } => {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return { ok: true, value: value.trim() };
+      if (typeof value === 'number' || typeof value === 'boolean') return { ok: true, value: String(value) };
+      return { ok: false };
+    case 'number':
+    case 'integer': {
+      let number = typeof value === 'number' ? value : NaN;
+      if (typeof value === 'string' && /^\s*-?\d+([.,]\d+)?\s*$/.test(value)) {
+        number = parseFloat(value.replace(',', '.'));
+      }
+      if (!Number.isFinite(number)) return { ok: false };
+      return { ok: true, value: type === 'integer' ? Math.round(number) : number };
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (value === 'true' || value === 'false') return { ok: true, value: value === 'true' };
+      return { ok: false };
+    case 'null':
+      return value === null ? { ok: true, value: null } : { ok: false };
+    default:
+      return { ok: typeOf(value) === type, value };
+  }
+};
+
+/**
+ * Coerces untrusted data, such as parsed model output, to a schema. Unlike
+ * validateSchema it repairs what it can: numeric strings become numbers,
+ * numbers are clamped to minimum/maximum, enums match case-insensitively,
+ * a single value is wrapped for array fields, and invalid properties or
+ * array items are dropped instead of rejecting the whole value. An object
+ * missing a required property is rejected.
+ * @param schema Schema to coerce to
+ * @param value Value to coerce
+ * @param path Location of the value, used in issue messages
+ */
+export function coerceToSchema<T = unknown>(
+  schema: JSONSchema,
+  value: unknown,
+  path: string = ''
+): CoercionResult<T> {
+  const label = path || 'value';
+  const types = schema.type ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : null;
+
+  if (value === undefined) {
+    return { value: undefined, issues: [] };
+  }
+
+  // Prefer the type the value already has, then try the others in order
+  const candidates = types
+    ? [...types.filter(type => matchesType(value, type)), ...types.filter(type => !matchesType(value, type))]
+    : [typeOf(value)];
+
+  for (const type of candidates) {
+    if (type === 'array') {
+      if (value === null || typeOf(value) === 'object') continue;
+      const items = Array.isArray(value) ? value : [value];
+      const result: unknown[] = [];
+      const issues: string[] = [];
+
+      items.forEach((item, index) => {
+        const coerced = schema.items
+          ? coerceToSchema(schema.items, item, `${label}[${index}]`)
+          : { value: item, issues: [] };
+        issues.push(...coerced.issues);
+        if (coerced.value !== undefined) result.push(coerced.value);
+      });
+
+      return { value: result as T, issues };
+    }
+
+    if (type === 'object') {
+      if (typeOf(value) !== 'object') continue;
+      if (!schema.properties) return { value: value as T, issues: [] };
+
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const issues: string[] = [];
+
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const coerced = coerceToSchema(propertySchema, record[key], path ? `${path}.${key}` : key);
+        issues.push(...coerced.issues);
+        if (coerced.value !== undefined) result[key] = coerced.value;
+      }
+
+      const missing = (schema.required || []).filter(
+        key => result[key] === undefined || result[key] === null || result[key] === ''
+      );
+      if (missing.length > 0) {
+        return {
+          value: undefined,
+          issues: [...issues, ...missing.map(key => `${path ? `${path}.` : ''}${key}: is required`)]
+        };
+      }
+
+      return { value: result as T, issues };
+    }
+
+    const coerced = coerceType(value, type);
+    if (!coerced.ok) continue;
+
+    let result = coerced.value;
+
+    if (typeof result === 'number') {
+      if (schema.minimum !== undefined) result = Math.max(schema.minimum, result as number);
+      if (schema.maximum !== undefined) result = Math.min(schema.maximum, result as number);
+    }
+
+    if (schema.enum && result !== null) {
+      const match = schema.enum.find(option =>
+        option === result ||
+        (typeof option === 'string' && typeof result === 'string' && option.toLowerCase() === result.toLowerCase())
+      );
+      if (match === undefined) {
+        return { value: undefined, issues: [`${label}: ${JSON.stringify(value)} is not one of ${schema.enum.join(', ')}`] };
+      }
+      result = match;
+    }
+
+    return { value: result as T, issues: [] };
+  }
+
+  return {
+    value: undefined,
+    issues: [`${label}: expected ${types?.join(' or ')}, got ${JSON.stringify(value)}`]
+  };
+}
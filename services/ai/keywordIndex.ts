@@ -0,0 +1,144 @@
+import { Message } from '@/types/ai';
+import { SearchTerm } from '@/services/textNormalization';
+
+/**
+ * Document in the index; its text is kept only as search keys
+ */
+export interface KeywordDocument {
+  id: string;
+  conversationId: string;
+  role: Message['role'];
+  timestamp: string;
+  pinned: boolean;
+  keys: string[];
+}
+
+export interface KeywordMatch {
+  id: string;
+  score: number; // Number of query terms found in the document
+}
+
+/**
+ * Keyword Index is an in-memory inverted index from search keys to chat
+ * memories. It is filled once from storage by the memory engine and kept
+ * up to date on every save and removal, so keyword retrieval does not read
+ * every memory from storage.
+ */
+class KeywordIndex {
+  private static instance: KeywordIndex;
+  private documents: Map<string, KeywordDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private loaded = false;
+
+  private constructor() {
+    // Index is filled by the memory engine
+  }
+
+  public static getInstance(): KeywordIndex {
+    if (!KeywordIndex.instance) {
+      KeywordIndex.instance = new KeywordIndex();
+    }
+    return KeywordIndex.instance;
+  }
+
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Replaces the index contents with the given documents
+   */
+  public load(documents: KeywordDocument[]): void {
+    this.documents = new Map();
+    this.postings = new Map();
+    documents.forEach(document => this.add(document));
+    this.loaded = true;
+  }
+
+  /**
+   * Adds or replaces a document
+   */
+  public add(document: KeywordDocument): void {
+    this.remove([document.id]);
+    this.documents.set(document.id, document);
+
+    for (const key of document.keys) {
+      let ids = this.postings.get(key);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(key, ids);
+      }
+      ids.add(document.id);
+    }
+  }
+
+  /**
+   * Removes documents by id
+   */
+  public remove(ids: string[]): void {
+    for (const id of ids) {
+      const document = this.documents.get(id);
+      if (!document) continue;
+
+      for (const key of document.keys) {
+        const postingIds = this.postings.get(key);
+        postingIds?.delete(id);
+        if (postingIds?.size === 0) this.postings.delete(key);
+      }
+      this.documents.delete(id);
+    }
+  }
+
+  /**
+   * Gets the ids of all documents, pinned ones first, then newest first
+   * @param excludeRoles Roles whose documents are skipped
+   */
+  public list(excludeRoles: Message['role'][] = []): string[] {
+    return Array.from(this.documents.values())
+      .filter(document => !excludeRoles.includes(document.role))
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp.localeCompare(a.timestamp))
+      .map(document => document.id);
+  }
+
+  /**
+   * Gets the ids of pinned documents
+   */
+  public getPinnedIds(): string[] {
+    return Array.from(this.documents.values())
+      .filter(document => document.pinned)
+      .map(document => document.id);
+  }
+
+  /**
+   * Gets the ids of documents belonging to a conversation
+   */
+  public getConversationIds(conversationId: string): string[] {
+    return Array.from(this.documents.values())
+      .filter(document => document.conversationId === conversationId)
+      .map(document => document.id);
+  }
+
+  /**
+   * Finds documents containing the most query terms, newest first among
+   * equal scores
+   * @param queryTerms Terms of the query from analyzeText
+   * @param limit Maximum number of matches
+   * @param excludeRoles Roles whose documents are skipped
+   */
+  public search(queryTerms: SearchTerm[], limit: number, excludeRoles: Message['role'][] = []): KeywordMatch[] {
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const ids = new Set([...(this.postings.get(term.stem) || []), ...(this.postings.get(term.key) || [])]);
+      ids.forEach(id => scores.set(id, (scores.get(id) || 0) + 1));
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score, document: this.documents.get(id)! }))
+      .filter(match => !excludeRoles.includes(match.document.role))
+      .sort((a, b) => b.score - a.score || b.document.timestamp.localeCompare(a.document.timestamp))
+      .slice(0, limit)
+      .map(({ id, score }) => ({ id, score }));
+  }
+}
+
+export const keywordIndex = KeywordIndex.getInstance();
@@ -0,0 +1,99 @@
+import { PromptLocale } from '@/types/ai';
+import { renderPrompt } from '../../promptRegistry';
+import {
+  ASPIRATIONAL_GOAL_PROMPT,
+  MEMORY_CONSOLIDATION_PROMPT,
+  NEXT_STEPS_PROMPT,
+  SESSION_SUMMARY_PROMPT
+} from '../../promptTemplates';
+import { FakeProvider } from '../fakeProvider';
+import fakeMentorFixtures from '../fixtures/fakeMentor.json';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const settings = { provider: 'fake' as const, model: 'fake-mentor' };
+
+const ask = (provider: FakeProvider, content: string) =>
+  provider.complete({ messages: [{ role: 'user', content }] });
+
+it('answers journal analysis prompts with parseable JSON', async () => {
+  const provider = new FakeProvider(settings, { ...fakeMentorFixtures, delayMs: 0 });
+  const response = await ask(provider, 'Проанализируй эту запись и предоставь: ...');
+
+  const analysis = JSON.parse(response.text);
+  expect(Array.isArray(analysis.insights)).toBe(true);
+  expect(typeof analysis.sentiment).toBe('number');
+});
+
+it('fills capture groups and dates into system intents', async () => {
+  const provider = new FakeProvider(settings, { ...fakeMentorFixtures, delayMs: 0 });
+  const response = await ask(provider, 'Создай задачу "Позвонить тренеру" на завтра');
+
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  expect(response.text).toContain(
+    `<system>{"action": "create_task", "data": {"title": "Позвонить тренеру", "priority": "high", "dueDate": "${tomorrow}"}}</system>`
+  );
+});
+
+// Prompts are rendered from the real templates, so a template change that the
+// fixtures no longer match fails here rather than in offline mode
+it.each<PromptLocale>(['ru', 'en'])('answers the goal planner prompts rendered in %s', async locale => {
+  const provider = new FakeProvider(settings, { ...fakeMentorFixtures, delayMs: 0 });
+
+  const goalPrompt = await renderPrompt(ASPIRATIONAL_GOAL_PROMPT, {
+    profile: 'Ценности: здоровье',
+    goal: 'Пробежать марафон'
+  }, locale);
+  const plan = JSON.parse((await ask(provider, goalPrompt.text)).text);
+  expect(plan.mainGoal.title).toBe('Пробежать марафон');
+  expect(plan.subGoals.length).toBeGreaterThan(0);
+
+  const stepsPrompt = await renderPrompt(NEXT_STEPS_PROMPT, {
+    profile: 'Ценности: здоровье',
+    goal: 'Пробежать марафон',
+    subGoals: '- Бегать три раза в неделю',
+    count: 3
+  }, locale);
+  expect(Array.isArray(JSON.parse((await ask(provider, stepsPrompt.text)).text))).toBe(true);
+});
+
+it.each<PromptLocale>(['ru', 'en'])('answers the memory summary prompts rendered in %s', async locale => {
+  const provider = new FakeProvider(settings, { ...fakeMentorFixtures, delayMs: 0 });
+
+  const sessionPrompt = await renderPrompt(SESSION_SUMMARY_PROMPT, {
+    transcript: 'User: Хочу вставать в 6:00',
+    actions: '—'
+  }, locale);
+  expect(JSON.parse((await ask(provider, sessionPrompt.text)).text).summary).toEqual(expect.any(String));
+
+  const memoryPrompt = await renderPrompt(MEMORY_CONSOLIDATION_PROMPT, { messages: 'User: Хочу вставать в 6:00' }, locale);
+  expect(JSON.parse((await ask(provider, memoryPrompt.text)).text).facts).toEqual(expect.any(Array));
+});
+
+it('cycles through responses deterministically', async () => {
+  const provider = new FakeProvider(settings, {
+    fixtures: [{ name: 'default', match: '', responses: ['first', 'second'] }]
+  });
+
+  const replies: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    replies.push((await ask(provider, 'hi')).text);
+  }
+
+  expect(replies).toEqual(['first', 'second', 'first']);
+});
+
+it('streams the scripted response in chunks that add up to the full text', async () => {
+  const provider = new FakeProvider(settings, { ...fakeMentorFixtures, delayMs: 0 });
+  const chunks: string[] = [];
+
+  const response = await provider.stream(
+    { messages: [{ role: 'user', content: 'Как мне начать утро?' }] },
+    delta => chunks.push(delta)
+  );
+
+  expect(chunks.length).toBeGreaterThan(1);
+  expect(chunks.join('').trim()).toBe(response.text);
+});
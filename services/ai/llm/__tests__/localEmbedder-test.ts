@@ -0,0 +1,21 @@
+import { LocalEmbedder } from '../localEmbedder';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+it('places word forms close together and unrelated words apart', async () => {
+  const [base, inflected, unrelated] = await new LocalEmbedder().embed([
+    'Вечерняя тренировка',
+    'после тренировки вечером',
+    'купить молоко'
+  ]);
+
+  expect(cosine(base, inflected)).toBeGreaterThan(0.4);
+  expect(cosine(base, unrelated)).toBeLessThan(0.2);
+});
+
+it('returns unit vectors and a zero vector for empty text', async () => {
+  const [vector, empty] = await new LocalEmbedder().embed(['Ёжик в тумане', '  ']);
+
+  expect(cosine(vector, vector)).toBeCloseTo(1);
+  expect(empty.every(x => x === 0)).toBe(true);
+});
@@ -0,0 +1,50 @@
+import { DEFAULT_RETRY_OPTIONS, LLMRequestError, withRetry } from '../requestPolicy';
+
+const options = { ...DEFAULT_RETRY_OPTIONS, timeoutMs: 50, baseDelayMs: 1, maxDelayMs: 5 };
+
+beforeAll(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+it('retries rate limits and server errors with backoff', async () => {
+  const attempt = jest.fn()
+    .mockRejectedValueOnce(new LLMRequestError('rate_limit', 'Too many requests', 429))
+    .mockRejectedValueOnce(new LLMRequestError('server', 'Bad gateway', 502))
+    .mockResolvedValue('ok');
+
+  await expect(withRetry(attempt, options)).resolves.toBe('ok');
+  expect(attempt).toHaveBeenCalledTimes(3);
+});
+
+it('fails fast when offline and gives up after the last retry', async () => {
+  const offline = jest.fn().mockRejectedValue(new TypeError('Network request failed'));
+  await expect(withRetry(offline, options)).rejects.toMatchObject({ kind: 'network' });
+  expect(offline).toHaveBeenCalledTimes(1);
+
+  const failing = jest.fn().mockRejectedValue(new LLMRequestError('server', 'Unavailable', 503));
+  await expect(withRetry(failing, { ...options, maxRetries: 2 })).rejects.toMatchObject({ kind: 'server' });
+  expect(failing).toHaveBeenCalledTimes(3);
+});
+
+it('times out attempts that stop sending data but never repeats a started stream', async () => {
+  const stalled = jest.fn((signal: AbortSignal, touch: () => void) =>
+    new Promise((_, reject) => {
+      touch();
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+    })
+  );
+
+  await expect(withRetry(stalled, options)).rejects.toMatchObject({ kind: 'timeout' });
+  expect(stalled).toHaveBeenCalledTimes(1);
+});
+
+it('stops when the caller cancels', async () => {
+  const controller = new AbortController();
+  const attempt = jest.fn(() => {
+    controller.abort();
+    return Promise.reject(new LLMRequestError('server', 'Unavailable', 503));
+  });
+
+  await expect(withRetry(attempt, { ...options, signal: controller.signal })).rejects.toMatchObject({ kind: 'aborted' });
+  expect(attempt).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,39 @@
+import { LLMFeature } from '@/types/ai';
+import { setLLMSettings } from '@/services/userSettings';
+import { LLMBudgetError, usageTracker } from '../usageTracker';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const record = (feature: LLMFeature, failed = false) =>
+  usageTracker.record(
+    { messages: [{ role: 'user', content: 'Как дела с целями?' }], feature },
+    'gpt-4o-mini',
+    200,
+    failed ? null : { text: 'Отлично, двигаемся по плану.', model: 'gpt-4o-mini' }
+  );
+
+it('records calls by feature and model with estimated tokens and cost', async () => {
+  await record('mentor_chat');
+  await record('journal_analysis');
+  await record('journal_analysis', true);
+
+  const summary = await usageTracker.getSummary();
+  expect(summary.total).toMatchObject({ calls: 3, failures: 1, latencyMs: 600 });
+  expect(summary.total.promptTokens).toBeGreaterThan(0);
+  expect(summary.total.cost).toBeGreaterThan(0);
+  expect(summary.byFeature.find(entry => entry.feature === 'journal_analysis')).toMatchObject({ calls: 2, failures: 1 });
+  expect(summary.byModel).toEqual([expect.objectContaining({ model: 'gpt-4o-mini', calls: 3 })]);
+});
+
+it('pauses capped features but keeps the mentor chat under the total cap', async () => {
+  await setLLMSettings({ monthlyCostCap: 0.000001 });
+
+  await expect(usageTracker.checkBudget('journal_analysis')).rejects.toBeInstanceOf(LLMBudgetError);
+  await expect(usageTracker.checkBudget('mentor_chat')).resolves.toBeUndefined();
+
+  await setLLMSettings({ monthlyCostCap: undefined, featureCostCaps: { mentor_chat: 0.000001 } });
+  expect(await usageTracker.isOverBudget('mentor_chat')).toBe(true);
+  expect(await usageTracker.isOverBudget('insights')).toBe(false);
+});
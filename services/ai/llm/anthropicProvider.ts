@@ -0,0 +1,221 @@
+import axios from 'axios';
+import { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMSettings, LLMToolCall } from '@/types/ai';
+import { postServerSentEvents } from './sse';
+import { LLMRequestError, toRequestError } from './requestPolicy';
+
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  public readonly id = 'anthropic' as const;
+  public readonly supportsTools = true;
+  private settings: LLMSettings;
+
+  constructor(settings: LLMSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Sends a messages request
+   * @param request Provider-agnostic request
+   */
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.settings.model;
+
+    try {
+      const response = await axios.post(
+        `${this.settings.baseUrl || ANTHROPIC_BASE_URL}/messages`,
+        this.buildBody(request, model),
+        {
+          headers: this.buildHeaders(),
+          signal: request.signal
+        }
+      );
+
+      const blocks: any[] = response.data.content || [];
+      const text = blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+      const toolCalls: LLMToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
+      return {
+        text: text.trim(),
+        model: response.data.model || model,
+        toolCalls: toolCalls.length ? toolCalls : undefined,
+        usage: response.data.usage && {
+          promptTokens: response.data.usage.input_tokens,
+          completionTokens: response.data.usage.output_tokens
+        }
+      };
+    } catch (error) {
+      if (!request.signal?.aborted) console.error('anthropic completion failed:', error);
+      throw toRequestError(error, request.signal);
+    }
+  }
+
+  /**
+   * Streams a messages request, reporting text deltas as they arrive.
+   * Tool input arrives as partial JSON and is parsed once the block is complete.
+   * @param request Provider-agnostic request
+   * @param onToken Called with each text delta
+   */
+  public async stream(request: LLMRequest, onToken: (delta: string) => void): Promise<LLMResponse> {
+    let model = request.model || this.settings.model;
+    let text = '';
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    const toolBlocks: { id: string; name: string; json: string }[] = [];
+
+    try {
+      await postServerSentEvents(
+        `${this.settings.baseUrl || ANTHROPIC_BASE_URL}/messages`,
+        this.buildHeaders(),
+        { ...this.buildBody(request, model), stream: true },
+        ({ data }) => {
+          const event = JSON.parse(data);
+
+          switch (event.type) {
+            case 'message_start':
+              model = event.message?.model || model;
+              usage.promptTokens = event.message?.usage?.input_tokens || 0;
+              break;
+            case 'content_block_start':
+              if (event.content_block.type === 'tool_use') {
+                toolBlocks[event.index] = { id: event.content_block.id, name: event.content_block.name, json: '' };
+              }
+              break;
+            case 'content_block_delta':
+              if (event.delta.type === 'text_delta') {
+                text += event.delta.text;
+                onToken(event.delta.text);
+              } else if (event.delta.type === 'input_json_delta' && toolBlocks[event.index]) {
+                toolBlocks[event.index].json += event.delta.partial_json;
+              }
+              break;
+            case 'message_delta':
+              usage.completionTokens = event.usage?.output_tokens || usage.completionTokens;
+              break;
+            case 'error':
+              throw new LLMRequestError(
+                event.error?.type === 'overloaded_error' ? 'server' : 'client',
+                event.error?.message || 'Stream error'
+              );
+          }
+        },
+        request.signal
+      );
+    } catch (error) {
+      if (!request.signal?.aborted) console.error('anthropic stream failed:', error);
+      throw toRequestError(error, request.signal);
+    }
+
+    const toolCalls: LLMToolCall[] = toolBlocks.filter(Boolean).map(block => {
+      try {
+        return { id: block.id, name: block.name, arguments: block.json ? JSON.parse(block.json) : {} };
+      } catch {
+        return { id: block.id, name: block.name, arguments: {}, parseError: `input is not valid JSON: ${block.json}` };
+      }
+    });
+
+    return {
+      text: text.trim(),
+      model,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      usage
+    };
+  }
+
+  /**
+   * Builds the messages request body shared by both call styles
+   */
+  private buildBody(request: LLMRequest, model: string): Record<string, any> {
+    const { system, messages } = this.splitSystemPrompt(request.messages);
+
+    return {
+      model,
+      system: system || undefined,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters
+          }))
+        : undefined
+    };
+  }
+
+  /**
+   * Builds request headers with the API key and version
+   */
+  private buildHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.settings.apiKey || '',
+      'anthropic-version': ANTHROPIC_VERSION,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /**
+   * Moves system messages into the top-level system prompt and merges
+   * consecutive messages from the same role, as the Messages API expects.
+   * Tool results are sent as user content blocks.
+   */
+  private splitSystemPrompt(input: LLMMessage[]): {
+    system: string;
+    messages: AnthropicMessage[];
+  } {
+    const systemParts: string[] = [];
+    const messages: AnthropicMessage[] = [];
+
+    for (const message of input) {
+      if (message.role === 'system') {
+        systemParts.push(message.content);
+        continue;
+      }
+
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const content: AnthropicContentBlock[] = [];
+
+      if (message.role === 'tool') {
+        content.push({ type: 'tool_result', tool_use_id: message.toolCallId || '', content: message.content });
+      } else if (message.content) {
+        content.push({ type: 'text', text: message.content });
+      }
+
+      for (const call of message.toolCalls || []) {
+        content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+
+      const last = messages[messages.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...content);
+      } else {
+        messages.push({ role, content });
+      }
+    }
+
+    return {
+      system: systemParts.join('\n\n'),
+      messages
+    };
+  }
+}
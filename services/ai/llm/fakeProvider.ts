@@ -0,0 +1,118 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMSettings } from '@/types/ai';
+import fakeMentorFixtures from './fixtures/fakeMentor.json';
+
+/**
+ * Scripted response matched by a pattern against the latest user prompt
+ */
+export interface FakeFixture {
+  name: string;
+  match: string;
+  flags?: string;
+  responses: string[];
+}
+
+export interface FakeFixtureFile {
+  delayMs?: number;
+  fixtures: FakeFixture[];
+}
+
+const STREAM_CHUNK_DELAY_MS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Offline provider that answers from a fixtures file. Responses are picked
+ * round-robin per fixture, so a given sequence of prompts always produces
+ * the same replies. Fixtures may contain <system> intent tags to exercise
+ * the action pipeline without a network.
+ */
+export class FakeProvider implements LLMProvider {
+  public readonly id = 'fake' as const;
+  public readonly supportsTools = false;
+  private settings: LLMSettings;
+  private fixtureFile: FakeFixtureFile;
+  private callCounts: Map<string, number> = new Map();
+
+  constructor(settings: LLMSettings, fixtureFile: FakeFixtureFile = fakeMentorFixtures) {
+    this.settings = settings;
+    this.fixtureFile = fixtureFile;
+  }
+
+  /**
+   * Returns the scripted response for the latest user message
+   * @param request Provider-agnostic request
+   */
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    const prompt = this.getLastUserMessage(request);
+
+    if (this.fixtureFile.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, this.fixtureFile.delayMs));
+    }
+
+    for (const fixture of this.fixtureFile.fixtures) {
+      const match = new RegExp(fixture.match, fixture.flags).exec(prompt);
+      if (!match || fixture.responses.length === 0) continue;
+
+      const count = this.callCounts.get(fixture.name) || 0;
+      this.callCounts.set(fixture.name, count + 1);
+      const template = fixture.responses[count % fixture.responses.length];
+
+      return {
+        text: this.fillTemplate(template, match),
+        model: request.model || this.settings.model
+      };
+    }
+
+    throw new Error(`No fake fixture matches prompt: ${prompt.slice(0, 80)}`);
+  }
+
+  /**
+   * Replays the scripted response word by word to exercise streaming UI
+   * @param request Provider-agnostic request
+   * @param onToken Called with each chunk
+   */
+  public async stream(request: LLMRequest, onToken: (delta: string) => void): Promise<LLMResponse> {
+    const response = await this.complete(request);
+
+    for (const chunk of response.text.match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) {
+        throw new Error('Request aborted');
+      }
+      onToken(chunk);
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    }
+
+    return response;
+  }
+
+  /**
+   * Gets the content of the most recent user message
+   */
+  private getLastUserMessage(request: LLMRequest): string {
+    for (let i = request.messages.length - 1; i >= 0; i--) {
+      if (request.messages[i].role === 'user') {
+        return request.messages[i].content;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Substitutes {{N}} capture groups and {{today}}/{{tomorrow}}/{{inNdays}} dates
+   */
+  private fillTemplate(template: string, match: RegExpExecArray): string {
+    return template.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => {
+      if (/^\d+$/.test(key)) {
+        const group = match[Number(key)];
+        // Escape so captures can be embedded inside JSON string fixtures
+        return group === undefined ? '' : JSON.stringify(group.trim()).slice(1, -1);
+      }
+
+      const days = key === 'today' ? 0
+        : key === 'tomorrow' ? 1
+        : Number(/^in(\d+)days$/.exec(key)?.[1]);
+
+      if (Number.isNaN(days)) return placeholder;
+      return new Date(Date.now() + days * DAY_MS).toISOString().split('T')[0];
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import { Embedder, LLMProvider, LLMRequest, LLMResponse, LLMSettings } from '@/types/ai';
+import { getLLMSettings, setLLMSettings } from '@/services/userSettings';
+import { OpenAICompatibleProvider } from './openAIProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { LocalProvider } from './localProvider';
+import { FakeProvider } from './fakeProvider';
+import { LocalEmbedder } from './localEmbedder';
+import { OpenAIEmbedder } from './openAIEmbedder';
+import { getDeviceToken } from './proxyAuth';
+import { usageTracker } from './usageTracker';
+import { DEFAULT_RETRY_OPTIONS, withRetry } from './requestPolicy';
+
+/**
+ * LLM Service is the single entry point for model calls. It resolves the
+ * active provider from user settings so no service talks to an API directly.
+ */
+class LLMService {
+  private static instance: LLMService;
+  private provider: LLMProvider | null = null;
+  private providerSettings: LLMSettings | null = null;
+  private embedder: Embedder | null = null;
+
+  private constructor() {
+    // Provider is created lazily from settings on first use
+  }
+
+  public static getInstance(): LLMService {
+    if (!LLMService.instance) {
+      LLMService.instance = new LLMService();
+    }
+    return LLMService.instance;
+  }
+
+  /**
+   * Sends a completion request to the active provider, retrying rate
+   * limits, server errors and timeouts
+   * @param request Provider-agnostic request
+   * @throws LLMRequestError when the request fails or is cancelled
+   */
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    const provider = await this.getProvider();
+    return this.track(request, () =>
+      this.withRetry(request, signal => provider.complete({ ...request, signal }))
+    );
+  }
+
+  /**
+   * Streams a completion from the active provider. Providers without
+   * streaming support deliver the whole text as a single delta. A stream
+   * is only retried if it failed before the first delta.
+   * @param request Provider-agnostic request
+   * @param onToken Called with each text delta
+   * @throws LLMRequestError when the request fails or is cancelled
+   */
+  public async stream(request: LLMRequest, onToken: (delta: string) => void): Promise<LLMResponse> {
+    const provider = await this.getProvider();
+    let received = '';
+
+    return this.track(
+      request,
+      () => this.withRetry(request, async (signal, touch) => {
+        if (!provider.stream) {
+          const response = await provider.complete({ ...request, signal });
+          onToken(response.text);
+          return response;
+        }
+
+        return provider.stream({ ...request, signal }, delta => {
+          touch();
+          received += delta;
+          onToken(delta);
+        });
+      }),
+      () => received
+    );
+  }
+
+  /**
+   * Checks whether the active provider accepts tool definitions natively
+   */
+  public async supportsTools(): Promise<boolean> {
+    const provider = await this.getProvider();
+    return provider.supportsTools;
+  }
+
+  /**
+   * Returns the embedder selected in settings, the offline local one by default
+   */
+  public async getEmbedder(): Promise<Embedder> {
+    if (!this.embedder) {
+      this.embedder = await this.createEmbedder(await getLLMSettings());
+    }
+    return this.embedder;
+  }
+
+  /**
+   * Gets the effective LLM settings
+   */
+  public async getSettings(): Promise<LLMSettings> {
+    return getLLMSettings();
+  }
+
+  /**
+   * Persists new LLM settings and switches to the resulting provider
+   * @param update Settings fields to change
+   */
+  public async updateSettings(update: Partial<LLMSettings>): Promise<void> {
+    await setLLMSettings(update);
+    this.provider = null;
+    this.embedder = null;
+  }
+
+  /**
+   * Returns the active provider, creating it from settings if needed
+   */
+  private async getProvider(): Promise<LLMProvider> {
+    if (!this.provider) {
+      const settings = await getLLMSettings();
+      this.provider = this.createProvider(await this.resolveProxy(settings));
+      this.providerSettings = settings;
+    }
+    return this.provider;
+  }
+
+  /**
+   * Runs a provider call with the timeout and retries from settings
+   */
+  private withRetry(
+    request: LLMRequest,
+    attempt: (signal: AbortSignal, touch: () => void) => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    return withRetry(attempt, {
+      ...DEFAULT_RETRY_OPTIONS,
+      timeoutMs: this.providerSettings?.requestTimeoutMs || DEFAULT_RETRY_OPTIONS.timeoutMs,
+      maxRetries: this.providerSettings?.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+      signal: request.signal
+    });
+  }
+
+  /**
+   * Runs a model call unless a monthly cap stops its feature, and records
+   * its usage. A stopped stream is billed for the text received so far.
+   * @param request The request being sent
+   * @param call Performs the provider call
+   * @param received Text streamed before a failure
+   */
+  private async track(
+    request: LLMRequest,
+    call: () => Promise<LLMResponse>,
+    received: () => string = () => ''
+  ): Promise<LLMResponse> {
+    await usageTracker.checkBudget(request.feature || 'other');
+
+    const model = request.model || this.providerSettings?.model || '';
+    const startedAt = Date.now();
+    const record = (response: LLMResponse | null) => {
+      usageTracker.record(request, model, Date.now() - startedAt, response)
+        .catch(error => console.warn('Failed to record LLM usage:', error));
+    };
+
+    try {
+      const response = await call();
+      record(response);
+      return response;
+    } catch (error) {
+      record(request.signal?.aborted ? { text: received(), model } : null);
+      throw error;
+    }
+  }
+
+  /**
+   * Routes cloud providers through the LLM proxy when one is configured:
+   * the proxy exposes each provider's API under /v1/<provider> and accepts
+   * the device token in place of the provider key
+   */
+  private async resolveProxy(settings: LLMSettings): Promise<LLMSettings> {
+    if (!settings.proxyUrl || (settings.provider !== 'openai' && settings.provider !== 'anthropic')) {
+      return settings;
+    }
+
+    const proxyUrl = settings.proxyUrl.replace(/\/+$/, '');
+    return {
+      ...settings,
+      baseUrl: `${proxyUrl}/v1/${settings.provider}`,
+      apiKey: await getDeviceToken(proxyUrl)
+    };
+  }
+
+  /**
+   * Instantiates the embedder selected in settings. OpenAI embeddings can be
+   * used with any chat provider, so the base URL is only kept for openai.
+   */
+  private async createEmbedder(settings: LLMSettings): Promise<Embedder> {
+    if (settings.embeddingProvider !== 'openai') {
+      return new LocalEmbedder();
+    }
+
+    return new OpenAIEmbedder(await this.resolveProxy({
+      ...settings,
+      provider: 'openai',
+      baseUrl: settings.provider === 'openai' ? settings.baseUrl : undefined
+    }));
+  }
+
+  /**
+   * Instantiates the provider implementation selected in settings
+   */
+  private createProvider(settings: LLMSettings): LLMProvider {
+    switch (settings.provider) {
+      case 'anthropic':
+        return new AnthropicProvider(settings);
+      case 'local':
+        return new LocalProvider(settings);
+      case 'fake':
+        return new FakeProvider(settings);
+      case 'openai':
+        return new OpenAICompatibleProvider(settings);
+      default:
+        console.warn(`Unknown LLM provider: ${settings.provider}, falling back to openai`);
+        return new OpenAICompatibleProvider({ ...settings, provider: 'openai' });
+    }
+  }
+}
+
+export const llmService = LLMService.getInstance();
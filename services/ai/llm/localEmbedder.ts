@@ -0,0 +1,58 @@
+import { Embedder } from '@/types/ai';
+
+const DIMENSIONS = 256;
+const NGRAM_SIZE = 3;
+const WORD_WEIGHT = 0.5;
+
+/**
+ * FNV-1a hash of a string, as an unsigned 32-bit integer
+ */
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+/**
+ * Offline embedder that hashes character trigrams and whole words into a
+ * fixed-size vector. Word forms share most of their trigrams, so
+ * "тренировка" and "тренировки" end up close to each other without any
+ * model or network.
+ */
+export class LocalEmbedder implements Embedder {
+  public readonly id = `local-ngram-${NGRAM_SIZE}-${DIMENSIONS}`;
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    const words = text
+      .toLowerCase()
+      .replace(/ё/g, 'е')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1);
+
+    const add = (feature: string, weight: number) => {
+      const value = hash(feature);
+      // The top bit picks the sign so that collisions cancel out on average
+      vector[value % DIMENSIONS] += value & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of words) {
+      add(`w:${word}`, WORD_WEIGHT);
+
+      const padded = `_${word}_`;
+      for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+        add(padded.slice(i, i + NGRAM_SIZE), 1);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? vector.map(x => x / norm) : vector;
+  }
+}
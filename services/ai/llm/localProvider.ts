@@ -0,0 +1,15 @@
+import { LLMSettings } from '@/types/ai';
+import { OpenAICompatibleProvider } from './openAIProvider';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on :8080/v1
+export const LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Provider for locally hosted models served over the OpenAI-compatible API.
+ * Tool calling support varies by model, so local models use the text command format.
+ */
+export class LocalProvider extends OpenAICompatibleProvider {
+  constructor(settings: LLMSettings) {
+    super({ ...settings, baseUrl: settings.baseUrl || LOCAL_BASE_URL }, 'local', false);
+  }
+}
@@ -0,0 +1,43 @@
+import axios from 'axios';
+import { Embedder, LLMSettings } from '@/types/ai';
+import { OPENAI_BASE_URL } from './openAIProvider';
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * Embedder backed by the OpenAI embeddings API, directly or through the
+ * LLM proxy
+ */
+export class OpenAIEmbedder implements Embedder {
+  public readonly id = `openai-${EMBEDDING_MODEL}`;
+  private settings: LLMSettings;
+
+  constructor(settings: LLMSettings) {
+    this.settings = settings;
+  }
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await axios.post(
+        `${this.settings.baseUrl || OPENAI_BASE_URL}/embeddings`,
+        { model: EMBEDDING_MODEL, input: texts },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.settings.apiKey ? { Authorization: `Bearer ${this.settings.apiKey}` } : {})
+          }
+        }
+      );
+
+      // Results carry the index of their input and are not guaranteed to be in order
+      const vectors: number[][] = [];
+      for (const item of response.data.data) {
+        vectors[item.index] = item.embedding;
+      }
+      return vectors;
+    } catch (error) {
+      console.error('OpenAI embeddings request failed:', error);
+      throw new Error('Failed to get embeddings');
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import axios from 'axios';
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMProviderId,
+  LLMRequest,
+  LLMResponse,
+  LLMSettings,
+  LLMToolCall
+} from '@/types/ai';
+import { postServerSentEvents } from './sse';
+import { toRequestError } from './requestPolicy';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Provider for OpenAI and any server exposing the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly id: LLMProviderId;
+  public readonly supportsTools: boolean;
+  protected settings: LLMSettings;
+
+  constructor(settings: LLMSettings, id: LLMProviderId = 'openai', supportsTools: boolean = true) {
+    this.id = id;
+    this.settings = settings;
+    this.supportsTools = supportsTools;
+  }
+
+  /**
+   * Sends a chat completion request
+   * @param request Provider-agnostic request
+   */
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.settings.model;
+
+    try {
+      const response = await axios.post(
+        `${this.settings.baseUrl || OPENAI_BASE_URL}/chat/completions`,
+        this.buildBody(request, model),
+        {
+          headers: this.buildHeaders(),
+          signal: request.signal
+        }
+      );
+
+      const message = response.data.choices?.[0]?.message;
+      const toolCalls = this.parseToolCalls(message?.tool_calls);
+      if (typeof message?.content !== 'string' && toolCalls.length === 0) {
+        throw new Error('No message in completion response');
+      }
+
+      return {
+        text: (message.content || '').trim(),
+        model: response.data.model || model,
+        toolCalls: toolCalls.length ? toolCalls : undefined,
+        usage: response.data.usage && {
+          promptTokens: response.data.usage.prompt_tokens,
+          completionTokens: response.data.usage.completion_tokens
+        }
+      };
+    } catch (error) {
+      if (!request.signal?.aborted) console.error(`${this.id} completion failed:`, error);
+      throw toRequestError(error, request.signal);
+    }
+  }
+
+  /**
+   * Streams a chat completion, reporting content deltas as they arrive.
+   * Tool call arguments arrive in fragments and are assembled by index.
+   * @param request Provider-agnostic request
+   * @param onToken Called with each text delta
+   */
+  public async stream(request: LLMRequest, onToken: (delta: string) => void): Promise<LLMResponse> {
+    let model = request.model || this.settings.model;
+    let text = '';
+    let usage: LLMResponse['usage'];
+    const rawCalls: { id: string; type: string; function: { name: string; arguments: string } }[] = [];
+
+    try {
+      await postServerSentEvents(
+        `${this.settings.baseUrl || OPENAI_BASE_URL}/chat/completions`,
+        this.buildHeaders(),
+        {
+          ...this.buildBody(request, model),
+          stream: true,
+          // Only OpenAI itself is known to accept usage reporting on streams
+          stream_options: this.id === 'openai' ? { include_usage: true } : undefined
+        },
+        ({ data }) => {
+          if (data === '[DONE]') return;
+
+          const chunk = JSON.parse(data);
+          model = chunk.model || model;
+          if (chunk.usage) {
+            usage = {
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens
+            };
+          }
+
+          const delta = chunk.choices?.[0]?.delta;
+          if (typeof delta?.content === 'string' && delta.content) {
+            text += delta.content;
+            onToken(delta.content);
+          }
+
+          for (const fragment of delta?.tool_calls || []) {
+            const call = rawCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.function.name += fragment.function.name;
+            if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+          }
+        },
+        request.signal
+      );
+    } catch (error) {
+      if (!request.signal?.aborted) console.error(`${this.id} stream failed:`, error);
+      throw toRequestError(error, request.signal);
+    }
+
+    const toolCalls = this.parseToolCalls(rawCalls.filter(Boolean));
+    return {
+      text: text.trim(),
+      model,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      usage
+    };
+  }
+
+  /**
+   * Builds the chat completions request body shared by both call styles
+   */
+  private buildBody(request: LLMRequest, model: string): Record<string, any> {
+    return {
+      model,
+      messages: request.messages.map(message => this.toApiMessage(message)),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      tools: this.supportsTools && request.tools?.length
+        ? request.tools.map(tool => ({
+            type: 'function',
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters
+            }
+          }))
+        : undefined
+    };
+  }
+
+  /**
+   * Converts a message to the chat completions format, including tool calls
+   * made by the assistant and tool results sent back to it
+   */
+  private toApiMessage(message: LLMMessage): Record<string, any> {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+
+  /**
+   * Parses tool calls from the response; arguments arrive as a JSON string
+   * which the model may have malformed, so parse errors are kept per call
+   */
+  private parseToolCalls(rawCalls: any[] | undefined): LLMToolCall[] {
+    return (rawCalls || [])
+      .filter(call => call.type === 'function' && call.function?.name)
+      .map(call => {
+        try {
+          return {
+            id: call.id,
+            name: call.function.name,
+            arguments: JSON.parse(call.function.arguments || '{}')
+          };
+        } catch {
+          return {
+            id: call.id,
+            name: call.function.name,
+            arguments: {},
+            parseError: `arguments are not valid JSON: ${call.function.arguments}`
+          };
+        }
+      });
+  }
+
+  /**
+   * Builds request headers, omitting authorization when no key is configured
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    if (this.settings.apiKey) {
+      headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+    }
+
+    return headers;
+  }
+}
@@ -0,0 +1,35 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios from 'axios';
+
+const DEVICE_TOKEN_KEY = 'berserk-proxy-device-token';
+
+interface StoredDeviceToken {
+  proxyUrl: string;
+  token: string;
+}
+
+/**
+ * Gets this device's token for the LLM proxy, registering the device on
+ * first use. Tokens are tied to the proxy they were issued by.
+ * @param proxyUrl Base URL of the proxy server
+ */
+export async function getDeviceToken(proxyUrl: string): Promise<string> {
+  const raw = await AsyncStorage.getItem(DEVICE_TOKEN_KEY);
+  const stored: StoredDeviceToken | null = raw ? JSON.parse(raw) : null;
+
+  if (stored && stored.proxyUrl === proxyUrl) {
+    return stored.token;
+  }
+
+  try {
+    const response = await axios.post(`${proxyUrl}/v1/devices`);
+    const token: string = response.data.token;
+
+    await AsyncStorage.setItem(DEVICE_TOKEN_KEY, JSON.stringify({ proxyUrl, token }));
+    return token;
+  } catch (error) {
+    console.error('Failed to register device with LLM proxy:', error);
+    throw new Error('Failed to connect to AI proxy');
+  }
+}
+
@@ -0,0 +1,188 @@
+import axios from 'axios';
+
+/**
+ * Why a model request failed. Rate limits, server errors and timeouts are
+ * worth retrying; a network error means the device is most likely offline.
+ */
+export type LLMRequestErrorKind = 'network' | 'timeout' | 'rate_limit' | 'server' | 'client' | 'aborted';
+
+const RETRYABLE_KINDS: LLMRequestErrorKind[] = ['timeout', 'rate_limit', 'server'];
+
+/**
+ * Error raised by providers when a model request fails
+ */
+export class LLMRequestError extends Error {
+  public readonly kind: LLMRequestErrorKind;
+  public readonly status?: number;
+  public readonly retryAfterMs?: number; // Server-requested delay before the next attempt
+
+  constructor(kind: LLMRequestErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, LLMRequestError.prototype);
+  }
+
+  public get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Timeouts and retries of model requests
+ */
+export interface RetryOptions {
+  timeoutMs: number; // Per attempt; for streams, the longest pause between chunks
+  maxRetries: number;
+  baseDelayMs: number; // Doubled after every failed attempt
+  maxDelayMs: number;
+  signal?: AbortSignal; // Cancels the current attempt and any waiting
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  timeoutMs: 60000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/**
+ * Maps an HTTP status to an error kind
+ */
+export const kindFromStatus = (status: number): LLMRequestErrorKind => {
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  return status >= 500 ? 'server' : 'client';
+};
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Converts an error thrown by axios or fetch into an LLMRequestError
+ * @param error The original error
+ * @param signal Signal of the request; an aborted request is reported as such
+ */
+export function toRequestError(error: unknown, signal?: AbortSignal): LLMRequestError {
+  if (error instanceof LLMRequestError) return error;
+  if (signal?.aborted) return new LLMRequestError('aborted', 'Request was cancelled');
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const { status, headers } = error.response;
+      return new LLMRequestError(
+        kindFromStatus(status),
+        `AI request failed with status ${status}`,
+        status,
+        parseRetryAfter(headers?.['retry-after'])
+      );
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new LLMRequestError('timeout', 'AI request timed out');
+    }
+    return new LLMRequestError('network', 'AI service is unreachable');
+  }
+
+  // fetch rejects with a TypeError when there is no connection
+  if (error instanceof TypeError) {
+    return new LLMRequestError('network', 'AI service is unreachable');
+  }
+
+  return new LLMRequestError('client', error instanceof Error ? error.message : 'AI request failed');
+}
+
+/**
+ * Checks whether an error means the device could not reach the AI service
+ */
+export const isOfflineError = (error: unknown): boolean =>
+  error instanceof LLMRequestError && error.kind === 'network';
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMRequestError('aborted', 'Request was cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMRequestError('aborted', 'Request was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs a request with a timeout per attempt, retrying rate limits, server
+ * errors and timeouts with exponential backoff and jitter. An attempt that
+ * has already delivered data is not retried, so streamed text is never
+ * repeated.
+ * @param attempt Makes one attempt; must stop when the given signal aborts
+ *   and call `touch` whenever data arrives
+ * @param options Timeouts, retries and the caller's cancellation signal
+ */
+export async function withRetry<T>(
+  attempt: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    let received = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const startTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.timeoutMs);
+    };
+    const touch = () => {
+      received = true;
+      startTimer();
+    };
+    const onAbort = () => controller.abort();
+
+    if (options.signal?.aborted) {
+      throw new LLMRequestError('aborted', 'Request was cancelled');
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    startTimer();
+
+    try {
+      return await attempt(controller.signal, touch);
+    } catch (caught) {
+      const error = timedOut
+        ? new LLMRequestError('timeout', `AI request timed out after ${options.timeoutMs} ms`)
+        : toRequestError(caught, options.signal);
+
+      if (!error.retryable || received || retry >= options.maxRetries) {
+        throw error;
+      }
+
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retry);
+      const delay = error.retryAfterMs ?? backoff * (0.5 + Math.random() / 2);
+      console.warn(`${error.message}; retrying in ${Math.round(delay)} ms`);
+      await wait(Math.min(delay, options.maxDelayMs), options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
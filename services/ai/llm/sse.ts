@@ -0,0 +1,77 @@
+import { fetch } from 'expo/fetch';
+import { kindFromStatus, LLMRequestError, parseRetryAfter } from './requestPolicy';
+
+/**
+ * Single event of a server-sent events stream
+ */
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Posts a JSON request and reads the response as a server-sent events stream.
+ * Uses expo/fetch because React Native's built-in fetch does not expose the
+ * response body as a stream.
+ * @param url Endpoint URL
+ * @param headers Request headers
+ * @param body Request body, serialized as JSON
+ * @param onEvent Called for every event in order
+ * @param signal Aborts the request
+ */
+export async function postServerSentEvents(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  onEvent: (event: ServerSentEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { ...headers, Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    throw new LLMRequestError(
+      kindFromStatus(response.status),
+      `Streaming request failed with status ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+
+    if (data.length > 0) onEvent({ event, data: data.join('\n') });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) flush(buffer);
+}
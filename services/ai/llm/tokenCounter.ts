@@ -0,0 +1,53 @@
+import { LLMMessage } from '@/types/ai';
+
+/**
+ * Tokenizer characteristics of a model family. Without shipping the
+ * tokenizers, token counts are estimated from characters per token, which
+ * differs a lot between Latin and Cyrillic text.
+ */
+interface ModelProfile {
+  match: RegExp;
+  contextWindow: number;
+  latinCharsPerToken: number;
+  cyrillicCharsPerToken: number;
+}
+
+// Checked in order; the last entry matches any model
+const MODEL_PROFILES: ModelProfile[] = [
+  { match: /^(gpt-4o|gpt-4\.1|o\d)/, contextWindow: 128000, latinCharsPerToken: 4, cyrillicCharsPerToken: 3 },
+  { match: /^gpt-4-turbo/, contextWindow: 128000, latinCharsPerToken: 4, cyrillicCharsPerToken: 2.2 },
+  { match: /^gpt-4/, contextWindow: 8192, latinCharsPerToken: 4, cyrillicCharsPerToken: 2.2 },
+  { match: /^gpt-3\.5/, contextWindow: 16385, latinCharsPerToken: 4, cyrillicCharsPerToken: 2.2 },
+  { match: /^claude/, contextWindow: 200000, latinCharsPerToken: 3.5, cyrillicCharsPerToken: 2.5 },
+  // Local servers usually run with a smaller context than the model supports
+  { match: /^(llama|mistral|qwen|gemma)/, contextWindow: 8192, latinCharsPerToken: 4, cyrillicCharsPerToken: 2.5 },
+  { match: /./, contextWindow: 8192, latinCharsPerToken: 3.5, cyrillicCharsPerToken: 2.2 }
+];
+
+// Role markers and separators added by chat formats around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const getProfile = (model: string): ModelProfile =>
+  MODEL_PROFILES.find(profile => profile.match.test(model.toLowerCase())) || MODEL_PROFILES[MODEL_PROFILES.length - 1];
+
+/**
+ * Gets the context window of a model in tokens
+ */
+export const getContextWindow = (model: string): number => getProfile(model).contextWindow;
+
+/**
+ * Estimates the number of tokens the model's tokenizer produces for the text,
+ * rounding up so budgets err on the safe side
+ */
+export const countTokens = (text: string, model: string): number => {
+  const profile = getProfile(model);
+  const cyrillic = (text.match(/[Ѐ-ӿ]/g) || []).length;
+  const other = text.length - cyrillic;
+  return Math.ceil(cyrillic / profile.cyrillicCharsPerToken + other / profile.latinCharsPerToken);
+};
+
+/**
+ * Estimates the tokens of a chat message including its formatting overhead
+ */
+export const countMessageTokens = (message: LLMMessage, model: string): number =>
+  countTokens(message.content, model) + MESSAGE_OVERHEAD_TOKENS;
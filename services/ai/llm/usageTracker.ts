@@ -0,0 +1,274 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DailyLLMUsage, LLMFeature, LLMRequest, LLMResponse, LLMUsageRecord } from '@/types/ai';
+import { getLLMSettings } from '@/services/userSettings';
+import { readMany } from '@/services/storage';
+import { countMessageTokens, countTokens } from './tokenCounter';
+
+const USAGE_KEY_PREFIX = 'llm_usage_';
+// Days of usage kept for the dashboard
+const USAGE_RETENTION_DAYS = 400;
+
+/**
+ * List prices in USD per million tokens, checked in order. Models without
+ * a match, such as local ones, are counted as free.
+ */
+const MODEL_PRICES: { match: RegExp; input: number; output: number }[] = [
+  { match: /^gpt-4o-mini/, input: 0.15, output: 0.6 },
+  { match: /^gpt-4o/, input: 2.5, output: 10 },
+  { match: /^gpt-4\.1-nano/, input: 0.1, output: 0.4 },
+  { match: /^gpt-4\.1-mini/, input: 0.4, output: 1.6 },
+  { match: /^gpt-4\.1/, input: 2, output: 8 },
+  { match: /^o\d-mini/, input: 1.1, output: 4.4 },
+  { match: /^o\d/, input: 15, output: 60 },
+  { match: /^gpt-4-turbo/, input: 10, output: 30 },
+  { match: /^gpt-4/, input: 30, output: 60 },
+  { match: /^gpt-3\.5/, input: 0.5, output: 1.5 },
+  { match: /^claude-3-5-haiku|^claude-3-haiku/, input: 0.8, output: 4 },
+  { match: /^claude-.*opus/, input: 15, output: 75 },
+  { match: /^claude/, input: 3, output: 15 }
+];
+
+// Features the user is waiting for; the total cap does not pause them
+const ESSENTIAL_FEATURES: LLMFeature[] = ['mentor_chat'];
+
+/**
+ * Usage added up over a period
+ */
+export type UsageTotals = Omit<LLMUsageRecord, 'feature' | 'model'>;
+
+/**
+ * Usage of a month broken down by feature and by model, most expensive first
+ */
+export interface UsageSummary {
+  month: string; // YYYY-MM
+  total: UsageTotals;
+  byFeature: (UsageTotals & { feature: LLMFeature })[];
+  byModel: (UsageTotals & { model: string })[];
+}
+
+/**
+ * Error raised instead of a model call when the monthly cap that applies
+ * to the feature has been reached
+ */
+export class LLMBudgetError extends Error {
+  public readonly feature: LLMFeature;
+
+  constructor(feature: LLMFeature) {
+    super(`Monthly LLM budget reached, ${feature} is paused`);
+    this.name = 'LLMBudgetError';
+    this.feature = feature;
+    Object.setPrototypeOf(this, LLMBudgetError.prototype);
+  }
+}
+
+/**
+ * Estimates the cost of a call in USD from list prices
+ */
+export const estimateCost = (model: string, promptTokens: number, completionTokens: number): number => {
+  const price = MODEL_PRICES.find(entry => entry.match.test(model.toLowerCase()));
+  return price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : 0;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  failures: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  latencyMs: 0,
+  cost: 0
+});
+
+const addTotals = (target: UsageTotals, record: UsageTotals): void => {
+  target.calls += record.calls;
+  target.failures += record.failures;
+  target.promptTokens += record.promptTokens;
+  target.completionTokens += record.completionTokens;
+  target.latencyMs += record.latencyMs;
+  target.cost += record.cost;
+};
+
+/**
+ * Usage Tracker records tokens, latency, failures and estimated cost of
+ * every model call, per day and per feature and model, and enforces the
+ * monthly caps from LLM settings. Days of the current month are cached so
+ * budget checks do not read storage.
+ */
+class UsageTracker {
+  private static instance: UsageTracker;
+  private currentMonth: { month: string; days: Map<string, DailyLLMUsage> } | null = null;
+  private pruned = false;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    // Usage is loaded on first use
+  }
+
+  public static getInstance(): UsageTracker {
+    if (!UsageTracker.instance) {
+      UsageTracker.instance = new UsageTracker();
+    }
+    return UsageTracker.instance;
+  }
+
+  /**
+   * Records a model call. Tokens reported by the provider are used when
+   * available and estimated from the text otherwise.
+   * @param request The request that was sent
+   * @param model Model the request was sent to
+   * @param latencyMs Time until the response or the failure
+   * @param response The response, or null if the call failed
+   */
+  public async record(
+    request: LLMRequest,
+    model: string,
+    latencyMs: number,
+    response: LLMResponse | null
+  ): Promise<void> {
+    const promptTokens = response
+      ? response.usage?.promptTokens ?? this.estimatePromptTokens(request, model)
+      : 0;
+    const completionTokens = response
+      ? response.usage?.completionTokens ?? this.estimateCompletionTokens(response, model)
+      : 0;
+
+    const task = this.writeQueue.then(async () => {
+      const date = toDateKey(new Date());
+      const days = await this.loadMonth(date.slice(0, 7));
+      const day = days.get(date) || { date, records: [] };
+      const feature = request.feature || 'other';
+
+      let record = day.records.find(entry => entry.feature === feature && entry.model === model);
+      if (!record) {
+        record = { feature, model, ...emptyTotals() };
+        day.records.push(record);
+      }
+
+      addTotals(record, {
+        calls: 1,
+        failures: response ? 0 : 1,
+        promptTokens,
+        completionTokens,
+        latencyMs,
+        cost: estimateCost(model, promptTokens, completionTokens)
+      });
+
+      days.set(date, day);
+      await AsyncStorage.setItem(USAGE_KEY_PREFIX + date, JSON.stringify(day));
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * Sums up the usage of a month
+   * @param month YYYY-MM, the current month by default
+   */
+  public async getSummary(month: string = toDateKey(new Date()).slice(0, 7)): Promise<UsageSummary> {
+    await this.writeQueue;
+    const days = await this.loadMonth(month);
+
+    const total = emptyTotals();
+    const byFeature = new Map<LLMFeature, UsageTotals & { feature: LLMFeature }>();
+    const byModel = new Map<string, UsageTotals & { model: string }>();
+
+    for (const day of days.values()) {
+      for (const { feature, model, ...record } of day.records) {
+        addTotals(total, record);
+
+        if (!byFeature.has(feature)) byFeature.set(feature, { feature, ...emptyTotals() });
+        addTotals(byFeature.get(feature)!, record);
+
+        if (!byModel.has(model)) byModel.set(model, { model, ...emptyTotals() });
+        addTotals(byModel.get(model)!, record);
+      }
+    }
+
+    const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.calls - a.calls;
+    return {
+      month,
+      total,
+      byFeature: [...byFeature.values()].sort(byCost),
+      byModel: [...byModel.values()].sort(byCost)
+    };
+  }
+
+  /**
+   * Checks whether a monthly cap stops the feature: its own cap, or the
+   * total cap for all features except the mentor chat
+   */
+  public async isOverBudget(feature: LLMFeature): Promise<boolean> {
+    const settings = await getLLMSettings();
+    const featureCap = settings.featureCostCaps?.[feature];
+    const totalCap = ESSENTIAL_FEATURES.includes(feature) ? undefined : settings.monthlyCostCap;
+    if (!featureCap && !totalCap) return false;
+
+    const { total, byFeature } = await this.getSummary();
+    const featureCost = byFeature.find(entry => entry.feature === feature)?.cost || 0;
+
+    return Boolean((featureCap && featureCost >= featureCap) || (totalCap && total.cost >= totalCap));
+  }
+
+  /**
+   * Throws LLMBudgetError if a monthly cap stops the feature
+   */
+  public async checkBudget(feature: LLMFeature): Promise<void> {
+    if (await this.isOverBudget(feature)) {
+      throw new LLMBudgetError(feature);
+    }
+  }
+
+  /**
+   * Reads the days of a month, keeping the current month in memory
+   */
+  private async loadMonth(month: string): Promise<Map<string, DailyLLMUsage>> {
+    if (this.currentMonth?.month === month) {
+      return this.currentMonth.days;
+    }
+
+    const keys = Array.from({ length: 31 }, (_, index) => `${USAGE_KEY_PREFIX}${month}-${pad(index + 1)}`);
+    const days = new Map<string, DailyLLMUsage>();
+    for (const [, value] of await readMany(keys)) {
+      if (!value) continue;
+      const day: DailyLLMUsage = JSON.parse(value);
+      days.set(day.date, day);
+    }
+
+    if (month === toDateKey(new Date()).slice(0, 7)) {
+      this.currentMonth = { month, days };
+      await this.pruneOldDays();
+    }
+    return days;
+  }
+
+  /**
+   * Removes days older than the retention period, once per app run
+   */
+  private async pruneOldDays(): Promise<void> {
+    if (this.pruned) return;
+    this.pruned = true;
+
+    const cutoff = toDateKey(new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    const keys = await AsyncStorage.getAllKeys();
+    const expired = keys.filter(key => key.startsWith(USAGE_KEY_PREFIX) && key.slice(USAGE_KEY_PREFIX.length) < cutoff);
+    if (expired.length > 0) {
+      await AsyncStorage.multiRemove(expired);
+    }
+  }
+
+  private estimatePromptTokens(request: LLMRequest, model: string): number {
+    const tools = request.tools ? countTokens(JSON.stringify(request.tools), model) : 0;
+    return request.messages.reduce((sum, message) => sum + countMessageTokens(message, model), tools);
+  }
+
+  private estimateCompletionTokens(response: LLMResponse, model: string): number {
+    const toolCalls = response.toolCalls ? countTokens(JSON.stringify(response.toolCalls), model) : 0;
+    return countTokens(response.text, model) + toolCalls;
+  }
+}
+
+export const usageTracker = UsageTracker.getInstance();
@@ -0,0 +1,87 @@
+import { JSONSchema } from '@/types/ai';
+import { coerceToSchema } from './jsonSchema';
+
+/**
+ * Why a model response could not be used
+ */
+export type LLMOutputErrorReason = 'request_failed' | 'invalid_json' | 'schema_mismatch';
+
+const REASON_MESSAGES: Record<LLMOutputErrorReason, string> = {
+  request_failed: 'the AI service did not respond',
+  invalid_json: 'the AI response was not valid JSON',
+  schema_mismatch: 'the AI response did not have the expected structure'
+};
+
+/**
+ * Error raised when a model call or its structured output fails. Carries the
+ * operation and the validation issues so callers can show a specific message.
+ */
+export class LLMOutputError extends Error {
+  public readonly operation: string;
+  public readonly reason: LLMOutputErrorReason;
+  public readonly issues: string[];
+
+  constructor(operation: string, reason: LLMOutputErrorReason, issues: string[] = []) {
+    const details = issues.length ? ` (${issues.slice(0, 3).join('; ')})` : '';
+    super(`${operation}: ${REASON_MESSAGES[reason]}${details}`);
+    this.name = 'LLMOutputError';
+    this.operation = operation;
+    this.reason = reason;
+    this.issues = issues;
+    Object.setPrototypeOf(this, LLMOutputError.prototype);
+  }
+}
+
+/**
+ * Extracts a JSON value from model text, tolerating markdown code fences
+ * and prose around the JSON
+ * @param operation Name of the calling operation, used in errors
+ * @param text Raw model output
+ */
+export function extractJson(operation: string, text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    // Fall back to the outermost object or array in the text
+  }
+
+  const start = unfenced.search(/[[{]/);
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    try {
+      return JSON.parse(unfenced.slice(start, end + 1));
+    } catch {
+      // Reported below
+    }
+  }
+
+  throw new LLMOutputError(operation, 'invalid_json', [text.slice(0, 120)]);
+}
+
+/**
+ * Parses model output as JSON and coerces it to a schema, keeping the valid
+ * parts. Dropped parts are logged and returned as issues.
+ * @param operation Name of the calling operation, used in errors and logs
+ * @param text Raw model output
+ * @param schema Expected shape of the output
+ * @throws LLMOutputError when there is no JSON or nothing usable is left
+ */
+export function parseLLMOutput<T>(
+  operation: string,
+  text: string,
+  schema: JSONSchema
+): { data: T; issues: string[] } {
+  const { value, issues } = coerceToSchema<T>(schema, extractJson(operation, text));
+
+  if (value === undefined || value === null) {
+    throw new LLMOutputError(operation, 'schema_mismatch', issues);
+  }
+
+  if (issues.length > 0) {
+    console.warn(`${operation}: dropped invalid parts of the AI response:`, issues);
+  }
+
+  return { data: value, issues };
+}
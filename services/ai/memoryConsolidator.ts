@@ -0,0 +1,257 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MemoryItem, PromptStamp } from '@/types/ai';
+import { analyzeText, extractSearchKeys } from '@/services/textNormalization';
+import { getUserSettings } from '@/services/userSettings';
+import { conversationStore } from './conversationStore';
+import { memoryEngine } from './memoryEngine';
+import { sessionManager } from './sessionManager';
+import { vectorIndex } from './vectorIndex';
+import { llmService } from './llm/llmService';
+import { parseLLMOutput } from './llmOutput';
+import { MEMORY_SUMMARY_SCHEMA, MemorySummary } from './outputSchemas';
+import { renderPrompt } from './promptRegistry';
+import { MEMORY_CONSOLIDATION_PROMPT } from './promptTemplates';
+
+// Not under memory_, which holds only memory items
+const LAST_RUN_KEY = 'consolidation_last_run';
+const RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Messages stay as they are for this long before they are consolidated
+const CONSOLIDATE_AFTER_DAYS = 7;
+// Messages with fewer meaningful words and no numbers are treated as chit-chat
+const MIN_CONTENT_TERMS = 3;
+const CLUSTER_SIMILARITY = 0.35;
+// Topics change over a conversation, so a message is only compared with recent clusters
+const OPEN_CLUSTERS = 20;
+const MIN_CLUSTER_SIZE = 3;
+const MAX_TRANSCRIPT_LENGTH = 6000;
+// Limits model calls per run; the remaining clusters are summarized on later runs
+const MAX_SUMMARIES_PER_RUN = 20;
+
+interface Cluster {
+  centroid: Float32Array;
+  memories: MemoryItem[];
+  length: number; // Transcript length of the cluster's messages
+}
+
+const cosine = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const toTranscriptLine = (memory: MemoryItem): string =>
+  `${memory.role === 'user' ? 'User' : 'Mentor'}: ${memory.content}`;
+
+/**
+ * Memory Consolidator keeps chat memory from growing without bound. Once a
+ * day it deletes history older than the user's retention period, forgets
+ * old chit-chat, and replaces old messages on one topic with a summary
+ * memory written by the model that links back to its source messages.
+ * Pinned memories are never consolidated. The conversation history itself
+ * is only trimmed by the retention period.
+ */
+class MemoryConsolidator {
+  private static instance: MemoryConsolidator;
+  private running: Promise<void> | null = null;
+
+  private constructor() {
+    // Consolidation is started by the AI core
+  }
+
+  public static getInstance(): MemoryConsolidator {
+    if (!MemoryConsolidator.instance) {
+      MemoryConsolidator.instance = new MemoryConsolidator();
+    }
+    return MemoryConsolidator.instance;
+  }
+
+  /**
+   * Runs consolidation unless it already ran during the last day
+   */
+  public async runIfDue(): Promise<void> {
+    const lastRun = await AsyncStorage.getItem(LAST_RUN_KEY);
+    if (lastRun && Date.now() - new Date(lastRun).getTime() < RUN_INTERVAL_MS) return;
+
+    await this.run();
+  }
+
+  /**
+   * Applies the retention period and consolidates old memories
+   */
+  public async run(): Promise<void> {
+    if (!this.running) {
+      this.running = this.consolidate().finally(() => {
+        this.running = null;
+      });
+    }
+    await this.running;
+  }
+
+  private async consolidate(): Promise<void> {
+    const { privacy } = await getUserSettings();
+    if (privacy.dataRetention > 0) {
+      await this.applyRetention(new Date(Date.now() - privacy.dataRetention * DAY_MS).toISOString());
+    }
+
+    const cutoff = new Date(Date.now() - CONSOLIDATE_AFTER_DAYS * DAY_MS).toISOString();
+    const oldMessages = (await memoryEngine.getAllMemories())
+      .filter(memory =>
+        memory.kind !== 'summary' && !memory.pinned && memory.role !== 'system' && memory.timestamp < cutoff
+      )
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    const chitChat = oldMessages.filter(memory => this.isChitChat(memory.content));
+    await memoryEngine.removeMemories(chitChat.map(memory => memory.id));
+
+    const forgotten = new Set(chitChat.map(memory => memory.id));
+    const byConversation = new Map<string, MemoryItem[]>();
+    for (const memory of oldMessages) {
+      if (forgotten.has(memory.id)) continue;
+      const memories = byConversation.get(memory.conversationId) || [];
+      memories.push(memory);
+      byConversation.set(memory.conversationId, memories);
+    }
+
+    const clusters: MemoryItem[][] = [];
+    for (const memories of byConversation.values()) {
+      clusters.push(...(await this.cluster(memories)).filter(cluster => cluster.length >= MIN_CLUSTER_SIZE));
+    }
+
+    // Oldest topics are consolidated first
+    clusters.sort((a, b) => a[0].timestamp.localeCompare(b[0].timestamp));
+    let summarized = 0;
+    for (const cluster of clusters.slice(0, MAX_SUMMARIES_PER_RUN)) {
+      if (await this.summarizeCluster(cluster)) summarized += cluster.length;
+    }
+
+    await AsyncStorage.setItem(LAST_RUN_KEY, new Date().toISOString());
+    console.log(`Memory consolidation: forgot ${chitChat.length} chit-chat messages, summarized ${summarized} messages`);
+  }
+
+  /**
+   * Deletes conversations, messages, memories and sessions older than the cutoff.
+   * The open conversation is kept even if all its messages are removed.
+   */
+  private async applyRetention(cutoff: string): Promise<void> {
+    const currentId = await AsyncStorage.getItem('current_conversation_id');
+
+    for (const conversation of await conversationStore.getAll()) {
+      if (conversation.lastMessageAt < cutoff && conversation.id !== currentId) {
+        await conversationStore.delete(conversation.id);
+      } else if (conversation.startedAt < cutoff) {
+        const remaining = await memoryEngine.removeMessagesBefore(conversation.id, cutoff);
+        await conversationStore.recordPruned(conversation.id, remaining);
+      }
+    }
+
+    const expired = (await memoryEngine.getAllMemories()).filter(memory => memory.timestamp < cutoff);
+    await memoryEngine.removeMemories(expired.map(memory => memory.id));
+    await sessionManager.deleteEndedBefore(cutoff);
+  }
+
+  private isChitChat(content: string): boolean {
+    return analyzeText(content).length < MIN_CONTENT_TERMS && !/\d/.test(content);
+  }
+
+  /**
+   * Groups messages of one conversation by topic, adding each message to
+   * the most similar recent cluster or starting a new one. Messages
+   * without a vector are left out and stay as they are.
+   * @param memories Messages in chronological order
+   */
+  private async cluster(memories: MemoryItem[]): Promise<MemoryItem[][]> {
+    const vectors = await vectorIndex.getVectors(memories.map(memory => memory.id));
+    const clusters: Cluster[] = [];
+
+    for (const memory of memories) {
+      const vector = vectors.get(memory.id);
+      if (!vector) continue;
+
+      const length = toTranscriptLine(memory).length + 1;
+      let best: Cluster | null = null;
+      let bestSimilarity = CLUSTER_SIMILARITY;
+
+      for (const cluster of clusters.slice(-OPEN_CLUSTERS)) {
+        if (cluster.length + length > MAX_TRANSCRIPT_LENGTH) continue;
+
+        const similarity = cosine(cluster.centroid, vector);
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best) {
+        best.memories.push(memory);
+        best.length += length;
+        vector.forEach((value, i) => { best!.centroid[i] += value; });
+        // Keep the active cluster among the recent ones
+        clusters.splice(clusters.indexOf(best), 1);
+        clusters.push(best);
+      } else {
+        clusters.push({ centroid: Float32Array.from(vector), memories: [memory], length });
+      }
+    }
+
+    return clusters.map(cluster => cluster.memories);
+  }
+
+  /**
+   * Replaces the messages of a cluster with a summary memory. If the model
+   * fails, the messages are kept for the next run.
+   * @returns Whether the cluster was consolidated
+   */
+  private async summarizeCluster(memories: MemoryItem[]): Promise<boolean> {
+    let result: MemorySummary;
+    let prompt: PromptStamp;
+    try {
+      ({ result, prompt } = await this.requestSummary(memories));
+    } catch (error) {
+      console.error('Failed to consolidate memories:', error);
+      return false;
+    }
+
+    const newest = memories[memories.length - 1];
+    const content = [result.summary, ...(result.facts || []).map(fact => `- ${fact}`)].join('\n');
+
+    // The summary is stored before its sources are removed so nothing is lost on failure
+    await memoryEngine.saveMemories([{
+      id: `summary_${newest.id}`,
+      conversationId: newest.conversationId,
+      role: 'assistant',
+      content,
+      timestamp: newest.timestamp,
+      keywords: extractSearchKeys(content),
+      kind: 'summary',
+      sources: memories.map(({ id, timestamp }) => ({ id, timestamp })),
+      prompt
+    }]);
+    await memoryEngine.removeMemories(memories.map(memory => memory.id));
+    return true;
+  }
+
+  private async requestSummary(memories: MemoryItem[]): Promise<{ result: MemorySummary; prompt: PromptStamp }> {
+    const prompt = await renderPrompt(MEMORY_CONSOLIDATION_PROMPT, {
+      messages: memories.map(toTranscriptLine).join('\n')
+    });
+
+    const response = await llmService.complete({
+      messages: [{ role: 'user', content: prompt.text }],
+      temperature: 0.2,
+      maxTokens: 400,
+      feature: 'memory'
+    });
+
+    const { data } = parseLLMOutput<MemorySummary>('consolidateMemories', response.text, MEMORY_SUMMARY_SCHEMA);
+    return { result: data, prompt: prompt.stamp };
+  }
+}
+
+export const memoryConsolidator = MemoryConsolidator.getInstance();
@@ -1,14 +1,20 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Message } from '@/types/ai';
+import { MemoryItem, Message } from '@/types/ai';
+import { Journal } from '@/types/app';
+import { getStorageEngine } from '@/services/repositories/storageEngine';
+import { analyzeText, extractSearchKeys } from '@/services/textNormalization';
+import { conversationLog } from './conversationLog';
+import { vectorIndex, VectorItem } from './vectorIndex';
 
 /**
  * Memory Engine handles storage and retrieval of conversation history,
  * with semantic search capabilities for retrieving relevant context.
+ * Chat memories and journal entries are embedded into the vector index;
+ * keyword queries of the storage engine are used when the vector index is
+ * unavailable.
  */
 class MemoryEngine {
   private static instance: MemoryEngine;
-  private conversationKeyPrefix = 'conv_';
-  private memoryKeyPrefix = 'memory_';
+  private vectorIndexBuild: Promise<void> | null = null;
   
   private constructor() {
     // Initialize memory engine
@@ -41,20 +47,7 @@ class MemoryEngine {
    */
   public async saveMessage(conversationId: string, message: Message): Promise<void> {
     try {
-      const key = `${this.conversationKeyPrefix}${conversationId}`;
-      let messages: Message[] = [];
-      
-      // Get existing messages
-      const existingData = await AsyncStorage.getItem(key);
-      if (existingData) {
-        messages = JSON.parse(existingData);
-      }
-      
-      // Add new message
-      messages.push(message);
-      
-      // Save updated messages
-      await AsyncStorage.setItem(key, JSON.stringify(messages));
+      await conversationLog.append(conversationId, message);
       
       // Store for semantic search if it's meaningful
       if (message.content.trim().length > 10) {
@@ -66,6 +59,17 @@ class MemoryEngine {
     }
   }
 
+  /**
+   * Changes a stored message of the conversation history, such as its
+   * delivery status
+   * @param conversationId Conversation identifier
+   * @param messageId Message to change
+   * @param changes Fields to replace
+   */
+  public async updateMessage(conversationId: string, messageId: string, changes: Partial<Message>): Promise<void> {
+    await conversationLog.update(conversationId, messageId, changes);
+  }
+
   /**
    * Gets all messages for a conversation
    * @param conversationId Conversation identifier
@@ -73,14 +77,7 @@ class MemoryEngine {
    */
   public async getAllMessages(conversationId: string): Promise<Message[]> {
     try {
-      const key = `${this.conversationKeyPrefix}${conversationId}`;
-      const data = await AsyncStorage.getItem(key);
-      
-      if (data) {
-        return JSON.parse(data);
-      }
-      
-      return [];
+      return await conversationLog.readAll(conversationId);
     } catch (error) {
       console.error('Failed to get messages:', error);
       return [];
@@ -95,8 +92,7 @@ class MemoryEngine {
    */
   public async getRecentMessages(conversationId: string, limit: number = 10): Promise<Message[]> {
     try {
-      const messages = await this.getAllMessages(conversationId);
-      return messages.slice(-limit);
+      return await conversationLog.readRecent(conversationId, limit);
     } catch (error) {
       console.error('Failed to get recent messages:', error);
       return [];
@@ -109,8 +105,7 @@ class MemoryEngine {
    */
   public async clearConversation(conversationId: string): Promise<void> {
     try {
-      const key = `${this.conversationKeyPrefix}${conversationId}`;
-      await AsyncStorage.removeItem(key);
+      await conversationLog.remove(conversationId);
       
       // Also clear memory entries for this conversation
       await this.clearMemoryForConversation(conversationId);
@@ -120,6 +115,92 @@ class MemoryEngine {
     }
   }
 
+  /**
+   * Removes messages sent before the cutoff from the conversation history;
+   * their memories are kept
+   * @returns The remaining messages
+   */
+  public async removeMessagesBefore(conversationId: string, cutoff: string): Promise<Message[]> {
+    return conversationLog.removeBefore(conversationId, cutoff);
+  }
+
+  /**
+   * Gets all chat memories, including consolidated summaries
+   */
+  public async getAllMemories(): Promise<MemoryItem[]> {
+    try {
+      return await getStorageEngine().memories.getAll();
+    } catch (error) {
+      console.error('Failed to get memories:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Stores memories and adds them to the vector index
+   */
+  public async saveMemories(memories: MemoryItem[]): Promise<void> {
+    if (memories.length === 0) return;
+
+    await getStorageEngine().memories.save(memories);
+    await this.addToVectorIndex(memories
+      .filter(memory => memory.role !== 'system')
+      .map(memory => ({ id: memory.id, source: 'chat' as const, text: memory.content, timestamp: memory.timestamp })));
+  }
+
+  /**
+   * Removes memories from storage and from the vector index
+   */
+  public async removeMemories(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await getStorageEngine().memories.remove(ids);
+    await vectorIndex.remove(ids);
+  }
+
+  /**
+   * Lists chat memories for review, pinned ones first, then newest first
+   * @param query Only memories containing every word of the query are listed
+   * @param limit Maximum number of memories
+   */
+  public async listMemories(query: string, limit: number): Promise<MemoryItem[]> {
+    const queryTerms = analyzeText(query);
+    const memories = getStorageEngine().memories;
+    return queryTerms.length === 0
+      ? memories.list(limit)
+      : memories.search(queryTerms, limit, true);
+  }
+
+  /**
+   * Changes the text of a memory or pins it, keeping the indexes up to date
+   * @param id Memory identifier
+   * @param changes New content and/or pinned state
+   */
+  public async updateMemory(id: string, changes: { content?: string; pinned?: boolean }): Promise<void> {
+    const [memory] = await getStorageEngine().memories.getByIds([id]);
+    if (!memory) throw new Error(`Memory ${id} not found`);
+    
+    const updated: MemoryItem = { ...memory, ...changes };
+    if (changes.content !== undefined && changes.content !== memory.content) {
+      updated.keywords = this.extractKeywords(changes.content);
+      updated.editedAt = new Date().toISOString();
+    }
+    await this.saveMemories([updated]);
+  }
+
+  /**
+   * Gets the memories the user pinned, formatted for the mentor's context
+   */
+  public async getPinnedContext(): Promise<string> {
+    try {
+      const memories = await getStorageEngine().memories.getPinned();
+      return memories.map(memory => `- ${memory.content}`).join('\n');
+    } catch (error) {
+      console.error('Failed to get pinned memories:', error);
+      return '';
+    }
+  }
+
   /**
    * Stores a memory item for semantic search
    * @param conversationId Conversation identifier
@@ -127,30 +208,15 @@ class MemoryEngine {
    */
   private async indexMessageForSearch(conversationId: string, message: Message): Promise<void> {
     try {
-      // For this implementation, we'll use a simplified approach with keywords
-      const memoryItem = {
+      await this.saveMemories([{
         id: message.id,
         conversationId,
         content: message.content,
         timestamp: message.timestamp,
         role: message.role,
-        keywords: this.extractKeywords(message.content)
-      };
-      
-      const key = `${this.memoryKeyPrefix}${message.id}`;
-      await AsyncStorage.setItem(key, JSON.stringify(memoryItem));
-      
-      // Update conversation memory index
-      const indexKey = `memory_index_${conversationId}`;
-      let memoryIds: string[] = [];
-      
-      const existingIndex = await AsyncStorage.getItem(indexKey);
-      if (existingIndex) {
-        memoryIds = JSON.parse(existingIndex);
-      }
-      
-      memoryIds.push(message.id);
-      await AsyncStorage.setItem(indexKey, JSON.stringify(memoryIds));
+        keywords: this.extractKeywords(message.content),
+        kind: 'message'
+      }]);
     } catch (error) {
       console.error('Failed to index message for search:', error);
     }
@@ -162,21 +228,8 @@ class MemoryEngine {
    */
   private async clearMemoryForConversation(conversationId: string): Promise<void> {
     try {
-      // Get memory index for conversation
-      const indexKey = `memory_index_${conversationId}`;
-      const existingIndex = await AsyncStorage.getItem(indexKey);
-      
-      if (existingIndex) {
-        const memoryIds: string[] = JSON.parse(existingIndex);
-        
-        // Delete each memory item
-        for (const id of memoryIds) {
-          await AsyncStorage.removeItem(`${this.memoryKeyPrefix}${id}`);
-        }
-        
-        // Clear the index
-        await AsyncStorage.removeItem(indexKey);
-      }
+      const memoryIds = await getStorageEngine().memories.removeConversation(conversationId);
+      await vectorIndex.remove(memoryIds);
     } catch (error) {
       console.error('Failed to clear memory for conversation:', error);
     }
@@ -190,38 +243,21 @@ class MemoryEngine {
    */
   public async retrieveRelevantContext(query: string, limit: number = 3): Promise<string> {
     try {
-      // Simple keyword matching for relevance
-      const queryKeywords = this.extractKeywords(query);
-      const allMemoryKeys = await this.getAllMemoryKeys();
-      const matchedMemories: Array<{ content: string; score: number }> = [];
+      let contents: string[];
       
-      for (const key of allMemoryKeys) {
-        const memoryData = await AsyncStorage.getItem(key);
-        if (memoryData) {
-          const memory = JSON.parse(memoryData);
-          
-          // Skip if it's a system message
-          if (memory.role === 'system') continue;
-          
-          const memoryKeywords = memory.keywords || this.extractKeywords(memory.content);
-          const matchScore = this.calculateMatchScore(queryKeywords, memoryKeywords);
-          
-          if (matchScore > 0) {
-            matchedMemories.push({
-              content: memory.content,
-              score: matchScore
-            });
-          }
-        }
+      try {
+        await this.ensureVectorIndex();
+        const matches = await vectorIndex.search(query, 'chat', limit);
+        const memories = await getStorageEngine().memories.getByIds(matches.map(match => match.id));
+        contents = memories.map(memory => memory.content);
+      } catch (error) {
+        console.warn('Vector search failed, falling back to keywords:', error);
+        contents = await this.retrieveContextByKeywords(query, limit);
       }
       
-      // Sort by relevance score
-      matchedMemories.sort((a, b) => b.score - a.score);
-      
       // Return the top matches as a formatted string
-      return matchedMemories
-        .slice(0, limit)
-        .map(memory => `- ${memory.content}`)
+      return contents
+        .map(content => `- ${content}`)
         .join('\n\n');
     } catch (error) {
       console.error('Failed to retrieve relevant context:', error);
@@ -230,134 +266,120 @@ class MemoryEngine {
   }
 
   /**
-   * Extracts keywords from text for simple matching
+   * Finds memories sharing the most keywords with the query
+   */
+  private async retrieveContextByKeywords(query: string, limit: number): Promise<string[]> {
+    const memories = await getStorageEngine().memories.search(analyzeText(query), limit);
+    return memories.map(memory => memory.content);
+  }
+
+  /**
+   * Embeds items into the vector index, building the index first if needed
+   */
+  private async addToVectorIndex(items: VectorItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    try {
+      await this.ensureVectorIndex();
+      await vectorIndex.upsert(items);
+    } catch (error) {
+      console.error('Failed to add item to vector index:', error);
+    }
+  }
+
+  /**
+   * Builds the vector index from all stored memories and journal entries
+   * when it is missing, e.g. after upgrading from keyword-only search, or
+   * when the embedder has changed
+   */
+  private async ensureVectorIndex(): Promise<void> {
+    if (await vectorIndex.isCurrent()) return;
+
+    if (!this.vectorIndexBuild) {
+      this.vectorIndexBuild = this.rebuildVectorIndex().finally(() => {
+        this.vectorIndexBuild = null;
+      });
+    }
+    await this.vectorIndexBuild;
+  }
+
+  private async rebuildVectorIndex(): Promise<void> {
+    const memories = await this.getAllMemories();
+    const items: VectorItem[] = memories
+      .filter(memory => memory.role !== 'system')
+      .map(memory => ({ id: memory.id, source: 'chat' as const, text: memory.content, timestamp: memory.timestamp }));
+
+    for (const entry of await this.getAllJournalEntries()) {
+      items.push({ id: entry.id, source: 'journal', text: entry.content, timestamp: entry.createdAt });
+    }
+
+    console.log(`Rebuilding vector index with ${items.length} items`);
+    await vectorIndex.rebuild(items);
+  }
+
+  /**
+   * Extracts stemmed, transliteration-insensitive keywords from text
    * @param text Text to extract keywords from
    * @returns Array of keywords
    */
   private extractKeywords(text: string): string[] {
-    // A simplified keyword extraction
-    return text
-      .toLowerCase()
-      .replace(/[^\wа-яё\s]/gi, '') // Remove punctuation (supports Cyrillic)
-      .split(/\s+/) // Split by whitespace
-      .filter(word => word.length > 3) // Keep only words longer than 3 chars
-      .filter(word => !this.isStopWord(word)); // Remove stop words
+    return extractSearchKeys(text);
   }
 
   /**
-   * Checks if a word is a common stop word
-   * @param word Word to check
-   * @returns Whether it's a stop word
+   * Embeds a journal entry, or its new text, for context retrieval
+   * @param entry Journal entry as saved by the journal service
    */
-  private isStopWord(word: string): boolean {
-    const stopWords = [
-      // English
-      'and', 'the', 'that', 'this', 'with', 'for', 'from', 'have', 'will', 
-      // Russian
-      'это', 'как', 'что', 'где', 'когда', 'который', 'для', 'или', 'есть', 'быть'
-    ];
-    return stopWords.includes(word);
+  public async indexJournalEntry(entry: Journal): Promise<void> {
+    await this.indexJournalEntries([entry]);
   }
 
   /**
-   * Calculates a simple relevance score between query and memory keywords
-   * @param queryKeywords Keywords from query
-   * @param memoryKeywords Keywords from memory
-   * @returns Match score (higher is more relevant)
+   * Embeds journal entries for context retrieval
+   * @param entries Journal entries as saved by the journal service
    */
-  private calculateMatchScore(queryKeywords: string[], memoryKeywords: string[]): number {
-    let score = 0;
-    
-    for (const qWord of queryKeywords) {
-      if (memoryKeywords.includes(qWord)) {
-        score += 1;
-      }
-    }
-    
-    return score;
+  public async indexJournalEntries(entries: Journal[]): Promise<void> {
+    await this.addToVectorIndex(entries.map(entry => ({
+      id: entry.id,
+      source: 'journal' as const,
+      text: entry.content,
+      timestamp: entry.createdAt
+    })));
   }
 
   /**
-   * Gets all memory keys from storage
-   * @returns Array of memory keys
+   * Finds journal entries missing from the vector index. A missing or
+   * outdated index is rebuilt from the whole journal on first use, so then
+   * no entry counts as missing.
+   * @returns Journal entries that are not indexed
    */
-  private async getAllMemoryKeys(): Promise<string[]> {
-    try {
-      const allKeys = await AsyncStorage.getAllKeys();
-      return allKeys.filter(key => key.startsWith(this.memoryKeyPrefix));
-    } catch (error) {
-      console.error('Failed to get memory keys:', error);
-      return [];
-    }
+  public async findUnindexedJournalEntries(): Promise<Journal[]> {
+    if (!(await vectorIndex.isCurrent())) return [];
+
+    const indexedIds = new Set(await vectorIndex.getIds('journal'));
+    return (await this.getAllJournalEntries()).filter(entry => !indexedIds.has(entry.id));
   }
 
   /**
-   * Saves a journal entry
-   * @param journalEntry Journal entry content
-   * @param tags Associated tags
-   * @returns ID of the saved entry
+   * Removes a deleted journal entry from context retrieval
+   * @param entryId ID of the journal entry
    */
-  public async saveJournalEntry(journalEntry: string, tags: string[] = []): Promise<string> {
+  public async removeJournalEntry(entryId: string): Promise<void> {
     try {
-      const entryId = `journal_${Date.now()}`;
-      
-      const entry = {
-        id: entryId,
-        content: journalEntry,
-        tags,
-        timestamp: new Date().toISOString(),
-        keywords: this.extractKeywords(journalEntry)
-      };
-      
-      // Save the entry
-      await AsyncStorage.setItem(`journal_${entryId}`, JSON.stringify(entry));
-      
-      // Update journal index
-      const indexKey = 'journal_entries';
-      let journalIds: string[] = [];
-      
-      const existingIndex = await AsyncStorage.getItem(indexKey);
-      if (existingIndex) {
-        journalIds = JSON.parse(existingIndex);
-      }
-      
-      journalIds.push(entryId);
-      await AsyncStorage.setItem(indexKey, JSON.stringify(journalIds));
-      
-      return entryId;
+      await vectorIndex.remove([entryId]);
     } catch (error) {
-      console.error('Failed to save journal entry:', error);
-      throw new Error('Failed to save journal entry');
+      console.error('Failed to remove journal entry from vector index:', error);
     }
   }
 
   /**
-   * Retrieves all journal entries
-   * @returns Array of journal entries
+   * Retrieves all journal entries. They are read from the journal repository;
+   * the journal service imports this engine, not the other way round.
+   * @returns Array of journal entries, newest first
    */
-  public async getAllJournalEntries(): Promise<any[]> {
+  public async getAllJournalEntries(): Promise<Journal[]> {
     try {
-      const indexKey = 'journal_entries';
-      const journalIndex = await AsyncStorage.getItem(indexKey);
-      
-      if (!journalIndex) return [];
-      
-      const journalIds: string[] = JSON.parse(journalIndex);
-      const entries: any[] = [];
-      
-      for (const id of journalIds) {
-        const entryData = await AsyncStorage.getItem(`journal_${id}`);
-        if (entryData) {
-          entries.push(JSON.parse(entryData));
-        }
-      }
-      
-      // Sort by timestamp (newest first)
-      entries.sort((a, b) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-      
-      return entries;
+      return await getStorageEngine().journal.getAll();
     } catch (error) {
       console.error('Failed to retrieve journal entries:', error);
       return [];
@@ -370,32 +392,25 @@ class MemoryEngine {
    * @param limit Maximum number of entries to retrieve
    * @returns Array of relevant journal entries
    */
-  public async retrieveRelevantJournalEntries(query: string, limit: number = 3): Promise<any[]> {
+  public async retrieveRelevantJournalEntries(query: string, limit: number = 3): Promise<Journal[]> {
     try {
-      const queryKeywords = this.extractKeywords(query);
-      const entries = await this.getAllJournalEntries();
-      const matchedEntries: Array<{ entry: any; score: number }> = [];
+      const journal = getStorageEngine().journal;
       
-      for (const entry of entries) {
-        const entryKeywords = entry.keywords || this.extractKeywords(entry.content);
-        const matchScore = this.calculateMatchScore(queryKeywords, entryKeywords);
-        
-        if (matchScore > 0 || query.length === 0) { // Include all if no query
-          matchedEntries.push({
-            entry,
-            score: matchScore
-          });
-        }
+      // Without a query, return the newest entries
+      if (query.trim().length === 0) {
+        return await journal.getRecent(limit);
       }
       
-      // Sort by relevance score, then by date (newest first)
-      matchedEntries.sort((a, b) => {
-        if (b.score !== a.score) return b.score - a.score;
-        return new Date(b.entry.timestamp).getTime() - new Date(a.entry.timestamp).getTime();
-      });
+      try {
+        await this.ensureVectorIndex();
+        const matches = await vectorIndex.search(query, 'journal', limit);
+        return await journal.getByIds(matches.map(match => match.id));
+      } catch (error) {
+        console.warn('Vector search failed, falling back to keywords:', error);
+      }
       
-      // Return the top matches
-      return matchedEntries.slice(0, limit).map(item => item.entry);
+      // Entries sharing the most terms with the query, newest first among equal
+      return await journal.rank(analyzeText(query), limit);
     } catch (error) {
       console.error('Failed to retrieve relevant journal entries:', error);
       return [];
@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, NativeEventSubscription } from 'react-native';
+
+const OUTBOX_KEY = 'mentor_outbox';
+const RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Mentor message saved while offline and waiting for a reply
+ */
+export interface OutboxItem {
+  conversationId: string;
+  messageId: string;
+  queuedAt: string;
+}
+
+/**
+ * Outcome of an attempt to send a queued message: still offline, answered,
+ * failed for another reason, or not sendable right now (e.g. its
+ * conversation is not open)
+ */
+export type OutboxDelivery = 'sent' | 'offline' | 'failed' | 'deferred';
+
+type OutboxSender = (item: OutboxItem) => Promise<OutboxDelivery>;
+
+/**
+ * Mentor Outbox keeps mentor messages that could not be sent while the
+ * device was offline and sends them in order once the AI service is
+ * reachable again. Without a connectivity API, reachability is probed by
+ * retrying with growing delays and whenever the app returns to the
+ * foreground.
+ */
+class MentorOutbox {
+  private static instance: MentorOutbox;
+  private sender: OutboxSender | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = RETRY_DELAY_MS;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    // Sending starts once a sender is registered
+  }
+
+  public static getInstance(): MentorOutbox {
+    if (!MentorOutbox.instance) {
+      MentorOutbox.instance = new MentorOutbox();
+    }
+    return MentorOutbox.instance;
+  }
+
+  /**
+   * Registers the function that sends queued messages and sends what is
+   * queued from the last run
+   */
+  public start(sender: OutboxSender): void {
+    this.sender = sender;
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', state => {
+        if (state === 'active') this.flush();
+      });
+    }
+    this.flush();
+  }
+
+  /**
+   * Stops sending, e.g. in tests
+   */
+  public stop(): void {
+    this.sender = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearRetry();
+  }
+
+  /**
+   * Queues a message; a message that is already queued keeps its place
+   */
+  public async enqueue(item: Omit<OutboxItem, 'queuedAt'>): Promise<void> {
+    await this.change(items =>
+      items.some(queued => queued.messageId === item.messageId)
+        ? items
+        : [...items, { ...item, queuedAt: new Date().toISOString() }]
+    );
+    this.scheduleRetry();
+  }
+
+  /**
+   * Removes a message from the queue
+   */
+  public async remove(messageId: string): Promise<void> {
+    await this.change(items => items.filter(item => item.messageId !== messageId));
+  }
+
+  /**
+   * Gets the queued messages, oldest first
+   */
+  public async getAll(): Promise<OutboxItem[]> {
+    const data = await AsyncStorage.getItem(OUTBOX_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Sends queued messages in order, stopping at the first one that finds
+   * the service still unreachable
+   */
+  public flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.deliverAll()
+        .catch(error => console.error('Failed to send queued mentor messages:', error))
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  private async deliverAll(): Promise<void> {
+    if (!this.sender) return;
+    this.clearRetry();
+
+    for (const item of await this.getAll()) {
+      const delivery = await this.sender(item).catch(error => {
+        console.error(`Failed to send queued message ${item.messageId}:`, error);
+        return 'failed' as const;
+      });
+
+      if (delivery === 'offline') {
+        this.scheduleRetry();
+        return;
+      }
+      if (delivery !== 'deferred') {
+        await this.remove(item.messageId);
+      }
+    }
+
+    this.retryDelay = RETRY_DELAY_MS;
+  }
+
+  /**
+   * Tries again later, waiting twice as long after every failed attempt
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer || !this.sender) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private change(update: (items: OutboxItem[]) => OutboxItem[]): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const items = await this.getAll();
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(update(items)));
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+}
+
+export const mentorOutbox = MentorOutbox.getInstance();
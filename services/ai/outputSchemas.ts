@@ -0,0 +1,241 @@
+import { JSONSchema } from '@/types/ai';
+import { GoalStatus } from '@/types/app';
+
+/**
+ * Recommendation returned by getPersonalizedRecommendations
+ */
+export interface PersonalizedRecommendation {
+  title: string;
+  description?: string;
+  actionSteps?: string[];
+  reasonForMatch?: string;
+}
+
+/**
+ * Step returned by recommendNextSteps
+ */
+export interface NextStep {
+  title: string;
+  description?: string;
+  reason?: string;
+}
+
+export interface MetricDraft {
+  name: string;
+  target: number;
+  current?: number;
+  unit?: string;
+  isPositive?: boolean;
+}
+
+/**
+ * Goal as drafted by the model in transformAspirationalGoal
+ */
+export interface GoalDraft {
+  title: string;
+  description?: string;
+  metrics?: MetricDraft[];
+  status?: GoalStatus;
+  tags?: string[];
+  category?: string;
+}
+
+export interface GoalStructure {
+  mainGoal: GoalDraft;
+  subGoals?: GoalDraft[];
+}
+
+/**
+ * Journal entry analysis returned by analyzeEntry
+ */
+export interface JournalAnalysis {
+  insights?: string[];
+  sentiment?: number;
+  keywords?: string[];
+}
+
+/**
+ * Summary of a closed mentor session returned by summarizeSession
+ */
+export interface SessionSummary {
+  summary: string;
+  keyInsights?: string[];
+}
+
+/**
+ * Consolidated memory returned by consolidateMemories
+ */
+export interface MemorySummary {
+  summary: string;
+  facts?: string[];
+}
+
+const text: JSONSchema = { type: 'string' };
+const stringList: JSONSchema = { type: 'array', items: { type: 'string' } };
+const score: JSONSchema = { type: 'number', minimum: 0, maximum: 10 };
+
+/**
+ * Profile fields the model may fill in. Everything is optional so a partial
+ * update is accepted; trait and progress scores are clamped to 0-10.
+ */
+export const PROFILE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: text,
+    traits: {
+      type: 'object',
+      properties: {
+        extraversion: score,
+        conscientiousness: score,
+        openness: score,
+        agreeableness: score,
+        neuroticism: score,
+        riskTolerance: score,
+        shortTermFocus: score,
+        resilience: score,
+        autonomy: score,
+        growthMindset: score
+      }
+    },
+    goals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: text,
+          text,
+          importance: { type: 'number', minimum: 1, maximum: 10 },
+          category: text
+        },
+        required: ['text']
+      }
+    },
+    values: stringList,
+    communicationPreferences: {
+      type: 'object',
+      properties: {
+        verbosityLevel: { type: 'string', enum: ['concise', 'moderate', 'detailed'] },
+        feedbackStyle: { type: 'string', enum: ['direct', 'constructive', 'gentle'] },
+        learningStyle: { type: 'string', enum: ['visual', 'auditory', 'kinesthetic', 'reading/writing'] },
+        responsePreference: {
+          type: 'string',
+          enum: ['quick solutions', 'detailed analysis', 'guided discovery']
+        }
+      }
+    },
+    workPatterns: {
+      type: 'object',
+      properties: {
+        productiveTimes: stringList,
+        focusDuration: { type: 'number', minimum: 0 },
+        primaryBarriers: stringList,
+        motivationTriggers: stringList
+      }
+    },
+    progressMarkers: {
+      type: 'object',
+      properties: {
+        consistencyScore: score,
+        adaptabilityScore: score,
+        reflectionFrequency: { type: 'number', minimum: 0 }
+      }
+    },
+    aiInsights: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { text, date: text },
+        required: ['text']
+      }
+    }
+  }
+};
+
+export const RECOMMENDATIONS_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: text,
+      description: text,
+      actionSteps: stringList,
+      reasonForMatch: text
+    },
+    required: ['title']
+  }
+};
+
+export const NEXT_STEPS_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: text,
+      description: text,
+      reason: text
+    },
+    required: ['title']
+  }
+};
+
+const goalDraft: JSONSchema = {
+  type: 'object',
+  properties: {
+    title: text,
+    description: text,
+    metrics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: text,
+          target: { type: 'number' },
+          current: { type: 'number' },
+          unit: text,
+          isPositive: { type: 'boolean' }
+        },
+        required: ['name', 'target']
+      }
+    },
+    status: { type: 'string', enum: ['not_started', 'in_progress', 'completed', 'at_risk', 'canceled'] },
+    tags: stringList,
+    category: text
+  },
+  required: ['title']
+};
+
+export const GOAL_STRUCTURE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    mainGoal: goalDraft,
+    subGoals: { type: 'array', items: goalDraft }
+  },
+  required: ['mainGoal']
+};
+
+export const JOURNAL_ANALYSIS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    insights: stringList,
+    sentiment: { type: 'number', minimum: -1, maximum: 1 },
+    keywords: stringList
+  }
+};
+
+export const SESSION_SUMMARY_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: text,
+    keyInsights: stringList
+  },
+  required: ['summary']
+};
+
+export const MEMORY_SUMMARY_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: text,
+    facts: stringList
+  },
+  required: ['summary']
+};
@@ -0,0 +1,108 @@
+import { PromptLocale, PromptStamp } from '@/types/ai';
+import { getUserSettings } from '@/services/userSettings';
+import { fenceUntrusted, UNTRUSTED_CONTENT_NOTICE } from './promptGuard';
+
+/**
+ * Values substituted into a template. Lists and objects are formatted by
+ * the caller, so the template decides nothing about data layout.
+ */
+export type PromptVariables = Record<string, string | number>;
+
+/**
+ * Named prompt with a version and a text per locale. Texts refer to
+ * variables as {{name}} and may be indented; common indentation is removed.
+ * Bump the version whenever a text changes, so stored outputs can be
+ * compared by the prompt that produced them.
+ */
+export interface PromptTemplate<V extends PromptVariables> {
+  id: string;
+  version: number;
+  description: string;
+  variables: (keyof V & string)[];
+  untrusted?: (keyof V & string)[]; // User-sourced variables, fenced as data
+  text: Record<PromptLocale, string>;
+}
+
+/**
+ * Prompt text ready to send, with the stamp to store on its output
+ */
+export interface RenderedPrompt {
+  text: string;
+  stamp: PromptStamp;
+}
+
+/**
+ * Error raised when a template is rendered without one of its variables
+ */
+export class PromptTemplateError extends Error {
+  public readonly templateId: string;
+  public readonly variable: string;
+
+  constructor(templateId: string, variable: string) {
+    super(`Prompt ${templateId}: variable "${variable}" is not set`);
+    this.name = 'PromptTemplateError';
+    this.templateId = templateId;
+    this.variable = variable;
+    Object.setPrototypeOf(this, PromptTemplateError.prototype);
+  }
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Removes the indentation shared by all non-empty lines and the blank
+ * lines around the text
+ */
+const dedent = (text: string): string => {
+  const lines = text.replace(/^\s*\n/, '').trimEnd().split('\n');
+  const indent = Math.min(
+    ...lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length)
+  );
+  return lines.map(line => line.slice(indent)).join('\n');
+};
+
+/**
+ * Lists the variables a template text refers to
+ */
+export const findPlaceholders = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(PLACEHOLDER), match => match[1]))];
+
+/**
+ * Gets the locale prompts are rendered in, following the app language
+ */
+export async function getPromptLocale(): Promise<PromptLocale> {
+  const { language } = await getUserSettings();
+  return language.toLowerCase().startsWith('en') ? 'en' : 'ru';
+}
+
+/**
+ * Renders a template. Variable values are inserted as they are, except
+ * untrusted ones, which are fenced with intent markup escaped; the prompt
+ * then ends with a notice on how to treat fenced text. Only the template
+ * text is dedented.
+ * @param template Template to render
+ * @param variables Values of the template's variables
+ * @param locale Locale to use, the app language by default
+ * @throws PromptTemplateError if a variable the text refers to is not set
+ */
+export async function renderPrompt<V extends PromptVariables>(
+  template: PromptTemplate<V>,
+  variables: V,
+  locale?: PromptLocale
+): Promise<RenderedPrompt> {
+  const promptLocale = locale || await getPromptLocale();
+  const values: PromptVariables = variables;
+  const untrusted: string[] = template.untrusted || [];
+
+  const text = dedent(template.text[promptLocale]).replace(PLACEHOLDER, (_, name: string) => {
+    if (values[name] === undefined) {
+      throw new PromptTemplateError(template.id, name);
+    }
+    return untrusted.includes(name) ? fenceUntrusted(name, String(values[name])) : String(values[name]);
+  });
+
+  return {
+    text: untrusted.length > 0 ? `${text}\n\n${UNTRUSTED_CONTENT_NOTICE[promptLocale]}` : text,
+    stamp: { id: template.id, version: template.version, locale: promptLocale }
+  };
+}
@@ -0,0 +1,710 @@
+import { PromptTemplate, PromptVariables } from './promptRegistry';
+
+/**
+ * Mentor system prompt when no persona is loaded
+ */
+export const MENTOR_DEFAULT_PROMPT: PromptTemplate<Record<string, never>> = {
+  id: 'mentor_default',
+  version: 1,
+  description: 'Mentor system prompt without a persona',
+  variables: [],
+  text: {
+    ru: `
+      Ты - AI-ментор, который помогает пользователю достигать его целей и развиваться.
+      Твой стиль общения прагматичный, конкретный и направленный на результат.
+      Не предлагай медитации, релаксации, не касайся политических и общественных предрассудков.
+      Фокусируйся на конкретных действиях и измеримых результатах.
+      Разбивай сложные задачи на конкретные шаги.
+      Давай аргументированные рекомендации.
+    `,
+    en: `
+      You are an AI mentor who helps the user reach their goals and grow.
+      Your communication style is pragmatic, specific and result-oriented.
+      Do not suggest meditation or relaxation, and stay away from political and social prejudices.
+      Focus on concrete actions and measurable results.
+      Break complex tasks down into concrete steps.
+      Back your recommendations with reasons.
+    `
+  }
+};
+
+/**
+ * Mentor system prompt built from the current persona
+ */
+export const MENTOR_PERSONA_PROMPT: PromptTemplate<{
+  name: string;
+  description: string;
+  communicationStyle: string;
+  values: string;
+  approach: string;
+  avoidTopics: string;
+  customInstructions: string;
+}> = {
+  id: 'mentor_persona',
+  version: 1,
+  description: 'Mentor system prompt for a persona',
+  variables: ['name', 'description', 'communicationStyle', 'values', 'approach', 'avoidTopics', 'customInstructions'],
+  text: {
+    ru: `
+      Ты - AI-ментор по имени {{name}}.
+      {{description}}
+
+      Твой тон общения: {{communicationStyle}}.
+      Твои ключевые ценности: {{values}}.
+      Твой подход: {{approach}}
+
+      Категорически избегай: {{avoidTopics}}.
+
+      Ты должен помогать пользователю достигать конкретных целей с помощью практических советов и шагов.
+      Всегда предлагай конкретные, измеримые действия с четкими критериями успеха.
+
+      Ты можешь управлять приложением с помощью системных команд: создавать задачи, цели, привычки,
+      записи в дневник и метрики. Используй команды только когда пользователь об этом просит или явно согласен.
+
+      {{customInstructions}}
+    `,
+    en: `
+      You are an AI mentor named {{name}}.
+      {{description}}
+
+      Your tone of communication: {{communicationStyle}}.
+      Your core values: {{values}}.
+      Your approach: {{approach}}
+
+      Strictly avoid: {{avoidTopics}}.
+
+      Help the user reach specific goals with practical advice and steps.
+      Always suggest concrete, measurable actions with clear success criteria.
+
+      You can control the app with system commands: create tasks, goals, habits,
+      journal entries and metrics. Use commands only when the user asks for it or clearly agrees.
+
+      {{customInstructions}}
+    `
+  }
+};
+
+/**
+ * Profile update from a mentor exchange, answered as partial profile JSON
+ */
+export const PROFILE_UPDATE_PROMPT: PromptTemplate<{
+  profile: string;
+  context: string;
+  userMessage: string;
+  aiResponse: string;
+}> = {
+  id: 'profile_update',
+  version: 2,
+  description: 'Profile changes learned from a mentor exchange',
+  variables: ['profile', 'context', 'userMessage', 'aiResponse'],
+  untrusted: ['profile', 'context', 'userMessage', 'aiResponse'],
+  text: {
+    en: `
+      You are a psychological profiling system. Analyze this interaction and previous relevant context to extract insights about the user.
+      Update their psychological profile based on this new data.
+
+      User Profile:
+      {{profile}}
+
+      Recent Context:
+      {{context}}
+
+      Latest Interaction:
+      User: {{userMessage}}
+      AI: {{aiResponse}}
+
+      Provide updates to the user profile in JSON format. Include only fields that should be updated.
+      Focus on identifying:
+      1. Personality traits and how they manifest
+      2. Goals and values expressed explicitly or implicitly
+      3. Communication preferences and learning style
+      4. Work patterns and productivity insights
+      5. Any other significant psychological insights
+
+      Return ONLY valid JSON without explanation.
+    `,
+    ru: `
+      Ты - система психологического профилирования. Проанализируй это взаимодействие и предыдущий релевантный контекст, чтобы извлечь сведения о пользователе.
+      Обнови его психологический профиль на основе новых данных.
+
+      Профиль пользователя:
+      {{profile}}
+
+      Недавний контекст:
+      {{context}}
+
+      Последнее взаимодействие:
+      Пользователь: {{userMessage}}
+      AI: {{aiResponse}}
+
+      Верни изменения профиля в формате JSON. Включи только поля, которые нужно обновить.
+      Ключи JSON оставь как в профиле, тексты пиши по-русски.
+      Обрати внимание на:
+      1. Черты личности и то, как они проявляются
+      2. Цели и ценности, высказанные явно или косвенно
+      3. Предпочтения в общении и стиль обучения
+      4. Рабочие паттерны и продуктивность
+      5. Любые другие значимые психологические наблюдения
+
+      Верни ТОЛЬКО корректный JSON без пояснений.
+    `
+  }
+};
+
+/**
+ * Initial profile from the onboarding questionnaire
+ */
+export const ONBOARDING_PROFILE_PROMPT: PromptTemplate<{
+  answers: string;
+  profileTemplate: string;
+}> = {
+  id: 'onboarding_profile',
+  version: 2,
+  description: 'Initial profile from onboarding answers',
+  variables: ['answers', 'profileTemplate'],
+  untrusted: ['answers'],
+  text: {
+    en: `
+      You are a psychological profiling system. Analyze these onboarding questionnaire responses to create an initial profile.
+
+      Questions and Answers:
+      {{answers}}
+
+      Based on these responses, create a detailed psychological profile in JSON format.
+      The profile should match this structure:
+      {{profileTemplate}}
+
+      Return ONLY valid JSON without explanation.
+    `,
+    ru: `
+      Ты - система психологического профилирования. Проанализируй ответы на вопросы анкеты, чтобы составить начальный профиль.
+
+      Вопросы и ответы:
+      {{answers}}
+
+      На основе этих ответов составь подробный психологический профиль в формате JSON.
+      Профиль должен соответствовать этой структуре (ключи JSON не переводи, тексты пиши по-русски):
+      {{profileTemplate}}
+
+      Верни ТОЛЬКО корректный JSON без пояснений.
+    `
+  }
+};
+
+/**
+ * Recommendations for an area of life, answered as a JSON array
+ */
+export const RECOMMENDATIONS_PROMPT: PromptTemplate<{
+  area: string;
+  profile: string;
+}> = {
+  id: 'recommendations',
+  version: 2,
+  description: 'Personalized recommendations for an area',
+  variables: ['area', 'profile'],
+  untrusted: ['profile'],
+  text: {
+    en: `
+      Based on this user's psychological profile, generate highly personalized recommendations for {{area}}.
+
+      User Profile:
+      {{profile}}
+
+      Provide 3-5 specific recommendations that:
+      1. Match their personality traits and work patterns
+      2. Align with their core values and goals
+      3. Are formatted in their preferred communication style
+      4. Take into account their strengths and challenges
+
+      Return the recommendations as a JSON array of objects with these properties:
+      - title: A concise title for the recommendation
+      - description: Detailed explanation, personalized to their traits
+      - actionSteps: Array of 2-3 specific action steps to implement
+      - reasonForMatch: Why this is a good match for their profile
+
+      Return ONLY valid JSON without explanation.
+    `,
+    ru: `
+      На основе психологического профиля пользователя составь персональные рекомендации по теме: {{area}}.
+
+      Профиль пользователя:
+      {{profile}}
+
+      Дай 3-5 конкретных рекомендаций, которые:
+      1. Соответствуют его чертам личности и рабочим паттернам
+      2. Согласуются с его ключевыми ценностями и целями
+      3. Изложены в предпочитаемом им стиле общения
+      4. Учитывают его сильные стороны и трудности
+
+      Верни рекомендации как JSON-массив объектов с полями:
+      - title: короткое название рекомендации
+      - description: подробное объяснение с учётом его особенностей
+      - actionSteps: массив из 2-3 конкретных шагов
+      - reasonForMatch: почему рекомендация подходит его профилю
+
+      Верни ТОЛЬКО корректный JSON без пояснений.
+    `
+  }
+};
+
+/**
+ * Breakdown of an aspirational goal into a main goal and SMART sub-goals
+ */
+export const ASPIRATIONAL_GOAL_PROMPT: PromptTemplate<{
+  profile: string;
+  goal: string;
+}> = {
+  id: 'aspirational_goal',
+  version: 2,
+  description: 'Main goal and sub-goals for an aspiration',
+  variables: ['profile', 'goal'],
+  untrusted: ['profile', 'goal'],
+  text: {
+    en: `
+      You are an expert goal-setting and planning system. Your job is to transform a high-level aspirational goal into a structured set of SMART goals (Specific, Measurable, Achievable, Relevant, Time-bound).
+
+      User Profile:
+      {{profile}}
+
+      Aspirational Goal:
+      {{goal}}
+
+      Break this down into:
+      1. One main goal that captures the essence of the aspiration
+      2. 3-5 sub-goals that contribute to achieving the main goal
+
+      For each goal and sub-goal, provide:
+      - A clear, specific title
+      - A detailed description
+      - Measurable metrics for tracking progress
+      - A realistic status (should usually be "not_started" for new goals)
+      - Appropriate tags or categories
+
+      Format your response as a JSON object with this structure:
+      {
+        "mainGoal": {
+          "title": "",
+          "description": "",
+          "metrics": [{"name": "", "target": 0, "unit": "", "isPositive": true}],
+          "status": "not_started",
+          "tags": [],
+          "category": ""
+        },
+        "subGoals": [
+          {
+            "title": "",
+            "description": "",
+            "metrics": [{"name": "", "target": 0, "unit": "", "isPositive": true}],
+            "status": "not_started",
+            "tags": [],
+            "category": ""
+          }
+        ]
+      }
+
+      Return ONLY valid JSON without explanation.
+    `,
+    ru: `
+      Ты - эксперт по постановке целей и планированию. Твоя задача - превратить общую желаемую цель в структурированный набор целей SMART (конкретных, измеримых, достижимых, значимых и ограниченных по времени).
+
+      Профиль пользователя:
+      {{profile}}
+
+      Желаемая цель:
+      {{goal}}
+
+      Разбей её на:
+      1. Одну главную цель, передающую суть стремления
+      2. 3-5 подцелей, которые ведут к главной цели
+
+      Для каждой цели и подцели укажи:
+      - Ясное, конкретное название
+      - Подробное описание
+      - Измеримые метрики для отслеживания прогресса
+      - Реалистичный статус (для новых целей обычно "not_started")
+      - Подходящие теги или категорию
+
+      Ответь JSON-объектом такой структуры (ключи и статусы не переводи, тексты пиши по-русски):
+      {
+        "mainGoal": {
+          "title": "",
+          "description": "",
+          "metrics": [{"name": "", "target": 0, "unit": "", "isPositive": true}],
+          "status": "not_started",
+          "tags": [],
+          "category": ""
+        },
+        "subGoals": [
+          {
+            "title": "",
+            "description": "",
+            "metrics": [{"name": "", "target": 0, "unit": "", "isPositive": true}],
+            "status": "not_started",
+            "tags": [],
+            "category": ""
+          }
+        ]
+      }
+
+      Верни ТОЛЬКО корректный JSON без пояснений.
+    `
+  }
+};
+
+/**
+ * Next steps towards a goal, answered as a JSON array
+ */
+export const NEXT_STEPS_PROMPT: PromptTemplate<{
+  profile: string;
+  goal: string;
+  subGoals: string;
+  count: number;
+}> = {
+  id: 'next_steps',
+  version: 2,
+  description: 'Actionable next steps for a goal',
+  variables: ['profile', 'goal', 'subGoals', 'count'],
+  untrusted: ['profile', 'goal', 'subGoals'],
+  text: {
+    en: `
+      You are an expert goal-setting and planning system. Your job is to recommend the next steps for achieving a specific goal.
+
+      User Profile:
+      {{profile}}
+
+      Goal:
+      {{goal}}
+
+      Existing Sub-goals:
+      {{subGoals}}
+
+      Based on the goal, existing sub-goals, and user profile, recommend {{count}} actionable next steps.
+
+      Each step should be:
+      - Concrete and immediately applicable
+      - Linked to progress towards the main goal
+      - Brief and clear
+
+      Format response as a JSON array of objects:
+      [
+        {
+          "title": "",
+          "description": "",
+          "reason": ""
+        }
+      ]
+
+      Return ONLY valid JSON without any explanations.
+    `,
+    ru: `
+      Ты - эксперт по постановке целей и планированию. Твоя задача - предложить следующие шаги к конкретной цели.
+
+      Профиль пользователя:
+      {{profile}}
+
+      Цель:
+      {{goal}}
+
+      Существующие подцели:
+      {{subGoals}}
+
+      С учётом цели, подцелей и профиля пользователя предложи следующих шагов: {{count}}.
+
+      Каждый шаг должен быть:
+      - Конкретным и применимым сразу
+      - Связанным с продвижением к главной цели
+      - Коротким и понятным
+
+      Ответь JSON-массивом объектов:
+      [
+        {
+          "title": "",
+          "description": "",
+          "reason": ""
+        }
+      ]
+
+      Верни ТОЛЬКО корректный JSON без пояснений.
+    `
+  }
+};
+
+/**
+ * Insights, sentiment and keywords of a journal entry, answered as JSON
+ */
+export const JOURNAL_ANALYSIS_PROMPT: PromptTemplate<{ entry: string }> = {
+  id: 'journal_analysis',
+  version: 2,
+  description: 'Analysis of a journal entry',
+  variables: ['entry'],
+  untrusted: ['entry'],
+  text: {
+    ru: `
+      Проанализируй эту запись и предоставь:
+      1. 2-3 ключевых инсайта (что можно извлечь из этой записи)
+      2. Общий эмоциональный тон от -1 (очень негативный) до 1 (очень позитивный)
+      3. 5-7 ключевых слов или фраз
+
+      Запись: {{entry}}
+
+      Пожалуйста, верни результаты в формате JSON с полями "insights", "sentiment" и "keywords".
+    `,
+    en: `
+      Analyze this entry and provide:
+      1. 2-3 key insights (what can be learned from this entry)
+      2. The overall emotional tone from -1 (very negative) to 1 (very positive)
+      3. 5-7 keywords or phrases
+
+      Entry: {{entry}}
+
+      Please return the results as JSON with the fields "insights", "sentiment" and "keywords".
+    `
+  }
+};
+
+/**
+ * Reflection on a single journal entry
+ */
+export const JOURNAL_REFLECTION_PROMPT: PromptTemplate<{ entry: string }> = {
+  id: 'journal_reflection',
+  version: 1,
+  description: 'Reflection on a journal entry',
+  variables: ['entry'],
+  untrusted: ['entry'],
+  text: {
+    ru: `
+      Это моя запись в дневнике. Пожалуйста, дай глубокую, вдумчивую рефлексию на неё, выдели ключевые моменты и предложи конструктивные идеи для дальнейшего размышления:
+
+      {{entry}}
+    `,
+    en: `
+      This is my journal entry. Please give a deep, thoughtful reflection on it, point out the key moments and suggest constructive ideas for further reflection:
+
+      {{entry}}
+    `
+  }
+};
+
+/**
+ * One journal entry as listed in the insights prompt
+ */
+export const JOURNAL_INSIGHTS_ENTRY_PROMPT: PromptTemplate<{
+  date: string;
+  mood: number | string; // 1-10, or a dash when not set
+  content: string;
+}> = {
+  id: 'journal_insights_entry',
+  version: 1,
+  description: 'Journal entry in the insights prompt',
+  variables: ['date', 'mood', 'content'],
+  text: {
+    ru: `
+      Дата: {{date}}
+      Настроение: {{mood}}
+      {{content}}
+    `,
+    en: `
+      Date: {{date}}
+      Mood: {{mood}}
+      {{content}}
+    `
+  }
+};
+
+/**
+ * Patterns across recent journal entries, answered as a list
+ */
+export const JOURNAL_INSIGHTS_PROMPT: PromptTemplate<{ entries: string }> = {
+  id: 'journal_insights',
+  version: 2,
+  description: 'Insights across recent journal entries',
+  variables: ['entries'],
+  untrusted: ['entries'],
+  text: {
+    ru: `
+      Проанализируй мои последние записи в дневнике и дай 3-5 инсайтов о моих паттернах мышления, эмоциях и возможностях для роста:
+
+      {{entries}}
+    `,
+    en: `
+      Analyze my latest journal entries and give 3-5 insights into my thinking patterns, emotions and opportunities for growth:
+
+      {{entries}}
+    `
+  }
+};
+
+/**
+ * Single-message mentor prompt with a persona and user context
+ */
+export const MENTOR_BRIEF_PROMPT: PromptTemplate<{
+  persona: string;
+  memory: string;
+  message: string;
+}> = {
+  id: 'mentor_brief',
+  version: 2,
+  description: 'One-off mentor answer with persona and context',
+  variables: ['persona', 'memory', 'message'],
+  untrusted: ['memory'],
+  text: {
+    ru: `
+      {{persona}}
+
+      Контекст пользователя:
+      {{memory}}
+
+      Сообщение пользователя:
+      "{{message}}"
+
+      Ответь стратегически, прагматично и персонализированно.
+    `,
+    en: `
+      {{persona}}
+
+      User context:
+      {{memory}}
+
+      User message:
+      "{{message}}"
+
+      Answer strategically, pragmatically and in a personalized way.
+    `
+  }
+};
+
+/**
+ * Summary of a closed mentor session for long-term memory, answered as JSON
+ */
+export const SESSION_SUMMARY_PROMPT: PromptTemplate<{
+  transcript: string;
+  actions: string;
+}> = {
+  id: 'session_summary',
+  version: 1,
+  description: 'Summary and key insights of a mentor session',
+  variables: ['transcript', 'actions'],
+  untrusted: ['transcript'],
+  text: {
+    ru: `
+      Кратко перескажи эту сессию с ментором для долговременной памяти ментора.
+
+      Расшифровка сессии:
+      {{transcript}}
+
+      Действия, предложенные за сессию:
+      {{actions}}
+
+      Верни ТОЛЬКО корректный JSON без пояснений:
+      {"summary": "2-3 предложения о том, что обсудили и решили", "keyInsights": ["вывод о пользователе или его планах"]}
+      Пиши на языке разговора.
+    `,
+    en: `
+      Summarize this mentor session for the mentor's long-term memory.
+
+      Session transcript:
+      {{transcript}}
+
+      Actions proposed during the session:
+      {{actions}}
+
+      Return ONLY valid JSON without explanation:
+      {"summary": "2-3 sentences on what was discussed and decided", "keyInsights": ["insight about the user or their plans"]}
+      Write in the language of the conversation.
+    `
+  }
+};
+
+/**
+ * Long-term memory written from old messages on one topic, answered as JSON
+ */
+export const MEMORY_CONSOLIDATION_PROMPT: PromptTemplate<{ messages: string }> = {
+  id: 'memory_consolidation',
+  version: 1,
+  description: 'One memory with facts from a cluster of old messages',
+  variables: ['messages'],
+  untrusted: ['messages'],
+  text: {
+    ru: `
+      Объедини эти сообщения из разговора пользователя с ментором в одно долговременное воспоминание.
+      Сохрани конкретные факты, предпочтения, планы, обязательства, время и числа
+      (например, что пользователь хочет вставать в 6:00). Опусти приветствия и светскую беседу.
+
+      Сообщения:
+      {{messages}}
+
+      Верни ТОЛЬКО корректный JSON без пояснений:
+      {"summary": "1-3 предложения по теме", "facts": ["факт о пользователе, который стоит запомнить"]}
+      Пиши на языке разговора.
+    `,
+    en: `
+      Consolidate these messages from a user's conversation with their mentor into one long-term memory.
+      Keep concrete facts, preferences, plans, commitments, times and numbers
+      (for example, that the user wants to wake up at 6:00). Leave out greetings and small talk.
+
+      Messages:
+      {{messages}}
+
+      Return ONLY valid JSON without explanation:
+      {"summary": "1-3 sentences on the topic", "facts": ["fact about the user worth remembering"]}
+      Write in the language of the conversation.
+    `
+  }
+};
+
+/**
+ * Short title of a conversation from its first exchange
+ */
+export const CONVERSATION_TITLE_PROMPT: PromptTemplate<{
+  userMessage: string;
+  reply: string;
+}> = {
+  id: 'conversation_title',
+  version: 1,
+  description: 'Title of a conversation from its first exchange',
+  variables: ['userMessage', 'reply'],
+  untrusted: ['userMessage', 'reply'],
+  text: {
+    ru: `
+      Придумай короткое название (2–5 слов) для диалога по его началу. Ответь только названием, без кавычек.
+
+      Пользователь:
+      {{userMessage}}
+
+      Ментор:
+      {{reply}}
+    `,
+    en: `
+      Come up with a short title (2-5 words) for the conversation from its beginning. Answer with the title only, without quotes.
+
+      User:
+      {{userMessage}}
+
+      Mentor:
+      {{reply}}
+    `
+  }
+};
+
+/**
+ * All templates by ID, for listing and comparing prompt versions
+ */
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate<PromptVariables>> = Object.fromEntries(
+  [
+    MENTOR_DEFAULT_PROMPT,
+    MENTOR_PERSONA_PROMPT,
+    PROFILE_UPDATE_PROMPT,
+    ONBOARDING_PROFILE_PROMPT,
+    RECOMMENDATIONS_PROMPT,
+    ASPIRATIONAL_GOAL_PROMPT,
+    NEXT_STEPS_PROMPT,
+    JOURNAL_ANALYSIS_PROMPT,
+    JOURNAL_REFLECTION_PROMPT,
+    JOURNAL_INSIGHTS_ENTRY_PROMPT,
+    JOURNAL_INSIGHTS_PROMPT,
+    MENTOR_BRIEF_PROMPT,
+    SESSION_SUMMARY_PROMPT,
+    MEMORY_CONSOLIDATION_PROMPT,
+    CONVERSATION_TITLE_PROMPT
+  ].map(template => [template.id, template as PromptTemplate<PromptVariables>])
+);
@@ -0,0 +1,306 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MentorSession, Message, PromptStamp } from '@/types/ai';
+import { AppAction } from '@/types/app';
+import { analyzeText, countMatches, extractSearchKeys } from '@/services/textNormalization';
+import { memoryEngine } from './memoryEngine';
+import { llmService } from './llm/llmService';
+import { parseLLMOutput } from './llmOutput';
+import { SESSION_SUMMARY_SCHEMA, SessionSummary } from './outputSchemas';
+import { renderPrompt } from './promptRegistry';
+import { SESSION_SUMMARY_PROMPT } from './promptTemplates';
+
+const SESSIONS_KEY = 'mentor_sessions';
+const INACTIVITY_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_TRANSCRIPT_LENGTH = 6000;
+
+/**
+ * Session Manager groups mentor activity into sessions. A session opens
+ * with the first message and closes after a period of inactivity or when
+ * the user switches conversations. Closed sessions are summarized by the
+ * model, and the summaries serve as the mentor's long-term context.
+ */
+class SessionManager {
+  private static instance: SessionManager;
+  private inactivityTimer: ReturnType<typeof setTimeout> | null = null;
+  private summarizing: Set<string> = new Set();
+  // Writes run one after another so concurrent updates are not lost
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    // Sessions are loaded on demand
+  }
+
+  public static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  /**
+   * Gets all sessions, most recent first
+   */
+  public async getAll(): Promise<MentorSession[]> {
+    const sessions = await this.readSessions();
+    return sessions.sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
+
+  /**
+   * Records mentor activity, opening a session if none is open. An open
+   * session of another conversation or one that timed out is closed first.
+   * @param conversationId Conversation the activity belongs to
+   * @param personaId Persona the user is talking to
+   */
+  public async touch(conversationId: string, personaId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const closed: MentorSession[] = [];
+
+    await this.modifySessions(sessions => {
+      let isOpen = false;
+      const updated = sessions.map(session => {
+        if (session.endTime) return session;
+        if (session.conversationId === conversationId && !this.isStale(session)) {
+          isOpen = true;
+          return { ...session, lastActivityAt: now, personaId };
+        }
+        const ended = { ...session, endTime: session.lastActivityAt };
+        closed.push(ended);
+        return ended;
+      });
+
+      return isOpen
+        ? updated
+        : [...updated, { id: `session_${Date.now()}`, conversationId, startTime: now, lastActivityAt: now, personaId }];
+    });
+
+    this.summarizeInBackground(closed);
+    this.scheduleInactivityCheck();
+  }
+
+  /**
+   * Adds actions proposed by the mentor to the open session
+   */
+  public async recordActions(actions: AppAction[]): Promise<void> {
+    if (actions.length === 0) return;
+
+    await this.modifySessions(sessions => sessions.map(session =>
+      session.endTime
+        ? session
+        : { ...session, actionsGenerated: [...(session.actionsGenerated || []), ...actions.map(describeAction)] }
+    ));
+  }
+
+  /**
+   * Closes the open session, e.g. when the user switches conversations
+   */
+  public async endCurrent(): Promise<void> {
+    const closed = await this.closeSessions(() => true);
+    this.summarizeInBackground(closed);
+  }
+
+  /**
+   * Closes a session left open after the inactivity timeout and summarizes
+   * sessions whose summary was not created before the app was closed
+   */
+  public async closeStale(): Promise<void> {
+    try {
+      await this.closeSessions(session => this.isStale(session));
+
+      const pending = (await this.readSessions()).filter(s => s.endTime && s.summary === undefined);
+      for (const session of pending) {
+        await this.summarize(session);
+      }
+    } catch (error) {
+      console.error('Failed to close stale sessions:', error);
+    }
+  }
+
+  /**
+   * Gets summaries of past sessions relevant to the query, formatted for
+   * the prompt. Sessions are ranked by keyword overlap, then by recency.
+   * @param query User's message
+   * @param limit Maximum number of summaries
+   * @returns Formatted summaries, or an empty string if there are none
+   */
+  public async retrieveRelevantSummaries(query: string, limit: number = 3): Promise<string> {
+    try {
+      const queryTerms = analyzeText(query);
+      const sessions = (await this.readSessions()).filter(s => s.endTime && s.summary);
+
+      return sessions
+        .map(session => {
+          const text = `${session.summary} ${(session.keyInsights || []).join(' ')}`;
+          return { session, score: countMatches(queryTerms, extractSearchKeys(text)) };
+        })
+        .sort((a, b) => b.score - a.score || b.session.endTime!.localeCompare(a.session.endTime!))
+        .slice(0, limit)
+        .map(({ session }) => {
+          const date = new Date(session.startTime).toLocaleDateString('ru-RU');
+          const insights = session.keyInsights?.length ? ` Выводы: ${session.keyInsights.join('; ')}.` : '';
+          return `- ${date}: ${session.summary}${insights}`;
+        })
+        .join('\n');
+    } catch (error) {
+      console.error('Failed to retrieve session summaries:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Deletes the sessions of a deleted conversation
+   */
+  public async deleteForConversation(conversationId: string): Promise<void> {
+    await this.modifySessions(sessions => sessions.filter(s => s.conversationId !== conversationId));
+  }
+
+  /**
+   * Deletes closed sessions that ended before the cutoff
+   */
+  public async deleteEndedBefore(cutoff: string): Promise<void> {
+    await this.modifySessions(sessions => sessions.filter(s => !s.endTime || s.endTime >= cutoff));
+  }
+
+  /**
+   * Closes open sessions matching the predicate
+   * @returns The sessions that were closed
+   */
+  private async closeSessions(predicate: (session: MentorSession) => boolean): Promise<MentorSession[]> {
+    const closed: MentorSession[] = [];
+
+    await this.modifySessions(sessions => sessions.map(session => {
+      if (session.endTime || !predicate(session)) return session;
+      const ended = { ...session, endTime: session.lastActivityAt };
+      closed.push(ended);
+      return ended;
+    }));
+
+    return closed;
+  }
+
+  /**
+   * Summarizes closed sessions without making the caller wait for the model
+   */
+  private summarizeInBackground(sessions: MentorSession[]): void {
+    sessions.forEach(session => this.summarize(session).catch(error =>
+      console.error(`Failed to summarize session ${session.id}:`, error)
+    ));
+  }
+
+  /**
+   * Asks the model for a summary and key insights of a closed session.
+   * Sessions without user messages are dropped; if the model fails, a
+   * summary is built from the user's messages instead.
+   */
+  private async summarize(session: MentorSession): Promise<void> {
+    if (this.summarizing.has(session.id)) return;
+    this.summarizing.add(session.id);
+
+    try {
+      await this.writeSummary(session);
+    } finally {
+      this.summarizing.delete(session.id);
+    }
+  }
+
+  private async writeSummary(session: MentorSession): Promise<void> {
+    const messages = (await memoryEngine.getAllMessages(session.conversationId)).filter(message =>
+      message.role !== 'system' &&
+      message.timestamp >= session.startTime &&
+      message.timestamp <= session.endTime!
+    );
+    const userMessages = messages.filter(message => message.role === 'user');
+
+    if (userMessages.length === 0) {
+      await this.modifySessions(sessions => sessions.filter(s => s.id !== session.id));
+      return;
+    }
+
+    let result: SessionSummary;
+    let prompt: PromptStamp | undefined;
+    try {
+      ({ result, prompt } = await this.requestSummary(session, messages));
+    } catch (error) {
+      console.error(`Failed to summarize session ${session.id}:`, error);
+      result = {
+        summary: `Темы: ${userMessages.map(message => message.content.split('\n')[0].slice(0, 80)).join('; ')}`,
+        keyInsights: []
+      };
+    }
+
+    await this.modifySessions(sessions => sessions.map(s =>
+      s.id === session.id ? { ...s, summary: result.summary, keyInsights: result.keyInsights || [], prompt } : s
+    ));
+  }
+
+  private async requestSummary(
+    session: MentorSession,
+    messages: Message[]
+  ): Promise<{ result: SessionSummary; prompt: PromptStamp }> {
+    // Keep the end of long sessions, where conclusions are usually reached
+    const transcript = messages
+      .map(message => `${message.role === 'user' ? 'User' : 'Mentor'}: ${message.content}`)
+      .join('\n')
+      .slice(-MAX_TRANSCRIPT_LENGTH);
+
+    const prompt = await renderPrompt(SESSION_SUMMARY_PROMPT, {
+      transcript,
+      actions: session.actionsGenerated?.join('\n') || '—'
+    });
+
+    const response = await llmService.complete({
+      messages: [{ role: 'user', content: prompt.text }],
+      temperature: 0.3,
+      maxTokens: 400,
+      feature: 'memory'
+    });
+
+    const { data } = parseLLMOutput<SessionSummary>('summarizeSession', response.text, SESSION_SUMMARY_SCHEMA);
+    return { result: data, prompt: prompt.stamp };
+  }
+
+  private isStale(session: MentorSession): boolean {
+    return Date.now() - new Date(session.lastActivityAt).getTime() > INACTIVITY_TIMEOUT_MS;
+  }
+
+  /**
+   * Closes the open session once the inactivity timeout passes without
+   * new activity
+   */
+  private scheduleInactivityCheck(): void {
+    if (this.inactivityTimer) {
+      clearTimeout(this.inactivityTimer);
+    }
+    this.inactivityTimer = setTimeout(() => {
+      this.inactivityTimer = null;
+      this.closeStale();
+    }, INACTIVITY_TIMEOUT_MS + 1000);
+  }
+
+  /**
+   * Reads, changes and writes the sessions as one queued step
+   */
+  private modifySessions(change: (sessions: MentorSession[]) => MentorSession[]): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const sessions = await this.readSessions();
+      await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(change(sessions)));
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async readSessions(): Promise<MentorSession[]> {
+    const data = await AsyncStorage.getItem(SESSIONS_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+}
+
+/**
+ * Short description of a proposed action for the session record
+ */
+const describeAction = (action: AppAction): string => {
+  const payload = action.payload || {};
+  const subject = payload.title || payload.name || payload.content || payload.id;
+  return subject ? `${action.type}: ${subject}` : action.type;
+};
+
+export const sessionManager = SessionManager.getInstance();
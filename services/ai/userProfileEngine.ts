@@ -1,13 +1,36 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import axios from 'axios';
+import { analyzeText, countMatches, extractSearchKeys } from '@/services/textNormalization';
+import { PromptStamp } from '@/types/ai';
 import { memoryEngine } from './memoryEngine';
+import { llmService } from './llm/llmService';
+import { LLMOutputError, parseLLMOutput } from './llmOutput';
+import { PROFILE_SCHEMA, PersonalizedRecommendation, RECOMMENDATIONS_SCHEMA } from './outputSchemas';
+import { renderPrompt } from './promptRegistry';
+import { ONBOARDING_PROFILE_PROMPT, PROFILE_UPDATE_PROMPT, RECOMMENDATIONS_PROMPT } from './promptTemplates';
 
-// API Keys would be stored securely in environment variables in production
-// For development, we'll use a placeholder
-const API_KEY = 'your-api-key-here'; // Replace with actual key or env variable
+/**
+ * Where a profile item came from, shown to the user on the memory screen
+ */
+export interface ProfileSource {
+  type: 'onboarding' | 'conversation' | 'user';
+  conversationId?: string;
+  date: string;
+  prompt?: PromptStamp; // Template that produced an AI-derived item
+}
+
+/**
+ * Profile lists the user can review and correct
+ */
+export type EditableProfileList = 'aiInsights' | 'values' | 'goals';
+
+// Number of goals and insights included in a prompt
+const PROMPT_GOALS = 5;
+const PROMPT_INSIGHTS = 5;
+// Traits this far from the neutral 5 are worth mentioning
+const NOTABLE_TRAIT_DEVIATION = 2;
 
 // User profile interface
-interface UserProfile {
+export interface UserProfile {
   id: string;
   name: string;
   // Core traits (scores from 0-10)
@@ -32,9 +55,11 @@ interface UserProfile {
     text: string;
     importance: number; // 1-10
     category: string;
+    source?: ProfileSource;
   }[];
   
   values: string[]; // Core values identified
+  valueSources?: Record<string, ProfileSource>; // Keyed by value
   
   // Communication preferences
   communicationPreferences: {
@@ -67,6 +92,7 @@ interface UserProfile {
   aiInsights: {
     date: string;
     text: string;
+    source?: ProfileSource;
   }[];
 }
 
@@ -180,11 +206,50 @@ class UserProfileEngine {
     return this.currentProfile!;
   }
   
+  /**
+   * Describes the profile compactly for a prompt, one fact per line with
+   * the most important first. Goals and insights related to the query are
+   * preferred, and traits close to neutral are left out.
+   * @param query Text the prompt is about, e.g. the user's message
+   */
+  public async describeForPrompt(query: string = ''): Promise<string> {
+    const profile = await this.getCurrentProfile();
+    const queryTerms = analyzeText(query);
+    const relevance = (text: string) => countMatches(queryTerms, extractSearchKeys(text));
+    const { communicationPreferences: communication, workPatterns } = profile;
+    
+    const goals = [...profile.goals]
+      .sort((a, b) => relevance(b.text) - relevance(a.text) || b.importance - a.importance)
+      .slice(0, PROMPT_GOALS);
+    const insights = profile.aiInsights
+      .map((insight, index) => ({ insight, index }))
+      .sort((a, b) => relevance(b.insight.text) - relevance(a.insight.text) || b.index - a.index)
+      .slice(0, PROMPT_INSIGHTS)
+      .map(({ insight }) => insight);
+    const traits = Object.entries(profile.traits)
+      .filter(([, score]) => Math.abs(score - 5) >= NOTABLE_TRAIT_DEVIATION)
+      .map(([trait, score]) => `${trait} ${score}`);
+    
+    return [
+      `Name: ${profile.name}`,
+      `Communication: ${communication.verbosityLevel}, ${communication.feedbackStyle} feedback, ` +
+        `prefers ${communication.responsePreference}`,
+      profile.values.length > 0 ? `Values: ${profile.values.join(', ')}` : '',
+      ...goals.map(goal => `Goal (importance ${goal.importance}/10): ${goal.text}`),
+      workPatterns.primaryBarriers.length > 0 ? `Barriers: ${workPatterns.primaryBarriers.join(', ')}` : '',
+      workPatterns.motivationTriggers.length > 0 ? `Motivated by: ${workPatterns.motivationTriggers.join(', ')}` : '',
+      workPatterns.productiveTimes.length > 0 ? `Productive times: ${workPatterns.productiveTimes.join(', ')}` : '',
+      traits.length > 0 ? `Notable traits (0-10): ${traits.join(', ')}` : '',
+      ...insights.map(insight => `Insight (${insight.date.split('T')[0]}): ${insight.text}`)
+    ].filter(Boolean).join('\n');
+  }
+  
   /**
    * Updates the user profile with new information
    * @param profileUpdate Partial profile update
+   * @param source Where new goals, values and insights came from
    */
-  public async updateProfile(profileUpdate: Partial<UserProfile>): Promise<void> {
+  public async updateProfile(profileUpdate: Partial<UserProfile>, source?: ProfileSource): Promise<void> {
     try {
       if (!this.currentProfile) {
         await this.loadProfile();
@@ -215,17 +280,22 @@ class UserProfileEngine {
       
       // Handle arrays specially to avoid complete overwrite if empty
       if (profileUpdate.goals && profileUpdate.goals.length > 0) {
-        this.currentProfile.goals = profileUpdate.goals;
+        this.currentProfile.goals = profileUpdate.goals.map(goal => ({ ...goal, source: goal.source || source }));
       }
       
       if (profileUpdate.values && profileUpdate.values.length > 0) {
         this.currentProfile.values = profileUpdate.values;
+        const valueSources = { ...this.currentProfile.valueSources };
+        if (source) {
+          profileUpdate.values.forEach(value => { valueSources[value] = valueSources[value] || source; });
+        }
+        this.currentProfile.valueSources = valueSources;
       }
       
       if (profileUpdate.aiInsights && profileUpdate.aiInsights.length > 0) {
         this.currentProfile.aiInsights = [
           ...this.currentProfile.aiInsights,
-          ...profileUpdate.aiInsights
+          ...profileUpdate.aiInsights.map(insight => ({ ...insight, source: insight.source || source }))
         ];
       }
       
@@ -236,12 +306,48 @@ class UserProfileEngine {
     }
   }
   
+  /**
+   * Replaces or deletes an item of a profile list the user corrected
+   * @param list List the item belongs to
+   * @param index Position of the item in the list
+   * @param text New text of the item; the item is deleted when omitted
+   */
+  public async editProfileItem(list: EditableProfileList, index: number, text?: string): Promise<void> {
+    const profile = await this.getCurrentProfile();
+    const source: ProfileSource = { type: 'user', date: new Date().toISOString() };
+    
+    if (list === 'values') {
+      const values = [...profile.values];
+      const valueSources = { ...profile.valueSources };
+      delete valueSources[values[index]];
+      if (text === undefined) {
+        values.splice(index, 1);
+      } else {
+        values[index] = text;
+        valueSources[text] = source;
+      }
+      profile.values = values;
+      profile.valueSources = valueSources;
+    } else if (list === 'goals') {
+      profile.goals = text === undefined
+        ? profile.goals.filter((_, i) => i !== index)
+        : profile.goals.map((goal, i) => (i === index ? { ...goal, text, source } : goal));
+    } else {
+      profile.aiInsights = text === undefined
+        ? profile.aiInsights.filter((_, i) => i !== index)
+        : profile.aiInsights.map((insight, i) => (i === index ? { ...insight, text, source } : insight));
+    }
+    
+    await this.saveProfile();
+  }
+  
   /**
    * Analyzes an interaction to update the user profile
    * @param userMessage User's message
    * @param aiResponse AI's response
+   * @param conversationId Conversation the interaction belongs to
    */
-  public async updateFromInteraction(userMessage: string, aiResponse: string): Promise<void> {
+  public async updateFromInteraction(userMessage: string, aiResponse: string, conversationId?: string): Promise<void> {
     try {
       // Skip for very short messages
       if (userMessage.length < 10) return;
@@ -258,47 +364,38 @@ class UserProfileEngine {
       const recentInteractions = await memoryEngine.retrieveRelevantContext(userMessage, 5);
       
       // Prepare prompt for analysis
-      const analysisPrompt = `
-        You are a psychological profiling system. Analyze this interaction and previous relevant context to extract insights about the user.
-        Update their psychological profile based on this new data.
-        
-        User Profile:
-        ${JSON.stringify(this.currentProfile, null, 2)}
-        
-        Recent Context:
-        ${recentInteractions}
-        
-        Latest Interaction:
-        User: ${userMessage}
-        AI: ${aiResponse}
-        
-        Provide updates to the user profile in JSON format. Include only fields that should be updated.
-        Focus on identifying:
-        1. Personality traits and how they manifest
-        2. Goals and values expressed explicitly or implicitly
-        3. Communication preferences and learning style
-        4. Work patterns and productivity insights
-        5. Any other significant psychological insights
-        
-        Return ONLY valid JSON without explanation.
-      `;
+      const analysisPrompt = await renderPrompt(PROFILE_UPDATE_PROMPT, {
+        profile: JSON.stringify(this.currentProfile, null, 2),
+        context: recentInteractions,
+        userMessage,
+        aiResponse
+      });
       
       // Call AI for analysis
-      const analysisResponse = await this.callOpenAI(analysisPrompt);
+      const analysisResponse = await this.callLLM(analysisPrompt.text);
       
-      // Parse and apply updates
+      // Validate and apply updates, keeping the valid fields only
       try {
-        const profileUpdates = JSON.parse(analysisResponse);
+        const { data: profileUpdates } = parseLLMOutput<Partial<UserProfile>>(
+          'updateFromInteraction',
+          analysisResponse,
+          PROFILE_SCHEMA
+        );
         
         // Add analysis timestamp if we have insights
         if (profileUpdates.aiInsights) {
-          profileUpdates.aiInsights = profileUpdates.aiInsights.map((insight: any) => ({
+          profileUpdates.aiInsights = profileUpdates.aiInsights.map(insight => ({
             ...insight,
             date: new Date().toISOString()
           }));
         }
         
-        await this.updateProfile(profileUpdates);
+        await this.updateProfile(profileUpdates, {
+          type: 'conversation',
+          conversationId,
+          date: new Date().toISOString(),
+          prompt: analysisPrompt.stamp
+        });
         await this.incrementInteractionCount();
       } catch (e) {
         console.error('Failed to parse profile updates:', e);
@@ -350,38 +447,29 @@ class UserProfileEngine {
       }
       
       // Prepare prompt for analysis
-      const analysisPrompt = `
-        You are a psychological profiling system. Analyze these onboarding questionnaire responses to create an initial profile.
-        
-        Questions and Answers:
-        ${Object.entries(responses)
+      const analysisPrompt = await renderPrompt(ONBOARDING_PROFILE_PROMPT, {
+        answers: Object.entries(responses)
           .map(([question, answer]) => `${question}: ${answer}`)
-          .join('\n')}
-        
-        Based on these responses, create a detailed psychological profile in JSON format.
-        The profile should match this structure:
-        ${JSON.stringify(this.createDefaultProfile(), null, 2)}
-        
-        Return ONLY valid JSON without explanation.
-      `;
+          .join('\n'),
+        profileTemplate: JSON.stringify(this.createDefaultProfile(), null, 2)
+      });
       
       // Call AI for analysis
-      const analysisResponse = await this.callOpenAI(analysisPrompt);
+      const analysisResponse = await this.callLLM(analysisPrompt.text);
       
-      // Parse and apply full profile
+      // Validate and apply the profile; invalid fields keep their defaults
       try {
-        const profileData = JSON.parse(analysisResponse);
+        const { data: profileData } = parseLLMOutput<Partial<UserProfile>>(
+          'processOnboardingResponses',
+          analysisResponse,
+          PROFILE_SCHEMA
+        );
         
-        // Ensure required fields are present
-        const completeProfile = {
-          ...this.currentProfile,
+        await this.updateProfile({
           ...profileData,
-          created: new Date().toISOString(),
-          lastUpdated: new Date().toISOString()
-        };
-        
-        this.currentProfile = completeProfile;
-        await this.saveProfile();
+          name: responses.name || profileData.name || this.currentProfile.name,
+          created: new Date().toISOString()
+        }, { type: 'onboarding', date: new Date().toISOString(), prompt: analysisPrompt.stamp });
       } catch (e) {
         console.error('Failed to parse onboarding profile:', e);
         // If parsing fails, just use the basic profile with name
@@ -389,6 +477,7 @@ class UserProfileEngine {
       }
     } catch (error) {
       console.error('Failed to process onboarding responses:', error);
+      if (error instanceof LLMOutputError) throw error;
       throw new Error('Failed to process onboarding');
     }
   }
@@ -396,42 +485,30 @@ class UserProfileEngine {
   /**
    * Generates personalized recommendations based on user profile
    * @param area Area to get recommendations for (goals, habits, etc.)
-   * @returns Array of recommendations
+   * @returns Array of recommendations; malformed ones are left out
    */
-  public async getPersonalizedRecommendations(area: string): Promise<any[]> {
+  public async getPersonalizedRecommendations(area: string): Promise<PersonalizedRecommendation[]> {
     try {
       if (!this.currentProfile) {
         await this.loadProfile();
       }
       
       // Prepare prompt for recommendations
-      const recommendationPrompt = `
-        Based on this user's psychological profile, generate highly personalized recommendations for ${area}.
-        
-        User Profile:
-        ${JSON.stringify(this.currentProfile, null, 2)}
-        
-        Provide 3-5 specific recommendations that:
-        1. Match their personality traits and work patterns
-        2. Align with their core values and goals
-        3. Are formatted in their preferred communication style
-        4. Take into account their strengths and challenges
-        
-        Return the recommendations as a JSON array of objects with these properties:
-        - title: A concise title for the recommendation
-        - description: Detailed explanation, personalized to their traits
-        - actionSteps: Array of 2-3 specific action steps to implement
-        - reasonForMatch: Why this is a good match for their profile
-        
-        Return ONLY valid JSON without explanation.
-      `;
+      const recommendationPrompt = await renderPrompt(RECOMMENDATIONS_PROMPT, {
+        area,
+        profile: JSON.stringify(this.currentProfile, null, 2)
+      });
       
       // Call AI for recommendations
-      const recommendationsResponse = await this.callOpenAI(recommendationPrompt);
+      const recommendationsResponse = await this.callLLM(recommendationPrompt.text);
       
       // Parse recommendations
       try {
-        return JSON.parse(recommendationsResponse);
+        return parseLLMOutput<PersonalizedRecommendation[]>(
+          'getPersonalizedRecommendations',
+          recommendationsResponse,
+          RECOMMENDATIONS_SCHEMA
+        ).data;
       } catch (e) {
         console.error('Failed to parse recommendations:', e);
         return [];
@@ -443,41 +520,32 @@ class UserProfileEngine {
   }
   
   /**
-   * Makes an API call to OpenAI
+   * Sends an analysis prompt to the configured LLM provider
    * @param prompt The prompt to send
    * @returns The AI response
    */
-  private async callOpenAI(prompt: string): Promise<string> {
+  private async callLLM(prompt: string): Promise<string> {
     try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert psychological profiling system. Provide detailed, accurate analysis in the requested format.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.3, // Low temperature for more predictable, analytical responses
-          max_tokens: 1500
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${API_KEY}`,
-            'Content-Type': 'application/json'
+      const response = await llmService.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an expert psychological profiling system. Provide detailed, accurate analysis in the requested format.'
+          },
+          {
+            role: 'user',
+            content: prompt
           }
-        }
-      );
+        ],
+        temperature: 0.3, // Low temperature for more predictable, analytical responses
+        maxTokens: 1500,
+        feature: 'profile_update'
+      });
       
-      return response.data.choices[0].message.content.trim();
+      return response.text;
     } catch (error) {
-      console.error('OpenAI API call failed:', error);
-      throw new Error('Failed to analyze profile');
+      console.error('LLM call failed:', error);
+      throw new LLMOutputError('analyzeProfile', 'request_failed');
     }
   }
 }
@@ -0,0 +1,376 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Embedder } from '@/types/ai';
+import { readMany } from '@/services/storage';
+import { llmService } from './llm/llmService';
+
+const INDEX_KEY = 'vector_index';
+const CHUNK_KEY_PREFIX = 'vector_index_';
+// Entries are stored in chunks so an update rewrites only the chunks it touched
+const CHUNK_SIZE = 500;
+const EMBED_BATCH_SIZE = 32;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Relevance of an item halves every RECENCY_HALF_LIFE_DAYS, down to RECENCY_FLOOR
+const RECENCY_HALF_LIFE_DAYS = 30;
+const RECENCY_FLOOR = 0.7;
+const MIN_SIMILARITY = 0.2;
+
+export type VectorSource = 'chat' | 'journal';
+
+/**
+ * Text to add to the index
+ */
+export interface VectorItem {
+  id: string;
+  source: VectorSource;
+  text: string;
+  timestamp: string;
+}
+
+export interface VectorMatch {
+  id: string;
+  source: VectorSource;
+  similarity: number; // Cosine similarity to the query
+  score: number; // Similarity weighted by recency
+}
+
+interface VectorEntry {
+  id: string;
+  source: VectorSource;
+  timestamp: string;
+  time: number; // Parsed timestamp, so search does not parse dates
+  vector: Float32Array;
+  encoded: string;
+  chunk: number;
+}
+
+/**
+ * Stored form of an entry; vectors are quantized to 8 bits and base64 encoded
+ */
+interface StoredEntry {
+  id: string;
+  source: VectorSource;
+  timestamp: string;
+  vector: string;
+}
+
+/**
+ * Stored under INDEX_KEY; entries live in chunkCount chunks
+ */
+interface StoredIndex {
+  embedderId: string;
+  chunkCount?: number;
+  // Indexes written before chunking kept all entries inline
+  entries?: StoredEntry[];
+}
+
+/**
+ * Quantizes a vector to signed bytes scaled by its largest component
+ */
+const encodeVector = (vector: ArrayLike<number>): string => {
+  let max = 0;
+  for (let i = 0; i < vector.length; i++) max = Math.max(max, Math.abs(vector[i]));
+
+  let binary = '';
+  for (let i = 0; i < vector.length; i++) {
+    const byte = max > 0 ? Math.round((vector[i] / max) * 127) : 0;
+    binary += String.fromCharCode(byte & 0xff);
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decodes a quantized vector and normalizes it to unit length
+ */
+const decodeVector = (encoded: string): Float32Array => {
+  const binary = atob(encoded);
+  const vector = new Float32Array(binary.length);
+  let norm = 0;
+
+  for (let i = 0; i < binary.length; i++) {
+    const byte = binary.charCodeAt(i);
+    vector[i] = byte > 127 ? byte - 256 : byte;
+    norm += vector[i] * vector[i];
+  }
+
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/**
+ * Vector Index keeps embeddings of chat memories and journal entries for
+ * semantic retrieval. The index is loaded into memory once and rebuilt
+ * when the embedder changes, since vectors of different embedders cannot
+ * be compared.
+ */
+class VectorIndex {
+  private static instance: VectorIndex;
+  private embedderId: string | null = null;
+  private entries: Map<string, VectorEntry> = new Map();
+  private chunks: Set<string>[] = [];
+  private dirtyChunks: Set<number> = new Set();
+  private storedChunkCount = 0;
+  private loaded = false;
+  // Writes run one after another so concurrent updates are not lost
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    // Index is loaded on demand
+  }
+
+  public static getInstance(): VectorIndex {
+    if (!VectorIndex.instance) {
+      VectorIndex.instance = new VectorIndex();
+    }
+    return VectorIndex.instance;
+  }
+
+  /**
+   * Checks whether the index was built with the current embedder
+   */
+  public async isCurrent(): Promise<boolean> {
+    await this.load();
+    const embedder = await llmService.getEmbedder();
+    return this.embedderId === embedder.id;
+  }
+
+  /**
+   * Replaces the whole index with the given items
+   */
+  public async rebuild(items: VectorItem[]): Promise<void> {
+    await this.enqueue(async () => {
+      const embedder = await llmService.getEmbedder();
+      const entries = await this.embedItems(embedder, items);
+
+      this.embedderId = embedder.id;
+      this.entries = new Map();
+      this.chunks = [];
+      this.dirtyChunks = new Set();
+      entries.forEach(entry => this.place(entry));
+      await this.save();
+    });
+  }
+
+  /**
+   * Adds or replaces items in the index
+   */
+  public async upsert(items: VectorItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    await this.enqueue(async () => {
+      const embedder = await llmService.getEmbedder();
+      if (this.embedderId !== embedder.id) {
+        throw new Error('Vector index was built with another embedder; rebuild it first');
+      }
+
+      for (const entry of await this.embedItems(embedder, items)) {
+        this.place(entry);
+      }
+      await this.save();
+    });
+  }
+
+  /**
+   * Removes items from the index
+   */
+  public async remove(ids: string[]): Promise<void> {
+    await this.enqueue(async () => {
+      for (const id of ids) {
+        const entry = this.entries.get(id);
+        if (!entry) continue;
+
+        this.chunks[entry.chunk].delete(id);
+        this.dirtyChunks.add(entry.chunk);
+        this.entries.delete(id);
+      }
+      await this.save();
+    });
+  }
+
+  /**
+   * Lists the IDs of indexed items from a source; none when the index is not
+   * built with the current embedder
+   */
+  public async getIds(source: VectorSource): Promise<string[]> {
+    if (!(await this.isCurrent())) return [];
+
+    return Array.from(this.entries.values())
+      .filter(entry => entry.source === source)
+      .map(entry => entry.id);
+  }
+
+  /**
+   * Gets the stored vectors of items; items that are not indexed with the
+   * current embedder are left out
+   */
+  public async getVectors(ids: string[]): Promise<Map<string, Float32Array>> {
+    const vectors = new Map<string, Float32Array>();
+    if (!(await this.isCurrent())) return vectors;
+
+    for (const id of ids) {
+      const entry = this.entries.get(id);
+      if (entry) vectors.set(id, entry.vector);
+    }
+    return vectors;
+  }
+
+  /**
+   * Finds the items most similar to the query, favouring recent ones
+   * @param query Text to search for
+   * @param source Only return items from this source
+   * @param limit Maximum number of matches
+   */
+  public async search(query: string, source: VectorSource, limit: number): Promise<VectorMatch[]> {
+    if (!(await this.isCurrent())) {
+      throw new Error('Vector index is not built for the current embedder');
+    }
+
+    const embedder = await llmService.getEmbedder();
+    const [queryVector] = await embedder.embed([query]);
+    const normalizedQuery = decodeVector(encodeVector(queryVector));
+    const now = Date.now();
+    const matches: VectorMatch[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (entry.source !== source) continue;
+
+      const similarity = dot(normalizedQuery, entry.vector);
+      if (similarity < MIN_SIMILARITY) continue;
+
+      const ageDays = Math.max(0, (now - entry.time) / DAY_MS);
+      const recency = RECENCY_FLOOR + (1 - RECENCY_FLOOR) * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+      matches.push({ id: entry.id, source, similarity, score: similarity * recency });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Puts an entry into the index, keeping the chunk of an entry it replaces
+   */
+  private place(entry: VectorEntry): void {
+    const existing = this.entries.get(entry.id);
+    let chunk = existing?.chunk ?? this.chunks.length - 1;
+
+    if (chunk < 0 || (!existing && this.chunks[chunk].size >= CHUNK_SIZE)) {
+      this.chunks.push(new Set());
+      chunk = this.chunks.length - 1;
+    }
+
+    this.chunks[chunk].add(entry.id);
+    this.entries.set(entry.id, { ...entry, chunk });
+    this.dirtyChunks.add(chunk);
+  }
+
+  private async embedItems(embedder: Embedder, items: VectorItem[]): Promise<VectorEntry[]> {
+    const entries: VectorEntry[] = [];
+
+    for (let start = 0; start < items.length; start += EMBED_BATCH_SIZE) {
+      const batch = items.slice(start, start + EMBED_BATCH_SIZE);
+      const vectors = await embedder.embed(batch.map(item => item.text));
+
+      batch.forEach((item, i) => {
+        const encoded = encodeVector(vectors[i]);
+        entries.push({
+          id: item.id,
+          source: item.source,
+          timestamp: item.timestamp,
+          time: new Date(item.timestamp).getTime(),
+          // Decode the stored form so search sees what is persisted
+          vector: decodeVector(encoded),
+          encoded,
+          chunk: -1
+        });
+      });
+    }
+
+    return entries;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+
+    const data = await AsyncStorage.getItem(INDEX_KEY);
+    if (data) {
+      const stored: StoredIndex = JSON.parse(data);
+      this.embedderId = stored.embedderId;
+
+      if (stored.entries) {
+        // Inline entries are split into chunks on the next save
+        stored.entries.forEach(entry => this.place(this.decodeEntry(entry, -1)));
+      } else {
+        const chunkKeys = Array.from({ length: stored.chunkCount || 0 }, (_, i) => this.chunkKey(i));
+        const chunks = await readMany(chunkKeys);
+
+        this.chunks = chunks.map(() => new Set<string>());
+        this.storedChunkCount = chunks.length;
+        chunks.forEach(([, chunkData], chunk) => {
+          const entries: StoredEntry[] = chunkData ? JSON.parse(chunkData) : [];
+          for (const entry of entries) {
+            this.entries.set(entry.id, this.decodeEntry(entry, chunk));
+            this.chunks[chunk].add(entry.id);
+          }
+        });
+      }
+    }
+    this.loaded = true;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.embedderId) return;
+
+    const stored: StoredIndex = { embedderId: this.embedderId, chunkCount: this.chunks.length };
+    const pairs: [string, string][] = Array.from(this.dirtyChunks, chunk => {
+      const entries: StoredEntry[] = Array.from(this.chunks[chunk], id => {
+        const { source, timestamp, encoded } = this.entries.get(id)!;
+        return { id, source, timestamp, vector: encoded };
+      });
+      return [this.chunkKey(chunk), JSON.stringify(entries)];
+    });
+    pairs.push([INDEX_KEY, JSON.stringify(stored)]);
+    await AsyncStorage.multiSet(pairs);
+
+    // A rebuild may leave fewer chunks than were stored
+    if (this.storedChunkCount > this.chunks.length) {
+      const staleKeys = [];
+      for (let i = this.chunks.length; i < this.storedChunkCount; i++) staleKeys.push(this.chunkKey(i));
+      await AsyncStorage.multiRemove(staleKeys);
+    }
+    this.storedChunkCount = this.chunks.length;
+    this.dirtyChunks.clear();
+  }
+
+  private decodeEntry(entry: StoredEntry, chunk: number): VectorEntry {
+    return {
+      ...entry,
+      time: new Date(entry.timestamp).getTime(),
+      vector: decodeVector(entry.vector),
+      encoded: entry.vector,
+      chunk
+    };
+  }
+
+  private chunkKey(chunk: number): string {
+    return `${CHUNK_KEY_PREFIX}${chunk}`;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      await this.load();
+      await task();
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const vectorIndex = VectorIndex.getInstance();
@@ -0,0 +1,56 @@
+/**
+ * Data areas that can change outside of the screen that displays them
+ */
+export type DataScope = 'tasks' | 'habits' | 'goals' | 'journal' | 'metrics' | 'conversations';
+
+type DataChangeListener = (scopes: DataScope[]) => void;
+
+/**
+ * App Events lets services announce data changes they write to storage
+ * directly, so the app store can reload the affected data
+ */
+class AppEvents {
+  private static instance: AppEvents;
+  private listeners: Set<DataChangeListener> = new Set();
+
+  private constructor() {
+    // Nothing to initialize
+  }
+
+  public static getInstance(): AppEvents {
+    if (!AppEvents.instance) {
+      AppEvents.instance = new AppEvents();
+    }
+    return AppEvents.instance;
+  }
+
+  /**
+   * Subscribes to data changes
+   * @param listener Called with the scopes that changed
+   * @returns Function that removes the subscription
+   */
+  public subscribe(listener: DataChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notifies subscribers that data in the given scopes changed
+   * @param scopes Changed data areas
+   */
+  public emitDataChanged(scopes: DataScope[]): void {
+    if (scopes.length === 0) return;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(scopes);
+      } catch (error) {
+        console.error('Data change listener failed:', error);
+      }
+    });
+  }
+}
+
+export const appEvents = AppEvents.getInstance();
@@ -0,0 +1,156 @@
+import { Goal, Habit } from '@/types/app';
+import { memoryEngine } from './ai/memoryEngine';
+import { appEvents, DataScope } from './appEvents';
+import { getSchemaVersion } from './migrations';
+import { getStorageEngine } from './repositories/storageEngine';
+
+export type IntegrityIssueType = 'orphaned_subgoal' | 'impossible_streak' | 'unindexed_journal_entry';
+
+/**
+ * Problem found in the stored data
+ */
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  recordId: string; // Goal, habit or journal entry that has the problem
+  description: string;
+}
+
+export interface IntegrityReport {
+  schemaVersion: number;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Finds broken links between goals. A goal's parentId is what places it in
+ * the tree; the parent's children must list exactly the goals that name it.
+ */
+const findGoalIssues = (goals: Goal[]): IntegrityIssue[] => {
+  const goalsById = new Map(goals.map(goal => [goal.id, goal]));
+  const issues: IntegrityIssue[] = [];
+  const report = (goal: Goal, description: string) => {
+    issues.push({ type: 'orphaned_subgoal', recordId: goal.id, description });
+  };
+
+  for (const goal of goals) {
+    for (const childId of goal.children || []) {
+      if (goalsById.get(childId)?.parentId !== goal.id) {
+        report(goal, `Goal "${goal.title}" lists ${childId}, which is not its subgoal`);
+      }
+    }
+
+    if (!goal.parentId) continue;
+    const parent = goalsById.get(goal.parentId);
+    if (!parent) {
+      report(goal, `Subgoal "${goal.title}" belongs to the missing goal ${goal.parentId}`);
+    } else if (!parent.children?.includes(goal.id)) {
+      report(parent, `Goal "${parent.title}" does not list its subgoal ${goal.id}`);
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Turns goals with a missing parent into top-level goals and rebuilds every
+ * goal's children from the parentId of the other goals
+ */
+const repairGoals = (goals: Goal[]): Goal[] => {
+  const ids = new Set(goals.map(goal => goal.id));
+  const linked = goals.map(goal => ({
+    ...goal,
+    parentId: goal.parentId && ids.has(goal.parentId) ? goal.parentId : null
+  }));
+
+  return linked.map(goal => {
+    const subgoalIds = linked.filter(child => child.parentId === goal.id).map(child => child.id);
+    // Listed subgoals keep their order; unlisted ones go last
+    const children = Array.from(new Set([
+      ...(goal.children || []).filter(id => subgoalIds.includes(id)),
+      ...subgoalIds
+    ]));
+    return { ...goal, children };
+  });
+};
+
+// A completion adds one day to a streak, so neither the current nor the
+// longest streak can exceed the number of completed days; the longest streak
+// cannot be shorter than the current one
+const hasPossibleStreak = (habit: Habit): boolean => {
+  const completedDays = new Set(habit.completedDates).size;
+  return Number.isInteger(habit.streak) &&
+    habit.streak >= 0 &&
+    habit.streak <= completedDays &&
+    habit.longestStreak >= habit.streak &&
+    habit.longestStreak <= completedDays;
+};
+
+const repairStreak = (habit: Habit): Habit => {
+  const completedDays = new Set(habit.completedDates).size;
+  const streak = Math.min(Math.max(Math.round(habit.streak) || 0, 0), completedDays);
+  const longestStreak = Math.min(habit.longestStreak || 0, completedDays);
+  return { ...habit, streak, longestStreak: Math.max(longestStreak, streak) };
+};
+
+/**
+ * Checks the stored data for problems that loading alone does not reveal:
+ * goals linked to missing or mismatched subgoals, habits whose streaks
+ * their completed days cannot explain, and journal entries that context
+ * retrieval cannot find.
+ * @returns The storage version and the problems found
+ */
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  const goals = await getStorageEngine().goals.getAll();
+  const habits = await getStorageEngine().habits.getAll();
+  const unindexedEntries = await memoryEngine.findUnindexedJournalEntries();
+
+  const issues: IntegrityIssue[] = [
+    ...findGoalIssues(goals),
+    ...habits.filter(habit => !hasPossibleStreak(habit)).map(habit => ({
+      type: 'impossible_streak' as const,
+      recordId: habit.id,
+      description: `Habit "${habit.title}" has a streak of ${habit.streak} with ${habit.completedDates.length} completed days`
+    })),
+    ...unindexedEntries.map(entry => ({
+      type: 'unindexed_journal_entry' as const,
+      recordId: entry.id,
+      description: `Journal entry "${entry.title}" is missing from the memory index`
+    }))
+  ];
+
+  return { schemaVersion: await getSchemaVersion(), issues };
+}
+
+/**
+ * Repairs everything checkIntegrity reports and lets the app store reload
+ * the data it rewrote. Goal links and streaks are recomputed from the other
+ * stored fields; missing journal entries are embedded again.
+ * @returns A report of the check run after the repair
+ */
+export async function repairIntegrity(): Promise<IntegrityReport> {
+  const changed: DataScope[] = [];
+  const { goals: goalRepository, habits: habitRepository } = getStorageEngine();
+
+  const goals = await goalRepository.getAll();
+  if (findGoalIssues(goals).length > 0) {
+    // Only the goals whose links were fixed are written
+    const repaired = repairGoals(goals).filter((goal, index) => JSON.stringify(goal) !== JSON.stringify(goals[index]));
+    await goalRepository.save(repaired);
+    changed.push('goals');
+  }
+
+  const habits = await habitRepository.getAll();
+  if (!habits.every(hasPossibleStreak)) {
+    await habitRepository.save(habits.filter(habit => !hasPossibleStreak(habit)).map(repairStreak));
+    changed.push('habits');
+  }
+
+  const unindexedEntries = await memoryEngine.findUnindexedJournalEntries();
+  if (unindexedEntries.length > 0) {
+    await memoryEngine.indexJournalEntries(unindexedEntries);
+  }
+
+  if (changed.length > 0) {
+    appEvents.emitDataChanged(changed);
+  }
+  return checkIntegrity();
+}
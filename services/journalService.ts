@@ -1,26 +1,19 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { aiCoreService } from './ai/aiCoreService';
 import { memoryEngine } from './ai/memoryEngine';
-
-// Journal entry structure
-export interface JournalEntry {
-  id: string;
-  title: string;
-  content: string;
-  timestamp: string;
-  tags: string[];
-  mood?: number; // 1-10 scale
-  aiAnalysis?: {
-    insights: string[];
-    sentiment: number; // -1 to 1
-    keywords: string[];
-  };
-  relatedGoals?: string[];
-}
-
-// Keys for storage
-const JOURNAL_ENTRIES_KEY = 'berserk_journal_entries';
-const JOURNAL_TAGS_KEY = 'berserk_journal_tags';
+import { parseLLMOutput } from './ai/llmOutput';
+import { usageTracker } from './ai/llm/usageTracker';
+import { JOURNAL_ANALYSIS_SCHEMA, JournalAnalysis } from './ai/outputSchemas';
+import { getPromptLocale, renderPrompt } from './ai/promptRegistry';
+import {
+  JOURNAL_ANALYSIS_PROMPT,
+  JOURNAL_INSIGHTS_ENTRY_PROMPT,
+  JOURNAL_INSIGHTS_PROMPT,
+  JOURNAL_REFLECTION_PROMPT
+} from './ai/promptTemplates';
+import { Journal } from '@/types/app';
+import { getStorageEngine } from './repositories/storageEngine';
+import { readList, writeJSON } from './storage';
+import { STORAGE_KEYS } from './storageKeys';
 
 /**
  * Journal Service for working with user's journal entries
@@ -42,20 +35,10 @@ class JournalService {
   /**
    * Get all journal entries
    */
-  public async getAllEntries(): Promise<JournalEntry[]> {
+  public async getAllEntries(): Promise<Journal[]> {
     try {
-      const entriesData = await AsyncStorage.getItem(JOURNAL_ENTRIES_KEY);
-      
-      if (entriesData) {
-        const entries: JournalEntry[] = JSON.parse(entriesData);
-        
-        // Sort by timestamp (newest first)
-        return entries.sort((a, b) => 
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-        );
-      }
-      
-      return [];
+      // Newest first
+      return await getStorageEngine().journal.getAll();
     } catch (error) {
       console.error('Failed to get journal entries:', error);
       return [];
@@ -65,10 +48,9 @@ class JournalService {
   /**
    * Get a specific journal entry by ID
    */
-  public async getEntryById(entryId: string): Promise<JournalEntry | null> {
+  public async getEntryById(entryId: string): Promise<Journal | null> {
     try {
-      const entries = await this.getAllEntries();
-      const entry = entries.find(e => e.id === entryId);
+      const [entry] = await getStorageEngine().journal.getByIds([entryId]);
       return entry || null;
     } catch (error) {
       console.error(`Failed to get journal entry ${entryId}:`, error);
@@ -79,19 +61,20 @@ class JournalService {
   /**
    * Create a new journal entry
    */
-  public async createEntry(entryData: Partial<JournalEntry>): Promise<JournalEntry> {
+  public async createEntry(entryData: Partial<Journal>): Promise<Journal> {
     try {
       const now = new Date().toISOString();
       
       // Create new entry
-      const newEntry: JournalEntry = {
+      const newEntry: Journal = {
         id: `journal_${Date.now()}`,
         title: entryData.title || `Запись от ${new Date().toLocaleDateString()}`,
         content: entryData.content || '',
-        timestamp: now,
         tags: entryData.tags || [],
         mood: entryData.mood,
-        relatedGoals: entryData.relatedGoals || []
+        relatedGoals: entryData.relatedGoals || [],
+        createdAt: now,
+        updatedAt: now
       };
       
       // If content is long enough, analyze it
@@ -100,18 +83,14 @@ class JournalService {
         newEntry.aiAnalysis = analysis;
       }
       
-      // Add to existing entries
-      const entries = await this.getAllEntries();
-      entries.unshift(newEntry);
-      
-      // Save updated entries
-      await AsyncStorage.setItem(JOURNAL_ENTRIES_KEY, JSON.stringify(entries));
+      // Save the entry
+      await getStorageEngine().journal.save([newEntry]);
       
       // Update tags
-      await this.updateTags(newEntry.tags);
+      await this.updateTags(newEntry.tags || []);
       
-      // Save to memory engine for context retrieval
-      await memoryEngine.saveJournalEntry(newEntry.content, newEntry.tags);
+      // Make the entry available for context retrieval
+      await memoryEngine.indexJournalEntry(newEntry);
       
       return newEntry;
     } catch (error) {
@@ -123,44 +102,47 @@ class JournalService {
   /**
    * Update an existing journal entry
    */
-  public async updateEntry(entryId: string, updates: Partial<JournalEntry>): Promise<JournalEntry> {
+  public async updateEntry(entryId: string, updates: Partial<Journal>): Promise<Journal> {
     try {
-      const entries = await this.getAllEntries();
-      const entryIndex = entries.findIndex(entry => entry.id === entryId);
+      const entry = await this.getEntryById(entryId);
       
-      if (entryIndex === -1) {
+      if (!entry) {
         throw new Error(`Journal entry ${entryId} not found`);
       }
       
       // Check if content was updated and is substantial
+      const previousContent = entry.content;
       const contentChanged = updates.content && 
-                             updates.content !== entries[entryIndex].content &&
+                             updates.content !== previousContent &&
                              updates.content.length > 30;
       
-      // Update the entry
-      const updatedEntry = {
-        ...entries[entryIndex],
-        ...updates,
+      // If content changed significantly, re-analyze before saving
+      const changes: Partial<Journal> = contentChanged
+        ? { ...updates, aiAnalysis: await this.analyzeEntry(updates.content!) }
+        : updates;
+      
+      // Update the entry as stored now: the analysis may have taken a while
+      const updatedEntry = await getStorageEngine().journal.update(entryId, current => ({
+        ...current,
+        ...changes,
         // Don't override these fields unless explicitly provided
         id: entryId,
-        timestamp: updates.timestamp || entries[entryIndex].timestamp
-      };
+        createdAt: updates.createdAt || current.createdAt,
+        updatedAt: new Date().toISOString()
+      }));
       
-      // If content changed significantly, re-analyze
-      if (contentChanged) {
-        const analysis = await this.analyzeEntry(updatedEntry.content);
-        updatedEntry.aiAnalysis = analysis;
+      if (!updatedEntry) {
+        throw new Error(`Journal entry ${entryId} not found`);
       }
       
-      // Update entries array
-      entries[entryIndex] = updatedEntry;
-      
-      // Save updated entries
-      await AsyncStorage.setItem(JOURNAL_ENTRIES_KEY, JSON.stringify(entries));
-      
       // Update tags if they changed
       if (updates.tags) {
-        await this.updateTags(this.getAllUniqueTags(entries));
+        await this.updateTags(this.getAllUniqueTags(await this.getAllEntries()));
+      }
+      
+      // Keep context retrieval on the current text
+      if (updates.content !== undefined && updates.content !== previousContent) {
+        await memoryEngine.indexJournalEntry(updatedEntry);
       }
       
       return updatedEntry;
@@ -175,15 +157,13 @@ class JournalService {
    */
   public async deleteEntry(entryId: string): Promise<void> {
     try {
-      const entries = await this.getAllEntries();
-      const updatedEntries = entries.filter(entry => entry.id !== entryId);
-      
-      // Save updated entries
-      await AsyncStorage.setItem(JOURNAL_ENTRIES_KEY, JSON.stringify(updatedEntries));
+      await getStorageEngine().journal.remove([entryId]);
       
       // Update tags
-      const uniqueTags = this.getAllUniqueTags(updatedEntries);
+      const uniqueTags = this.getAllUniqueTags(await this.getAllEntries());
       await this.updateTags(uniqueTags);
+      
+      await memoryEngine.removeJournalEntry(entryId);
     } catch (error) {
       console.error(`Failed to delete journal entry ${entryId}:`, error);
       throw new Error('Failed to delete journal entry');
@@ -193,10 +173,9 @@ class JournalService {
   /**
    * Get journal entries by tag
    */
-  public async getEntriesByTag(tag: string): Promise<JournalEntry[]> {
+  public async getEntriesByTag(tag: string): Promise<Journal[]> {
     try {
-      const entries = await this.getAllEntries();
-      return entries.filter(entry => entry.tags.includes(tag));
+      return await getStorageEngine().journal.getByTag(tag);
     } catch (error) {
       console.error(`Failed to get entries by tag ${tag}:`, error);
       return [];
@@ -208,8 +187,7 @@ class JournalService {
    */
   public async getAllTags(): Promise<string[]> {
     try {
-      const tagsData = await AsyncStorage.getItem(JOURNAL_TAGS_KEY);
-      return tagsData ? JSON.parse(tagsData) : [];
+      return await readList<string>(STORAGE_KEYS.journalTags);
     } catch (error) {
       console.error('Failed to get journal tags:', error);
       return [];
@@ -219,22 +197,10 @@ class JournalService {
   /**
    * Search journal entries
    */
-  public async searchEntries(query: string): Promise<JournalEntry[]> {
+  public async searchEntries(query: string): Promise<Journal[]> {
     try {
-      if (!query.trim()) return [];
-      
-      const entries = await this.getAllEntries();
-      const searchTerms = query.toLowerCase().split(' ');
-      
-      return entries.filter(entry => {
-        const titleMatch = entry.title.toLowerCase().includes(query.toLowerCase());
-        const contentMatch = entry.content.toLowerCase().includes(query.toLowerCase());
-        const tagMatches = entry.tags.some(tag => 
-          searchTerms.some(term => tag.toLowerCase().includes(term))
-        );
-        
-        return titleMatch || contentMatch || tagMatches;
-      });
+      // Every query word must occur in the title, content or tags in any word form
+      return await getStorageEngine().journal.search(query);
     } catch (error) {
       console.error(`Failed to search entries with query "${query}":`, error);
       return [];
@@ -253,19 +219,26 @@ class JournalService {
       }
       
       // Extract content from the 10 most recent entries
-      const recentEntries = entries.slice(0, 10);
-      const entriesText = recentEntries.map(entry => 
-        `Дата: ${new Date(entry.timestamp).toLocaleDateString()}\nНастроение: ${entry.mood || 'не указано'}\n${entry.content}`
-      ).join('\n\n---\n\n');
+      const locale = await getPromptLocale();
+      const recentEntries = await Promise.all(entries.slice(0, 10).map(async entry => {
+        const { text } = await renderPrompt(JOURNAL_INSIGHTS_ENTRY_PROMPT, {
+          date: new Date(entry.createdAt).toLocaleDateString(),
+          mood: entry.mood ?? '—',
+          content: entry.content
+        }, locale);
+        return text;
+      }));
       
       // Prepare message for AI
-      const userMessage = `Проанализируй мои последние записи в дневнике и дай 3-5 инсайтов о моих паттернах мышления, эмоциях и возможностях для роста:\n\n${entriesText}`;
+      const userMessage = await renderPrompt(JOURNAL_INSIGHTS_PROMPT, {
+        entries: recentEntries.join('\n\n---\n\n')
+      }, locale);
       
       // Get AI response
-      const response = await aiCoreService.sendMessage(userMessage);
+      const response = await aiCoreService.analyze(userMessage.text, 'insights');
       
       // Parse insights from the response
-      const aiText = response.response;
+      const aiText = response.text;
       const lines = aiText.split('\n').filter(line => line.trim().length > 0);
       
       const insights = lines
@@ -293,12 +266,12 @@ class JournalService {
       }
       
       // Prepare message for AI
-      const userMessage = `Это моя запись в дневнике. Пожалуйста, дай глубокую, вдумчивую рефлексию на неё, выдели ключевые моменты и предложи конструктивные идеи для дальнейшего размышления:\n\n${entry.content}`;
+      const userMessage = await renderPrompt(JOURNAL_REFLECTION_PROMPT, { entry: entry.content });
       
       // Get AI response
-      const response = await aiCoreService.sendMessage(userMessage);
+      const response = await aiCoreService.analyze(userMessage.text, 'journal_analysis');
       
-      return response.response;
+      return response.text;
     } catch (error) {
       console.error(`Failed to get reflection for entry ${entryId}:`, error);
       return 'Не удалось создать рефлексию для этой записи.';
@@ -306,10 +279,16 @@ class JournalService {
   }
   
   /**
-   * Analyze a journal entry's content
+   * Analyze a journal entry's content. The analysis is skipped, and the
+   * entry saved without it, when its monthly budget is used up.
    */
-  private async analyzeEntry(content: string): Promise<JournalEntry['aiAnalysis']> {
+  private async analyzeEntry(content: string): Promise<Journal['aiAnalysis']> {
     try {
+      if (await usageTracker.isOverBudget('journal_analysis')) {
+        console.log('Journal analysis skipped: monthly LLM budget reached');
+        return undefined;
+      }
+      
       // Default analysis in case API call fails
       const defaultAnalysis = {
         insights: [],
@@ -318,39 +297,33 @@ class JournalService {
       };
       
       // Prepare message for AI
-      const userMessage = `Проанализируй эту запись и предоставь:
-1. 2-3 ключевых инсайта (что можно извлечь из этой записи)
-2. Общий эмоциональный тон от -1 (очень негативный) до 1 (очень позитивный)
-3. 5-7 ключевых слов или фраз
-
-Запись: ${content}
-
-Пожалуйста, верни результаты в формате JSON с полями "insights", "sentiment" и "keywords".`;
+      const userMessage = await renderPrompt(JOURNAL_ANALYSIS_PROMPT, { entry: content });
       
       // Get AI response
-      const response = await aiCoreService.sendMessage(userMessage);
+      const response = await aiCoreService.analyze(userMessage.text, 'journal_analysis');
       
       // Try to parse JSON response
       try {
-        // Look for JSON structure in the response
-        const jsonMatch = response.response.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const analysis = JSON.parse(jsonMatch[0]);
+        // Look for JSON structure in the response; sentiment is clamped to -1..1
+        if (/\{[\s\S]*\}/.test(response.text)) {
+          const { data: analysis } = parseLLMOutput<JournalAnalysis>(
+            'analyzeEntry',
+            response.text,
+            JOURNAL_ANALYSIS_SCHEMA
+          );
           
-          // Validate structure
-          if (Array.isArray(analysis.insights) && 
-              typeof analysis.sentiment === 'number' && 
-              Array.isArray(analysis.keywords)) {
+          if (analysis.insights || analysis.sentiment !== undefined || analysis.keywords) {
             return {
-              insights: analysis.insights.slice(0, 3),
-              sentiment: Math.max(-1, Math.min(1, analysis.sentiment)), // Clamp between -1 and 1
-              keywords: analysis.keywords.slice(0, 7)
+              insights: (analysis.insights || []).slice(0, 3),
+              sentiment: analysis.sentiment ?? 0,
+              keywords: (analysis.keywords || []).slice(0, 7),
+              prompt: userMessage.stamp
             };
           }
         }
         
         // If no valid JSON found, extract information manually
-        const lines = response.response.split('\n');
+        const lines = response.text.split('\n');
         const insights = lines
           .filter(line => line.includes('инсайт') || line.includes('insight'))
           .map(line => line.replace(/.*:\s*/, '').trim())
@@ -380,7 +353,8 @@ class JournalService {
         return {
           insights,
           sentiment,
-          keywords
+          keywords,
+          prompt: userMessage.stamp
         };
       } catch (error) {
         console.error('Failed to parse AI analysis:', error);
@@ -402,14 +376,13 @@ class JournalService {
   private async updateTags(newTags: string[]): Promise<void> {
     try {
       // Get existing tags
-      const existingTagsData = await AsyncStorage.getItem(JOURNAL_TAGS_KEY);
-      const existingTags: string[] = existingTagsData ? JSON.parse(existingTagsData) : [];
+      const existingTags = await readList<string>(STORAGE_KEYS.journalTags);
       
       // Merge and deduplicate tags
       const mergedTags = Array.from(new Set([...existingTags, ...newTags]));
       
       // Save updated tags
-      await AsyncStorage.setItem(JOURNAL_TAGS_KEY, JSON.stringify(mergedTags));
+      await writeJSON(STORAGE_KEYS.journalTags, mergedTags);
     } catch (error) {
       console.error('Failed to update journal tags:', error);
     }
@@ -418,8 +391,8 @@ class JournalService {
   /**
    * Extract all unique tags from entries
    */
-  private getAllUniqueTags(entries: JournalEntry[]): string[] {
-    const allTags = entries.flatMap(entry => entry.tags);
+  private getAllUniqueTags(entries: Journal[]): string[] {
+    const allTags = entries.flatMap(entry => entry.tags || []);
     return Array.from(new Set(allTags));
   }
 }
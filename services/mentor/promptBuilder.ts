@@ -1,19 +1,16 @@
 import { generatePersonaPrompt, PersonaConfig } from './personaEngine';
 import { getMemoryContext } from './memoryEngine';
+import { renderPrompt } from '../ai/promptRegistry';
+import { MENTOR_BRIEF_PROMPT } from '../ai/promptTemplates';
 
 export async function buildPrompt(userMessage: string, config: PersonaConfig): Promise<string> {
   const persona = generatePersonaPrompt(config);
   const memory = await getMemoryContext();
 
-  return `
-${persona}
-
-Контекст пользователя:
-${memory}
-
-Сообщение пользователя:
-"${userMessage}"
-
-Ответь стратегически, прагматично и персонализированно.
-`;
+  const { text } = await renderPrompt(MENTOR_BRIEF_PROMPT, {
+    persona: persona.trim(),
+    memory: memory.trim(),
+    message: userMessage
+  });
+  return text;
 }
@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Goal, Habit, Journal, Task } from '@/types/app';
+import { AsyncStorageEngine } from './repositories/asyncStorageEngine';
+import { StorageEngine, StorageEngineId } from './repositories/repository';
+import { getConfiguredStorageEngineId, getStorageEngine, openStorageEngine } from './repositories/storageEngine';
+import { readList, readMany } from './storage';
+import { STORAGE_KEYS } from './storageKeys';
+
+// Keys of the data formats that were replaced. Migrations describe the data
+// as it was stored at their version, so they do not use the services' code.
+const LEGACY_GOALS_KEY = 'user_goals';
+const LEGACY_JOURNAL_INDEX_KEY = 'journal_entries';
+const LEGACY_JOURNAL_ENTRY_PREFIX = 'journal_';
+const VECTOR_INDEX_KEY_PREFIX = 'vector_index';
+
+/**
+ * One change of the storage format. Migrations run once per storage engine
+ * holding the data, in version order, and change it through the engine's
+ * repositories. A migration writes its results before it removes anything,
+ * so running it again after an interruption gives the same data. Each one
+ * needs storage snapshots before and after it in services/__tests__/__fixtures__.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (engine: StorageEngine) => Promise<void>;
+}
+
+// Task of the operations center: done or not, without timestamps
+type LegacyTask = Omit<Task, 'status' | 'createdAt' | 'updatedAt'> & {
+  completed?: boolean;
+  status?: Task['status'];
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+type LegacyHabit = Omit<Habit, 'longestStreak' | 'createdAt' | 'updatedAt'> & {
+  longestStreak?: number;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+// Goal of the Strategy tab: subgoals nested in children
+type LegacyGoal = Omit<Goal, 'children' | 'createdAt' | 'updatedAt'> & {
+  children?: (LegacyGoal | string)[];
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+type LegacyJournalEntry = Omit<Journal, 'createdAt' | 'updatedAt'> & {
+  timestamp?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+// Copy of a journal entry the memory engine kept for context retrieval
+interface MemoryJournalEntry {
+  id: string;
+  content: string;
+  tags?: string[];
+  timestamp: string;
+}
+
+// Records created before timestamps were stored have Date.now() in their ids
+const timeFromId = (id: string, fallback: string): string => {
+  const match = id.match(/\d{13}/);
+  return match ? new Date(Number(match[0])).toISOString() : fallback;
+};
+
+const toTask = (task: LegacyTask, now: string): Task => {
+  const { completed, ...rest } = task;
+  const createdAt = rest.createdAt || timeFromId(rest.id, now);
+  return {
+    ...rest,
+    status: rest.status || (completed ? 'completed' : 'pending'),
+    createdAt,
+    updatedAt: rest.updatedAt || createdAt
+  };
+};
+
+const toHabit = (habit: LegacyHabit, now: string): Habit => {
+  const createdAt = habit.createdAt || timeFromId(habit.id, now);
+  const streak = habit.streak || 0;
+  return {
+    ...habit,
+    completedDates: habit.completedDates || [],
+    streak,
+    longestStreak: Math.max(habit.longestStreak || 0, streak),
+    createdAt,
+    updatedAt: habit.updatedAt || createdAt
+  };
+};
+
+// Flattens nested goals into records linked by parentId and child ids
+const flattenGoals = (goals: LegacyGoal[], parentId: string | null, now: string, result: Goal[]): Goal[] => {
+  for (const { children = [], ...goal } of goals) {
+    const createdAt = goal.createdAt || timeFromId(goal.id, now);
+    result.push({
+      ...goal,
+      parentId: goal.parentId || parentId,
+      children: children.map(child => (typeof child === 'string' ? child : child.id)),
+      createdAt,
+      updatedAt: goal.updatedAt || createdAt
+    });
+    const nested = children.filter((child): child is LegacyGoal => typeof child !== 'string');
+    flattenGoals(nested, goal.id, now, result);
+  }
+  return result;
+};
+
+const toJournal = ({ timestamp, ...entry }: LegacyJournalEntry, now: string): Journal => {
+  const createdAt = entry.createdAt || timestamp || timeFromId(entry.id, now);
+  return { ...entry, createdAt, updatedAt: entry.updatedAt || createdAt };
+};
+
+/**
+ * Moves every record to the models of types/app.ts under STORAGE_KEYS:
+ * - tasks get a status instead of the completed flag, habits a longest streak,
+ *   and all records get timestamps;
+ * - goals of the Strategy tab (nested under berserk_goals) and of the goal
+ *   planner (flat under user_goals) are merged into one flat list;
+ * - the memory engine's copies of journal entries are dropped. The journal
+ *   was always written first, so a copy without a matching entry is an entry
+ *   the user deleted or the old text of an edited one;
+ * - the vector index is removed and rebuilt on first use, so it holds the
+ *   journal entries under their own ids.
+ */
+const unifyDomainModels = async (): Promise<void> => {
+  const now = new Date().toISOString();
+
+  const tasks = (await readList<LegacyTask>(STORAGE_KEYS.tasks)).map(task => toTask(task, now));
+  const habits = (await readList<LegacyHabit>(STORAGE_KEYS.habits)).map(habit => toHabit(habit, now));
+
+  const goals = flattenGoals(await readList<LegacyGoal>(STORAGE_KEYS.goals), null, now, []);
+  const plannedGoals = flattenGoals(await readList<LegacyGoal>(LEGACY_GOALS_KEY), null, now, []);
+  const goalIds = new Set(goals.map(goal => goal.id));
+  goals.push(...plannedGoals.filter(goal => !goalIds.has(goal.id)));
+  for (const goal of goals) {
+    const parent = goal.parentId ? goals.find(candidate => candidate.id === goal.parentId) : undefined;
+    if (parent && !parent.children?.includes(goal.id)) {
+      parent.children = [...(parent.children || []), goal.id];
+    }
+  }
+
+  const journal = (await readList<LegacyJournalEntry>(STORAGE_KEYS.journal)).map(entry => toJournal(entry, now));
+  const memoryJournalIds = await readList<string>(LEGACY_JOURNAL_INDEX_KEY);
+  const memoryJournalKeys = memoryJournalIds.map(id => `${LEGACY_JOURNAL_ENTRY_PREFIX}${id}`);
+  const memoryEntries: MemoryJournalEntry[] = (await readMany(memoryJournalKeys))
+    .flatMap(([, data]) => (data ? [JSON.parse(data)] : []));
+  const orphanedCopies = memoryEntries.filter(copy =>
+    !journal.some(entry => entry.content.trim() === copy.content.trim())
+  );
+  if (orphanedCopies.length > 0) {
+    console.log(`Dropping ${orphanedCopies.length} memory copies of deleted or edited journal entries`);
+  }
+
+  const vectorKeys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(VECTOR_INDEX_KEY_PREFIX));
+
+  await AsyncStorage.multiSet([
+    [STORAGE_KEYS.tasks, JSON.stringify(tasks)],
+    [STORAGE_KEYS.habits, JSON.stringify(habits)],
+    [STORAGE_KEYS.goals, JSON.stringify(goals)],
+    [STORAGE_KEYS.journal, JSON.stringify(journal)]
+  ]);
+  await AsyncStorage.multiRemove([
+    LEGACY_GOALS_KEY,
+    LEGACY_JOURNAL_INDEX_KEY,
+    ...memoryJournalKeys,
+    ...vectorKeys
+  ]);
+};
+
+// Versions go up by one, starting at 1
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Unify tasks, habits, goals and journal entries on the app models',
+    // Predates the storage engines and reads the AsyncStorage keys directly.
+    // SQLite only imports data that is already current.
+    migrate: async engine => {
+      if (engine.id !== 'asyncstorage') {
+        throw new Error(`Storage migration 1 cannot run on ${engine.id} data`);
+      }
+      await unifyDomainModels();
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Version of the storage format an engine holds; 0 before any migration
+ * @param engine Engine holding the data; the one in use by default
+ */
+export async function getSchemaVersion(engine: StorageEngine = getStorageEngine()): Promise<number> {
+  return engine.getSchemaVersion();
+}
+
+/**
+ * Brings the data of a storage engine to the target version. Must finish
+ * before anything reads the data; the version is saved after every
+ * migration, so a failed one is retried on the next start. Data written by
+ * a newer app version is left as it is.
+ * @param targetVersion Version to stop at; the latest by default
+ * @param engine Engine holding the data; the one in use by default
+ * @returns The version the data is at
+ */
+export async function runMigrations(
+  targetVersion: number = CURRENT_SCHEMA_VERSION,
+  engine: StorageEngine = getStorageEngine()
+): Promise<number> {
+  let version = await engine.getSchemaVersion();
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Storage version ${version} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`);
+    return version;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version || migration.version > targetVersion) continue;
+    if (migration.version !== version + 1) {
+      throw new Error(`Storage migration ${version + 1} is missing`);
+    }
+
+    console.log(`Migrating ${engine.id} storage to version ${migration.version}: ${migration.description}`);
+    await migration.migrate(engine);
+    version = migration.version;
+    await engine.setSchemaVersion(version);
+  }
+
+  return version;
+}
+
+/**
+ * Brings the data to the current version and opens the storage engine. The
+ * AsyncStorage data is migrated first: SQLite imports it on its first start,
+ * so it is not opened while that migration fails. Data already kept in
+ * SQLite is then migrated there.
+ * @param id Engine to open; the configured one by default
+ * @returns The engine in use
+ */
+export async function prepareStorage(id: StorageEngineId = getConfiguredStorageEngineId()): Promise<StorageEngine> {
+  await runMigrations(CURRENT_SCHEMA_VERSION, new AsyncStorageEngine());
+  const engine = await openStorageEngine(id);
+  await runMigrations(CURRENT_SCHEMA_VERSION, engine);
+  return engine;
+}
@@ -1,17 +1,27 @@
-import axios from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Goal, GoalStatus, GoalMetric } from '@/types/app';
+import { Goal, GoalMetric } from '@/types/app';
+import { appEvents } from '../appEvents';
+import { getStorageEngine } from '../repositories/storageEngine';
 import { userProfileEngine } from '../ai/userProfileEngine';
-
-// API Keys should be stored securely
-const API_KEY = process.env.OPENAI_API_KEY || '';
+import { llmService } from '../ai/llm/llmService';
+import { LLMOutputError, parseLLMOutput } from '../ai/llmOutput';
+import {
+  GOAL_STRUCTURE_SCHEMA,
+  GoalDraft,
+  GoalStructure,
+  MetricDraft,
+  NEXT_STEPS_SCHEMA,
+  NextStep
+} from '../ai/outputSchemas';
+import { renderPrompt } from '../ai/promptRegistry';
+import { ASPIRATIONAL_GOAL_PROMPT, NEXT_STEPS_PROMPT } from '../ai/promptTemplates';
 
 /**
- * Goal Planning Service manages the creation, transformation, and breakdown of goals
+ * Goal Planning Service manages the creation, transformation, and breakdown of goals.
+ * Goals are stored in the list the Strategy tab shows, and every change is
+ * announced so the tab reloads it.
  */
 class GoalPlanningService {
   private static instance: GoalPlanningService;
-  private goalsKey = 'user_goals';
   
   private constructor() {
     // Initialize service
@@ -29,13 +39,7 @@ class GoalPlanningService {
    */
   public async getAllGoals(): Promise<Goal[]> {
     try {
-      const goalsData = await AsyncStorage.getItem(this.goalsKey);
-      
-      if (goalsData) {
-        return JSON.parse(goalsData);
-      }
-      
-      return [];
+      return await getStorageEngine().goals.getAll();
     } catch (error) {
       console.error('Failed to get goals:', error);
       return [];
@@ -48,8 +52,8 @@ class GoalPlanningService {
    */
   public async getGoalById(goalId: string): Promise<Goal | null> {
     try {
-      const goals = await this.getAllGoals();
-      return goals.find(goal => goal.id === goalId) || null;
+      const [goal] = await getStorageEngine().goals.getByIds([goalId]);
+      return goal || null;
     } catch (error) {
       console.error(`Failed to get goal ${goalId}:`, error);
       return null;
@@ -65,16 +69,19 @@ class GoalPlanningService {
       const now = new Date().toISOString();
       
       const newGoal: Goal = {
-        id: `goal_${Date.now()}`,
+        // Sub-goals are created in a loop, within the same millisecond
+        id: `goal_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`,
         title: goalData.title || '',
         description: goalData.description || '',
         status: goalData.status || 'not_started',
         progress: goalData.progress || 0,
+        dueDate: goalData.dueDate || null,
         parentId: goalData.parentId || null,
         children: goalData.children || [],
         category: goalData.category || null,
         tags: goalData.tags || [],
         metrics: goalData.metrics || [],
+        prompt: goalData.prompt,
         createdAt: now,
         updatedAt: now
       };
@@ -85,9 +92,8 @@ class GoalPlanningService {
       }
       
       // Save the goal
-      const goals = await this.getAllGoals();
-      goals.push(newGoal);
-      await AsyncStorage.setItem(this.goalsKey, JSON.stringify(goals));
+      await getStorageEngine().goals.save([newGoal]);
+      appEvents.emitDataChanged(['goals']);
       
       return newGoal;
     } catch (error) {
@@ -103,21 +109,17 @@ class GoalPlanningService {
    */
   public async updateGoal(goalId: string, updates: Partial<Goal>): Promise<Goal> {
     try {
-      const goals = await this.getAllGoals();
-      const goalIndex = goals.findIndex(goal => goal.id === goalId);
+      const updatedGoal = await getStorageEngine().goals.update(goalId, goal => ({
+        ...goal,
+        ...updates,
+        updatedAt: new Date().toISOString()
+      }));
       
-      if (goalIndex === -1) {
+      if (!updatedGoal) {
         throw new Error(`Goal ${goalId} not found`);
       }
       
-      const updatedGoal: Goal = {
-        ...goals[goalIndex],
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
-      
-      goals[goalIndex] = updatedGoal;
-      await AsyncStorage.setItem(this.goalsKey, JSON.stringify(goals));
+      appEvents.emitDataChanged(['goals']);
       
       return updatedGoal;
     } catch (error) {
@@ -127,7 +129,7 @@ class GoalPlanningService {
   }
   
   /**
-   * Deletes a goal
+   * Deletes a goal together with its sub-goals
    * @param goalId Goal identifier
    */
   public async deleteGoal(goalId: string): Promise<void> {
@@ -141,21 +143,30 @@ class GoalPlanningService {
         throw new Error(`Goal ${goalId} not found`);
       }
       
-      // If this is a subgoal, update parent
-      if (goalToDelete.parentId) {
-        await this.removeChildFromParent(goalToDelete.parentId, goalId);
-      }
-      
-      // Delete any children recursively
-      if (goalToDelete.children && goalToDelete.children.length > 0) {
-        for (const childId of goalToDelete.children) {
-          await this.deleteGoal(childId);
+      // Collect all descendants
+      const removed = new Set([goalId]);
+      let found = true;
+      while (found) {
+        found = false;
+        for (const goal of goals) {
+          if (goal.parentId && removed.has(goal.parentId) && !removed.has(goal.id)) {
+            removed.add(goal.id);
+            found = true;
+          }
         }
       }
       
-      // Remove the goal
-      const updatedGoals = goals.filter(goal => goal.id !== goalId);
-      await AsyncStorage.setItem(this.goalsKey, JSON.stringify(updatedGoals));
+      // Remove the goals and unlink the goal from its parent
+      const repository = getStorageEngine().goals;
+      await repository.remove(Array.from(removed));
+      if (goalToDelete.parentId) {
+        await repository.update(goalToDelete.parentId, parent => ({
+          ...parent,
+          children: (parent.children || []).filter(id => id !== goalId),
+          updatedAt: new Date().toISOString()
+        }));
+      }
+      appEvents.emitDataChanged(['goals']);
     } catch (error) {
       console.error(`Failed to delete goal ${goalId}:`, error);
       throw new Error('Failed to delete goal');
@@ -214,152 +225,71 @@ class GoalPlanningService {
    */
   private async addChildToParent(parentId: string, childId: string): Promise<void> {
     try {
-      const goals = await this.getAllGoals();
-      const parentIndex = goals.findIndex(goal => goal.id === parentId);
+      const parent = await getStorageEngine().goals.update(parentId, goal => {
+        const children = goal.children || [];
+        if (children.includes(childId)) return goal;
+        
+        // Add child to parent
+        return { ...goal, children: [...children, childId], updatedAt: new Date().toISOString() };
+      });
       
-      if (parentIndex === -1) {
+      if (!parent) {
         throw new Error(`Parent goal ${parentId} not found`);
       }
-      
-      // Add child to parent
-      if (!goals[parentIndex].children) {
-        goals[parentIndex].children = [];
-      }
-      
-      if (!goals[parentIndex].children.includes(childId)) {
-        goals[parentIndex].children.push(childId);
-        goals[parentIndex].updatedAt = new Date().toISOString();
-      }
-      
-      await AsyncStorage.setItem(this.goalsKey, JSON.stringify(goals));
     } catch (error) {
       console.error(`Failed to add child ${childId} to parent ${parentId}:`, error);
       throw error;
     }
   }
   
-  /**
-   * Removes a child goal from a parent
-   * @param parentId Parent goal ID
-   * @param childId Child goal ID
-   */
-  private async removeChildFromParent(parentId: string, childId: string): Promise<void> {
-    try {
-      const goals = await this.getAllGoals();
-      const parentIndex = goals.findIndex(goal => goal.id === parentId);
-      
-      if (parentIndex === -1) {
-        throw new Error(`Parent goal ${parentId} not found`);
-      }
-      
-      // Remove child from parent
-      if (goals[parentIndex].children && goals[parentIndex].children.includes(childId)) {
-        goals[parentIndex].children = goals[parentIndex].children.filter(id => id !== childId);
-        goals[parentIndex].updatedAt = new Date().toISOString();
-      }
-      
-      await AsyncStorage.setItem(this.goalsKey, JSON.stringify(goals));
-    } catch (error) {
-      console.error(`Failed to remove child ${childId} from parent ${parentId}:`, error);
-      throw error;
-    }
-  }
-  
   /**
    * Transforms a high-level aspirational goal into achievable goals
    * @param aspirationalGoal The high-level goal text
    */
   public async transformAspirationalGoal(aspirationalGoal: string): Promise<Goal[]> {
     try {
-      // Get user profile for context
-      const userProfile = await userProfileEngine.getCurrentProfile();
+      // Get the profile fields relevant to the goal
+      const userProfile = await userProfileEngine.describeForPrompt(aspirationalGoal);
       
       // Prepare prompt for analysis
-      const analysisPrompt = `
-        You are an expert goal-setting and planning system. Your job is to transform a high-level aspirational goal into a structured set of SMART goals (Specific, Measurable, Achievable, Relevant, Time-bound).
-        
-        User Profile:
-        ${JSON.stringify(userProfile, null, 2)}
-        
-        Aspirational Goal: "${aspirationalGoal}"
-        
-        Break this down into:
-        1. One main goal that captures the essence of the aspiration
-        2. 3-5 sub-goals that contribute to achieving the main goal
-        
-        For each goal and sub-goal, provide:
-        - A clear, specific title
-        - A detailed description
-        - Measurable metrics for tracking progress
-        - A realistic status (should usually be "not_started" for new goals)
-        - Appropriate tags or categories
-        
-        Format your response as a JSON object with this structure:
-        {
-          "mainGoal": {
-            "title": "",
-            "description": "",
-            "metrics": [{"name": "", "target": 0, "unit": "", "isPositive": true}],
-            "status": "not_started",
-            "tags": [],
-            "category": ""
-          },
-          "subGoals": [
-            {
-              "title": "",
-              "description": "",
-              "metrics": [{"name": "", "target": 0, "unit": "", "isPositive": true}],
-              "status": "not_started", 
-              "tags": [],
-              "category": ""
-            }
-          ]
-        }
-        
-        Return ONLY valid JSON without explanation.
-      `;
+      const analysisPrompt = await renderPrompt(ASPIRATIONAL_GOAL_PROMPT, {
+        profile: userProfile,
+        goal: aspirationalGoal
+      });
       
       // Call AI for analysis
-      const analysisResponse = await this.callOpenAI(analysisPrompt);
+      const analysisResponse = await this.callLLM(analysisPrompt.text);
       
-      // Parse response
-      try {
-        const goalStructure = JSON.parse(analysisResponse);
-        
-        // Create main goal
-        const mainGoal = await this.createGoal({
-          title: goalStructure.mainGoal.title,
-          description: goalStructure.mainGoal.description,
-          status: goalStructure.mainGoal.status as GoalStatus,
-          metrics: goalStructure.mainGoal.metrics as GoalMetric[],
-          tags: goalStructure.mainGoal.tags,
-          category: goalStructure.mainGoal.category
+      // Validate response; malformed sub-goals and metrics are skipped
+      const { data: goalStructure } = parseLLMOutput<GoalStructure>(
+        'transformAspirationalGoal',
+        analysisResponse,
+        GOAL_STRUCTURE_SCHEMA
+      );
+      
+      // Create main goal
+      const mainGoal = await this.createGoal({
+        ...this.fromDraft(goalStructure.mainGoal),
+        prompt: analysisPrompt.stamp
+      });
+      
+      // Create sub-goals
+      const subGoals: Goal[] = [];
+      
+      for (const subGoalData of goalStructure.subGoals || []) {
+        const subGoal = await this.createGoal({
+          ...this.fromDraft(subGoalData),
+          parentId: mainGoal.id,
+          prompt: analysisPrompt.stamp
         });
         
-        // Create sub-goals
-        const subGoals: Goal[] = [];
-        
-        for (const subGoalData of goalStructure.subGoals) {
-          const subGoal = await this.createGoal({
-            title: subGoalData.title,
-            description: subGoalData.description,
-            status: subGoalData.status as GoalStatus,
-            metrics: subGoalData.metrics as GoalMetric[],
-            tags: subGoalData.tags,
-            category: subGoalData.category,
-            parentId: mainGoal.id
-          });
-          
-          subGoals.push(subGoal);
-        }
-        
-        return [mainGoal, ...subGoals];
-      } catch (e) {
-        console.error('Failed to parse goal structure:', e);
-        throw new Error('Failed to parse AI response');
+        subGoals.push(subGoal);
       }
+      
+      return [mainGoal, ...subGoals];
     } catch (error) {
       console.error('Failed to transform aspirational goal:', error);
+      if (error instanceof LLMOutputError) throw error;
       throw new Error('Failed to transform goal');
     }
   }
@@ -369,7 +299,7 @@ class GoalPlanningService {
    * @param goalId Goal identifier
    * @param count Number of steps to recommend
    */
-  public async recommendNextSteps(goalId: string, count: number = 3): Promise<any[]> {
+  public async recommendNextSteps(goalId: string, count: number = 3): Promise<NextStep[]> {
     try {
       const goal = await this.getGoalById(goalId);
       
@@ -377,93 +307,74 @@ class GoalPlanningService {
         throw new Error(`Goal ${goalId} not found`);
       }
       
-      // Get user profile for context
-      const userProfile = await userProfileEngine.getCurrentProfile();
+      // Get the profile fields relevant to the goal
+      const userProfile = await userProfileEngine.describeForPrompt(goal.title);
       
       // Get existing child goals
       const allGoals = await this.getAllGoals();
       const childGoals = allGoals.filter(g => g.parentId === goalId);
       
       // Prepare prompt for recommendations
-      const recommendationPrompt = `
-        You are an expert goal-setting and planning system. Your job is to recommend the next steps for achieving a specific goal.
-        
-        User Profile:
-        ${JSON.stringify(userProfile, null, 2)}
-        
-        Goal:
-        ${JSON.stringify(goal, null, 2)}
-        
-        Existing Sub-goals:
-        ${JSON.stringify(childGoals, null, 2)}
-        
-        Based on the goal, existing sub-goals, and user profile, recommend ${count} actionable next steps.
-        
-        Each step should be:
-        - Concrete and immediately applicable
-        - Linked to progress towards the main goal
-        - Brief and clear
-
-        Format response as a JSON array of objects:
-        [
-          {
-            "title": "",
-            "description": "",
-            "reason": ""
-          }
-        ]
-
-        Return ONLY valid JSON without any explanations.
-      `;
+      const recommendationPrompt = await renderPrompt(NEXT_STEPS_PROMPT, {
+        profile: userProfile,
+        goal: JSON.stringify(goal, null, 2),
+        subGoals: JSON.stringify(childGoals, null, 2),
+        count
+      });
 
-      // Call OpenAI API
-      const aiResponse = await this.callOpenAI(recommendationPrompt);
-
-      // Parse and return
-      try {
-        const steps = JSON.parse(aiResponse);
-        return steps;
-      } catch (error) {
-        console.error('Failed to parse recommended steps:', error);
-        throw new Error('AI response was not valid JSON');
-      }
+      // Call the configured LLM provider
+      const aiResponse = await this.callLLM(recommendationPrompt.text);
 
+      // Validate and return the well-formed steps
+      return parseLLMOutput<NextStep[]>('recommendNextSteps', aiResponse, NEXT_STEPS_SCHEMA).data;
     } catch (error) {
       console.error(`Failed to recommend next steps for goal ${goalId}:`, error);
+      if (error instanceof LLMOutputError) throw error;
       throw new Error('Failed to recommend next steps');
     }
   }
 
   /**
-   * Internal method for making OpenAI API calls
-   * @param prompt Prompt for GPT
+   * Converts a validated goal draft from the model into goal fields
    */
-  private async callOpenAI(prompt: string): Promise<string> {
+  private fromDraft(draft: GoalDraft): Partial<Goal> {
+    return {
+      title: draft.title,
+      description: draft.description,
+      status: draft.status,
+      metrics: (draft.metrics || []).map((metric: MetricDraft, index): GoalMetric => ({
+        id: `metric_${Date.now()}_${index}`,
+        name: metric.name,
+        target: metric.target,
+        current: metric.current ?? 0,
+        unit: metric.unit,
+        isPositive: metric.isPositive ?? true
+      })),
+      tags: draft.tags,
+      category: draft.category
+    };
+  }
+
+  /**
+   * Internal method for making LLM calls
+   * @param prompt Prompt for the model
+   */
+  private async callLLM(prompt: string): Promise<string> {
     try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-4',
-          messages: [
-            { role: 'system', content: 'You are a goal-planning assistant.' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.7
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${API_KEY}`
-          }
-        }
-      );
+      const response = await llmService.complete({
+        messages: [
+          { role: 'system', content: 'You are a goal-planning assistant.' },
+          { role: 'user', content: prompt }
+        ],
+        temperature: 0.7,
+        feature: 'goal_planning'
+      });
 
-      const message = response.data.choices?.[0]?.message?.content;
-      if (!message) throw new Error('No message from OpenAI');
-      return message.trim();
+      if (!response.text) throw new Error('No message from LLM');
+      return response.text;
     } catch (error) {
-      console.error('OpenAI API error:', error);
-      throw new Error('AI generation failed');
+      console.error('LLM error:', error);
+      throw new LLMOutputError('goalPlanning', 'request_failed');
     }
   }
 }
@@ -0,0 +1,148 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { deleteDatabaseAsync } from 'expo-sqlite';
+import { MemoryItem } from '@/types/ai';
+import { Goal, Habit, Journal, Task } from '@/types/app';
+import { STORAGE_KEYS } from '@/services/storageKeys';
+import { analyzeText } from '@/services/textNormalization';
+import { SQLiteEngine } from '../sqliteEngine';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const habit = (id: string): Habit => ({
+  id, title: id, frequency: 'daily', completedDates: [], streak: 0, longestStreak: 0,
+  createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const task = (id: string, createdAt: string): Task => ({
+  id, title: id, status: 'pending', priority: 'medium', tags: [], createdAt, updatedAt: createdAt
+});
+
+const goal = (id: string, createdAt: string): Goal => ({
+  id, title: id, status: 'not_started', progress: 0, parentId: null, children: [], createdAt, updatedAt: createdAt
+});
+
+const entry = (id: string, content: string, createdAt: string, tags: string[] = []): Journal => ({
+  id, title: id, content, tags, createdAt, updatedAt: createdAt
+});
+
+const memory = (id: string, content: string, timestamp: string, pinned = false): MemoryItem => ({
+  id, conversationId: 'c1', content, timestamp, role: 'user', keywords: [], pinned
+});
+
+let engine: SQLiteEngine;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await deleteDatabaseAsync('berserk.db');
+  engine = await SQLiteEngine.open();
+});
+
+it('copies the AsyncStorage data once, with its version', async () => {
+  await deleteDatabaseAsync('berserk.db');
+  await AsyncStorage.multiSet([
+    [STORAGE_KEYS.tasks, JSON.stringify([task('t1', '2026-01-01T00:00:00.000Z')])],
+    [STORAGE_KEYS.journal, JSON.stringify([entry('j1', 'Пробежал 5 км', '2026-01-01T00:00:00.000Z', ['спорт'])])],
+    ['berserk_schema_version', '1']
+  ]);
+
+  engine = await SQLiteEngine.open();
+  expect((await engine.tasks.getAll()).map(found => found.id)).toEqual(['t1']);
+  expect((await engine.journal.getByTag('спорт')).map(found => found.id)).toEqual(['j1']);
+  expect(await engine.getSchemaVersion()).toBe(1);
+
+  // Changes after the import are not overwritten by the AsyncStorage copy
+  await engine.tasks.remove(['t1']);
+  engine = await SQLiteEngine.open();
+  expect(await engine.tasks.getAll()).toEqual([]);
+});
+
+it('keeps both of two completions started at the same time', async () => {
+  await engine.habits.save([habit('h1')]);
+
+  const complete = (date: string) => engine.habits.update('h1', current => ({
+    ...current,
+    completedDates: [...current.completedDates, date],
+    streak: current.streak + 1
+  }));
+  await Promise.all([complete('2026-01-01'), complete('2026-01-02')]);
+
+  const [stored] = await engine.habits.getAll();
+  expect(stored.completedDates).toEqual(['2026-01-01', '2026-01-02']);
+  expect(stored.streak).toBe(2);
+  expect(await engine.habits.update('missing', current => current)).toBeNull();
+});
+
+it('rolls back a failed write and goes on with the next one', async () => {
+  await engine.habits.save([habit('h1')]);
+
+  const failed = engine.habits.update('h1', () => {
+    throw new Error('Invalid habit');
+  });
+  const renamed = engine.habits.update('h1', current => ({ ...current, title: 'Зарядка' }));
+
+  await expect(failed).rejects.toThrow('Invalid habit');
+  expect((await renamed)?.title).toBe('Зарядка');
+  expect((await engine.habits.getAll()).map(found => found.title)).toEqual(['Зарядка']);
+});
+
+it('replaces saved records in place and lists them in their order', async () => {
+  await engine.tasks.save([task('t1', '2026-01-01T00:00:00.000Z'), task('t2', '2026-01-02T00:00:00.000Z')]);
+  await engine.tasks.save([
+    { ...task('t2', '2026-01-02T00:00:00.000Z'), title: 'Отчёт' },
+    task('t3', '2026-01-03T00:00:00.000Z')
+  ]);
+  await engine.tasks.remove(['t1']);
+
+  const stored = await engine.tasks.getAll();
+  expect(stored.map(record => record.id)).toEqual(['t3', 't2']);
+  expect(stored[1].title).toBe('Отчёт');
+  expect((await engine.tasks.getByIds(['t2', 'missing', 't3'])).map(found => found.id)).toEqual(['t2', 't3']);
+
+  // Goals are kept in the order they were created
+  await engine.goals.save([goal('g2', '2026-01-02T00:00:00.000Z'), goal('g1', '2026-01-01T00:00:00.000Z')]);
+  expect((await engine.goals.getAll()).map(found => found.id)).toEqual(['g1', 'g2']);
+});
+
+it('searches and ranks journal entries by any word form through the term index', async () => {
+  await engine.journal.save([
+    entry('j1', 'Утром пробежал пять километров', '2026-01-01T00:00:00.000Z', ['спорт']),
+    entry('j2', 'Вечером читал книгу о беге', '2026-01-02T00:00:00.000Z'),
+    entry('j3', 'Пробежка и книга перед сном', '2026-01-03T00:00:00.000Z')
+  ]);
+
+  expect((await engine.journal.search('пробежал километров')).map(found => found.id)).toEqual(['j1']);
+  // An unfinished word matches as the start of a longer one
+  expect((await engine.journal.search('киломе')).map(found => found.id)).toEqual(['j1']);
+  expect((await engine.journal.getByTag('спорт')).map(found => found.id)).toEqual(['j1']);
+  expect((await engine.journal.getRecent(2)).map(found => found.id)).toEqual(['j3', 'j2']);
+
+  const ranked = await engine.journal.rank(analyzeText('пробежка книга'), 3);
+  expect(ranked.map(found => found.id)).toEqual(['j3', 'j2']);
+
+  // Editing an entry replaces its terms and tags
+  await engine.journal.save([entry('j1', 'Утром плавал в бассейне', '2026-01-01T00:00:00.000Z')]);
+  expect(await engine.journal.search('километров')).toEqual([]);
+  expect(await engine.journal.getByTag('спорт')).toEqual([]);
+});
+
+it('lists and searches memories without system ones', async () => {
+  await engine.memories.save([
+    memory('m1', 'Хочу бегать по утрам', '2026-01-01T00:00:00.000Z'),
+    memory('m2', 'Бегать вечером тяжело', '2026-01-02T00:00:00.000Z', true),
+    { ...memory('m3', 'Системная заметка о беге', '2026-01-03T00:00:00.000Z'), role: 'system' }
+  ]);
+
+  expect((await engine.memories.list(10)).map(found => found.id)).toEqual(['m2', 'm1']);
+  expect((await engine.memories.getPinned()).map(found => found.id)).toEqual(['m2']);
+  expect((await engine.memories.search(analyzeText('бегать утрам'), 10, true)).map(found => found.id)).toEqual(['m1']);
+  expect((await engine.memories.search(analyzeText('бегать утрам'), 10)).map(found => found.id)).toEqual(['m1', 'm2']);
+
+  expect((await engine.memories.removeConversation('c1')).sort()).toEqual(['m1', 'm2', 'm3']);
+  expect(await engine.memories.getAll()).toEqual([]);
+});
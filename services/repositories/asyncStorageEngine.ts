@@ -0,0 +1,249 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MemoryItem } from '@/types/ai';
+import { Goal, Habit, Journal, Task } from '@/types/app';
+import { KeywordDocument, keywordIndex } from '@/services/ai/keywordIndex';
+import { readList, readMany, writeJSON } from '@/services/storage';
+import { STORAGE_KEYS } from '@/services/storageKeys';
+import { countMatches, extractSearchKeys, matchesQuery, SearchTerm } from '@/services/textNormalization';
+import {
+  journalSearchText,
+  JournalRepository,
+  MemoryRepository,
+  Repository,
+  StorageEngine,
+  StoredRecord
+} from './repository';
+
+const SCHEMA_VERSION_KEY = 'berserk_schema_version';
+const MEMORY_KEY_PREFIX = 'memory_';
+// Per-conversation lists of memory ids, written before the keyword index existed
+const LEGACY_MEMORY_INDEX_KEY_PREFIX = 'memory_index_';
+
+type ListOrder = 'newest_first' | 'oldest_first';
+
+/**
+ * Collection stored as one JSON list under its key. Writes to the list run
+ * one after another, and each starts from the list the previous one saved.
+ */
+class AsyncStorageRepository<T extends StoredRecord> implements Repository<T> {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private key: string, private order: ListOrder) {}
+
+  public getAll(): Promise<T[]> {
+    return readList<T>(this.key);
+  }
+
+  public async getByIds(ids: string[]): Promise<T[]> {
+    const recordsById = new Map((await this.getAll()).map(record => [record.id, record]));
+    return ids.flatMap(id => recordsById.get(id) || []);
+  }
+
+  public save(records: T[]): Promise<void> {
+    const saved = new Map(records.map(record => [record.id, record]));
+    return this.change(stored => {
+      const storedIds = new Set(stored.map(record => record.id));
+      const replaced = stored.map(record => saved.get(record.id) || record);
+      const added = records.filter(record => !storedIds.has(record.id));
+      return this.order === 'newest_first' ? [...added, ...replaced] : [...replaced, ...added];
+    });
+  }
+
+  public async update(id: string, change: (record: T) => T): Promise<T | null> {
+    let updated: T | null = null;
+    await this.change(stored => stored.map(record => {
+      if (record.id !== id) return record;
+      updated = change(record);
+      return updated;
+    }));
+    return updated;
+  }
+
+  public remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    return this.change(stored => stored.filter(record => !removed.has(record.id)));
+  }
+
+  private change(apply: (stored: T[]) => T[]): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await writeJSON(this.key, apply(await this.getAll()));
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Journal stored as one list; search reads every entry
+ */
+class AsyncStorageJournalRepository extends AsyncStorageRepository<Journal> implements JournalRepository {
+  constructor() {
+    super(STORAGE_KEYS.journal, 'newest_first');
+  }
+
+  public async getAll(): Promise<Journal[]> {
+    const entries = await super.getAll();
+    return entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  public async getRecent(limit: number): Promise<Journal[]> {
+    return (await this.getAll()).slice(0, limit);
+  }
+
+  public async getByTag(tag: string): Promise<Journal[]> {
+    return (await this.getAll()).filter(entry => entry.tags?.includes(tag));
+  }
+
+  public async search(query: string): Promise<Journal[]> {
+    if (!query.trim()) return [];
+
+    // Every query word must occur in the title, content or tags in any word form
+    return (await this.getAll()).filter(entry => matchesQuery(journalSearchText(entry), query));
+  }
+
+  public async rank(queryTerms: SearchTerm[], limit: number): Promise<Journal[]> {
+    return (await this.getAll())
+      .map(entry => ({ entry, score: countMatches(queryTerms, extractSearchKeys(journalSearchText(entry))) }))
+      .filter(match => match.score > 0)
+      // The sort is stable, so entries with equal scores stay newest first
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(match => match.entry);
+  }
+}
+
+/**
+ * Chat memories stored one per key. Lookups go through the in-memory
+ * keyword index, which is filled from storage once per session and kept up
+ * to date on every save and removal.
+ */
+class AsyncStorageMemoryRepository implements MemoryRepository {
+  private keywordIndexLoad: Promise<void> | null = null;
+
+  public async getAll(): Promise<MemoryItem[]> {
+    const allKeys = await AsyncStorage.getAllKeys();
+    const memoryKeys = allKeys.filter(key =>
+      key.startsWith(MEMORY_KEY_PREFIX) && !key.startsWith(LEGACY_MEMORY_INDEX_KEY_PREFIX)
+    );
+    const memories = await readMany(memoryKeys);
+    return memories.flatMap(([, data]) => {
+      const memory = data ? JSON.parse(data) : null;
+      return memory && typeof memory.content === 'string' ? [memory as MemoryItem] : [];
+    });
+  }
+
+  public async getByIds(ids: string[]): Promise<MemoryItem[]> {
+    const memories = await readMany(ids.map(id => `${MEMORY_KEY_PREFIX}${id}`));
+    return memories.flatMap(([, data]) => (data ? [JSON.parse(data) as MemoryItem] : []));
+  }
+
+  public async save(memories: MemoryItem[]): Promise<void> {
+    if (memories.length === 0) return;
+
+    await AsyncStorage.multiSet(memories.map(memory => [
+      `${MEMORY_KEY_PREFIX}${memory.id}`,
+      JSON.stringify(memory)
+    ]));
+
+    // An index that is not loaded yet will read the memories from storage
+    if (keywordIndex.isLoaded() || this.keywordIndexLoad) {
+      await this.ensureKeywordIndex();
+      memories.forEach(memory => keywordIndex.add(this.toKeywordDocument(memory)));
+    }
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await AsyncStorage.multiRemove(ids.map(id => `${MEMORY_KEY_PREFIX}${id}`));
+    if (keywordIndex.isLoaded() || this.keywordIndexLoad) {
+      await this.ensureKeywordIndex();
+      keywordIndex.remove(ids);
+    }
+  }
+
+  public async removeConversation(conversationId: string): Promise<string[]> {
+    await this.ensureKeywordIndex();
+    const indexKey = `${LEGACY_MEMORY_INDEX_KEY_PREFIX}${conversationId}`;
+    const legacyIndex = await AsyncStorage.getItem(indexKey);
+    const ids = Array.from(new Set([
+      ...keywordIndex.getConversationIds(conversationId),
+      ...(legacyIndex ? (JSON.parse(legacyIndex) as string[]) : [])
+    ]));
+
+    await this.remove(ids);
+    await AsyncStorage.removeItem(indexKey);
+    return ids;
+  }
+
+  public async list(limit: number): Promise<MemoryItem[]> {
+    await this.ensureKeywordIndex();
+    return this.getByIds(keywordIndex.list(['system']).slice(0, limit));
+  }
+
+  public async getPinned(): Promise<MemoryItem[]> {
+    await this.ensureKeywordIndex();
+    return this.getByIds(keywordIndex.getPinnedIds());
+  }
+
+  public async search(queryTerms: SearchTerm[], limit: number, matchAll: boolean = false): Promise<MemoryItem[]> {
+    await this.ensureKeywordIndex();
+    const matches = keywordIndex.search(queryTerms, matchAll ? Number.MAX_SAFE_INTEGER : limit, ['system'])
+      .filter(match => !matchAll || match.score === queryTerms.length)
+      .slice(0, limit);
+
+    return this.getByIds(matches.map(match => match.id));
+  }
+
+  /**
+   * Loads all stored memories into the keyword index once per session
+   */
+  private async ensureKeywordIndex(): Promise<void> {
+    if (keywordIndex.isLoaded()) return;
+
+    if (!this.keywordIndexLoad) {
+      this.keywordIndexLoad = this.loadKeywordIndex().finally(() => {
+        this.keywordIndexLoad = null;
+      });
+    }
+    await this.keywordIndexLoad;
+  }
+
+  private async loadKeywordIndex(): Promise<void> {
+    const memories = await this.getAll();
+    keywordIndex.load(memories.map(memory => this.toKeywordDocument(memory)));
+  }
+
+  private toKeywordDocument(memory: MemoryItem): KeywordDocument {
+    return {
+      id: memory.id,
+      conversationId: memory.conversationId,
+      role: memory.role,
+      timestamp: memory.timestamp,
+      pinned: Boolean(memory.pinned),
+      // Stored keywords may predate stemming, so they are recomputed
+      keys: extractSearchKeys(memory.content)
+    };
+  }
+}
+
+/**
+ * Storage engine on AsyncStorage: each collection is a JSON list under its
+ * key in STORAGE_KEYS, and each chat memory has a key of its own
+ */
+export class AsyncStorageEngine implements StorageEngine {
+  public readonly id = 'asyncstorage' as const;
+  public readonly tasks = new AsyncStorageRepository<Task>(STORAGE_KEYS.tasks, 'newest_first');
+  public readonly habits = new AsyncStorageRepository<Habit>(STORAGE_KEYS.habits, 'newest_first');
+  public readonly goals = new AsyncStorageRepository<Goal>(STORAGE_KEYS.goals, 'oldest_first');
+  public readonly journal = new AsyncStorageJournalRepository();
+  public readonly memories = new AsyncStorageMemoryRepository();
+
+  public async getSchemaVersion(): Promise<number> {
+    return Number(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)) || 0;
+  }
+
+  public async setSchemaVersion(version: number): Promise<void> {
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+  }
+}
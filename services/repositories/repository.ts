@@ -0,0 +1,88 @@
+import { MemoryItem } from '@/types/ai';
+import { Goal, Habit, Journal, Task } from '@/types/app';
+import { SearchTerm } from '@/services/textNormalization';
+
+/**
+ * Record of a collection; records are stored and replaced whole
+ */
+export interface StoredRecord {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Storage of one collection of records. Writes go to the records they name,
+ * so saving one task does not rewrite the others.
+ */
+export interface Repository<T extends StoredRecord> {
+  // All records in the collection's display order
+  getAll(): Promise<T[]>;
+  // Records in the order of the IDs; missing ones are skipped
+  getByIds(ids: string[]): Promise<T[]>;
+  // Inserts new records and replaces existing ones with the same IDs
+  save(records: T[]): Promise<void>;
+  /**
+   * Changes one record. No other write to the collection runs between
+   * reading and writing it, so quick changes in a row are not lost.
+   * @param change Gets the stored record and returns the new one
+   * @returns The saved record, or null when there is no such record
+   */
+  update(id: string, change: (record: T) => T): Promise<T | null>;
+  remove(ids: string[]): Promise<void>;
+}
+
+// Text of a journal entry that search and ranking look at
+export const journalSearchText = (entry: Journal): string =>
+  `${entry.title} ${entry.content} ${(entry.tags || []).join(' ')}`;
+
+export interface JournalRepository extends Repository<Journal> {
+  // Newest entries
+  getRecent(limit: number): Promise<Journal[]>;
+  getByTag(tag: string): Promise<Journal[]>;
+  // Entries containing every word of the query in any form, newest first
+  search(query: string): Promise<Journal[]>;
+  // Entries sharing the most terms with a query, newest first among equal
+  rank(queryTerms: SearchTerm[], limit: number): Promise<Journal[]>;
+}
+
+/**
+ * Storage of chat memories. System memories are stored but never listed
+ * or found by search.
+ */
+export interface MemoryRepository {
+  getAll(): Promise<MemoryItem[]>;
+  getByIds(ids: string[]): Promise<MemoryItem[]>;
+  save(memories: MemoryItem[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  // Removes the memories of a conversation and returns their IDs
+  removeConversation(conversationId: string): Promise<string[]>;
+  // Pinned memories first, then newest first
+  list(limit: number): Promise<MemoryItem[]>;
+  getPinned(): Promise<MemoryItem[]>;
+  /**
+   * Finds memories containing the most query terms, newest first among
+   * equal scores
+   * @param queryTerms Terms of the query from analyzeText
+   * @param matchAll Only return memories containing every term
+   */
+  search(queryTerms: SearchTerm[], limit: number, matchAll?: boolean): Promise<MemoryItem[]>;
+}
+
+export type StorageEngineId = 'asyncstorage' | 'sqlite';
+
+/**
+ * Storage of the user's data. Tasks and habits are listed newest first,
+ * goals in the order they were created.
+ */
+export interface StorageEngine {
+  readonly id: StorageEngineId;
+  tasks: Repository<Task>;
+  habits: Repository<Habit>;
+  goals: Repository<Goal>;
+  journal: JournalRepository;
+  memories: MemoryRepository;
+  // Version of the data format the engine holds, see services/migrations.ts;
+  // 0 before any migration
+  getSchemaVersion(): Promise<number>;
+  setSchemaVersion(version: number): Promise<void>;
+}
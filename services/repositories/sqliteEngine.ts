@@ -0,0 +1,495 @@
+import { openDatabaseAsync, SQLiteBindValue, SQLiteDatabase } from 'expo-sqlite';
+import { MemoryItem } from '@/types/ai';
+import { Goal, Habit, Journal, Task } from '@/types/app';
+import { analyzeText, extractSearchKeys, MIN_PREFIX_LENGTH, SearchTerm } from '@/services/textNormalization';
+import { AsyncStorageEngine } from './asyncStorageEngine';
+import {
+  journalSearchText,
+  JournalRepository,
+  MemoryRepository,
+  Repository,
+  StorageEngine,
+  StoredRecord
+} from './repository';
+
+const DATABASE_NAME = 'berserk.db';
+
+// Changes of the database schema in order; PRAGMA user_version holds how
+// many are applied. Records are kept whole in `data`; the columns next to
+// it are what the app sorts and looks records up by.
+const SCHEMA_CHANGES: string[] = [
+  `
+  CREATE TABLE tasks (
+    id TEXT PRIMARY KEY NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX tasks_by_created_at ON tasks (created_at);
+
+  CREATE TABLE habits (
+    id TEXT PRIMARY KEY NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX habits_by_created_at ON habits (created_at);
+
+  CREATE TABLE goals (
+    id TEXT PRIMARY KEY NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX goals_by_created_at ON goals (created_at);
+
+  CREATE TABLE journal_entries (
+    id TEXT PRIMARY KEY NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX journal_entries_by_created_at ON journal_entries (created_at);
+
+  CREATE TABLE journal_tags (
+    tag TEXT NOT NULL,
+    entry_id TEXT NOT NULL REFERENCES journal_entries (id) ON DELETE CASCADE,
+    PRIMARY KEY (tag, entry_id)
+  ) WITHOUT ROWID;
+  CREATE INDEX journal_tags_by_entry ON journal_tags (entry_id);
+
+  -- Stems and transliteration keys of each entry's title, text and tags
+  CREATE TABLE journal_terms (
+    term TEXT NOT NULL,
+    entry_id TEXT NOT NULL REFERENCES journal_entries (id) ON DELETE CASCADE,
+    PRIMARY KEY (term, entry_id)
+  ) WITHOUT ROWID;
+  CREATE INDEX journal_terms_by_entry ON journal_terms (entry_id);
+
+  CREATE TABLE memories (
+    id TEXT PRIMARY KEY NOT NULL,
+    conversation_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    pinned INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX memories_by_conversation ON memories (conversation_id);
+  CREATE INDEX memories_by_pinned ON memories (pinned, timestamp);
+
+  CREATE TABLE memory_terms (
+    term TEXT NOT NULL,
+    memory_id TEXT NOT NULL REFERENCES memories (id) ON DELETE CASCADE,
+    PRIMARY KEY (term, memory_id)
+  ) WITHOUT ROWID;
+  CREATE INDEX memory_terms_by_memory ON memory_terms (memory_id);
+
+  CREATE TABLE engine_state (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+  `
+];
+
+/**
+ * Database connection shared by the repositories. Writes run in
+ * transactions, one after another, so a read-modify-write never
+ * interleaves with another write.
+ */
+class Connection {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(public readonly db: SQLiteDatabase) {}
+
+  public write<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.writeQueue.then(async () => {
+      let result: R | undefined;
+      await this.db.withTransactionAsync(async () => {
+        result = await task();
+      });
+      return result as R;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+const parseRows = <T>(rows: { data: string }[]): T[] => rows.map(row => JSON.parse(row.data) as T);
+
+// Query terms as [term position, stem or key] pairs, for json_each
+const toQueryPairs = (queryTerms: SearchTerm[]): string =>
+  JSON.stringify(queryTerms.flatMap((term, position) => [[position, term.stem], [position, term.key]]));
+
+/**
+ * Collection in a table with the record's id, creation time and JSON
+ */
+class SQLiteRepository<T extends StoredRecord> implements Repository<T> {
+  constructor(
+    protected connection: Connection,
+    protected table: string,
+    private order: 'ASC' | 'DESC'
+  ) {}
+
+  public async getAll(): Promise<T[]> {
+    return parseRows<T>(await this.connection.db.getAllAsync<{ data: string }>(
+      `SELECT data FROM ${this.table} ORDER BY created_at ${this.order}, rowid`
+    ));
+  }
+
+  public async getByIds(ids: string[]): Promise<T[]> {
+    if (ids.length === 0) return [];
+
+    const records = parseRows<T>(await this.connection.db.getAllAsync<{ data: string }>(
+      `SELECT data FROM ${this.table} WHERE id IN (SELECT value FROM json_each(?))`,
+      JSON.stringify(ids)
+    ));
+    const recordsById = new Map(records.map(record => [record.id, record]));
+    return ids.flatMap(id => recordsById.get(id) || []);
+  }
+
+  public async save(records: T[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.connection.write(async () => {
+      for (const record of records) {
+        await this.writeRecord(record);
+      }
+    });
+  }
+
+  public update(id: string, change: (record: T) => T): Promise<T | null> {
+    return this.connection.write(async () => {
+      const row = await this.connection.db.getFirstAsync<{ data: string }>(
+        `SELECT data FROM ${this.table} WHERE id = ?`,
+        id
+      );
+      if (!row) return null;
+
+      const updated = change(JSON.parse(row.data) as T);
+      await this.writeRecord(updated);
+      return updated;
+    });
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    // Rows that refer to the record are removed by ON DELETE CASCADE
+    await this.connection.write(async () => {
+      await this.connection.db.runAsync(
+        `DELETE FROM ${this.table} WHERE id IN (SELECT value FROM json_each(?))`,
+        JSON.stringify(ids)
+      );
+    });
+  }
+
+  /**
+   * Inserts or replaces the record's row; runs inside a write transaction.
+   * An upsert keeps the rowid, which orders records created at the same time.
+   */
+  protected async writeRecord(record: T): Promise<void> {
+    await this.connection.db.runAsync(
+      `INSERT INTO ${this.table} (id, created_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET created_at = excluded.created_at, data = excluded.data`,
+      record.id,
+      record.createdAt,
+      JSON.stringify(record)
+    );
+  }
+}
+
+/**
+ * Journal with its tags and search terms in indexed tables, so search,
+ * ranking and tag lookups do not read every entry
+ */
+class SQLiteJournalRepository extends SQLiteRepository<Journal> implements JournalRepository {
+  constructor(connection: Connection) {
+    super(connection, 'journal_entries', 'DESC');
+  }
+
+  public async getRecent(limit: number): Promise<Journal[]> {
+    return parseRows<Journal>(await this.connection.db.getAllAsync<{ data: string }>(
+      'SELECT data FROM journal_entries ORDER BY created_at DESC, rowid LIMIT ?',
+      limit
+    ));
+  }
+
+  public async getByTag(tag: string): Promise<Journal[]> {
+    return parseRows<Journal>(await this.connection.db.getAllAsync<{ data: string }>(
+      `SELECT e.data FROM journal_tags t
+       JOIN journal_entries e ON e.id = t.entry_id
+       WHERE t.tag = ?
+       ORDER BY e.created_at DESC, e.rowid`,
+      tag
+    ));
+  }
+
+  public async search(query: string): Promise<Journal[]> {
+    const queryTerms = analyzeText(query);
+    if (queryTerms.length === 0) return [];
+
+    // Each query word selects the entries containing it in any form, as a
+    // whole word or, while typing, as the start of a longer one
+    const params: SQLiteBindValue[] = [];
+    const selects = queryTerms.map(term => {
+      const conditions = ['term IN (?, ?)'];
+      params.push(term.stem, term.key);
+      for (const prefix of [term.stem, term.key]) {
+        if (prefix.length < MIN_PREFIX_LENGTH) continue;
+        conditions.push('(term >= ? AND term < ?)');
+        params.push(prefix, `${prefix}\uffff`);
+      }
+      return `SELECT entry_id FROM journal_terms WHERE ${conditions.join(' OR ')}`;
+    });
+
+    return parseRows<Journal>(await this.connection.db.getAllAsync<{ data: string }>(
+      `SELECT data FROM journal_entries
+       WHERE id IN (${selects.join(' INTERSECT ')})
+       ORDER BY created_at DESC, rowid`,
+      params
+    ));
+  }
+
+  public async rank(queryTerms: SearchTerm[], limit: number): Promise<Journal[]> {
+    if (queryTerms.length === 0) return [];
+
+    return parseRows<Journal>(await this.connection.db.getAllAsync<{ data: string }>(
+      `WITH query AS (
+         SELECT json_extract(value, '$[0]') AS position, json_extract(value, '$[1]') AS term
+         FROM json_each(?)
+       )
+       SELECT e.data FROM query q
+       JOIN journal_terms t ON t.term = q.term
+       JOIN journal_entries e ON e.id = t.entry_id
+       GROUP BY e.id
+       ORDER BY COUNT(DISTINCT q.position) DESC, e.created_at DESC
+       LIMIT ?`,
+      toQueryPairs(queryTerms),
+      limit
+    ));
+  }
+
+  protected async writeRecord(entry: Journal): Promise<void> {
+    await super.writeRecord(entry);
+
+    const { db } = this.connection;
+    await db.runAsync('DELETE FROM journal_terms WHERE entry_id = ?', entry.id);
+    await db.runAsync(
+      'INSERT INTO journal_terms (term, entry_id) SELECT DISTINCT value, ? FROM json_each(?)',
+      entry.id,
+      JSON.stringify(extractSearchKeys(journalSearchText(entry)))
+    );
+    await db.runAsync('DELETE FROM journal_tags WHERE entry_id = ?', entry.id);
+    await db.runAsync(
+      'INSERT INTO journal_tags (tag, entry_id) SELECT DISTINCT value, ? FROM json_each(?)',
+      entry.id,
+      JSON.stringify(entry.tags || [])
+    );
+  }
+}
+
+/**
+ * Chat memories with their search terms in an indexed table
+ */
+class SQLiteMemoryRepository implements MemoryRepository {
+  constructor(private connection: Connection) {}
+
+  public async getAll(): Promise<MemoryItem[]> {
+    return parseRows<MemoryItem>(await this.connection.db.getAllAsync<{ data: string }>(
+      'SELECT data FROM memories'
+    ));
+  }
+
+  public async getByIds(ids: string[]): Promise<MemoryItem[]> {
+    if (ids.length === 0) return [];
+
+    const memories = parseRows<MemoryItem>(await this.connection.db.getAllAsync<{ data: string }>(
+      'SELECT data FROM memories WHERE id IN (SELECT value FROM json_each(?))',
+      JSON.stringify(ids)
+    ));
+    const memoriesById = new Map(memories.map(memory => [memory.id, memory]));
+    return ids.flatMap(id => memoriesById.get(id) || []);
+  }
+
+  public async save(memories: MemoryItem[]): Promise<void> {
+    if (memories.length === 0) return;
+
+    const { db } = this.connection;
+    await this.connection.write(async () => {
+      for (const memory of memories) {
+        await db.runAsync(
+          `INSERT INTO memories (id, conversation_id, role, pinned, timestamp, data) VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET
+             conversation_id = excluded.conversation_id, role = excluded.role, pinned = excluded.pinned,
+             timestamp = excluded.timestamp, data = excluded.data`,
+          memory.id,
+          memory.conversationId,
+          memory.role,
+          memory.pinned ? 1 : 0,
+          memory.timestamp,
+          JSON.stringify(memory)
+        );
+        // Stored keywords may predate stemming, so they are recomputed
+        await db.runAsync('DELETE FROM memory_terms WHERE memory_id = ?', memory.id);
+        await db.runAsync(
+          'INSERT INTO memory_terms (term, memory_id) SELECT DISTINCT value, ? FROM json_each(?)',
+          memory.id,
+          JSON.stringify(extractSearchKeys(memory.content))
+        );
+      }
+    });
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.connection.write(async () => {
+      await this.connection.db.runAsync(
+        'DELETE FROM memories WHERE id IN (SELECT value FROM json_each(?))',
+        JSON.stringify(ids)
+      );
+    });
+  }
+
+  public removeConversation(conversationId: string): Promise<string[]> {
+    const { db } = this.connection;
+    return this.connection.write(async () => {
+      const rows = await db.getAllAsync<{ id: string }>(
+        'SELECT id FROM memories WHERE conversation_id = ?',
+        conversationId
+      );
+      await db.runAsync('DELETE FROM memories WHERE conversation_id = ?', conversationId);
+      return rows.map(row => row.id);
+    });
+  }
+
+  public async list(limit: number): Promise<MemoryItem[]> {
+    return parseRows<MemoryItem>(await this.connection.db.getAllAsync<{ data: string }>(
+      `SELECT data FROM memories WHERE role != 'system' ORDER BY pinned DESC, timestamp DESC LIMIT ?`,
+      limit
+    ));
+  }
+
+  public async getPinned(): Promise<MemoryItem[]> {
+    return parseRows<MemoryItem>(await this.connection.db.getAllAsync<{ data: string }>(
+      'SELECT data FROM memories WHERE pinned = 1 ORDER BY timestamp DESC'
+    ));
+  }
+
+  public async search(queryTerms: SearchTerm[], limit: number, matchAll: boolean = false): Promise<MemoryItem[]> {
+    if (queryTerms.length === 0) return [];
+
+    return parseRows<MemoryItem>(await this.connection.db.getAllAsync<{ data: string }>(
+      `WITH query AS (
+         SELECT json_extract(value, '$[0]') AS position, json_extract(value, '$[1]') AS term
+         FROM json_each(?)
+       )
+       SELECT m.data FROM query q
+       JOIN memory_terms t ON t.term = q.term
+       JOIN memories m ON m.id = t.memory_id
+       WHERE m.role != 'system'
+       GROUP BY m.id
+       HAVING COUNT(DISTINCT q.position) >= ?
+       ORDER BY COUNT(DISTINCT q.position) DESC, m.timestamp DESC
+       LIMIT ?`,
+      toQueryPairs(queryTerms),
+      matchAll ? queryTerms.length : 1,
+      limit
+    ));
+  }
+}
+
+/**
+ * Storage engine on SQLite: each collection is a table, and writes are
+ * transactions that touch only the records they change
+ */
+export class SQLiteEngine implements StorageEngine {
+  public readonly id = 'sqlite' as const;
+  public readonly tasks: Repository<Task>;
+  public readonly habits: Repository<Habit>;
+  public readonly goals: Repository<Goal>;
+  public readonly journal: JournalRepository;
+  public readonly memories: MemoryRepository;
+
+  private constructor(private connection: Connection) {
+    this.tasks = new SQLiteRepository<Task>(connection, 'tasks', 'DESC');
+    this.habits = new SQLiteRepository<Habit>(connection, 'habits', 'DESC');
+    this.goals = new SQLiteRepository<Goal>(connection, 'goals', 'ASC');
+    this.journal = new SQLiteJournalRepository(connection);
+    this.memories = new SQLiteMemoryRepository(connection);
+  }
+
+  /**
+   * Opens the database and brings its tables to the current schema. On the
+   * first start the data stored in AsyncStorage is copied into it; the
+   * AsyncStorage copy is left as it was.
+   */
+  public static async open(): Promise<SQLiteEngine> {
+    const db = await openDatabaseAsync(DATABASE_NAME);
+    await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+
+    const { user_version: schemaVersion } =
+      (await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version')) || { user_version: 0 };
+    for (let version = schemaVersion; version < SCHEMA_CHANGES.length; version++) {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(SCHEMA_CHANGES[version]);
+        await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+      });
+    }
+
+    const engine = new SQLiteEngine(new Connection(db));
+    await engine.importAsyncStorageData();
+    return engine;
+  }
+
+  /**
+   * Version of the data format of the records; the data is imported at
+   * the version AsyncStorage had, then migrated here on its own
+   */
+  public async getSchemaVersion(): Promise<number> {
+    const row = await this.connection.db.getFirstAsync<{ value: string }>(
+      `SELECT value FROM engine_state WHERE key = 'schema_version'`
+    );
+    return Number(row?.value) || 0;
+  }
+
+  public async setSchemaVersion(version: number): Promise<void> {
+    await this.connection.write(async () => {
+      await this.writeSchemaVersion(version);
+    });
+  }
+
+  /**
+   * Copies every collection from AsyncStorage once, with the version of
+   * its format. Saves are upserts, so an import interrupted halfway is
+   * simply run again on the next start.
+   */
+  private async importAsyncStorageData(): Promise<void> {
+    const { db } = this.connection;
+    const imported = await db.getFirstAsync<{ value: string }>(
+      `SELECT value FROM engine_state WHERE key = 'imported_at'`
+    );
+    if (imported) return;
+
+    const source = new AsyncStorageEngine();
+    await this.tasks.save(await source.tasks.getAll());
+    await this.habits.save(await source.habits.getAll());
+    await this.goals.save(await source.goals.getAll());
+    await this.journal.save(await source.journal.getAll());
+    await this.memories.save(await source.memories.getAll());
+
+    const schemaVersion = await source.getSchemaVersion();
+    await this.connection.write(async () => {
+      await this.writeSchemaVersion(schemaVersion);
+      await db.runAsync(
+        `INSERT INTO engine_state (key, value) VALUES ('imported_at', ?)`,
+        new Date().toISOString()
+      );
+    });
+    console.log('Copied the AsyncStorage data into SQLite');
+  }
+
+  private async writeSchemaVersion(version: number): Promise<void> {
+    await this.connection.db.runAsync(
+      `INSERT INTO engine_state (key, value) VALUES ('schema_version', ?)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value`,
+      String(version)
+    );
+  }
+}
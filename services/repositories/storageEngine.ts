@@ -0,0 +1,44 @@
+import Constants from 'expo-constants';
+import { AsyncStorageEngine } from './asyncStorageEngine';
+import { StorageEngine, StorageEngineId } from './repository';
+import { SQLiteEngine } from './sqliteEngine';
+
+// AsyncStorage serves until the configured engine is open
+let engine: StorageEngine = new AsyncStorageEngine();
+
+/**
+ * Engine chosen with STORAGE_ENGINE in the app config; AsyncStorage by default
+ */
+export function getConfiguredStorageEngineId(): StorageEngineId {
+  return Constants.expoConfig?.extra?.STORAGE_ENGINE === 'sqlite' ? 'sqlite' : 'asyncstorage';
+}
+
+/**
+ * Opens the storage engine the app keeps its data in. Runs once at startup,
+ * after the storage migrations; services that read repositories on their
+ * own, such as the AI core, are started after it resolves. When SQLite
+ * cannot be opened, the data stays in AsyncStorage.
+ * @param id Engine to open; the configured one by default
+ * @returns The engine in use
+ */
+export async function openStorageEngine(id: StorageEngineId = getConfiguredStorageEngineId()): Promise<StorageEngine> {
+  if (engine.id === id) return engine;
+
+  if (id === 'sqlite') {
+    try {
+      engine = await SQLiteEngine.open();
+    } catch (error) {
+      console.error('Failed to open SQLite storage, keeping AsyncStorage:', error);
+    }
+  } else {
+    engine = new AsyncStorageEngine();
+  }
+  return engine;
+}
+
+/**
+ * Repositories of the engine in use
+ */
+export function getStorageEngine(): StorageEngine {
+  return engine;
+}
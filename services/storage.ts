@@ -30,3 +30,53 @@ export async function clearMessages() {
     console.error('Ошибка очистки:', err);
   }
 }
+
+const MULTI_GET_BATCH_SIZE = 500;
+
+// Чтение множества ключей пакетами: один запрос к хранилищу на пакет, а не на каждый ключ
+export async function readMany(keys: string[]): Promise<[string, string | null][]> {
+  const results: [string, string | null][] = [];
+  for (let start = 0; start < keys.length; start += MULTI_GET_BATCH_SIZE) {
+    const batch = await AsyncStorage.multiGet(keys.slice(start, start + MULTI_GET_BATCH_SIZE));
+    results.push(...batch);
+  }
+  return results;
+}
+
+// Префикс ключа, под которым сохраняется нечитаемое значение
+const CORRUPT_BACKUP_PREFIX = 'corrupt_';
+
+// Чтение JSON-значения. Нечитаемое значение или значение не той формы
+// копируется под резервный ключ, чтобы его не затёрла следующая запись,
+// а вместо него возвращается fallback
+export async function readJSON<T>(
+  key: string,
+  fallback: T,
+  isValid: (value: unknown) => boolean = () => true
+): Promise<T> {
+  const raw = await AsyncStorage.getItem(key);
+  if (raw === null) return fallback;
+
+  try {
+    const value = JSON.parse(raw);
+    if (isValid(value)) return value;
+  } catch {
+    // Сохраняется ниже вместе со значениями не той формы
+  }
+
+  const backupKey = `${CORRUPT_BACKUP_PREFIX}${key}`;
+  console.error(`Нечитаемое значение ${key} сохранено под ключом ${backupKey}`);
+  if ((await AsyncStorage.getItem(backupKey)) === null) {
+    await AsyncStorage.setItem(backupKey, raw);
+  }
+  return fallback;
+}
+
+// Чтение списка; вместо отсутствующего или повреждённого списка — пустой
+export async function readList<T>(key: string): Promise<T[]> {
+  return readJSON<T[]>(key, [], Array.isArray);
+}
+
+export async function writeJSON(key: string, value: unknown): Promise<void> {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+}
@@ -0,0 +1,14 @@
+/**
+ * Storage keys of the user's data. Each key holds a JSON list of the
+ * matching model from types/app.ts; services and store slices use these
+ * constants instead of their own string literals.
+ */
+export const STORAGE_KEYS = {
+  tasks: 'berserk_tasks', // Task[]
+  habits: 'berserk_habits', // Habit[]
+  goals: 'berserk_goals', // Goal[], flat: subgoals are linked by parentId and children
+  goalInsights: 'berserk_insights', // string[]
+  journal: 'berserk_journal_entries', // Journal[]
+  journalTags: 'berserk_journal_tags', // string[]
+  metrics: 'berserk_metrics' // Metric data points
+} as const;
@@ -0,0 +1,458 @@
+/**
+ * Text normalization shared by memory, journal and task search. Words are
+ * folded (case, ё/е), stop words are dropped, and each remaining word is
+ * reduced to a Snowball stem for its language plus a transliteration key,
+ * so "тренировки", "Тренировка" and "trenirovka" all match each other.
+ */
+
+/**
+ * Normalized form of one word
+ */
+export interface SearchTerm {
+  stem: string; // Snowball stem in the word's own script
+  key: string; // Latin skeleton of the Russian reading, equal across scripts
+}
+
+// Snowball stop-word lists
+const RUSSIAN_STOP_WORDS = new Set([
+  'и', 'в', 'во', 'не', 'что', 'он', 'на', 'я', 'с', 'со', 'как', 'а', 'то', 'все', 'она', 'так',
+  'его', 'но', 'да', 'ты', 'к', 'у', 'же', 'вы', 'за', 'бы', 'по', 'только', 'ее', 'мне', 'было',
+  'вот', 'от', 'меня', 'еще', 'нет', 'о', 'из', 'ему', 'теперь', 'когда', 'даже', 'ну', 'вдруг',
+  'ли', 'если', 'уже', 'или', 'ни', 'быть', 'был', 'него', 'до', 'вас', 'нибудь', 'опять', 'уж',
+  'вам', 'ведь', 'там', 'потом', 'себя', 'ничего', 'ей', 'может', 'они', 'тут', 'где', 'есть',
+  'надо', 'ней', 'для', 'мы', 'тебя', 'их', 'чем', 'была', 'сам', 'чтоб', 'без', 'будто', 'чего',
+  'раз', 'тоже', 'себе', 'под', 'будет', 'ж', 'тогда', 'кто', 'этот', 'того', 'потому', 'этого',
+  'какой', 'совсем', 'ним', 'здесь', 'этом', 'один', 'почти', 'мой', 'тем', 'чтобы', 'нее',
+  'сейчас', 'были', 'куда', 'зачем', 'всех', 'никогда', 'можно', 'при', 'наконец', 'два', 'об',
+  'другой', 'хоть', 'после', 'над', 'больше', 'тот', 'через', 'эти', 'нас', 'про', 'всего',
+  'них', 'какая', 'много', 'разве', 'три', 'эту', 'моя', 'впрочем', 'хорошо', 'свою', 'этой',
+  'перед', 'иногда', 'лучше', 'чуть', 'том', 'нельзя', 'такой', 'им', 'более', 'всегда',
+  'конечно', 'всю', 'между', 'это', 'который', 'которая', 'которые', 'которое'
+]);
+
+const ENGLISH_STOP_WORDS = new Set([
+  'i', 'me', 'my', 'myself', 'we', 'our', 'ours', 'ourselves', 'you', 'your', 'yours', 'yourself',
+  'yourselves', 'he', 'him', 'his', 'himself', 'she', 'her', 'hers', 'herself', 'it', 'its',
+  'itself', 'they', 'them', 'their', 'theirs', 'themselves', 'what', 'which', 'who', 'whom',
+  'this', 'that', 'these', 'those', 'am', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+  'have', 'has', 'had', 'having', 'do', 'does', 'did', 'doing', 'would', 'should', 'could',
+  'ought', 'will', 'shall', 'can', 'may', 'might', 'must', 'a', 'an', 'the', 'and', 'but', 'if',
+  'or', 'because', 'as', 'until', 'while', 'of', 'at', 'by', 'for', 'with', 'about', 'against',
+  'between', 'into', 'through', 'during', 'before', 'after', 'above', 'below', 'to', 'from',
+  'up', 'down', 'in', 'out', 'on', 'off', 'over', 'under', 'again', 'further', 'then', 'once',
+  'here', 'there', 'when', 'where', 'why', 'how', 'all', 'any', 'both', 'each', 'few', 'more',
+  'most', 'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own', 'same', 'so', 'than',
+  'too', 'very', 'just', 'also', 'now', 'im', 'ive', 'dont', 'doesnt', 'didnt', 'cant', 'wont',
+  'isnt', 'arent', 'wasnt', 'werent'
+]);
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ж: 'zh', з: 'z', и: 'i', й: 'i', к: 'k',
+  л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'h',
+  ц: 'c', ч: 'ch', ш: 'sh', щ: 'sh', ъ: '', ы: 'i', ь: '', э: 'e', ю: 'iu', я: 'ia'
+};
+
+// Longest spellings first so digraphs win over single letters
+const LATIN_TO_CYRILLIC: [string, string][] = [
+  ['shch', 'щ'], ['sch', 'щ'], ['zh', 'ж'], ['kh', 'х'], ['ch', 'ч'], ['sh', 'ш'], ['ts', 'ц'],
+  ['yu', 'ю'], ['ju', 'ю'], ['iu', 'ю'], ['ya', 'я'], ['ja', 'я'], ['ia', 'я'], ['yo', 'е'],
+  ['jo', 'е'], ['ye', 'е'], ['a', 'а'], ['b', 'б'], ['c', 'ц'], ['d', 'д'], ['e', 'е'], ['f', 'ф'],
+  ['g', 'г'], ['h', 'х'], ['i', 'и'], ['j', 'й'], ['k', 'к'], ['l', 'л'], ['m', 'м'], ['n', 'н'],
+  ['o', 'о'], ['p', 'п'], ['q', 'к'], ['r', 'р'], ['s', 'с'], ['t', 'т'], ['u', 'у'], ['v', 'в'],
+  ['w', 'в'], ['x', 'кс'], ['y', 'ы'], ['z', 'з']
+];
+
+// Shorter query words only match whole words
+export const MIN_PREFIX_LENGTH = 3;
+
+/**
+ * Lowercases text, folds ё to е and replaces everything except letters and
+ * digits with single spaces
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    // Decomposition splits й into и and a breve; keep й, drop other accents (ё becomes е)
+    .replace(/и\u0306/g, 'й')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Splits text into normalized words without stop words
+ */
+export const tokenize = (text: string): string[] =>
+  normalizeText(text)
+    .split(' ')
+    .filter(word => word.length > 1 && !RUSSIAN_STOP_WORDS.has(word) && !ENGLISH_STOP_WORDS.has(word));
+
+const isCyrillic = (word: string): boolean => /[а-я]/.test(word);
+
+/**
+ * Reduces a normalized word to its stem with the stemmer for its script
+ */
+export const stemWord = (word: string): string =>
+  isCyrillic(word) ? stemRussian(word) : /^[a-z]+$/.test(word) ? stemEnglish(word) : word;
+
+/**
+ * Reads a Latin word as Russian transliteration
+ */
+const toCyrillic = (word: string): string => {
+  let result = '';
+  let i = 0;
+  while (i < word.length) {
+    const match = LATIN_TO_CYRILLIC.find(([latin]) => word.startsWith(latin, i));
+    if (match) {
+      result += match[1];
+      i += match[0].length;
+    } else {
+      result += word[i];
+      i++;
+    }
+  }
+  return result;
+};
+
+/**
+ * Builds a Latin skeleton of a Russian stem; spellings that differ only by
+ * transliteration convention produce the same skeleton
+ */
+const toKey = (cyrillicStem: string): string =>
+  Array.from(cyrillicStem, char => CYRILLIC_TO_LATIN[char] ?? char)
+    .join('')
+    .replace(/(.)\1+/g, '$1');
+
+/**
+ * Normalizes a word into its search term
+ */
+const toTerm = (word: string): SearchTerm => {
+  if (isCyrillic(word)) {
+    const stem = stemRussian(word);
+    return { stem, key: toKey(stem) };
+  }
+  if (/^[a-z]+$/.test(word)) {
+    return { stem: stemEnglish(word), key: toKey(stemRussian(toCyrillic(word))) };
+  }
+  return { stem: word, key: word };
+};
+
+/**
+ * Normalizes text into unique search terms
+ */
+export const analyzeText = (text: string): SearchTerm[] => {
+  const seen = new Set<string>();
+  return tokenize(text)
+    .map(toTerm)
+    .filter(term => {
+      if (seen.has(term.stem)) return false;
+      seen.add(term.stem);
+      return true;
+    });
+};
+
+/**
+ * Flat list of stems and transliteration keys of the text, for storing with
+ * an item and comparing by overlap
+ */
+export const extractSearchKeys = (text: string): string[] =>
+  Array.from(new Set(analyzeText(text).flatMap(term => [term.stem, term.key])));
+
+/**
+ * Counts the query terms that occur in the text
+ * @param queryTerms Terms of the query from analyzeText
+ * @param textKeys Keys of the text from extractSearchKeys
+ */
+export const countMatches = (queryTerms: SearchTerm[], textKeys: string[]): number => {
+  const keys = new Set(textKeys);
+  return queryTerms.filter(term => keys.has(term.stem) || keys.has(term.key)).length;
+};
+
+/**
+ * Checks whether the text contains every word of the query in any form.
+ * Query words also match as prefixes, so results appear while typing.
+ */
+export const matchesQuery = (text: string, query: string): boolean => {
+  const queryTerms = analyzeText(query);
+  if (queryTerms.length === 0) return false;
+
+  const textTerms = analyzeText(text);
+
+  return queryTerms.every(term =>
+    textTerms.some(textTerm =>
+      textTerm.stem === term.stem ||
+      textTerm.key === term.key ||
+      (term.stem.length >= MIN_PREFIX_LENGTH && textTerm.stem.startsWith(term.stem)) ||
+      (term.key.length >= MIN_PREFIX_LENGTH && textTerm.key.startsWith(term.key))
+    )
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Russian Snowball stemmer
+// https://snowballstem.org/algorithms/russian/stemmer.html
+
+const RU_VOWELS = 'аеиоуыэюя';
+
+const RU_PERFECTIVE_GERUND_1 = ['вшись', 'вши', 'в'];
+const RU_PERFECTIVE_GERUND_2 = ['ывшись', 'ившись', 'ывши', 'ивши', 'ыв', 'ив'];
+const RU_REFLEXIVE = ['ся', 'сь'];
+const RU_ADJECTIVE = [
+  'ими', 'ыми', 'его', 'ого', 'ему', 'ому', 'ее', 'ие', 'ые', 'ое', 'ей', 'ий', 'ый', 'ой', 'ем',
+  'им', 'ым', 'ом', 'их', 'ых', 'ую', 'юю', 'ая', 'яя', 'ою', 'ею'
+];
+const RU_PARTICIPLE_1 = ['ем', 'нн', 'вш', 'ющ', 'щ'];
+const RU_PARTICIPLE_2 = ['ивш', 'ывш', 'ующ'];
+const RU_VERB_1 = ['ете', 'йте', 'ешь', 'нно', 'ла', 'на', 'ли', 'ем', 'ло', 'но', 'ет', 'ют', 'ны', 'ть', 'й', 'л', 'н'];
+const RU_VERB_2 = [
+  'ейте', 'уйте', 'ила', 'ыла', 'ена', 'ите', 'или', 'ыли', 'ило', 'ыло', 'ено', 'ует', 'уют',
+  'ены', 'ить', 'ыть', 'ишь', 'ей', 'уй', 'ил', 'ыл', 'им', 'ым', 'ен', 'ят', 'ит', 'ыт', 'ую', 'ю'
+];
+const RU_NOUN = [
+  'иями', 'ями', 'ами', 'ией', 'иям', 'ием', 'иях', 'ев', 'ов', 'ие', 'ье', 'еи', 'ии', 'ей', 'ой',
+  'ий', 'ям', 'ем', 'ам', 'ом', 'ах', 'ях', 'ию', 'ью', 'ия', 'ья', 'а', 'е', 'и', 'й', 'о', 'у',
+  'ы', 'ь', 'ю', 'я'
+];
+const RU_SUPERLATIVE = ['ейше', 'ейш'];
+const RU_DERIVATIONAL = ['ость', 'ост'];
+
+/**
+ * Finds the longest suffix from the list; group 1 suffixes must follow а or я
+ * @returns Length of the matched suffix, or 0
+ */
+const findRussianSuffix = (region: string, suffixes: string[], afterAYa = false): number => {
+  let best = 0;
+  for (const suffix of suffixes) {
+    if (suffix.length <= best || !region.endsWith(suffix)) continue;
+    if (afterAYa && !'ая'.includes(region[region.length - suffix.length - 1] ?? '')) continue;
+    best = suffix.length;
+  }
+  return best;
+};
+
+/**
+ * Removes the longest suffix of either group and reports whether one was removed
+ */
+const removeRussianSuffix = (
+  region: string,
+  group1: string[],
+  group2: string[]
+): { region: string; removed: boolean } => {
+  const length = Math.max(findRussianSuffix(region, group1, true), findRussianSuffix(region, group2));
+  return { region: region.slice(0, region.length - length), removed: length > 0 };
+};
+
+export const stemRussian = (word: string): string => {
+  const rvStart = Array.from(word).findIndex(char => RU_VOWELS.includes(char)) + 1;
+  if (rvStart === 0) return word;
+
+  const prefix = word.slice(0, rvStart);
+  let rv = word.slice(rvStart);
+
+  // R2 relative to the start of RV
+  const regionAfter = (text: string, from: number): number => {
+    for (let i = from + 1; i < text.length; i++) {
+      if (!RU_VOWELS.includes(text[i]) && RU_VOWELS.includes(text[i - 1])) return i + 1;
+    }
+    return text.length;
+  };
+  const r1 = regionAfter(word, 0);
+  const r2 = regionAfter(word, r1);
+
+  // Step 1
+  const gerund = removeRussianSuffix(rv, RU_PERFECTIVE_GERUND_1, RU_PERFECTIVE_GERUND_2);
+  if (gerund.removed) {
+    rv = gerund.region;
+  } else {
+    rv = rv.slice(0, rv.length - findRussianSuffix(rv, RU_REFLEXIVE));
+
+    const adjective = findRussianSuffix(rv, RU_ADJECTIVE);
+    if (adjective > 0) {
+      rv = rv.slice(0, rv.length - adjective);
+      rv = removeRussianSuffix(rv, RU_PARTICIPLE_1, RU_PARTICIPLE_2).region;
+    } else {
+      const verb = removeRussianSuffix(rv, RU_VERB_1, RU_VERB_2);
+      rv = verb.removed ? verb.region : rv.slice(0, rv.length - findRussianSuffix(rv, RU_NOUN));
+    }
+  }
+
+  // Step 2
+  if (rv.endsWith('и')) rv = rv.slice(0, -1);
+
+  // Step 3: derivational suffixes in R2
+  const derivational = findRussianSuffix(rv, RU_DERIVATIONAL);
+  if (derivational > 0 && prefix.length + rv.length - derivational >= r2) {
+    rv = rv.slice(0, rv.length - derivational);
+  }
+
+  // Step 4
+  const superlative = findRussianSuffix(rv, RU_SUPERLATIVE);
+  if (superlative > 0) {
+    rv = rv.slice(0, rv.length - superlative);
+  }
+  if (rv.endsWith('нн')) {
+    rv = rv.slice(0, -1);
+  } else if (superlative === 0 && rv.endsWith('ь')) {
+    rv = rv.slice(0, -1);
+  }
+
+  return prefix + rv;
+};
+
+// ---------------------------------------------------------------------------
+// English Snowball (Porter2) stemmer
+// https://snowballstem.org/algorithms/english/stemmer.html
+
+const EN_VOWELS = 'aeiouy';
+const EN_DOUBLES = ['bb', 'dd', 'ff', 'gg', 'mm', 'nn', 'pp', 'rr', 'tt'];
+const EN_LI_ENDINGS = 'cdeghkmnrt';
+
+const EN_EXCEPTIONS: Record<string, string> = {
+  skis: 'ski', skies: 'sky', dying: 'die', lying: 'lie', tying: 'tie', idly: 'idl',
+  gently: 'gentl', ugly: 'ugli', early: 'earli', only: 'onli', singly: 'singl',
+  sky: 'sky', news: 'news', howe: 'howe', atlas: 'atlas', cosmos: 'cosmos', bias: 'bias',
+  andes: 'andes'
+};
+const EN_STEP_1A_INVARIANTS = new Set([
+  'inning', 'outing', 'canning', 'herring', 'earring', 'proceed', 'exceed', 'succeed'
+]);
+
+const EN_STEP_2: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['abli', 'able'],
+  ['entli', 'ent'], ['ization', 'ize'], ['izer', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+  ['alism', 'al'], ['aliti', 'al'], ['alli', 'al'], ['fulness', 'ful'], ['ousli', 'ous'],
+  ['ousness', 'ous'], ['iveness', 'ive'], ['iviti', 'ive'], ['biliti', 'ble'], ['bli', 'ble'],
+  ['fulli', 'ful'], ['lessli', 'less']
+];
+const EN_STEP_3: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['alize', 'al'], ['icate', 'ic'], ['iciti', 'ic'],
+  ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+const EN_STEP_4 = [
+  'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ism', 'ate', 'iti', 'ous',
+  'ive', 'ize', 'al', 'er', 'ic'
+];
+
+const isEnglishVowel = (char: string | undefined): boolean => !!char && EN_VOWELS.includes(char);
+
+/**
+ * Start of the region after the first non-vowel following a vowel
+ */
+const englishRegion = (word: string, from: number): number => {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isEnglishVowel(word[i]) && isEnglishVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+};
+
+/**
+ * Checks whether the word ends in a short syllable
+ */
+const endsWithShortSyllable = (word: string): boolean => {
+  const n = word.length;
+  if (n === 2) return isEnglishVowel(word[0]) && !isEnglishVowel(word[1]);
+  return n >= 3 &&
+    !isEnglishVowel(word[n - 3]) &&
+    isEnglishVowel(word[n - 2]) &&
+    !isEnglishVowel(word[n - 1]) &&
+    !'wxY'.includes(word[n - 1]);
+};
+
+/**
+ * Replaces the longest matching suffix if it starts at or after the region
+ */
+const replaceInRegion = (
+  word: string,
+  rules: [string, string][],
+  region: number
+): { word: string; matched: boolean } => {
+  const rule = rules
+    .filter(([suffix]) => word.endsWith(suffix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  if (!rule) return { word, matched: false };
+  if (word.length - rule[0].length < region) return { word, matched: true };
+  return { word: word.slice(0, word.length - rule[0].length) + rule[1], matched: true };
+};
+
+export const stemEnglish = (input: string): string => {
+  if (input.length <= 2) return input;
+  if (EN_EXCEPTIONS[input]) return EN_EXCEPTIONS[input];
+
+  // Mark consonant y so it is not treated as a vowel
+  let word = input.replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+
+  const r1 = /^(gener|commun|arsen)/.test(word)
+    ? word.match(/^(gener|commun|arsen)/)![0].length
+    : englishRegion(word, 0);
+  const r2 = englishRegion(word, r1);
+
+  // Step 1a
+  if (word.endsWith('sses')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('ied') || word.endsWith('ies')) {
+    word = word.slice(0, -3) + (word.length > 4 ? 'i' : 'ie');
+  } else if (word.endsWith('s') && !word.endsWith('us') && !word.endsWith('ss')) {
+    if (/[aeiouy]/.test(word.slice(0, -2))) word = word.slice(0, -1);
+  }
+
+  if (EN_STEP_1A_INVARIANTS.has(word)) return word;
+
+  // Step 1b
+  const eed = ['eedly', 'eed'].find(suffix => word.endsWith(suffix));
+  if (eed) {
+    if (word.length - eed.length >= r1) word = word.slice(0, word.length - eed.length) + 'ee';
+  } else {
+    const ed = ['ingly', 'edly', 'ing', 'ed'].find(suffix => word.endsWith(suffix));
+    if (ed && /[aeiouy]/.test(word.slice(0, word.length - ed.length))) {
+      word = word.slice(0, word.length - ed.length);
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (EN_DOUBLES.some(double => word.endsWith(double))) {
+        word = word.slice(0, -1);
+      } else if (r1 >= word.length && endsWithShortSyllable(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c
+  if (word.length > 2 && /[yY]$/.test(word) && !isEnglishVowel(word[word.length - 2])) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  // Step 2
+  const step2 = replaceInRegion(word, EN_STEP_2, r1);
+  word = step2.word;
+  if (!step2.matched) {
+    if (word.endsWith('ogi') && word[word.length - 4] === 'l' && word.length - 3 >= r1) {
+      word = word.slice(0, -1);
+    } else if (word.endsWith('li') && EN_LI_ENDINGS.includes(word[word.length - 3] ?? '') && word.length - 2 >= r1) {
+      word = word.slice(0, -2);
+    }
+  }
+
+  // Step 3
+  const step3 = replaceInRegion(word, EN_STEP_3, r1);
+  word = step3.word;
+  if (!step3.matched && word.endsWith('ative') && word.length - 5 >= r2) {
+    word = word.slice(0, -5);
+  }
+
+  // Step 4
+  const step4 = EN_STEP_4.filter(suffix => word.endsWith(suffix)).sort((a, b) => b.length - a.length)[0];
+  if (step4) {
+    if (word.length - step4.length >= r2) word = word.slice(0, word.length - step4.length);
+  } else if (word.endsWith('ion') && word.length - 3 >= r2 && /[st]$/.test(word.slice(0, -3))) {
+    word = word.slice(0, -3);
+  }
+
+  // Step 5
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    if (stem.length >= r2 || (stem.length >= r1 && !endsWithShortSyllable(stem))) word = stem;
+  } else if (word.endsWith('ll') && word.length - 1 >= r2) {
+    word = word.slice(0, -1);
+  }
+
+  return word.replace(/Y/g, 'y');
+};
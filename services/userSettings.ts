@@ -1,6 +1,19 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { LLMProviderId, LLMSettings } from '@/types/ai';
+import { UserSettings } from '@/types/app';
 
 const STYLE_KEY = 'berserk-style';
+const LLM_SETTINGS_KEY = 'berserk-llm-settings';
+const USER_SETTINGS_KEY = 'berserk-user-settings';
+
+// Модели по умолчанию для каждого провайдера
+export const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+  fake: 'fake-mentor',
+};
 
 export async function setUserStyle(styleId: string) {
   await AsyncStorage.setItem(STYLE_KEY, styleId);
@@ -10,3 +23,88 @@ export async function getUserStyle(): Promise<string> {
   const raw = await AsyncStorage.getItem(STYLE_KEY);
   return raw || 'military'; // по умолчанию
 }
+
+// Ключи провайдеров хранятся на прокси-сервере (server/), в сборку они не попадают.
+// apiKey в настройках — только для локальной разработки без прокси.
+function getDefaultLLMSettings(): LLMSettings {
+  const extra = Constants.expoConfig?.extra ?? {};
+  const provider: LLMProviderId = extra.LLM_PROVIDER || 'openai';
+  return {
+    provider,
+    model: extra.LLM_MODEL || DEFAULT_MODELS[provider],
+    baseUrl: extra.LLM_BASE_URL || undefined,
+    proxyUrl: extra.LLM_PROXY_URL || undefined,
+    embeddingProvider: extra.LLM_EMBEDDINGS === 'openai' ? 'openai' : 'local',
+  };
+}
+
+export async function getLLMSettings(): Promise<LLMSettings> {
+  const defaults = getDefaultLLMSettings();
+  try {
+    const raw = await AsyncStorage.getItem(LLM_SETTINGS_KEY);
+    const stored: Partial<LLMSettings> = raw ? JSON.parse(raw) : {};
+    const settings: LLMSettings = { ...defaults, ...stored };
+
+    // При смене провайдера без явной модели берём модель по умолчанию
+    if (stored.provider && !stored.model) {
+      settings.model = DEFAULT_MODELS[stored.provider];
+    }
+
+    return settings;
+  } catch (err) {
+    console.error('Ошибка чтения настроек LLM:', err);
+    return defaults;
+  }
+}
+
+export async function setLLMSettings(update: Partial<LLMSettings>) {
+  const raw = await AsyncStorage.getItem(LLM_SETTINGS_KEY);
+  const stored: Partial<LLMSettings> = raw ? JSON.parse(raw) : {};
+  await AsyncStorage.setItem(LLM_SETTINGS_KEY, JSON.stringify({ ...stored, ...update }));
+}
+
+const DEFAULT_USER_SETTINGS: UserSettings = {
+  id: 'local',
+  name: '',
+  preferredPersonaId: 'commander',
+  theme: 'system',
+  notifications: {
+    enabled: true,
+    reminders: true,
+    insights: true,
+    dailySummary: false,
+  },
+  privacy: {
+    // 0 — хранить историю бессрочно; удаление старой истории пользователь включает сам
+    dataRetention: 0,
+    dataUsageConsent: true,
+    anonymizePersonalInfo: false,
+  },
+  workHours: { start: 9, end: 18 },
+  daysOfWeek: [1, 2, 3, 4, 5],
+  language: 'ru',
+};
+
+export async function getUserSettings(): Promise<UserSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(USER_SETTINGS_KEY);
+    const stored: Partial<UserSettings> = raw ? JSON.parse(raw) : {};
+    // Вложенные группы дополняем значениями по умолчанию, чтобы новые поля не терялись
+    return {
+      ...DEFAULT_USER_SETTINGS,
+      ...stored,
+      notifications: { ...DEFAULT_USER_SETTINGS.notifications, ...stored.notifications },
+      privacy: { ...DEFAULT_USER_SETTINGS.privacy, ...stored.privacy },
+      workHours: { ...DEFAULT_USER_SETTINGS.workHours, ...stored.workHours },
+    };
+  } catch (err) {
+    console.error('Ошибка чтения настроек пользователя:', err);
+    return DEFAULT_USER_SETTINGS;
+  }
+}
+
+export async function setUserSettings(update: Partial<UserSettings>) {
+  const raw = await AsyncStorage.getItem(USER_SETTINGS_KEY);
+  const stored: Partial<UserSettings> = raw ? JSON.parse(raw) : {};
+  await AsyncStorage.setItem(USER_SETTINGS_KEY, JSON.stringify({ ...stored, ...update }));
+}
@@ -0,0 +1,144 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getStorageEngine } from '@/services/repositories/storageEngine';
+import { checkIntegrity } from '@/services/integrityCheck';
+import { STORAGE_KEYS } from '@/services/storageKeys';
+import { setupStore } from '../store';
+import { habitAdded, habitCompletionToggled, loadHabits, selectAllHabits } from '../slices/habitsSlice';
+import { loadTasks, selectAllTasks, taskAdded, taskDeleted, taskToggled } from '../slices/tasksSlice';
+import {
+  goalDeleted,
+  goalProgressUpdated,
+  loadGoals,
+  selectGoalTree
+} from '../slices/goalsSlice';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@/services/ai/llm/llmService', () => {
+  const embedder = new (jest.requireActual('@/services/ai/llm/localEmbedder').LocalEmbedder)();
+  return {
+    llmService: {
+      complete: jest.fn(),
+      getEmbedder: async () => embedder
+    }
+  };
+});
+
+jest.mock('@/services/ai/aiCoreService', () => ({
+  aiCoreService: {
+    analyze: jest.fn(),
+    subscribeToOutbox: () => () => undefined
+  }
+}));
+
+// Writes of the persistence middleware run after the action is reduced
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const readStored = async (key: string) => JSON.parse((await AsyncStorage.getItem(key)) || 'null');
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+it('persists task changes made through the store', async () => {
+  await AsyncStorage.setItem(STORAGE_KEYS.tasks, JSON.stringify([
+    {
+      id: 't1', title: 'Пробежка', status: 'pending', priority: 'medium',
+      createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z'
+    }
+  ]));
+  const store = setupStore();
+  await store.dispatch(loadTasks());
+
+  store.dispatch(taskToggled('t1'));
+  store.dispatch(taskAdded({ title: 'Отчёт' }));
+  await flushWrites();
+
+  const stored = await readStored(STORAGE_KEYS.tasks);
+  expect(stored.map((task: { title: string }) => task.title)).toEqual(['Отчёт', 'Пробежка']);
+  expect(stored[1].status).toBe('completed');
+  expect(stored[1].completedAt).toBe(stored[1].updatedAt);
+  expect(selectAllTasks(store.getState())).toEqual(stored);
+});
+
+it('does not write anything before the data is loaded', async () => {
+  const store = setupStore();
+
+  store.dispatch(taskAdded({ title: 'Отчёт' }));
+  await store.dispatch(loadTasks());
+  await flushWrites();
+
+  expect(await AsyncStorage.getItem(STORAGE_KEYS.tasks)).toBeNull();
+});
+
+it('writes only the tasks that changed', async () => {
+  const task = (id: string) => ({
+    id, title: id, status: 'pending', priority: 'medium',
+    createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z'
+  });
+  await AsyncStorage.setItem(STORAGE_KEYS.tasks, JSON.stringify([task('t1'), task('t2'), task('t3')]));
+  const store = setupStore();
+  await store.dispatch(loadTasks());
+
+  const tasks = getStorageEngine().tasks;
+  const save = jest.spyOn(tasks, 'save');
+  const remove = jest.spyOn(tasks, 'remove');
+  store.dispatch(taskToggled('t2'));
+  store.dispatch(taskDeleted('t3'));
+  await flushWrites();
+
+  expect(save).toHaveBeenCalledTimes(1);
+  expect(save.mock.calls[0][0].map(saved => saved.id)).toEqual(['t2']);
+  expect(remove).toHaveBeenCalledWith(['t3']);
+  expect((await readStored(STORAGE_KEYS.tasks)).map((stored: { id: string }) => stored.id)).toEqual(['t1', 't2']);
+
+  save.mockRestore();
+  remove.mockRestore();
+});
+
+it('rolls back the longest streak when a completion is undone', async () => {
+  const store = setupStore();
+  await store.dispatch(loadHabits());
+
+  store.dispatch(habitAdded({ title: 'Зарядка' }));
+  const [{ id }] = selectAllHabits(store.getState());
+  store.dispatch(habitCompletionToggled(id, '2026-01-01'));
+  store.dispatch(habitCompletionToggled(id, '2026-01-01'));
+  await flushWrites();
+
+  const [stored] = await readStored(STORAGE_KEYS.habits);
+  expect(stored).toMatchObject({ completedDates: [], streak: 0, longestStreak: 0 });
+  expect((await checkIntegrity()).issues).toEqual([]);
+});
+
+it('builds the goal tree from flat goals and keeps the links when goals change', async () => {
+  const goal = (id: string, parentId: string | null, children: string[]) => ({
+    id, title: id, status: 'not_started', progress: 0, parentId, children,
+    createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z'
+  });
+  await AsyncStorage.setItem(STORAGE_KEYS.goals, JSON.stringify([
+    goal('g1', null, ['g2', 'g3']),
+    goal('g2', 'g1', []),
+    goal('g3', 'g1', [])
+  ]));
+  const store = setupStore();
+  await store.dispatch(loadGoals());
+  expect(selectGoalTree(store.getState())[0].children.map(child => child.id)).toEqual(['g2', 'g3']);
+
+  // The parent's progress is the average of its subgoals
+  store.dispatch(goalProgressUpdated({ id: 'g2', progress: 100 }));
+  expect(store.getState().goals.entities.g1.progress).toBe(50);
+
+  store.dispatch(goalDeleted('g3'));
+  await flushWrites();
+
+  const stored = await readStored(STORAGE_KEYS.goals);
+  expect(stored.map((goal: { id: string }) => goal.id)).toEqual(['g1', 'g2']);
+  expect(stored[0].children).toEqual(['g2']);
+});
@@ -0,0 +1,108 @@
+import { Middleware } from '@reduxjs/toolkit';
+import { Repository, StoredRecord } from '@/services/repositories/repository';
+import { writeJSON } from '@/services/storage';
+import type { RootState } from './store';
+
+// Состояние загрузки слайса из хранилища
+export type LoadStatus = 'idle' | 'loading' | 'succeeded' | 'failed';
+
+/**
+ * Часть состояния, которая сохраняется в хранилище
+ */
+export interface PersistedValue<T = unknown> {
+  name: string;
+  // Новая ссылка означает изменение
+  select: (state: RootState) => T;
+  // Пока данные не загружены, сохранять нечего: иначе пустое состояние затрёт хранилище
+  isLoaded: (state: RootState) => boolean;
+  // Записывает отличия текущего значения от последнего сохранённого
+  save(current: T, saved: T): Promise<void>;
+}
+
+/**
+ * Значение, которое целиком хранится в AsyncStorage под своим ключом
+ */
+export function persistKey<T>(
+  key: string,
+  select: (state: RootState) => T,
+  isLoaded: (state: RootState) => boolean
+): PersistedValue<T> {
+  return { name: key, select, isLoaded, save: current => writeJSON(key, current) };
+}
+
+/**
+ * Записи слайса, которые хранятся в репозитории. Сохраняются только
+ * изменённые и удалённые записи: immer оставляет прежние ссылки на
+ * записи, которые не менялись.
+ * @param getRepository Репозиторий движка хранения, открытого при запуске
+ */
+export function persistRecords<T extends StoredRecord>(
+  name: string,
+  select: (state: RootState) => Record<string, T>,
+  isLoaded: (state: RootState) => boolean,
+  getRepository: () => Repository<T>
+): PersistedValue<Record<string, T>> {
+  return {
+    name,
+    select,
+    isLoaded,
+    save: async (current, saved) => {
+      const changed = Object.values(current).filter(record => saved[record.id] !== record);
+      const removed = Object.keys(saved).filter(id => !current[id]);
+
+      const repository = getRepository();
+      if (changed.length > 0) await repository.save(changed);
+      if (removed.length > 0) await repository.remove(removed);
+    }
+  };
+}
+
+/**
+ * Middleware, которое записывает изменённые значения в хранилище.
+ * Записи выполняются по очереди и берут последнее состояние, поэтому
+ * несколько изменений подряд сохраняются одной записью. Загрузка из
+ * хранилища обратно не записывается, а становится последним сохранённым
+ * значением.
+ */
+export function createPersistenceMiddleware(values: PersistedValue[]): Middleware<object, RootState> {
+  return api => {
+    let writeQueue: Promise<unknown> = Promise.resolve();
+    const pendingValues = new Set<string>();
+    const savedValues = new Map<string, unknown>();
+
+    const schedule = (value: PersistedValue) => {
+      if (pendingValues.has(value.name)) return;
+      pendingValues.add(value.name);
+
+      const task = writeQueue.then(async () => {
+        pendingValues.delete(value.name);
+        const saved = savedValues.get(value.name);
+        const current = value.select(api.getState());
+        await value.save(current, saved);
+        // Пока шла запись, данные могли перезагрузить из хранилища
+        if (savedValues.get(value.name) === saved) {
+          savedValues.set(value.name, current);
+        }
+      });
+      writeQueue = task.catch(error => console.error(`Ошибка сохранения ${value.name}:`, error));
+    };
+
+    return next => action => {
+      const before = api.getState();
+      const result = next(action);
+      const after = api.getState();
+
+      values.forEach(value => {
+        if (!value.isLoaded(after)) return;
+
+        if (!value.isLoaded(before)) {
+          savedValues.set(value.name, value.select(after));
+        } else if (value.select(before) !== value.select(after)) {
+          schedule(value);
+        }
+      });
+
+      return result;
+    };
+  };
+}
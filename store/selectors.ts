@@ -0,0 +1,18 @@
+import { createSelector } from '@reduxjs/toolkit';
+import { selectAllTasks } from './slices/tasksSlice';
+import { selectAllHabits } from './slices/habitsSlice';
+
+// Начальные категории, пока ни у задач, ни у привычек категорий нет
+const DEFAULT_CATEGORIES = ['Работа', 'Здоровье', 'Саморазвитие', 'Личное'];
+
+// Список категорий на основе текущих задач и привычек
+export const selectCategories = createSelector([selectAllTasks, selectAllHabits], (tasks, habits) => {
+  const categories = Array.from(
+    new Set(
+      [...tasks, ...habits]
+        .map(item => item.category)
+        .filter((category): category is string => !!category)
+    )
+  );
+  return categories.length > 0 ? categories : DEFAULT_CATEGORIES;
+});
@@ -0,0 +1,378 @@
+import {
+  createAsyncThunk,
+  createEntityAdapter,
+  createSelector,
+  createSlice,
+  isAnyOf,
+  isFulfilled,
+  isPending,
+  isRejected,
+  PayloadAction
+} from '@reduxjs/toolkit';
+import { aiCoreService } from '@/services/ai/aiCoreService';
+import { getStorageEngine } from '@/services/repositories/storageEngine';
+import { readList } from '@/services/storage';
+import { STORAGE_KEYS } from '@/services/storageKeys';
+import { Goal, GoalNode } from '@/types/app';
+import { LoadStatus, persistKey, persistRecords } from '../persistence';
+import type { RootState } from '../store';
+
+// Цели хранятся плоско: подцель указывает родителя в parentId, родитель перечисляет подцели в children
+const goalsAdapter = createEntityAdapter<Goal>();
+
+interface GoalsState extends ReturnType<typeof goalsAdapter.getInitialState> {
+  insights: string[];
+  status: LoadStatus;
+  analyzing: boolean;
+}
+
+const initialState: GoalsState = goalsAdapter.getInitialState({
+  insights: [],
+  status: 'idle',
+  analyzing: false
+});
+
+// Новая цель в начальном состоянии
+const createGoal = (goalData: Partial<Goal>, id: string, now: string): Goal => ({
+  id,
+  title: goalData.title || 'Новая цель',
+  description: goalData.description || '',
+  status: goalData.status || 'not_started',
+  progress: goalData.progress || 0,
+  dueDate: goalData.dueDate,
+  parentId: goalData.parentId || null,
+  children: [],
+  category: goalData.category,
+  tags: goalData.tags,
+  createdAt: now,
+  updatedAt: now
+});
+
+// Сборка дерева целей; цели с несуществующим родителем становятся главными
+export const buildGoalTree = (goals: Goal[]): GoalNode[] => {
+  const ids = new Set(goals.map(goal => goal.id));
+  const toNode = ({ children, ...goal }: Goal): GoalNode => ({
+    ...goal,
+    children: goals.filter(child => child.parentId === goal.id).map(toNode)
+  });
+
+  return goals.filter(goal => !goal.parentId || !ids.has(goal.parentId)).map(toNode);
+};
+
+const findGoal = (goals: GoalNode[], goalId: string): GoalNode | undefined => {
+  for (const goal of goals) {
+    const found = goal.id === goalId ? goal : findGoal(goal.children, goalId);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// Пересчёт прогресса родительских целей как среднего по их подцелям
+const updateAncestorProgress = (state: GoalsState, goalId: string, now: string) => {
+  const visited = new Set<string>();
+  let parentId = state.entities[goalId]?.parentId;
+
+  while (parentId && state.entities[parentId] && !visited.has(parentId)) {
+    visited.add(parentId);
+    const children = Object.values(state.entities).filter(goal => goal.parentId === parentId);
+    if (children.length === 0) return;
+
+    const parent = state.entities[parentId];
+    parent.progress = children.reduce((sum, child) => sum + child.progress, 0) / children.length;
+    parent.updatedAt = now;
+    parentId = parent.parentId;
+  }
+};
+
+// Загрузка целей и инсайтов из хранилища
+export const loadGoals = createAsyncThunk('goals/load', async () => {
+  return {
+    goals: await getStorageEngine().goals.getAll(),
+    insights: await readList<string>(STORAGE_KEYS.goalInsights)
+  };
+});
+
+// AI-анализ целей
+export const analyzeGoals = createAsyncThunk<string[], void, { state: RootState }>(
+  'goals/analyze',
+  async (_, { getState }) => {
+    const goals = selectGoalTree(getState());
+
+    // Если нет целей, нечего анализировать
+    if (goals.length === 0) {
+      return ['Добавьте цели для получения AI-анализа.'];
+    }
+
+    const userMessage = `Проанализируй мои стратегические цели и дай рекомендации по их улучшению и реализации. Вот мои текущие цели: ${JSON.stringify(goals, null, 2)}`;
+    const response = await aiCoreService.analyze(userMessage, 'insights');
+    const aiText = response.text;
+
+    // Простая обработка текста для выделения инсайтов
+    const processedInsights = aiText
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .filter(line => line.includes('- ') || line.includes('• ') || /^\d+\./.test(line))
+      .map(line => line.replace(/^- |^• |^\d+\.\s*/, ''))
+      .filter(line => line.length > 10);
+
+    // Если не удалось выделить инсайты, используем весь текст
+    return processedInsights.length > 0
+      ? processedInsights
+      : [aiText.substring(0, 200) + '...'];
+  }
+);
+
+// Получение рекомендаций для новых целей
+export const getGoalRecommendations = createAsyncThunk('goals/recommend', async (): Promise<Partial<Goal>[]> => {
+  const userMessage = "Предложи три стратегические цели, которые могли бы быть полезны для развития. Учти мои существующие цели и интересы.";
+  const response = await aiCoreService.analyze(userMessage, 'goal_planning');
+
+  // Простой парсинг: ищем заголовки и описания целей
+  const recommendations: Partial<Goal>[] = [];
+  let currentGoal: Partial<Goal> | null = null;
+
+  for (const line of response.text.split('\n')) {
+    const trimmedLine = line.trim();
+
+    // Начало новой цели
+    if (trimmedLine.match(/^\d+\.|^-\s+|^•\s+/) && trimmedLine.length > 5) {
+      if (currentGoal && currentGoal.title) {
+        recommendations.push(currentGoal);
+      }
+      currentGoal = {
+        title: trimmedLine.replace(/^\d+\.|^-\s+|^•\s+/, '').trim(),
+        description: '',
+        status: 'not_started',
+        progress: 0
+      };
+    }
+    // Добавляем текст к описанию текущей цели
+    else if (currentGoal && trimmedLine.length > 0) {
+      currentGoal.description += (currentGoal.description ? '\n' : '') + trimmedLine;
+    }
+  }
+
+  if (currentGoal && currentGoal.title) {
+    recommendations.push(currentGoal);
+  }
+
+  // Если не удалось выделить рекомендации, создаем базовые
+  if (recommendations.length === 0) {
+    recommendations.push(
+      {
+        title: 'Улучшение профессиональных навыков',
+        description: 'Развитие ключевых компетенций в вашей профессиональной области.',
+        status: 'not_started',
+        progress: 0
+      },
+      {
+        title: 'Укрепление физического здоровья',
+        description: 'Регулярные тренировки, правильное питание и достаточный отдых.',
+        status: 'not_started',
+        progress: 0
+      },
+      {
+        title: 'Развитие эмоционального интеллекта',
+        description: 'Улучшение навыков управления эмоциями и взаимодействия с другими людьми.',
+        status: 'not_started',
+        progress: 0
+      }
+    );
+  }
+
+  return recommendations;
+});
+
+// Трансформация высокоуровневой цели в структурированный план; первой идёт главная цель, за ней подцели
+export const transformAspirationalGoal = createAsyncThunk(
+  'goals/transform',
+  async (aspirationalText: string): Promise<Goal[]> => {
+    try {
+      const userMessage = `Помоги трансформировать мою высокоуровневую цель "${aspirationalText}" в структурированный план с измеримыми подцелями.`;
+      const response = await aiCoreService.analyze(userMessage, 'goal_planning');
+      const now = new Date().toISOString();
+
+      const mainGoal = createGoal({
+        title: aspirationalText,
+        description: 'Цель создана на основе вашего запроса и разбита на конкретные шаги.'
+      }, Date.now().toString(), now);
+
+      const toSubGoal = (title: string, description: string, suffix: string): Goal =>
+        createGoal({ title, description, parentId: mainGoal.id }, Date.now().toString() + suffix, now);
+
+      // Простой алгоритм извлечения подцелей
+      const subGoals: Goal[] = [];
+      let currentSubGoal: { title: string; description: string } | null = null;
+
+      for (const line of response.text.split('\n')) {
+        const trimmedLine = line.trim();
+
+        // Идентифицируем заголовки подцелей
+        if ((trimmedLine.match(/^\d+\.|^-\s+|^•\s+/) || trimmedLine.match(/^Подцель \d+:/i)) && trimmedLine.length > 5) {
+          if (currentSubGoal && currentSubGoal.title) {
+            subGoals.push(toSubGoal(currentSubGoal.title, currentSubGoal.description, String(subGoals.length)));
+          }
+          currentSubGoal = {
+            title: trimmedLine.replace(/^\d+\.|^-\s+|^•\s+|^Подцель \d+:/i, '').trim(),
+            description: ''
+          };
+        }
+        // Добавляем текст к описанию текущей подцели
+        else if (currentSubGoal && trimmedLine.length > 0 && !trimmedLine.startsWith('Главная цель:')) {
+          currentSubGoal.description += (currentSubGoal.description ? '\n' : '') + trimmedLine;
+        }
+      }
+
+      if (currentSubGoal && currentSubGoal.title) {
+        subGoals.push(toSubGoal(currentSubGoal.title, currentSubGoal.description, String(subGoals.length)));
+      }
+
+      // Если не удалось выделить подцели, создаем базовые
+      if (subGoals.length === 0) {
+        subGoals.push(
+          toSubGoal('Исследовать детали и требования цели', 'Определить конкретные критерии успеха и необходимые ресурсы.', '1'),
+          toSubGoal('Разработать план действий', 'Определить конкретные шаги и временные рамки для достижения цели.', '2'),
+          toSubGoal('Начать реализацию и отслеживать прогресс', 'Приступить к выполнению плана и регулярно оценивать продвижение.', '3')
+        );
+      }
+
+      mainGoal.children = subGoals.map(goal => goal.id);
+      return [mainGoal, ...subGoals];
+    } catch (error) {
+      console.error('Ошибка трансформации цели:', error);
+      throw new Error('Не удалось преобразовать цель в структурированный план.');
+    }
+  }
+);
+
+const aiRequests = [analyzeGoals, getGoalRecommendations, transformAspirationalGoal] as const;
+
+const goalsSlice = createSlice({
+  name: 'goals',
+  initialState,
+  reducers: {
+    goalAdded: {
+      reducer: (state, action: PayloadAction<Goal>) => {
+        const goal = action.payload;
+        goalsAdapter.addOne(state, goal);
+
+        const parent = goal.parentId ? state.entities[goal.parentId] : undefined;
+        if (parent) {
+          parent.children = [...(parent.children || []), goal.id];
+        }
+      },
+      prepare: (goalData: Partial<Goal>) => ({
+        payload: createGoal(goalData, Date.now().toString(), new Date().toISOString())
+      })
+    },
+    // Связи между целями меняются только добавлением и удалением
+    goalUpdated: {
+      reducer: (state, action: PayloadAction<{ id: string; changes: Partial<Goal> }>) => {
+        const { id, children, parentId, createdAt, ...changes } = action.payload.changes;
+        goalsAdapter.updateOne(state, { id: action.payload.id, changes });
+      },
+      prepare: ({ id, changes }: { id: string; changes: Partial<Goal> }) => ({
+        payload: { id, changes: { ...changes, updatedAt: new Date().toISOString() } }
+      })
+    },
+    // Удаление цели вместе со всеми подцелями
+    goalDeleted: (state, action: PayloadAction<string>) => {
+      const removed = new Set([action.payload]);
+      let found = true;
+      while (found) {
+        found = false;
+        Object.values(state.entities).forEach(goal => {
+          if (goal.parentId && removed.has(goal.parentId) && !removed.has(goal.id)) {
+            removed.add(goal.id);
+            found = true;
+          }
+        });
+      }
+
+      const parentId = state.entities[action.payload]?.parentId;
+      goalsAdapter.removeMany(state, [...removed]);
+
+      const parent = parentId ? state.entities[parentId] : undefined;
+      if (parent) {
+        parent.children = (parent.children || []).filter(childId => childId !== action.payload);
+      }
+    },
+    goalProgressUpdated: {
+      reducer: (state, action: PayloadAction<{ id: string; progress: number; now: string }>) => {
+        const goal = state.entities[action.payload.id];
+        if (!goal) return;
+
+        goal.progress = action.payload.progress;
+        goal.updatedAt = action.payload.now;
+        updateAncestorProgress(state, goal.id, action.payload.now);
+      },
+      prepare: ({ id, progress }: { id: string; progress: number }) => ({
+        payload: { id, progress, now: new Date().toISOString() }
+      })
+    }
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(loadGoals.pending, state => {
+        state.status = 'loading';
+      })
+      .addCase(loadGoals.fulfilled, (state, action) => {
+        state.status = 'succeeded';
+        goalsAdapter.setAll(state, action.payload.goals);
+        state.insights = action.payload.insights;
+      })
+      .addCase(loadGoals.rejected, (state, action) => {
+        state.status = 'failed';
+        console.error('Ошибка загрузки стратегических данных:', action.error);
+      })
+      .addCase(analyzeGoals.fulfilled, (state, action) => {
+        state.insights = action.payload;
+      })
+      .addCase(analyzeGoals.rejected, (state, action) => {
+        console.error('Ошибка AI-анализа целей:', action.error);
+        state.insights = ['Произошла ошибка при анализе целей. Пожалуйста, попробуйте позже.'];
+      })
+      .addCase(getGoalRecommendations.rejected, (_, action) => {
+        console.error('Ошибка получения рекомендаций для целей:', action.error);
+      })
+      .addCase(transformAspirationalGoal.fulfilled, (state, action) => {
+        goalsAdapter.addMany(state, action.payload);
+      })
+      .addMatcher(isPending(...aiRequests), state => {
+        state.analyzing = true;
+      })
+      .addMatcher(isAnyOf(isFulfilled(...aiRequests), isRejected(...aiRequests)), state => {
+        state.analyzing = false;
+      });
+  }
+});
+
+export const { goalAdded, goalUpdated, goalDeleted, goalProgressUpdated } = goalsSlice.actions;
+
+export const {
+  selectAll: selectAllGoals
+} = goalsAdapter.getSelectors((state: RootState) => state.goals);
+
+export const selectGoalTree = createSelector([selectAllGoals], buildGoalTree);
+
+export const selectGoalById = createSelector(
+  [selectGoalTree, (_: RootState, goalId: string) => goalId],
+  findGoal
+);
+
+export const selectGoalInsights = (state: RootState) => state.goals.insights;
+
+export const goalsPersistence = persistRecords(
+  'goals',
+  state => state.goals.entities,
+  state => state.goals.status === 'succeeded',
+  () => getStorageEngine().goals
+);
+
+export const insightsPersistence = persistKey(
+  STORAGE_KEYS.goalInsights,
+  selectGoalInsights,
+  state => state.goals.status === 'succeeded'
+);
+
+export default goalsSlice.reducer;
@@ -0,0 +1,110 @@
+import { createAsyncThunk, createEntityAdapter, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { getStorageEngine } from '@/services/repositories/storageEngine';
+import { Habit } from '@/types/app';
+import { LoadStatus, persistRecords } from '../persistence';
+import type { RootState } from '../store';
+
+const habitsAdapter = createEntityAdapter<Habit>();
+
+interface HabitsState extends ReturnType<typeof habitsAdapter.getInitialState> {
+  status: LoadStatus;
+}
+
+const initialState: HabitsState = habitsAdapter.getInitialState({
+  status: 'idle'
+});
+
+// Загрузка привычек из хранилища
+export const loadHabits = createAsyncThunk('habits/load', () => getStorageEngine().habits.getAll());
+
+const habitsSlice = createSlice({
+  name: 'habits',
+  initialState,
+  reducers: {
+    habitAdded: {
+      reducer: (state, action: PayloadAction<Habit>) => {
+        // Новые привычки идут в начало списка
+        habitsAdapter.setAll(state, [action.payload, ...habitsAdapter.getSelectors().selectAll(state)]);
+      },
+      prepare: (habitData: Partial<Habit>) => {
+        const now = new Date().toISOString();
+        return {
+          payload: {
+            id: Date.now().toString(),
+            title: habitData.title || '',
+            description: habitData.description,
+            frequency: habitData.frequency || 'daily',
+            completedDates: [],
+            streak: 0,
+            longestStreak: 0,
+            category: habitData.category,
+            createdAt: now,
+            updatedAt: now
+          } as Habit
+        };
+      }
+    },
+    // Отметка привычки за день; повторная отметка снимается
+    habitCompletionToggled: {
+      reducer: (state, action: PayloadAction<{ id: string; date: string; now: string }>) => {
+        const habit = state.entities[action.payload.id];
+        if (!habit) return;
+
+        const { date } = action.payload;
+        if (habit.completedDates.includes(date)) {
+          habit.completedDates = habit.completedDates.filter(completed => completed !== date);
+          // Рекорд, поставленный снятой отметкой, откатывается вместе с ней
+          if (habit.longestStreak === habit.streak) {
+            habit.longestStreak = Math.max(0, habit.streak - 1);
+          }
+          habit.streak = Math.max(0, habit.streak - 1);
+        } else {
+          habit.completedDates.push(date);
+          habit.streak += 1;
+          habit.longestStreak = Math.max(habit.longestStreak, habit.streak);
+        }
+        habit.updatedAt = action.payload.now;
+      },
+      prepare: (id: string, date: string = new Date().toISOString().split('T')[0]) => ({
+        payload: { id, date, now: new Date().toISOString() }
+      })
+    },
+    habitEdited: {
+      reducer: (state, action: PayloadAction<Habit>) => {
+        habitsAdapter.setOne(state, action.payload);
+      },
+      prepare: (habit: Habit) => ({ payload: { ...habit, updatedAt: new Date().toISOString() } })
+    },
+    habitDeleted: habitsAdapter.removeOne
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(loadHabits.pending, state => {
+        state.status = 'loading';
+      })
+      .addCase(loadHabits.fulfilled, (state, action) => {
+        state.status = 'succeeded';
+        habitsAdapter.setAll(state, action.payload);
+      })
+      .addCase(loadHabits.rejected, (state, action) => {
+        state.status = 'failed';
+        console.error('Ошибка загрузки привычек:', action.error);
+      });
+  }
+});
+
+export const { habitAdded, habitCompletionToggled, habitEdited, habitDeleted } = habitsSlice.actions;
+
+export const {
+  selectAll: selectAllHabits,
+  selectById: selectHabitById
+} = habitsAdapter.getSelectors((state: RootState) => state.habits);
+
+export const habitsPersistence = persistRecords(
+  'habits',
+  state => state.habits.entities,
+  state => state.habits.status === 'succeeded',
+  () => getStorageEngine().habits
+);
+
+export default habitsSlice.reducer;
@@ -0,0 +1,161 @@
+import {
+  createAsyncThunk,
+  createEntityAdapter,
+  createSlice,
+  isAnyOf,
+  isFulfilled,
+  isPending,
+  isRejected
+} from '@reduxjs/toolkit';
+import { journalService } from '@/services/journalService';
+import { Journal } from '@/types/app';
+import { LoadStatus } from '../persistence';
+import type { RootState } from '../store';
+
+// Записи хранит journalService вместе с индексом памяти, поэтому слайс
+// меняется только через его методы и в middleware сохранения не участвует
+const journalAdapter = createEntityAdapter<Journal>({
+  sortComparer: (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+});
+
+interface JournalState extends ReturnType<typeof journalAdapter.getInitialState> {
+  tags: string[];
+  insights: string[];
+  searchResults: Journal[];
+  isSearching: boolean;
+  status: LoadStatus;
+  busy: boolean;
+}
+
+const initialState: JournalState = journalAdapter.getInitialState({
+  tags: [],
+  insights: [],
+  searchResults: [],
+  isSearching: false,
+  status: 'idle',
+  busy: false
+});
+
+// Загрузка инсайтов по записям
+export const loadJournalInsights = createAsyncThunk('journal/loadInsights', () =>
+  journalService.getJournalInsights()
+);
+
+// Загрузка записей и тегов; инсайты подгружаются, когда записей достаточно
+export const loadJournal = createAsyncThunk('journal/load', async (_, { dispatch }) => {
+  const entries = await journalService.getAllEntries();
+  const tags = await journalService.getAllTags();
+
+  if (entries.length >= 3) {
+    dispatch(loadJournalInsights());
+  }
+  return { entries, tags };
+});
+
+export const createJournalEntry = createAsyncThunk('journal/create', async (entryData: Partial<Journal>) => {
+  const entry = await journalService.createEntry(entryData);
+  return { entry, tags: await journalService.getAllTags() };
+});
+
+export const updateJournalEntry = createAsyncThunk(
+  'journal/update',
+  async ({ entryId, updates }: { entryId: string; updates: Partial<Journal> }) => {
+    const entry = await journalService.updateEntry(entryId, updates);
+    return { entry, tags: await journalService.getAllTags() };
+  }
+);
+
+export const deleteJournalEntry = createAsyncThunk('journal/delete', async (entryId: string) => {
+  await journalService.deleteEntry(entryId);
+  return { entryId, tags: await journalService.getAllTags() };
+});
+
+export const searchJournal = createAsyncThunk('journal/search', (query: string) =>
+  journalService.searchEntries(query)
+);
+
+export const getEntryReflection = createAsyncThunk('journal/reflect', (entryId: string) =>
+  journalService.getEntryReflection(entryId)
+);
+
+export const getEntriesByTag = createAsyncThunk('journal/byTag', (tag: string) =>
+  journalService.getEntriesByTag(tag)
+);
+
+const requests = [
+  createJournalEntry,
+  updateJournalEntry,
+  deleteJournalEntry,
+  searchJournal,
+  getEntryReflection,
+  getEntriesByTag
+] as const;
+
+const journalSlice = createSlice({
+  name: 'journal',
+  initialState,
+  reducers: {
+    searchCleared: state => {
+      state.searchResults = [];
+      state.isSearching = false;
+    }
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(loadJournal.pending, state => {
+        state.status = 'loading';
+      })
+      .addCase(loadJournal.fulfilled, (state, action) => {
+        state.status = 'succeeded';
+        journalAdapter.setAll(state, action.payload.entries);
+        state.tags = action.payload.tags;
+      })
+      .addCase(loadJournal.rejected, (state, action) => {
+        state.status = 'failed';
+        console.error('Failed to load journal data:', action.error);
+      })
+      .addCase(loadJournalInsights.fulfilled, (state, action) => {
+        state.insights = action.payload;
+      })
+      .addCase(loadJournalInsights.rejected, (_, action) => {
+        console.error('Failed to load journal insights:', action.error);
+      })
+      .addCase(createJournalEntry.fulfilled, (state, action) => {
+        journalAdapter.addOne(state, action.payload.entry);
+        state.tags = action.payload.tags;
+      })
+      .addCase(updateJournalEntry.fulfilled, (state, action) => {
+        journalAdapter.setOne(state, action.payload.entry);
+        state.tags = action.payload.tags;
+      })
+      .addCase(deleteJournalEntry.fulfilled, (state, action) => {
+        journalAdapter.removeOne(state, action.payload.entryId);
+        state.tags = action.payload.tags;
+      })
+      .addCase(searchJournal.pending, state => {
+        state.isSearching = true;
+      })
+      .addCase(searchJournal.fulfilled, (state, action) => {
+        state.searchResults = action.payload;
+      })
+      .addCase(searchJournal.rejected, (state, action) => {
+        console.error(`Failed to search entries with query "${action.meta.arg}":`, action.error);
+        state.searchResults = [];
+      })
+      .addMatcher(isPending(...requests), state => {
+        state.busy = true;
+      })
+      .addMatcher(isAnyOf(isFulfilled(...requests), isRejected(...requests)), state => {
+        state.busy = false;
+      });
+  }
+});
+
+export const { searchCleared } = journalSlice.actions;
+
+export const {
+  selectAll: selectAllJournalEntries,
+  selectById: selectJournalEntryById
+} = journalAdapter.getSelectors((state: RootState) => state.journal);
+
+export default journalSlice.reducer;
@@ -0,0 +1,437 @@
+import { createAsyncThunk, createEntityAdapter, createSlice, Dispatch, PayloadAction } from '@reduxjs/toolkit';
+import { aiCoreService, MentorReply } from '@/services/ai/aiCoreService';
+import { personalityEngine } from '@/services/ai/personalityEngine';
+import { actionExecutor } from '@/services/ai/actionExecutor';
+import { Message, MessageDeliveryStatus, PersonaProfile } from '@/types/ai';
+import { ActionResult, AppAction } from '@/types/app';
+import { LoadStatus } from '../persistence';
+import type { RootState } from '../store';
+
+export enum MessageType {
+  User = 'user',
+  Mentor = 'mentor',
+  System = 'system',
+  Action = 'action',
+}
+
+export type ActionCardStatus = 'pending' | 'applied' | 'failed' | 'dismissed' | 'undone';
+
+/**
+ * Mentor-proposed action awaiting or after user confirmation
+ */
+export interface ActionCardData {
+  action: AppAction;
+  status: ActionCardStatus;
+  result?: ActionResult;
+}
+
+export interface MentorMessage {
+  id: string;
+  text: string;
+  type: MessageType;
+  timestamp: number;
+  attachedData?: any;
+  isStreaming?: boolean;
+  status?: MessageDeliveryStatus; // User messages only
+  error?: string; // Why a user message was not answered
+}
+
+// Explanations for messages loaded from history that are still not answered
+const STORED_STATUS_ERRORS: Record<MessageDeliveryStatus, string | undefined> = {
+  pending: 'Ждёт связи с сервисом AI.',
+  failed: 'Не отправлено.',
+  sent: undefined,
+};
+
+// Conversations are stored by aiCoreService; the slice only mirrors the open
+// one. Messages are kept in time order, which also holds when a message
+// gets the ID assigned by the service.
+const messagesAdapter = createEntityAdapter<MentorMessage>({
+  sortComparer: (a, b) => a.timestamp - b.timestamp
+});
+
+interface MentorState {
+  messages: ReturnType<typeof messagesAdapter.getInitialState>;
+  personas: PersonaProfile[];
+  selectedPersonaId: string;
+  status: LoadStatus;
+  loading: boolean;
+  isStreaming: boolean;
+}
+
+const initialState: MentorState = {
+  messages: messagesAdapter.getInitialState(),
+  personas: [],
+  selectedPersonaId: 'commander',
+  status: 'idle',
+  loading: false,
+  isStreaming: false
+};
+
+type ReplyRequest = (onText: (text: string) => void, signal: AbortSignal) => Promise<MentorReply>;
+
+/**
+ * Transform message format from AI service to UI format
+ */
+const transformMessages = (messages: Message[]): MentorMessage[] =>
+  messages.map(msg => ({
+    id: msg.id,
+    text: msg.content,
+    type: msg.role === 'user' ? MessageType.User :
+          msg.role === 'system' ? MessageType.System : MessageType.Mentor,
+    timestamp: new Date(msg.timestamp).getTime(),
+    status: msg.status,
+    error: msg.status ? STORED_STATUS_ERRORS[msg.status] : undefined,
+  }));
+
+/**
+ * Load the open conversation's messages and persona
+ */
+const readConversation = async () => ({
+  messages: transformMessages(await aiCoreService.getMessageHistory()),
+  personaId: aiCoreService.getCurrentPersona()?.id
+});
+
+const findActionCard = (state: RootState, messageId: string): ActionCardData | undefined => {
+  const message = state.mentor.messages.entities[messageId];
+  return message?.type === MessageType.Action ? message.attachedData : undefined;
+};
+
+/**
+ * Load personas and the open conversation
+ */
+export const loadMentor = createAsyncThunk('mentor/load', async () => ({
+  personas: await personalityEngine.getAllPersonas(),
+  ...await readConversation()
+}));
+
+/**
+ * Reload the open conversation, e.g. after another one was opened
+ */
+export const loadConversation = createAsyncThunk('mentor/loadConversation', readConversation);
+
+/**
+ * Change the mentor's persona and greet the user on its behalf
+ */
+export const setMentorPersona = createAsyncThunk<MentorMessage[], string, { state: RootState }>(
+  'mentor/setPersona',
+  async (personaId, { getState }) => {
+    const persona = getState().mentor.personas.find(p => p.id === personaId);
+    if (!persona) {
+      throw new Error(`Persona ${personaId} not found`);
+    }
+
+    await aiCoreService.loadPersona(personaId);
+
+    return [
+      {
+        id: `msg_${Date.now()}`,
+        text: `Персона ментора изменена на "${persona.name}"`,
+        type: MessageType.System,
+        timestamp: Date.now()
+      },
+      {
+        id: `msg_${Date.now() + 1}`,
+        text: persona.welcomeMessage,
+        type: MessageType.Mentor,
+        timestamp: Date.now() + 1
+      }
+    ];
+  }
+);
+
+/**
+ * Start a new conversation; the current one stays in the history
+ */
+export const startNewConversation = createAsyncThunk('mentor/startConversation', async () => {
+  await aiCoreService.startNewConversation();
+  return transformMessages(await aiCoreService.getMessageHistory());
+});
+
+const mentorSlice = createSlice({
+  name: 'mentor',
+  initialState,
+  reducers: {
+    messageAdded: (state, action: PayloadAction<MentorMessage>) => {
+      messagesAdapter.addOne(state.messages, action.payload);
+    },
+    messageUpdated: (state, action: PayloadAction<{ id: string; changes: Partial<MentorMessage> }>) => {
+      messagesAdapter.updateOne(state.messages, action.payload);
+    },
+    exchangeStarted: state => {
+      state.loading = true;
+    },
+    // Partial reply text, shown in a placeholder message while it streams
+    replyStreamed: {
+      reducer: (state, action: PayloadAction<{ id: string; text: string; timestamp: number }>) => {
+        const { id, text, timestamp } = action.payload;
+        state.loading = false;
+        state.isStreaming = true;
+
+        if (state.messages.entities[id]) {
+          state.messages.entities[id].text = text;
+        } else {
+          messagesAdapter.addOne(state.messages, { id, text, type: MessageType.Mentor, timestamp, isStreaming: true });
+        }
+      },
+      prepare: (id: string, text: string) => ({ payload: { id, text, timestamp: Date.now() } })
+    },
+    // Mark the user message with its delivery status and the ID the service
+    // assigned, and replace the streamed text with the final reply
+    exchangeCompleted: {
+      reducer: (
+        state,
+        action: PayloadAction<{ userMessageId: string; replyId: string; reply: MentorReply; timestamp: number }>
+      ) => {
+        const { userMessageId, replyId, reply, timestamp } = action.payload;
+        messagesAdapter.updateOne(state.messages, {
+          id: userMessageId,
+          changes: { id: reply.messageId || userMessageId, status: reply.status, error: reply.error }
+        });
+
+        // Nothing arrived before the user stopped the reply, or the message was not sent
+        if (!reply.response) {
+          messagesAdapter.removeOne(state.messages, replyId);
+          return;
+        }
+
+        const existing = state.messages.entities[replyId];
+        messagesAdapter.setOne(state.messages, {
+          id: replyId,
+          text: reply.response,
+          type: MessageType.Mentor,
+          timestamp: existing ? existing.timestamp : timestamp,
+          isStreaming: false
+        });
+      },
+      prepare: (userMessageId: string, replyId: string, reply: MentorReply) => ({
+        payload: { userMessageId, replyId, reply, timestamp: Date.now() + 1 }
+      })
+    },
+    exchangeEnded: state => {
+      state.loading = false;
+      state.isStreaming = false;
+    },
+    /**
+     * Show proposed actions as cards; nothing is applied until the user confirms
+     */
+    actionCardsAdded: {
+      reducer: (state, action: PayloadAction<MentorMessage[]>) => {
+        messagesAdapter.addMany(state.messages, action.payload);
+      },
+      prepare: (actions: AppAction[]) => ({
+        payload: actions.map((action, index): MentorMessage => ({
+          id: `msg_${Date.now() + 2 + index}`,
+          text: '',
+          type: MessageType.Action,
+          timestamp: Date.now() + 2 + index,
+          attachedData: { action, status: 'pending' } as ActionCardData
+        }))
+      })
+    },
+    /**
+     * Update the action card attached to a message
+     */
+    actionCardUpdated: (state, action: PayloadAction<{ messageId: string; changes: Partial<ActionCardData> }>) => {
+      const message = state.messages.entities[action.payload.messageId];
+      if (message?.type === MessageType.Action) {
+        message.attachedData = { ...message.attachedData, ...action.payload.changes };
+      }
+    },
+    /**
+     * Replace the payload of a proposed action before it is applied
+     */
+    actionEdited: (state, action: PayloadAction<{ messageId: string; action: AppAction }>) => {
+      const card: ActionCardData | undefined = state.messages.entities[action.payload.messageId]?.attachedData;
+      if (card?.status === 'pending') {
+        card.action = action.payload.action;
+      }
+    },
+    /**
+     * Reject a proposed action
+     */
+    actionDismissed: (state, action: PayloadAction<string>) => {
+      const card: ActionCardData | undefined = state.messages.entities[action.payload]?.attachedData;
+      if (card?.status === 'pending') {
+        card.status = 'dismissed';
+      }
+    }
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(loadMentor.pending, state => {
+        state.status = 'loading';
+      })
+      .addCase(loadMentor.fulfilled, (state, action) => {
+        state.status = 'succeeded';
+        state.personas = action.payload.personas;
+        messagesAdapter.setAll(state.messages, action.payload.messages);
+        state.selectedPersonaId = action.payload.personaId || state.selectedPersonaId;
+      })
+      .addCase(loadMentor.rejected, (state, action) => {
+        state.status = 'failed';
+        console.error('Failed to initialize mentor data:', action.error);
+      })
+      .addCase(loadConversation.fulfilled, (state, action) => {
+        messagesAdapter.setAll(state.messages, action.payload.messages);
+        state.selectedPersonaId = action.payload.personaId || state.selectedPersonaId;
+      })
+      .addCase(loadConversation.rejected, (_, action) => {
+        console.error('Failed to load conversation:', action.error);
+      })
+      .addCase(setMentorPersona.pending, state => {
+        state.loading = true;
+      })
+      .addCase(setMentorPersona.fulfilled, (state, action) => {
+        state.loading = false;
+        state.selectedPersonaId = action.meta.arg;
+        messagesAdapter.addMany(state.messages, action.payload);
+      })
+      .addCase(setMentorPersona.rejected, (state, action) => {
+        state.loading = false;
+        console.error('Error changing persona:', action.error);
+      })
+      .addCase(startNewConversation.pending, state => {
+        state.loading = true;
+      })
+      .addCase(startNewConversation.fulfilled, (state, action) => {
+        state.loading = false;
+        messagesAdapter.setAll(state.messages, action.payload);
+      })
+      .addCase(startNewConversation.rejected, (state, action) => {
+        state.loading = false;
+        console.error('Error starting new conversation:', action.error);
+      });
+  }
+});
+
+export const {
+  messageAdded,
+  messageUpdated,
+  actionCardsAdded,
+  actionEdited,
+  actionDismissed
+} = mentorSlice.actions;
+
+const {
+  exchangeStarted,
+  replyStreamed,
+  exchangeCompleted,
+  exchangeEnded,
+  actionCardUpdated
+} = mentorSlice.actions;
+
+/**
+ * Stream the mentor's reply to a user message into a placeholder message
+ * and mark the user message with its delivery status
+ */
+const runExchange = async (
+  dispatch: Dispatch,
+  userMessageId: string,
+  request: ReplyRequest,
+  signal: AbortSignal
+): Promise<void> => {
+  try {
+    dispatch(exchangeStarted());
+
+    const replyId = `msg_${Date.now() + 1}`;
+    const reply = await request(partialText => dispatch(replyStreamed(replyId, partialText)), signal);
+
+    dispatch(exchangeCompleted(userMessageId, replyId, reply));
+    if (reply.actions && reply.actions.length > 0) {
+      dispatch(actionCardsAdded(reply.actions));
+    }
+  } catch (error) {
+    console.error('Error sending message:', error);
+    dispatch(messageUpdated({
+      id: userMessageId,
+      changes: { status: 'failed', error: 'Произошла ошибка при обработке сообщения.' }
+    }));
+  } finally {
+    dispatch(exchangeEnded());
+  }
+};
+
+/**
+ * Send a message to the AI mentor. Aborting the dispatched thunk stops the
+ * reply, keeping the text received so far.
+ */
+export const sendMentorMessage = createAsyncThunk('mentor/send', async (text: string, { dispatch, signal }) => {
+  // Add user message to UI immediately
+  const userMessage: MentorMessage = {
+    id: `msg_${Date.now()}`,
+    text,
+    type: MessageType.User,
+    timestamp: Date.now(),
+    status: 'pending'
+  };
+  dispatch(messageAdded(userMessage));
+
+  await runExchange(
+    dispatch,
+    userMessage.id,
+    (onText, requestSignal) => aiCoreService.streamMessage(text, onText, requestSignal),
+    signal
+  );
+});
+
+/**
+ * Send a failed or queued message again
+ */
+export const retryMentorMessage = createAsyncThunk<void, string, { state: RootState }>(
+  'mentor/retry',
+  async (messageId, { dispatch, signal }) => {
+    dispatch(messageUpdated({ id: messageId, changes: { status: 'pending', error: undefined } }));
+    await runExchange(
+      dispatch,
+      messageId,
+      (onText, requestSignal) => aiCoreService.retryMessage(messageId, onText, requestSignal),
+      signal
+    );
+  },
+  {
+    condition: (_, { getState }) => !getState().mentor.isStreaming
+  }
+);
+
+/**
+ * Apply a proposed action
+ */
+export const applyMentorAction = createAsyncThunk<void, string, { state: RootState }>(
+  'mentor/applyAction',
+  async (messageId, { dispatch, getState }) => {
+    const card = findActionCard(getState(), messageId);
+    if (!card || card.status !== 'pending') return;
+
+    const result = await actionExecutor.execute(card.action);
+    dispatch(actionCardUpdated({
+      messageId,
+      changes: { status: result.success ? 'applied' : 'failed', result }
+    }));
+  }
+);
+
+/**
+ * Revert an applied action while its undo window is open
+ */
+export const undoMentorAction = createAsyncThunk<void, string, { state: RootState }>(
+  'mentor/undoAction',
+  async (messageId, { dispatch, getState }) => {
+    const card = findActionCard(getState(), messageId);
+    if (!card || card.status !== 'applied' || !card.result?.undoId) return;
+
+    const outcome = await actionExecutor.undo(card.result.undoId);
+    dispatch(actionCardUpdated({
+      messageId,
+      changes: outcome.success
+        ? { status: 'undone' }
+        : { result: { ...card.result, undoId: undefined, message: outcome.message } }
+    }));
+  }
+);
+
+export const {
+  selectAll: selectMentorMessages
+} = messagesAdapter.getSelectors((state: RootState) => state.mentor.messages);
+
+export default mentorSlice.reducer;
@@ -0,0 +1,56 @@
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+import { getUserSettings, setUserSettings } from '@/services/userSettings';
+import { UserSettings } from '@/types/app';
+import { LoadStatus } from '../persistence';
+import type { RootState } from '../store';
+
+// Настройки читают и сервисы вне React, поэтому хранит их userSettings,
+// а слайс только отражает сохранённое значение
+interface SettingsState {
+  value: UserSettings | null;
+  status: LoadStatus;
+}
+
+const initialState: SettingsState = {
+  value: null,
+  status: 'idle'
+};
+
+// Загрузка настроек пользователя
+export const loadSettings = createAsyncThunk('settings/load', () => getUserSettings());
+
+// Сохранение изменённых настроек
+export const updateSettings = createAsyncThunk('settings/update', async (update: Partial<UserSettings>) => {
+  await setUserSettings(update);
+  return getUserSettings();
+});
+
+const settingsSlice = createSlice({
+  name: 'settings',
+  initialState,
+  reducers: {},
+  extraReducers: builder => {
+    builder
+      .addCase(loadSettings.pending, state => {
+        state.status = 'loading';
+      })
+      .addCase(loadSettings.fulfilled, (state, action) => {
+        state.status = 'succeeded';
+        state.value = action.payload;
+      })
+      .addCase(loadSettings.rejected, (state, action) => {
+        state.status = 'failed';
+        console.error('Ошибка чтения настроек пользователя:', action.error);
+      })
+      .addCase(updateSettings.fulfilled, (state, action) => {
+        state.value = action.payload;
+      })
+      .addCase(updateSettings.rejected, (_, action) => {
+        console.error('Ошибка сохранения настроек пользователя:', action.error);
+      });
+  }
+});
+
+export const selectUserSettings = (state: RootState) => state.settings.value;
+
+export default settingsSlice.reducer;
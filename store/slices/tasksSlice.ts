@@ -0,0 +1,165 @@
+import { createAsyncThunk, createEntityAdapter, createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import { aiCoreService } from '@/services/ai/aiCoreService';
+import { getStorageEngine } from '@/services/repositories/storageEngine';
+import { Task } from '@/types/app';
+import { LoadStatus, persistRecords } from '../persistence';
+import type { RootState } from '../store';
+
+const tasksAdapter = createEntityAdapter<Task>();
+
+interface TasksState extends ReturnType<typeof tasksAdapter.getInitialState> {
+  status: LoadStatus;
+  generating: boolean;
+}
+
+const initialState: TasksState = tasksAdapter.getInitialState({
+  status: 'idle',
+  generating: false
+});
+
+// Новые задачи идут в начало списка
+const prependTasks = (state: TasksState, tasks: Task[]) => {
+  tasksAdapter.setAll(state, [...tasks, ...tasksAdapter.getSelectors().selectAll(state)]);
+};
+
+// Новая невыполненная задача
+const createTask = (taskData: Partial<Task>, id: string, now: string): Task => ({
+  id,
+  title: taskData.title || '',
+  description: taskData.description,
+  status: 'pending',
+  priority: taskData.priority || 'medium',
+  dueDate: taskData.dueDate,
+  category: taskData.category,
+  tags: taskData.tags || [],
+  related: taskData.related,
+  createdAt: now,
+  updatedAt: now
+});
+
+// Задачи на случай, если AI не предложил ни одной через систему команд
+const createFallbackTasks = (now: string): Task[] => [
+  createTask({
+    title: '[AI] Проанализировать продуктивность за неделю',
+    description: 'Оценить эффективность работы и выявить области для улучшения',
+    priority: 'medium',
+    category: 'Саморазвитие'
+  }, Date.now().toString() + '1', now),
+  createTask({
+    title: '[AI] Уделить 30 минут на изучение новой технологии',
+    description: 'Расширение профессиональных навыков',
+    priority: 'high',
+    category: 'Работа'
+  }, Date.now().toString() + '2', now),
+  createTask({
+    title: '[AI] Запланировать день восстановления',
+    description: 'Отдых и восстановление физических и умственных ресурсов',
+    priority: 'low',
+    category: 'Здоровье'
+  }, Date.now().toString() + '3', now)
+];
+
+// Загрузка задач из хранилища
+export const loadTasks = createAsyncThunk('tasks/load', () => getStorageEngine().tasks.getAll());
+
+// Генерация AI-рекомендаций по задачам
+export const generateAITasks = createAsyncThunk('tasks/generate', async (): Promise<Task[]> => {
+  const userMessage = "Проанализируй мои текущие задачи и привычки и предложи 3 новые задачи, которые помогут достичь моих целей эффективнее. Обрати внимание на существующие категории.";
+  const response = await aiCoreService.analyze(userMessage, 'goal_planning');
+
+  // Только действия по созданию задач
+  const now = new Date().toISOString();
+  const createTaskActions = response.actions.filter(action => action.type === 'CREATE_TASK');
+  if (createTaskActions.length === 0) {
+    return response.actions.length === 0 ? createFallbackTasks(now) : [];
+  }
+
+  return createTaskActions.map(action => createTask({
+    title: action.payload.title,
+    description: action.payload.description || '',
+    priority: action.payload.priority,
+    dueDate: action.payload.dueDate || undefined,
+    category: action.payload.category || undefined,
+    tags: action.payload.tags
+  }, Date.now().toString() + nanoid(4), now));
+});
+
+const tasksSlice = createSlice({
+  name: 'tasks',
+  initialState,
+  reducers: {
+    taskAdded: {
+      reducer: (state, action: PayloadAction<Task>) => {
+        prependTasks(state, [action.payload]);
+      },
+      prepare: (taskData: Partial<Task>) => ({
+        payload: createTask(taskData, Date.now().toString(), new Date().toISOString())
+      })
+    },
+    // Выполненная задача снова становится невыполненной, остальные — выполненными
+    taskToggled: {
+      reducer: (state, action: PayloadAction<{ id: string; now: string }>) => {
+        const task = state.entities[action.payload.id];
+        if (!task) return;
+
+        if (task.status === 'completed') {
+          task.status = 'pending';
+          delete task.completedAt;
+        } else {
+          task.status = 'completed';
+          task.completedAt = action.payload.now;
+        }
+        task.updatedAt = action.payload.now;
+      },
+      prepare: (id: string) => ({ payload: { id, now: new Date().toISOString() } })
+    },
+    taskEdited: {
+      reducer: (state, action: PayloadAction<Task>) => {
+        tasksAdapter.setOne(state, action.payload);
+      },
+      prepare: (task: Task) => ({ payload: { ...task, updatedAt: new Date().toISOString() } })
+    },
+    taskDeleted: tasksAdapter.removeOne
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(loadTasks.pending, state => {
+        state.status = 'loading';
+      })
+      .addCase(loadTasks.fulfilled, (state, action) => {
+        state.status = 'succeeded';
+        tasksAdapter.setAll(state, action.payload);
+      })
+      .addCase(loadTasks.rejected, (state, action) => {
+        state.status = 'failed';
+        console.error('Ошибка загрузки задач:', action.error);
+      })
+      .addCase(generateAITasks.pending, state => {
+        state.generating = true;
+      })
+      .addCase(generateAITasks.fulfilled, (state, action) => {
+        state.generating = false;
+        prependTasks(state, action.payload);
+      })
+      .addCase(generateAITasks.rejected, (state, action) => {
+        state.generating = false;
+        console.error('Ошибка генерации AI-задач:', action.error);
+      });
+  }
+});
+
+export const { taskAdded, taskToggled, taskEdited, taskDeleted } = tasksSlice.actions;
+
+export const {
+  selectAll: selectAllTasks,
+  selectById: selectTaskById
+} = tasksAdapter.getSelectors((state: RootState) => state.tasks);
+
+export const tasksPersistence = persistRecords(
+  'tasks',
+  state => state.tasks.entities,
+  state => state.tasks.status === 'succeeded',
+  () => getStorageEngine().tasks
+);
+
+export default tasksSlice.reducer;
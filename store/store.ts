@@ -1,19 +1,66 @@
-import { configureStore } from '@reduxjs/toolkit';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
+import { aiCoreService } from '@/services/ai/aiCoreService';
+import { appEvents } from '@/services/appEvents';
+import { createPersistenceMiddleware } from './persistence';
+import tasksReducer, { loadTasks, tasksPersistence } from './slices/tasksSlice';
+import habitsReducer, { habitsPersistence, loadHabits } from './slices/habitsSlice';
+import goalsReducer, { goalsPersistence, insightsPersistence, loadGoals } from './slices/goalsSlice';
+import journalReducer, { loadJournal } from './slices/journalSlice';
+import mentorReducer, { actionCardsAdded, loadConversation } from './slices/mentorSlice';
+import settingsReducer from './slices/settingsSlice';
 
-// В реальном приложении здесь бы были импортированы все слайсы
-// import mentorSlice from './slices/mentorSlice';
-// import strategicSlice from './slices/strategicSlice';
-// и т.д.
-
-// Пока создаем пустое хранилище
-export const store = configureStore({
-  reducer: {
-    // mentor: mentorSlice,
-    // strategic: strategicSlice,
-    // и т.д.
-  },
+const rootReducer = combineReducers({
+  tasks: tasksReducer,
+  habits: habitsReducer,
+  goals: goalsReducer,
+  journal: journalReducer,
+  mentor: mentorReducer,
+  settings: settingsReducer
 });
 
+// Создание хранилища; в тестах — отдельного для каждого теста
+export const setupStore = (preloadedState?: Partial<RootState>) =>
+  configureStore({
+    reducer: rootReducer,
+    preloadedState,
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware().concat(
+        createPersistenceMiddleware([tasksPersistence, habitsPersistence, goalsPersistence, insightsPersistence])
+      )
+  });
+
+export const store = setupStore();
+
+/**
+ * Подписка хранилища на изменения вне него: сервисы (например, ментор при
+ * применении действий) пишут в AsyncStorage напрямую и сообщают об этом
+ * через appEvents, а затронутые слайсы перечитываются
+ * @returns Функция, которая снимает подписки
+ */
+export function connectStore(appStore: AppStore): () => void {
+  const unsubscribeEvents = appEvents.subscribe(scopes => {
+    if (scopes.includes('tasks')) appStore.dispatch(loadTasks());
+    if (scopes.includes('habits')) appStore.dispatch(loadHabits());
+    if (scopes.includes('goals')) appStore.dispatch(loadGoals());
+    if (scopes.includes('journal')) appStore.dispatch(loadJournal());
+    if (scopes.includes('conversations')) appStore.dispatch(loadConversation());
+  });
+
+  // Ответы на сообщения, отправленные из очереди офлайн
+  const unsubscribeOutbox = aiCoreService.subscribeToOutbox(async reply => {
+    await appStore.dispatch(loadConversation());
+    if (reply.actions && reply.actions.length > 0) {
+      appStore.dispatch(actionCardsAdded(reply.actions));
+    }
+  });
+
+  return () => {
+    unsubscribeEvents();
+    unsubscribeOutbox();
+  };
+}
+
 // Типы для использования с useSelector и useDispatch
-export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
+export type RootState = ReturnType<typeof rootReducer>;
+export type AppStore = ReturnType<typeof setupStore>;
+export type AppDispatch = AppStore['dispatch'];
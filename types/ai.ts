@@ -15,9 +15,51 @@ export interface Message {
   role: MessageRole;
   content: string;
   timestamp: string;
+  status?: MessageDeliveryStatus; // User messages only; absent means sent
+  prompt?: PromptStamp; // Assistant replies: the system prompt they were generated with
   metadata?: Record<string, any>;
 }
 
+/**
+ * Delivery state of a user message: waiting in the offline outbox,
+ * answered, or failed and waiting for the user to retry
+ */
+export type MessageDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Chat memory used for retrieval: a single message, or a summary that
+ * replaced several consolidated messages of the conversation
+ */
+export interface MemoryItem {
+  id: string;
+  conversationId: string;
+  role: MessageRole;
+  content: string;
+  timestamp: string; // For summaries, the time of the newest source message
+  keywords: string[];
+  kind?: 'message' | 'summary'; // Missing on memories saved before consolidation
+  sources?: { id: string; timestamp: string }[]; // Messages a summary was written from
+  pinned?: boolean; // Pinned memories are always in the mentor's context
+  editedAt?: string; // Set when the user corrected the memory
+  prompt?: PromptStamp; // Set on summaries written by the model
+}
+
+/**
+ * Entry in the conversation index
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  titleSource: 'auto' | 'user'; // Titles set by the user are never regenerated
+  personaId: string;
+  startedAt: string;
+  endedAt?: string; // Set when the user switches away from the conversation
+  lastMessageAt: string;
+  messageCount: number;
+  archived: boolean;
+  prompt?: PromptStamp; // Set when the model wrote the title
+}
+
 /**
  * System intent parsed from AI responses
  */
@@ -66,20 +108,6 @@ export interface OnboardingResponse {
   answer: string | number | string[];
 }
 
-/**
- * Journal entry for reflection
- */
-export interface JournalEntry {
-  id: string;
-  title: string;
-  content: string;
-  timestamp: string;
-  tags: string[];
-  mood?: number; // Scale from 1-10
-  aiAnalysis?: string;
-  relatedGoals?: string[];
-}
-
 /**
  * AI-generated recommendation
  */
@@ -111,12 +139,15 @@ export interface AIInsight {
  */
 export interface MentorSession {
   id: string;
+  conversationId: string;
   startTime: string;
-  endTime?: string;
+  endTime?: string; // Set when the session is closed
+  lastActivityAt: string;
   personaId: string;
   summary?: string;
   keyInsights?: string[];
   actionsGenerated?: string[];
+  prompt?: PromptStamp; // Set when the model wrote the summary
 }
 
 /**
@@ -139,4 +170,173 @@ export interface AISettings {
     dataUsageConsent: boolean;
     anonymizePersonalInfo: boolean;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Supported LLM provider backends
+ */
+export type LLMProviderId = 'openai' | 'anthropic' | 'local' | 'fake';
+
+/**
+ * Subset of JSON Schema used to describe tool arguments
+ */
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Tool the model can call, declared with a JSON schema for its arguments
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+/**
+ * Tool call returned by the model
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  parseError?: string; // Set when the arguments were not valid JSON
+}
+
+/**
+ * Chat message in the provider-agnostic request format. Assistant messages may
+ * carry tool calls; 'tool' messages carry the result of one call.
+ */
+export interface LLMMessage {
+  role: MessageRole | 'tool';
+  content: string;
+  toolCalls?: LLMToolCall[];
+  toolCallId?: string;
+}
+
+/**
+ * Provider-agnostic completion request
+ */
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  model?: string; // Overrides the model from settings for a single call
+  tools?: LLMToolDefinition[];
+  signal?: AbortSignal; // Cancels the request, e.g. when the user stops a streamed reply
+  feature?: LLMFeature; // Tags the call in usage accounting; 'other' when omitted
+}
+
+/**
+ * Completion returned by an LLM provider
+ */
+export interface LLMResponse {
+  text: string;
+  model: string;
+  toolCalls?: LLMToolCall[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/**
+ * Settings that select and configure the active LLM provider
+ */
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  proxyUrl?: string; // LLM proxy server; when set, cloud providers are called through it
+  embeddingProvider?: EmbeddingProviderId; // Defaults to the offline local embedder
+  maxPromptTokens?: number; // Caps the assembled prompt to limit cost
+  requestTimeoutMs?: number; // Per attempt; for streams, the longest pause between chunks
+  maxRetries?: number; // Retries after rate limits, server errors and timeouts
+  monthlyCostCap?: number; // Estimated USD per month; only the mentor chat keeps working past it
+  featureCostCaps?: Partial<Record<LLMFeature, number>>; // Estimated USD per month for single features
+}
+
+/**
+ * App feature a model call is made for
+ */
+export type LLMFeature =
+  | 'mentor_chat'
+  | 'journal_analysis'
+  | 'profile_update'
+  | 'goal_planning'
+  | 'insights'
+  | 'memory'
+  | 'other';
+
+/**
+ * Languages prompt templates are written in
+ */
+export type PromptLocale = 'ru' | 'en';
+
+/**
+ * Identifies the prompt template version that produced a stored AI output,
+ * so outputs of different prompt versions can be compared
+ */
+export interface PromptStamp {
+  id: string;
+  version: number;
+  locale: PromptLocale;
+}
+
+/**
+ * Model usage of one feature with one model over a day. Cost is estimated
+ * from list prices; tokens are estimated when the provider does not report them.
+ */
+export interface LLMUsageRecord {
+  feature: LLMFeature;
+  model: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number; // Sum over all calls
+  cost: number; // USD
+}
+
+/**
+ * Model usage recorded on one day
+ */
+export interface DailyLLMUsage {
+  date: string; // YYYY-MM-DD, local time
+  records: LLMUsageRecord[];
+}
+
+/**
+ * Backends that can turn text into embedding vectors
+ */
+export type EmbeddingProviderId = 'local' | 'openai';
+
+/**
+ * Turns texts into vectors for semantic search. Vectors from different
+ * embedders are not comparable, so the id changes with the model.
+ */
+export interface Embedder {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly supportsTools: boolean; // Whether the backend has native tool calling
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  // Streams text deltas as they arrive and resolves with the full response
+  stream?(request: LLMRequest, onToken: (delta: string) => void): Promise<LLMResponse>;
+}
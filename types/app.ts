@@ -2,6 +2,8 @@
  * Types related to application functionality
  */
 
+import { PromptStamp } from './ai';
+
 /**
  * Actions that can be performed in the app
  */
@@ -46,6 +48,76 @@ export interface AppAction {
   payload: any;
 }
 
+/**
+ * Goal metric as the mentor proposes it, before it is tracked
+ */
+export type ProposedGoalMetric = Pick<GoalMetric, 'name' | 'target'> &
+  Partial<Pick<GoalMetric, 'current' | 'unit' | 'isPositive'>>;
+
+/**
+ * Payload of each action type, as the action interpreter builds it from the
+ * intent schemas in services/ai/intentTools.ts
+ */
+export interface AppActionPayloads {
+  CREATE_TASK: {
+    title: string;
+    description: string;
+    dueDate: string | null;
+    priority: TaskPriority;
+    category: string | null;
+    tags: string[];
+    status: TaskStatus;
+  };
+  UPDATE_TASK: {
+    id: string; // ID or title of the task
+    updates: Partial<Pick<Task, 'title' | 'description' | 'dueDate' | 'priority' | 'category' | 'tags' | 'status'>>;
+  };
+  DELETE_TASK: { id: string };
+  CREATE_GOAL: {
+    title: string;
+    description: string;
+    dueDate: string | null;
+    parentId: string | null;
+    status: GoalStatus;
+    tags: string[];
+    category: string | null;
+    metrics: ProposedGoalMetric[];
+  };
+  UPDATE_GOAL: {
+    id: string; // ID or title of the goal
+    updates: Partial<Pick<Goal, 'title' | 'description' | 'dueDate' | 'status' | 'progress' | 'tags' | 'category'>> & {
+      metrics?: ProposedGoalMetric[];
+    };
+  };
+  CREATE_HABIT: {
+    title: string;
+    description: string;
+    frequency: HabitFrequency;
+    timeOfDay: string | null;
+    category: string | null;
+    triggers: string[];
+    obstacles: string[];
+    strategies: string[];
+  };
+  COMPLETE_HABIT: { id: string; date: string };
+  NAVIGATE: { screen: string; params: Record<string, string> };
+  CREATE_REFLECTION: {
+    content: string;
+    title: string;
+    tags: string[];
+    mood: number | null;
+    relatedGoals: string[];
+  };
+  DISPLAY_MESSAGE: { message: string; type: MessageNotification['type']; duration: number };
+  TRACK_METRIC: {
+    name: string;
+    value: number | string; // Checked when the metric is recorded
+    timestamp: string;
+    category: string | null;
+    notes: string | null;
+  };
+}
+
 /**
  * Task structure
  */
@@ -82,10 +154,18 @@ export interface Goal {
   category?: string | null;
   tags?: string[];
   metrics?: GoalMetric[];
+  prompt?: PromptStamp; // Set on goals drafted by the AI
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Goal with its subgoals resolved, as the goal tree is displayed
+ */
+export type GoalNode = Omit<Goal, 'children'> & {
+  children: GoalNode[];
+};
+
 /**
  * Metric for tracking goal progress
  */
@@ -137,6 +217,7 @@ export interface Journal {
     insights: string[];
     sentiment: number; // -1 to 1
     keywords: string[];
+    prompt?: PromptStamp; // Template the analysis was generated with
   };
 }
 
@@ -196,4 +277,15 @@ export interface MessageNotification {
   message: string;
   type: 'info' | 'success' | 'warning' | 'error';
   duration: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Outcome of executing an app action
+ */
+export interface ActionResult {
+  action: AppAction;
+  success: boolean;
+  message: string;
+  undoId?: string; // Present while the action can still be reverted
+  undoExpiresAt?: string;
+}